@@ -18,6 +18,7 @@ CREATE TABLE user_settings (
   user_id         UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
   broker_config   JSONB,          -- non-sensitive configs (symbols, default TF, etc.)
   encrypted_keys  BYTEA,          -- encrypted blob containing API keys
+  config_overrides JSONB,         -- playbook/threshold overrides layered over config/*.json
   created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
   updated_at      TIMESTAMPTZ NOT NULL DEFAULT now()
 );
@@ -33,15 +34,54 @@ CREATE TABLE signals (
   primary_playbook TEXT,
   backup_playbook  TEXT,
   confidence      NUMERIC(5,2),
+  model_confidence NUMERIC(5,2),         -- confidence before recalibration (what fits map)
   grade           TEXT,                  -- A | B | C
   reasons         JSONB,                 -- array of strings
   risk_hints      JSONB,                 -- array of strings
   timeframe       TEXT NOT NULL,
   source          TEXT NOT NULL,         -- mt5 | tradingview | live-router | manual
   raw_context     JSONB,
+  evaluation_trace JSONB,                -- per-playbook condition/modifier trace
+  dedup_key       TEXT,                  -- live setups: symbol:timeframe:playbook:direction
+  state           TEXT,                  -- forming | armed | triggered | invalidated | expired
+  trade_plan      JSONB,                 -- entry, stop and targets (outcome tracking)
+  signal_time     TIMESTAMPTZ,           -- analysed bar time
+  outcome_checked_at TIMESTAMPTZ,        -- last outcome evaluation (pending signals)
   created_at      TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
+-- signal_transitions: Lifecycle state changes of live signals
+CREATE TABLE signal_transitions (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id         UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  signal_id       UUID NOT NULL REFERENCES signals(id) ON DELETE CASCADE,
+  dedup_key       TEXT NOT NULL,
+  from_state      TEXT,                  -- NULL when the setup opened
+  to_state        TEXT NOT NULL,
+  reason          TEXT,
+  price           NUMERIC,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- signal_outcomes: What price did after a signal (stop vs target, excursions)
+CREATE TABLE signal_outcomes (
+  signal_id       UUID PRIMARY KEY REFERENCES signals(id) ON DELETE CASCADE,
+  user_id         UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  result          TEXT NOT NULL,         -- target | stop | expired | unfilled | unavailable
+  target          TEXT,                  -- label of the target hit
+  filled_at       TIMESTAMPTZ,
+  exit_price      NUMERIC,
+  exit_at         TIMESTAMPTZ,           -- null when unavailable (no candles back to the signal)
+  r_achieved      NUMERIC(10,4),
+  mfe             NUMERIC,
+  mae             NUMERIC,
+  mfe_r           NUMERIC(10,4),
+  mae_r           NUMERIC(10,4),
+  bars_to_outcome INT,
+  time_to_outcome INTERVAL,
+  evaluated_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
 -- trades: Journal entries for actual trades
 CREATE TABLE trades (
   user_id         UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
@@ -64,6 +104,132 @@ CREATE TABLE trades (
   created_at      TIMESTAMPTZ NOT NULL DEFAULT now()
 );
 
+-- watchlists: Saved scanner symbol lists (optionally scanned at every candle close)
+CREATE TABLE watchlists (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id         UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name            TEXT NOT NULL,
+  timeframe       TEXT NOT NULL,
+  targets         JSONB NOT NULL,        -- [{ symbol, provider }]
+  scheduled       BOOLEAN NOT NULL DEFAULT false,
+  last_scan_at    TIMESTAMPTZ,
+  last_result     JSONB,                 -- latest ranked scan
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- alert_rules: Per-user signal filters and the channels matches are delivered to
+CREATE TABLE alert_rules (
+  id               UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id          UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name             TEXT NOT NULL,
+  enabled          BOOLEAN NOT NULL DEFAULT true,
+  conditions       JSONB NOT NULL,       -- symbols, playbooks, sessions, minGrade, ...
+  channels         JSONB NOT NULL,       -- [{ type: webhook | email | chat, ... }]
+  cooldown_minutes INT,                  -- NULL = alerts.cooldownMinutes
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- alert_deliveries: Delivery log (one row per rule, signal and channel)
+CREATE TABLE alert_deliveries (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id         UUID NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+  user_id         UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  channel         TEXT NOT NULL,         -- webhook | email | chat
+  target          TEXT NOT NULL,         -- webhook origin or recipients
+  status          TEXT NOT NULL,         -- sent | failed
+  attempts        INT NOT NULL,
+  response_status INT,                   -- HTTP status / SMTP reply code
+  detail          TEXT,
+  dedup_key       TEXT NOT NULL,         -- symbol:timeframe:playbook:direction
+  payload         JSONB,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- risk_rules: Per-user pre-trade risk limits (checked before journaling or executing)
+CREATE TABLE risk_rules (
+  user_id          UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  rules            JSONB NOT NULL,           -- maxRiskPercent, maxDailyTrades, tradingHours, ...
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- paper_accounts: Per-user paper trading account fed by live stream signals
+CREATE TABLE paper_accounts (
+  user_id          UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  enabled          BOOLEAN NOT NULL DEFAULT true,
+  currency         TEXT NOT NULL,
+  starting_balance NUMERIC(18,2) NOT NULL,
+  risk_percent     NUMERIC(6,3) NOT NULL,    -- % of equity risked per setup
+  filters          JSONB NOT NULL,           -- alert rule conditions (minGrade, playbooks, ...)
+  balance          NUMERIC(18,2) NOT NULL,   -- starting balance + realized P&L
+  equity           NUMERIC(18,2) NOT NULL,   -- balance + unrealized P&L
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- paper_orders: Orders placed for a paper account (one per target leg)
+CREATE TABLE paper_orders (
+  id               TEXT PRIMARY KEY,
+  user_id          UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  client_order_id  TEXT NOT NULL,
+  setup_key        TEXT NOT NULL,            -- symbol:timeframe:playbook:direction
+  timeframe        TEXT NOT NULL,
+  playbook         TEXT NOT NULL,
+  symbol           TEXT NOT NULL,
+  side             TEXT NOT NULL,            -- buy | sell
+  type             TEXT NOT NULL,            -- market | limit | stop
+  quantity         NUMERIC(24,8) NOT NULL,
+  price            NUMERIC(18,8),
+  stop_loss        NUMERIC(18,8),
+  take_profit      NUMERIC(18,8),
+  status           TEXT NOT NULL,            -- open | filled | cancelled | rejected
+  filled_price     NUMERIC(18,8),
+  reason           TEXT,
+  placed_at        TIMESTAMPTZ,              -- candle the order was placed on (fills start after it)
+  created_at       TIMESTAMPTZ NOT NULL,
+  updated_at       TIMESTAMPTZ NOT NULL,
+  UNIQUE (user_id, client_order_id)
+);
+
+-- paper_positions: Positions opened by filled paper orders
+CREATE TABLE paper_positions (
+  id               TEXT PRIMARY KEY,
+  user_id          UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  order_id         TEXT NOT NULL REFERENCES paper_orders(id) ON DELETE CASCADE,
+  symbol           TEXT NOT NULL,
+  direction        TEXT NOT NULL,            -- long | short
+  quantity         NUMERIC(24,8) NOT NULL,
+  entry_price      NUMERIC(18,8) NOT NULL,
+  stop_loss        NUMERIC(18,8),
+  take_profit      NUMERIC(18,8),
+  mark_price       NUMERIC(18,8) NOT NULL,
+  unrealized_pnl   NUMERIC(18,2) NOT NULL DEFAULT 0,
+  status           TEXT NOT NULL,            -- open | closed
+  exit_price       NUMERIC(18,8),
+  exit_reason      TEXT,                     -- stop | target
+  realized_pnl     NUMERIC(18,2),
+  opened_at        TIMESTAMPTZ NOT NULL,
+  placed_at        TIMESTAMPTZ,              -- candle its entry order was placed on
+  closed_at        TIMESTAMPTZ
+);
+
+-- paper_fills: Entry and exit fills of paper positions
+CREATE TABLE paper_fills (
+  id               TEXT PRIMARY KEY,
+  user_id          UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  order_id         TEXT NOT NULL REFERENCES paper_orders(id) ON DELETE CASCADE,
+  position_id      TEXT NOT NULL,
+  symbol           TEXT NOT NULL,
+  side             TEXT NOT NULL,
+  kind             TEXT NOT NULL,            -- entry | stop | target
+  quantity         NUMERIC(24,8) NOT NULL,
+  price            NUMERIC(18,8) NOT NULL,
+  pnl              NUMERIC(18,2),            -- exits only
+  balance          NUMERIC(18,2) NOT NULL,   -- account balance after the fill
+  time             TIMESTAMPTZ NOT NULL      -- candle time
+);
+
 -- trade_tags: Dictionary of available tags
 CREATE TABLE trade_tags (
   id        SERIAL PRIMARY KEY,
@@ -85,6 +251,21 @@ CREATE INDEX idx_signals_symbol ON signals(symbol);
 CREATE INDEX idx_signals_playbook ON signals(playbook);
 CREATE INDEX idx_signals_source ON signals(source);
 CREATE INDEX idx_signals_created_at ON signals(created_at DESC);
+CREATE INDEX idx_signals_dedup_key ON signals(user_id, dedup_key);
+
+CREATE INDEX idx_signal_transitions_signal_id ON signal_transitions(signal_id);
+
+CREATE INDEX idx_signal_outcomes_user_id ON signal_outcomes(user_id);
+
+CREATE INDEX idx_watchlists_user_id ON watchlists(user_id);
+
+CREATE INDEX idx_alert_rules_user_id ON alert_rules(user_id);
+CREATE INDEX idx_alert_deliveries_user_id ON alert_deliveries(user_id, created_at DESC);
+CREATE INDEX idx_alert_deliveries_rule_key ON alert_deliveries(rule_id, dedup_key);
+
+CREATE INDEX idx_paper_orders_user_status ON paper_orders(user_id, status);
+CREATE INDEX idx_paper_positions_user_status ON paper_positions(user_id, status);
+CREATE INDEX idx_paper_fills_user_time ON paper_fills(user_id, time DESC);
 
 CREATE INDEX idx_trades_user_id ON trades(user_id);
 CREATE INDEX idx_trades_symbol ON trades(symbol);
@@ -18,6 +18,7 @@ export default function CandleUploader() {
   const htfCandles = useAgentStore((s) => s.htfCandles);
   const candles4H = useAgentStore((s) => s.candles4H);
   const settings = useAgentStore((s) => s.settings);
+  const risk = useAgentStore((s) => s.risk);
   const setLoading = useAgentStore((s) => s.setLoading);
   const setError = useAgentStore((s) => s.setError);
 
@@ -36,6 +37,7 @@ export default function CandleUploader() {
       symbol,
       candles,
       overrideConfig: settings,
+      rrTargets: risk.rrTargets,
     };
 
     if (pdh) payload.pdh = Number(pdh);
@@ -58,7 +58,7 @@ export default function Chart() {
     candleSeries.setData(formatted);
 
     if (result?.tradePlan?.overlays && view === 'EXEC') {
-      drawOverlays(chart, candleSeries, formatted, result.tradePlan.overlays);
+      drawOverlays(chart, candleSeries, result.tradePlan.overlays);
     }
 
     const handleResize = () => {
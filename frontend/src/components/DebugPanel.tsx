@@ -1,5 +1,48 @@
 import React from 'react';
 import { useAgentStore } from '../store/useAgentStore';
+import type { PlaybookTrace } from '../lib/types';
+
+function formatValues(values?: Record<string, unknown>) {
+  if (!values) return '';
+  return Object.entries(values)
+    .map(([k, v]) => `${k}=${String(v)}`)
+    .join(', ');
+}
+
+function TraceBlock({ trace }: { trace: PlaybookTrace }) {
+  const status = !trace.enabled
+    ? 'disabled'
+    : trace.passed
+      ? `passed @ ${trace.confidence}%`
+      : `rejected by ${trace.rejectedBy}`;
+
+  return (
+    <div className="bg-black p-3 rounded text-xs space-y-1">
+      <div className="flex justify-between">
+        <span className="font-semibold">{trace.playbook}</span>
+        <span className={trace.passed ? 'text-green-300' : 'text-gray-400'}>{status}</span>
+      </div>
+      {trace.conditions.map((c) => (
+        <div key={c.id} className={c.passed ? 'text-green-300' : 'text-red-300'}>
+          {c.passed ? '✓' : '✗'} {c.label}: {c.message}
+          <div className="text-gray-500 pl-4">
+            observed: {formatValues(c.observed)}
+            {c.threshold && <> · required: {formatValues(c.threshold)}</>}
+          </div>
+        </div>
+      ))}
+      {trace.modifiers.length > 0 && (
+        <div className="text-gray-400">
+          base {trace.baseConfidence}%
+          {trace.modifiers
+            .filter((m) => m.applied)
+            .map((m) => ` · +${m.delta} ${m.label}`)
+            .join('')}
+        </div>
+      )}
+    </div>
+  );
+}
 
 export default function DebugPanel() {
   const result = useAgentStore((s) => s.result);
@@ -58,6 +101,18 @@ export default function DebugPanel() {
         </div>
       )}
 
+      {/* Playbook Evaluation Trace */}
+      {result.trace && result.trace.length > 0 && (
+        <div>
+          <h3 className="font-semibold mb-2">Playbook Evaluation Trace</h3>
+          <div className="space-y-2 max-h-96 overflow-auto">
+            {result.trace.map((t) => (
+              <TraceBlock key={t.playbook} trace={t} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Classifier Signals */}
       {result.classification && (
         <div>
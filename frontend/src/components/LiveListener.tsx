@@ -7,6 +7,14 @@ export default function LiveListener() {
   const setResult = useAgentStore((s) => s.setResult);
 
   useEffect(() => {
+    // Live events go to every client: keep only the stream this chart shows
+    const isShown = (msg: any) => {
+      const { liveStream } = useAgentStore.getState();
+      return (
+        !!liveStream && msg.symbol === liveStream.symbol && msg.timeframe === liveStream.timeframe
+      );
+    };
+
     const socket = io('/', {
       path: '/socket.io',
       transports: ['websocket'],
@@ -18,6 +26,7 @@ export default function LiveListener() {
 
     socket.on('liveCandleBatch', (msg: any) => {
       console.log('📦 Live candle batch received:', msg);
+      if (!isShown(msg)) return;
       const { candles, symbol, timeframe, instrument } = msg;
       if (candles && candles.length) {
         setExecutionCandles(
@@ -29,12 +38,22 @@ export default function LiveListener() {
     });
 
     socket.on('liveCandle', (msg: any) => {
-      // Individual candle updates - liveAnalysis also carries full candles array
-      console.log('📡 Live candle:', msg);
+      // Individual candle updates - liveAnalysis is only sent on signal transitions
+      const { candle, timeframe } = msg;
+      if (!candle || !isShown(msg)) return;
+
+      const { candles, instrument } = useAgentStore.getState();
+      const last = candles[candles.length - 1];
+      const next =
+        last && last.time === candle.time
+          ? [...candles.slice(0, -1), candle]
+          : [...candles, candle].slice(-500);
+      setExecutionCandles(next, instrument, timeframe || '15m');
     });
 
     socket.on('liveAnalysis', (msg: any) => {
       console.log('📡 Live analysis received:', msg);
+      if (!isShown(msg)) return;
 
       const { symbol, instrument, timeframe, candles, result } = msg;
 
@@ -25,14 +25,18 @@ export default function LiveMarketPanel() {
   const [isActive, setIsActive] = useState(false);
   const setError = useAgentStore((s) => s.setError);
   const setLoading = useAgentStore((s) => s.setLoading);
+  const setLiveStream = useAgentStore((s) => s.setLiveStream);
 
   async function start() {
     try {
       setLoading(true);
       setError(null);
+      // Set first: the stream's candle batch arrives before the response
+      setLiveStream({ symbol, timeframe });
       await postJSON('/data/live/start', { provider, symbol, timeframe });
       setIsActive(true);
     } catch (err: any) {
+      setLiveStream(null);
       setError(err.message || 'Failed to start live stream');
     } finally {
       setLoading(false);
@@ -45,6 +49,7 @@ export default function LiveMarketPanel() {
       setError(null);
       await postJSON('/data/live/stop', { provider, symbol, timeframe });
       setIsActive(false);
+      setLiveStream(null);
     } catch (err: any) {
       setError(err.message || 'Failed to stop live stream');
     } finally {
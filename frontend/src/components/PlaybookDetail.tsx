@@ -17,6 +17,7 @@ function BoolPill({ label, value }: { label: string; value?: boolean }) {
 
 export default function PlaybookDetail() {
   const result = useAgentStore((s) => s.result);
+  const settings = useAgentStore((s) => s.settings);
   const ctx = result?.context;
   const plan = result?.tradePlan;
 
@@ -30,6 +31,11 @@ export default function PlaybookDetail() {
   }
 
   const pb = plan.playbook;
+  // Share of the average daily range already used (null without ADR history)
+  const adrUsed: number | null = ctx.ranges?.adrUsedPct ?? null;
+  // Scoring mode names the primary playbook; priority mode stops at the first pass
+  const primaryKey = result?.classification?.primary;
+  const trace = result?.trace?.find((t) => (primaryKey ? t.playbook === primaryKey : t.passed));
 
   return (
     <div className="p-4 bg-[#11131a] rounded h-full">
@@ -49,7 +55,10 @@ export default function PlaybookDetail() {
             <BoolPill label="MMM structure" value={ctx.hasMMMStructure} />
             <BoolPill label="Breaker displacement" value={ctx.hasBreakerDisplacement} />
             <BoolPill label="OTE available" value={ctx.hasOTEZoneAvailable} />
-            <BoolPill label="ADR OK" value={ctx.adrIsValidForSetup} />
+            <BoolPill
+              label={adrUsed === null ? 'ADR n/a' : `ADR ${Math.round(adrUsed * 100)}% used`}
+              value={adrUsed !== null && adrUsed <= settings.NBB.adrMaxPct}
+            />
             <BoolPill label="Near PD Array" value={ctx.nearPDArray} />
           </div>
         </div>
@@ -104,6 +113,15 @@ export default function PlaybookDetail() {
           Selected playbook: <b>{pb}</b>. No custom visual yet, but you can still inspect the raw trade plan.
         </p>
       )}
+
+      {trace && (
+        <div className="mt-4">
+          <h3 className="text-sm font-semibold mb-2">Conditions</h3>
+          {trace.conditions.map((c) => (
+            <BoolPill key={c.id} label={c.label} value={c.passed} />
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -8,6 +8,7 @@ export default function ReplayController() {
   const timeframe = useAgentStore((s) => s.timeframe);
   const setResult = useAgentStore((s) => s.setResult);
   const settings = useAgentStore((s) => s.settings);
+  const risk = useAgentStore((s) => s.risk);
   const setLoading = useAgentStore((s) => s.setLoading);
   const setError = useAgentStore((s) => s.setError);
 
@@ -29,6 +30,7 @@ export default function ReplayController() {
         timeframe,
         candles: slice,
         overrideConfig: settings,
+        rrTargets: risk.rrTargets,
       });
 
       setIndex(i);
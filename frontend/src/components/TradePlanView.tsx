@@ -1,19 +1,22 @@
 import React from 'react';
 import { useAgentStore } from '../store/useAgentStore';
 
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <span className="text-gray-400 mr-1">{label}:</span>
+      <span>{children}</span>
+    </div>
+  );
+}
+
 export default function TradePlanView() {
   const result = useAgentStore((s) => s.result);
   const plan = result?.tradePlan;
 
-  const primary = result?.classification?.primary;
-  const bias = plan?.bias;
-  const session = plan?.session;
-
-  const entryType = plan?.entry?.type;
-  const entryDesc = plan?.entry?.description || plan?.entry?.actionLine;
-
-  const targetDesc = plan?.target?.description;
-  const stopDesc = plan?.stop?.description;
+  const entry = plan?.entry;
+  const stop = plan?.stop;
+  const targets = plan?.targets || [];
   const invalidations: string[] = plan?.invalidations || [];
 
   return (
@@ -23,39 +26,48 @@ export default function TradePlanView() {
       {plan && (
         <>
           <div className="mb-4 space-y-1 text-sm">
-            <div>
-              <span className="text-gray-400 mr-1">Playbook:</span>
+            <Row label="Playbook">
               <span className="font-semibold">{plan.playbook}</span>
-            </div>
-            <div>
-              <span className="text-gray-400 mr-1">Bias:</span>
-              <span>{bias}</span>
-            </div>
-            <div>
-              <span className="text-gray-400 mr-1">Session:</span>
-              <span>{session}</span>
-            </div>
-            <div>
-              <span className="text-gray-400 mr-1">Entry Type:</span>
-              <span>{entryType}</span>
-            </div>
-            {entryDesc && (
-              <div>
-                <span className="text-gray-400 mr-1">Entry:</span>
-                <span>{entryDesc}</span>
-              </div>
+            </Row>
+            <Row label="Direction">{plan.direction}</Row>
+            <Row label="Session">{plan.session}</Row>
+            {entry && (
+              <Row label={`Entry (${entry.type})`}>
+                <span className="font-mono">{entry.price}</span>
+                <span className="text-xs text-gray-400 ml-2">{entry.description}</span>
+              </Row>
             )}
-            {targetDesc && (
-              <div>
-                <span className="text-gray-400 mr-1">Target:</span>
-                <span>{targetDesc}</span>
-              </div>
+            {stop && (
+              <Row label="Stop">
+                <span className="font-mono text-red-300">{stop.price}</span>
+                <span className="text-xs text-gray-400 ml-2">{stop.description}</span>
+              </Row>
             )}
-            {stopDesc && (
-              <div>
-                <span className="text-gray-400 mr-1">Stop:</span>
-                <span>{stopDesc}</span>
-              </div>
+            {plan.risk !== null && (
+              <Row label="Risk">
+                <span className="font-mono">{plan.risk}</span>
+              </Row>
+            )}
+            {!entry && plan.tpLogic && <Row label="Target">{plan.tpLogic}</Row>}
+            {targets.length > 0 && (
+              <table className="mt-2 text-xs w-full">
+                <thead>
+                  <tr className="text-gray-400 text-left">
+                    <th className="font-normal">Target</th>
+                    <th className="font-normal">Price</th>
+                    <th className="font-normal">R:R</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {targets.map((t, i) => (
+                    <tr key={i} className={t.source === 'liquidity' ? 'text-green-300' : ''}>
+                      <td>{t.label}</td>
+                      <td className="font-mono">{t.price}</td>
+                      <td className="font-mono">{t.rr.toFixed(2)}R</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             )}
             {invalidations.length > 0 && (
               <div className="mt-1">
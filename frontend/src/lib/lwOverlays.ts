@@ -1,43 +1,101 @@
-// Helper: crude session classification by UTC hour
-function getSessionFromTime(timeSec: number): 'ASIAN' | 'LONDON' | 'NEW_YORK' | 'OTHER' {
-  const d = new Date(timeSec * 1000);
-  const h = d.getUTCHours();
-
-  if (h >= 0 && h < 8) return 'ASIAN';
-  if (h >= 8 && h < 12) return 'LONDON';
-  if (h >= 12 && h < 17) return 'NEW_YORK';
-  return 'OTHER';
+import { ChartOverlays, ChartZone } from './types';
+
+// Session/kill-zone markers come from the server's session calendar
+// (config/sessions.json, DST-aware) via overlays.sessions
+const SESSION_STYLES: Record<string, { color: string; text: string }> = {
+  asian: { color: '#22c55e', text: 'A' },
+  london: { color: '#facc15', text: 'L' },
+  ny: { color: '#38bdf8', text: 'NY' },
+};
+
+const WINDOW_TEXT: Record<string, string> = {
+  asianRange: 'AR',
+  londonOpen: 'LO',
+  nyAmKillZone: 'KZ',
+  nyLunch: 'LN',
+  pmSession: 'PM',
+  nyLate: 'LATE',
+};
+
+function buildSessionMarkers(sessions: any[] = []) {
+  return sessions.map((m) => {
+    const style = SESSION_STYLES[m.session] || SESSION_STYLES.asian;
+    const windowText = (m.windows || []).map((w: string) => WINDOW_TEXT[w] || w).join('/');
+
+    return {
+      time: m.time,
+      position: 'belowBar',
+      color: style.color,
+      shape: 'arrowUp',
+      text: windowText || style.text,
+    };
+  });
 }
 
-function buildSessionMarkers(candles: any[]) {
-  const markers: any[] = [];
-  let lastSession: string | null = null;
-
-  candles.forEach((c, i) => {
-    const session = getSessionFromTime(c.time);
-    if (session === 'OTHER') return;
-
-    if (session !== lastSession) {
-      markers.push({
-        time: c.time,
-        position: 'belowBar',
-        color:
-          session === 'ASIAN'
-            ? '#22c55e'
-            : session === 'LONDON'
-            ? '#facc15'
-            : '#38bdf8',
-        shape: 'arrowUp',
-        text: session === 'ASIAN' ? 'A' : session === 'LONDON' ? 'L' : 'NY',
-      });
-      lastSession = session;
-    }
-  });
+// Horizontal segment between two candle times
+function drawSegment(chart: any, from: number, to: number, price: number, options: any) {
+  const data =
+    from === to
+      ? [{ time: from, value: price }]
+      : [
+          { time: from, value: price },
+          { time: to, value: price },
+        ];
+
+  chart
+    .addLineSeries({ lineWidth: 1, priceLineVisible: false, lastValueVisible: false, ...options })
+    .setData(data);
+}
 
-  return markers;
+// Zone = top and bottom edge of the box
+function drawZone(chart: any, zone: ChartZone, color: string) {
+  drawSegment(chart, zone.from, zone.to, zone.high, { color, lineStyle: 2 });
+  drawSegment(chart, zone.from, zone.to, zone.low, { color, lineStyle: 2 });
 }
 
-export function drawOverlays(chart: any, candleSeries: any, candles: any[], overlays: any) {
+const PLAN_COLORS: Record<string, string> = {
+  entry: '#38bdf8',
+  stop: '#ff6464',
+  target: '#00ff99',
+};
+
+/**
+ * Draw the server's overlay document (tradePlan.overlays)
+ * Every time is a candle time in unix seconds, as in the candle series.
+ */
+export function drawOverlays(chart: any, candleSeries: any, overlays: ChartOverlays) {
+  // ---- LIQUIDITY POOLS (swept = red) ----
+  (overlays.liquidity || []).forEach((pool) => {
+    const color = pool.swept ? 'rgba(255, 80, 80, 0.9)' : 'rgba(200, 200, 200, 0.5)';
+    drawSegment(chart, pool.time, overlays.to ?? pool.time, pool.price, { color, lineStyle: 3 });
+  });
+
+  // ---- ORDER BLOCKS ----
+  (overlays.orderBlocks || []).forEach((block) => {
+    const base = block.direction === 'bullish' ? '0, 200, 255' : '255, 120, 0';
+    drawZone(chart, block, `rgba(${base}, ${block.atPrice ? 0.9 : 0.35})`);
+  });
+
+  // ---- FVG ZONES ----
+  (overlays.fvg || []).forEach((fvg) => drawZone(chart, fvg, 'rgba(255, 165, 0, 0.8)'));
+
+  // ---- PO3 EQUILIBRIUM ----
+  if (overlays.po3) {
+    const { from, to, equilibrium } = overlays.po3;
+    drawSegment(chart, from, to, equilibrium, { color: 'rgba(255, 255, 255, 0.6)', lineStyle: 1 });
+  }
+
+  // ---- OTE FIB LEVELS ----
+  if (overlays.ote) {
+    const { from, to, levels, active } = overlays.ote;
+    levels.forEach((level) =>
+      drawSegment(chart, from, to, level.price, {
+        color: active ? 'rgba(168, 85, 247, 0.9)' : 'rgba(168, 85, 247, 0.4)',
+        lineStyle: 2,
+      })
+    );
+  }
+
   // ---- TRENDLINE ----
   if (overlays.trendline) {
     const { p1, p2 } = overlays.trendline;
@@ -48,98 +106,24 @@ export function drawOverlays(chart: any, candleSeries: any, candles: any[], over
         lineWidth: 2,
       })
       .setData([
-        { time: candles[p1.index].time, value: p1.price },
-        { time: candles[p2.index].time, value: p2.price },
+        { time: p1.time, value: p1.price },
+        { time: p2.time, value: p2.price },
       ]);
   }
 
-  // ---- BREAKER BLOCK ----
-  if (overlays.breaker) {
-    const { from, to } = overlays.breaker;
-
-    const boxSeries = chart.addHistogramSeries({
-      color: 'rgba(0, 200, 255, 0.15)',
-      priceFormat: { type: 'price' },
-    });
-
-    const boxData = candles.map((c) => ({
-      time: c.time,
-      value: to,
-    }));
-
-    boxSeries.setData(boxData);
-  }
-
-  // ---- FVG ZONES ----
-  if (overlays.fvg) {
-    overlays.fvg.forEach((fvg: any) => {
-      const box = chart.addHistogramSeries({
-        color: 'rgba(255, 165, 0, 0.15)',
-      });
-
-      box.setData(
-        candles.map((c, i) =>
-          i === fvg.index ? { time: c.time, value: fvg.to } : { time: c.time, value: null }
-        )
-      );
-    });
-  }
-
-  // ---- IMBALANCE ZONES ----
-  if (overlays.imbalanceZones) {
-    overlays.imbalanceZones.forEach((z: any) => {
-      const box = chart.addHistogramSeries({
-        color: 'rgba(255, 0, 200, 0.15)',
-      });
-
-      box.setData(
-        candles.map((c, i) =>
-          i === z.index ? { time: c.time, value: z.to } : { time: c.time, value: null }
-        )
-      );
-    });
-  }
-
-  // ---- LIQUIDITY SWEEPS ----
-  if (overlays.liquiditySweeps) {
-    const sweepSeries = chart.addLineSeries({
-      color: 'rgba(255, 0, 0, 0.9)',
+  // ---- TRADE PLAN LEVELS ----
+  (overlays.planLevels || []).forEach((level) => {
+    candleSeries.createPriceLine({
+      price: level.price,
+      color: PLAN_COLORS[level.kind],
       lineWidth: 1,
-      lineStyle: 2,
+      lineStyle: level.kind === 'target' ? 2 : 0,
+      axisLabelVisible: true,
+      title: level.label,
     });
-
-    overlays.liquiditySweeps.forEach((sweep: any) => {
-      const c = candles[sweep.index];
-      if (!c) return;
-
-      sweepSeries.update({
-        time: c.time,
-        value: sweep.price,
-      });
-    });
-  }
-
-  // ---- MSS EVENTS ----
-  if (overlays.mss) {
-    overlays.mss.forEach((mss: any) => {
-      const c = candles[mss.index];
-      if (!c) return;
-
-      const color = mss.direction === 'bearish' ? '#ff4444' : '#44ff44';
-
-      chart
-        .addLineSeries({
-          color,
-          lineWidth: 2,
-        })
-        .setData([
-          { time: c.time, value: c.high },
-          { time: c.time, value: c.low },
-        ]);
-    });
-  }
+  });
 
   // ---- SESSION MARKERS ----
-  const sessionMarkers = buildSessionMarkers(candles);
+  const sessionMarkers = buildSessionMarkers(overlays.sessions);
   candleSeries.setMarkers(sessionMarkers);
 }
@@ -35,16 +35,152 @@ export interface FlowrexSignal {
   // Signal reasoning
   reasons: string[]; // Short bullet list of why this signal was generated
   riskHints: string[]; // Warnings/cautions (ADR stretched, late session, etc.)
+  confidenceBreakdown?: {
+    playbookConfidence: number;
+    sessionWeight: number;
+    confluence: number; // 0-1 weighted detector confluence
+    confluenceDelta: number;
+    detectors: { id: string; label: string; weight: number; active: boolean }[];
+    adjustments: { factor: string; delta: number }[];
+    uncalibrated: number | null; // before recalibration (null when off)
+    confidence: number;
+    grade: SignalGrade;
+  };
 
   // Metadata
   createdAt: string;
 }
 
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * TRADE PLAN
+ * ═══════════════════════════════════════════════════════════════
+ * Entry, stop and targets for the primary playbook (mirrors backend tradePlan.ts)
+ */
+export interface TradePlanTarget {
+  label: string; // e.g. "PDH", "2R"
+  price: number;
+  rr: number;
+  source: 'liquidity' | 'rr';
+}
+
+export interface TradePlan {
+  playbook: string;
+  direction: string;
+  session: string;
+  confidence: number;
+  context: string;
+  tpLogic: string;
+  entry: {
+    type: 'market' | 'limit';
+    price: number;
+    zone: { high: number; low: number } | null;
+    source: string;
+    description: string;
+  } | null;
+  stop: { price: number; level: number; source: string; description: string } | null;
+  risk: number | null; // |entry − stop| in price units
+  targets: TradePlanTarget[];
+  invalidation: { price: number; rule: string } | null;
+  invalidations: string[];
+  overlays: ChartOverlays;
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * CHART OVERLAYS
+ * ═══════════════════════════════════════════════════════════════
+ * Detector geometry in candle-time coordinates (unix seconds, mirrors backend overlays.ts)
+ */
+export interface ChartPoint {
+  time: number;
+  price: number;
+}
+
+export interface ChartZone {
+  from: number;
+  to: number;
+  high: number;
+  low: number;
+  direction: 'bullish' | 'bearish';
+}
+
+export interface ChartOverlays {
+  timeframe: string | null;
+  to: number | null; // last candle
+  liquidity: (ChartPoint & { side: 'high' | 'low'; swept: boolean })[];
+  orderBlocks: (ChartZone & { atPrice: boolean })[];
+  fvg: (ChartZone & { unfilled: boolean })[];
+  po3: {
+    from: number;
+    to: number;
+    high: number;
+    low: number;
+    equilibrium: number;
+    zone: 'premium' | 'discount' | 'equilibrium';
+  } | null;
+  ote: {
+    from: number;
+    to: number;
+    direction: 'bullish' | 'bearish';
+    levels: { ratio: number; price: number }[];
+    active: boolean;
+  } | null;
+  trendline: {
+    type: 'ascending' | 'descending';
+    p1: ChartPoint;
+    p2: ChartPoint;
+    touches: number;
+    respected: boolean;
+    timeframe: string;
+  } | null;
+  planLevels: { kind: 'entry' | 'stop' | 'target'; label: string; price: number; from: number }[];
+  sessions: { time: number; session: string; windows: string[] }[];
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * PLAYBOOK EVALUATION TRACE
+ * ═══════════════════════════════════════════════════════════════
+ * Why each playbook fired or was rejected (mirrors backend types)
+ */
+export type TraceValue = string | number | boolean | null;
+
+export interface ConditionTrace {
+  id: string;
+  label: string;
+  passed: boolean;
+  message: string;
+  observed: Record<string, TraceValue>;
+  threshold?: Record<string, TraceValue>;
+}
+
+export interface ModifierTrace {
+  id: string;
+  label: string;
+  delta: number;
+  applied: boolean;
+}
+
+export interface PlaybookTrace {
+  playbook: string; // config key, e.g. "NBB"
+  enabled: boolean;
+  passed: boolean;
+  rejectedBy: string | null; // first failed condition id, "minConfidence" or "disabled"
+  conditions: ConditionTrace[];
+  modifiers: ModifierTrace[];
+  baseConfidence: number | null;
+  confidence: number | null;
+  minConfidence: number | null;
+}
+
 export interface AnalyzeResponse {
   id: string;
   timestamp: string;
   context: any;
   classification: any;
   signal?: FlowrexSignal; // ⚡ NEW: Unified Flowrex signal
-  tradePlan: any;
+  trace?: PlaybookTrace[]; // Per-playbook condition trace
+  tradePlan: TradePlan;
+  effectiveConfig?: any; // Config the analysis ran with (defaults + user + request overrides)
 }
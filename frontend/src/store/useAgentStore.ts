@@ -38,6 +38,9 @@ interface AgentState {
   instrument: string;
   timeframe: string;
 
+  // Live stream shown on the chart (other streams' events are ignored)
+  liveStream: { symbol: string; timeframe: string } | null;
+
   settings: PlaybookSettings;
   risk: RiskSettings;
 
@@ -48,6 +51,7 @@ interface AgentState {
   setExecutionCandles: (c: Candle[], instrument: string, timeframe: string) => void;
   setHTFCandles: (c: Candle[]) => void;
   setCandles4H: (c: Candle[]) => void;
+  setLiveStream: (s: { symbol: string; timeframe: string } | null) => void;
 
   setSettings: (s: Partial<PlaybookSettings>) => void;
   setRisk: (r: Partial<RiskSettings>) => void;
@@ -62,6 +66,7 @@ export const useAgentStore = create<AgentState>((set) => ({
   candles4H: [],
   instrument: 'FOREX',
   timeframe: '15m',
+  liveStream: null,
 
   settings: {
     NBB: { enabled: true, adrMaxPct: 1.2 },
@@ -84,6 +89,7 @@ export const useAgentStore = create<AgentState>((set) => ({
     set({ candles, instrument, timeframe }),
   setHTFCandles: (htfCandles) => set({ htfCandles }),
   setCandles4H: (candles4H) => set({ candles4H }),
+  setLiveStream: (liveStream) => set({ liveStream }),
 
   setSettings: (s) =>
     set((state) => ({ settings: { ...state.settings, ...s } })),
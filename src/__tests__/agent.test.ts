@@ -1,5 +1,8 @@
 import { MarketPlaybookAgent } from '@agent/agent';
+import { buildMarketContext } from '@agent/context';
+import { resolveSeries } from '@agent/timeframes';
 import { RawMarketData } from '@custom-types/market';
+import { fixedClock } from '@utils/clock';
 
 const mockRawData: RawMarketData = {
   candles: [
@@ -23,3 +26,58 @@ describe('MarketPlaybookAgent', () => {
     expect(result).toHaveProperty('timestamp');
   });
 });
+
+describe('buildMarketContext clock', () => {
+  const at = (iso: string) => Math.floor(Date.parse(iso) / 1000);
+  const withTime = (time: number): RawMarketData => ({
+    ...mockRawData,
+    candles: mockRawData.candles.map((c, i, all) => ({
+      ...c,
+      time: time - (all.length - 1 - i) * 900,
+    })),
+  });
+
+  it('derives the session from the last candle time', () => {
+    const london = buildMarketContext(withTime(at('2024-03-05T09:30:00Z')));
+    const ny = buildMarketContext(withTime(at('2024-03-05T14:30:00Z')));
+
+    expect(london.session).toBe('london');
+    expect(london.timestamp).toBe('2024-03-05T09:30:00.000Z');
+    expect(ny.session).toBe('ny');
+  });
+
+  it('uses an injected clock over candle time', () => {
+    const clock = fixedClock('2024-03-05T02:00:00Z');
+    const ctx = buildMarketContext(withTime(at('2024-03-05T09:30:00Z')), clock);
+    expect(ctx.session).toBe('asian');
+  });
+});
+
+describe('buildMarketContext timeframes', () => {
+  const bearishHTF = [
+    { open: 4700, high: 4720, low: 4650, close: 4660, volume: 1 },
+    { open: 4660, high: 4680, low: 4600, close: 4610, volume: 1 },
+    { open: 4610, high: 4630, low: 4550, close: 4560, volume: 1 },
+    { open: 4560, high: 4580, low: 4500, close: 4510, volume: 1 },
+  ];
+
+  it('derives htfTrend from supplied HTF candles', () => {
+    const ctx = buildMarketContext({ ...mockRawData, htfCandles: bearishHTF });
+
+    expect(ctx.htfTrend).toBe('bearish');
+    expect(ctx.timeframes?.htfSource).toBe('supplied');
+  });
+
+  it('resamples HTF candles from the execution timeframe when missing', () => {
+    const series = resolveSeries(
+      undefined,
+      mockRawData.candles.map((c, i) => ({ ...c, time: 1704067200 + i * 3600 })),
+      '4h',
+      '1h'
+    );
+
+    expect(series.source).toBe('resampled');
+    expect(series.candles).toHaveLength(2);
+    expect(series.candles[0]).toMatchObject({ open: 4480, high: 4510, low: 4475, close: 4505 });
+  });
+});
@@ -0,0 +1,160 @@
+import http from 'http';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import { getAlertsConfig } from '@config/config';
+import { deliverWithRetry } from '../alerts/alertDispatcher';
+import { AlertSignal, matchesRule } from '../alerts/alertRules';
+import { signPayload } from '../alerts/channels';
+import { sendMail } from '../alerts/smtp';
+
+function signal(fields: Partial<AlertSignal> = {}): AlertSignal {
+  return {
+    source: 'test',
+    symbol: 'EURUSD',
+    instrument: 'FOREX',
+    timeframe: '15m',
+    direction: 'long',
+    grade: 'A',
+    confidence: 82,
+    playbook: 'NBB PO3/OTE',
+    session: 'london',
+    entry: 1.085,
+    stop: 1.082,
+    reasons: ['Sweep of Asian low'],
+    riskHints: [],
+    at: '2024-01-15T08:15:00.000Z',
+    ...fields,
+  };
+}
+
+function listening(server: http.Server | net.Server): Promise<number> {
+  return new Promise((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port))
+  );
+}
+
+describe('alert rules', () => {
+  it('matches grade, playbook prefix, symbol, session and confidence conditions', () => {
+    const nbbLondon = {
+      minGrade: 'A' as const,
+      playbooks: ['NBB'],
+      symbols: ['eurusd'],
+      sessions: ['london' as const],
+    };
+
+    expect(matchesRule(nbbLondon, signal())).toBe(true);
+    expect(matchesRule(nbbLondon, signal({ grade: 'B' }))).toBe(false);
+    expect(matchesRule(nbbLondon, signal({ session: 'ny' }))).toBe(false);
+    expect(matchesRule({ playbooks: ['Fabio'], instruments: ['CRYPTO'] }, signal())).toBe(false);
+    expect(matchesRule({ minConfidence: 80 }, signal())).toBe(true);
+    expect(matchesRule({}, signal({ direction: 'neutral' }))).toBe(false);
+  });
+
+  it('retries a failing webhook and signs the delivered body', async () => {
+    const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = received.length === 1 ? 500 : 200;
+        res.end();
+      });
+    });
+    const port = await listening(server);
+
+    const delays: number[] = [];
+    try {
+      const { attempt, attempts } = await deliverWithRetry(
+        { type: 'webhook', url: `http://127.0.0.1:${port}/hook`, secret: 's3cret' },
+        { rule: { id: 'r1', name: 'NBB London' }, signal: signal() },
+        { maxAttempts: 3, baseDelayMs: 10, maxDelayMs: 100 },
+        async (ms) => {
+          delays.push(ms);
+        }
+      );
+
+      expect(attempt).toMatchObject({ ok: true, status: 200 });
+      expect(attempts).toBe(2);
+      expect(delays).toEqual([10]);
+    } finally {
+      server.close();
+    }
+
+    const { headers, body } = received[1];
+    const timestamp = String(headers['x-flowrex-timestamp']);
+    expect(headers['x-flowrex-signature']).toBe(`sha256=${signPayload('s3cret', timestamp, body)}`);
+    expect(JSON.parse(body)).toMatchObject({ event: 'signal.alert', signal: { symbol: 'EURUSD' } });
+  });
+
+  it('sends an email through an SMTP server', async () => {
+    const commands: string[] = [];
+    const server = net.createServer((socket) => {
+      let buffer = '';
+      let inData = false;
+      socket.write('220 stub ESMTP\r\n');
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString();
+        let index: number;
+        while ((index = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 2.0.0 queued\r\n');
+            } else {
+              commands.push(`> ${line}`);
+            }
+            continue;
+          }
+          commands.push(line);
+          if (line.startsWith('EHLO')) socket.write('250-stub\r\n250 AUTH PLAIN\r\n');
+          else if (line === 'DATA') {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (line === 'QUIT') socket.end('221 bye\r\n');
+          else if (line.startsWith('AUTH')) socket.write('235 ok\r\n');
+          else socket.write('250 ok\r\n');
+        }
+      });
+    });
+    const port = await listening(server);
+
+    const smtp = {
+      ...getAlertsConfig().smtp,
+      host: '127.0.0.1',
+      port,
+      user: 'bot',
+      password: 'pw',
+    };
+    try {
+      // No STARTTLS offered: credentials are never sent in plaintext
+      await expect(
+        sendMail(smtp, { to: ['trader@example.com'], subject: 'x', text: 'x' }, 2000)
+      ).rejects.toThrow('does not offer STARTTLS');
+      expect(commands.some((line) => line.startsWith('AUTH'))).toBe(false);
+
+      const reply = await sendMail(
+        { ...smtp, startTls: false },
+        {
+          to: ['trader@example.com'],
+          subject: 'EURUSD\r\nBcc: spy@example.com long',
+          text: 'Entry 1.085\n.hidden',
+        },
+        2000
+      );
+
+      expect(reply.code).toBe(250);
+    } finally {
+      server.close();
+    }
+
+    expect(commands).toContain('MAIL FROM:<alerts@flowrex.local>');
+    expect(commands).toContain('RCPT TO:<trader@example.com>');
+    expect(commands).toContain('> Subject: EURUSD  Bcc: spy@example.com long');
+    expect(commands.some((line) => line.startsWith('> Bcc'))).toBe(false);
+    expect(commands).toContain('> ..hidden');
+    expect(commands[commands.length - 1]).toBe('QUIT');
+  });
+});
@@ -0,0 +1,70 @@
+import { applyCalibration, buildCalibrationReport, CalibrationSample } from '@signals/calibration';
+
+// `count` signals at a confidence, `hits` of which reached their target
+function samples(
+  confidence: number,
+  count: number,
+  hits: number,
+  playbook = 'NBB PO3/OTE'
+): CalibrationSample[] {
+  return Array.from({ length: count }, (_, i) => ({
+    confidence,
+    modelConfidence: confidence,
+    grade: confidence >= 75 ? 'A' : confidence >= 50 ? 'B' : 'C',
+    playbook,
+    session: 'ny',
+    hit: i < hits,
+  }));
+}
+
+describe('confidence calibration', () => {
+  it('bins signals by confidence and scores them with Brier', () => {
+    const report = buildCalibrationReport([
+      ...samples(60, 4, 2),
+      ...samples(80, 4, 1, 'Tori Trendline'),
+    ]);
+
+    expect(report.overall).toMatchObject({ count: 8, hits: 3, hitRate: 37.5 });
+    expect(report.overall.bins).toEqual([
+      { from: 60, to: 70, count: 4, meanConfidence: 60, hitRate: 50 },
+      { from: 80, to: 90, count: 4, meanConfidence: 80, hitRate: 25 },
+    ]);
+    // 60%: 2 × 0.16 + 2 × 0.36, 80%: 1 × 0.04 + 3 × 0.64 → 3 / 8
+    expect(report.overall.brier).toBe(0.375);
+    expect(Object.keys(report.byPlaybook)).toEqual(['NBB PO3/OTE', 'Tori Trendline']);
+    expect(report.byGrade.A.hitRate).toBe(25);
+    expect(report.recalibration).toBeNull();
+  });
+
+  it('fits a monotonic mapping the confidence model can apply', () => {
+    const { recalibration } = buildCalibrationReport(
+      [...samples(40, 10, 2), ...samples(60, 10, 6), ...samples(80, 10, 5), ...samples(95, 10, 9)],
+      { fit: true }
+    );
+
+    // 60% and 80% over-/under-shoot each other and are pooled
+    expect(recalibration).toEqual([
+      { confidence: 40, calibrated: 20 },
+      { confidence: 70, calibrated: 55 },
+      { confidence: 95, calibrated: 90 },
+    ]);
+    expect(applyCalibration(30, recalibration!)).toBe(20);
+    expect(applyCalibration(55, recalibration!)).toBe(37.5);
+    expect(applyCalibration(99, recalibration!)).toBe(90);
+  });
+
+  it('fits on the model confidence once a mapping is already applied', () => {
+    // Published confidence was recalibrated down from the model's 80 / 90
+    const recalibrated = [
+      ...samples(60, 10, 5).map((s) => ({ ...s, modelConfidence: 80 })),
+      ...samples(70, 10, 8).map((s) => ({ ...s, modelConfidence: 90 })),
+    ];
+    const report = buildCalibrationReport(recalibrated, { fit: true });
+
+    expect(report.overall.bins.map((b) => b.meanConfidence)).toEqual([60, 70]);
+    expect(report.recalibration).toEqual([
+      { confidence: 80, calibrated: 50 },
+      { confidence: 90, calibrated: 80 },
+    ]);
+  });
+});
@@ -0,0 +1,239 @@
+import { classifyMarket } from '@agent/classifier';
+import { buildSignal } from '@signals/signalEngine';
+import { buildTradePlan } from '@signals/tradePlan';
+import { MarketContext } from '@custom-types/context';
+import { runWithConfig } from '@config/config';
+import { resolveConfig } from '@config/overrides';
+
+// Bullish context that satisfies NBB, JadeCap and Tori at the same time
+const baseContext: MarketContext = {
+  session: 'ny',
+  sessionWindows: ['nyAmKillZone'],
+  htfTrend: 'bullish',
+  price: 4485,
+  high: 4490,
+  low: 4470,
+  volume: 1500000,
+  po3ZonePresent: true,
+  priceAtPO3: true,
+  liquiditySweep: true,
+  sweptDirection: 'low',
+  liquidityZones: [{ level: 4425, type: 'low', swept: true }],
+  structureBreak: true,
+  breakDirection: 'bullish',
+  structure: {
+    bos: true,
+    mss: false,
+    direction: 'bullish',
+    level: 4480,
+    shift: { detected: false, direction: null, level: null },
+  },
+  orderBlocks: { bullish: null, bearish: null, atPrice: null },
+  fvg: { exists: true, type: 'bullish', high: 4478, low: 4472, unfilled: true },
+  volumeSpike: true,
+  displacement: true,
+  oteRetrace: true,
+  oteLevel: 0.705,
+  trendline: { exists: true, touches: 3, respected: true },
+  balanceZones: {
+    inBalance: true,
+    lvnDetected: false,
+    range: null,
+    transition: false,
+    transitionDirection: null,
+    imbalanceSize: 0,
+    lvnLevels: [],
+  },
+  volatility: 'high',
+  previousDayHigh: 4500,
+  previousDayLow: 4380,
+};
+
+const metadata = { instrument: 'FOREX', timeframe: '15m', symbol: 'EURUSD' };
+
+describe('classifyMarket (scoring mode)', () => {
+  it('ranks every playbook that fired and fills the backup playbook', () => {
+    // Shipped config (maxPlaybooksPerSignal 1): the runner-up is still the backup
+    const result = classifyMarket(baseContext, 'scoring');
+
+    expect(result.ranked?.map((r) => r.name)).toEqual(['NBB', 'JadeCap', 'Tori']);
+    expect(result.primary).toBe('NBB');
+    expect(result.backup).toBe('JadeCap');
+    expect(result.scores?.Fabio).toBe(0);
+
+    const signal = buildSignal(baseContext, result, metadata);
+    expect(signal.backupPlaybook).toBe('JadeCap Liquidity Model');
+    expect(signal.reasons.some((r) => r.startsWith('Confirmed by'))).toBe(true);
+
+    expect(() =>
+      resolveConfig({ playbooks: { globalSettings: { maxPlaybooksPerSignal: 0 } } })
+    ).toThrow('Invalid maxPlaybooksPerSignal');
+  });
+
+  it('flags conflicting playbooks in riskHints', () => {
+    const ctx: MarketContext = {
+      ...baseContext,
+      sweptDirection: 'high',
+      fvg: { exists: true, type: 'bearish', high: 4488, low: 4482, unfilled: true },
+    };
+    const result = classifyMarket(ctx, 'scoring');
+
+    const directions = result.ranked?.map((r) => r.signal.direction);
+    expect(directions).toContain('bullish');
+    expect(directions).toContain('bearish');
+
+    const signal = buildSignal(ctx, result, metadata);
+    expect(signal.riskHints.some((h) => h.startsWith('Conflicting playbook'))).toBe(true);
+  });
+
+  it('returns a per-condition trace for every playbook', () => {
+    const result = classifyMarket(baseContext, 'scoring');
+
+    const fabio = result.traces?.find((t) => t.playbook === 'Fabio');
+    expect(fabio?.passed).toBe(false);
+    expect(fabio?.rejectedBy).toBe('balanceToImbalance');
+    expect(fabio?.conditions.filter((c) => !c.passed).map((c) => c.id)).toEqual([
+      'balanceToImbalance',
+      'lvnDetected',
+    ]);
+
+    const nbb = result.traces?.find((t) => t.playbook === 'NBB');
+    expect(nbb?.passed).toBe(true);
+    expect(nbb?.baseConfidence).toBe(85);
+    expect(nbb?.modifiers.every((m) => m.applied)).toBe(true);
+  });
+
+  it('fires Fabio on a balance → imbalance transition through an LVN', () => {
+    const ctx: MarketContext = {
+      ...baseContext,
+      balanceZones: {
+        inBalance: false,
+        lvnDetected: true,
+        range: { high: 4476, low: 4468 },
+        transition: true,
+        transitionDirection: 'bullish',
+        imbalanceSize: 12,
+        lvnLevels: [4479],
+      },
+    };
+    const fabio = classifyMarket(ctx, 'scoring').traces?.find((t) => t.playbook === 'Fabio');
+    expect(fabio?.passed).toBe(true);
+
+    const bearishBreak = classifyMarket({ ...ctx, breakDirection: 'bearish' }, 'scoring');
+    const rejected = bearishBreak.traces?.find((t) => t.playbook === 'Fabio');
+    expect(rejected?.rejectedBy).toBe('orderflowConfirmation');
+  });
+
+  it('evaluates declarative playbooks from config rules', () => {
+    const config = resolveConfig({
+      playbooks: { playbooks: { SweepReversal: { enabled: true } } },
+    });
+
+    runWithConfig(config, () => {
+      const result = classifyMarket(baseContext, 'scoring');
+      const rule = result.ranked?.find((r) => r.name === 'SweepReversal');
+      expect(rule?.signal.direction).toBe('bullish');
+      expect(rule?.signal.confidence).toBe(85);
+      expect(rule?.signal.playbookName).toBe('Sweep Reversal');
+
+      // Swept highs flip the direction, the bullish FVG/MSS no longer agrees
+      const bearish = classifyMarket({ ...baseContext, sweptDirection: 'high' }, 'scoring');
+      const trace = bearish.traces?.find((t) => t.playbook === 'SweepReversal');
+      expect(trace?.rejectedBy).toBe('fvgAligned');
+    });
+
+    expect(() =>
+      resolveConfig({
+        playbooks: {
+          playbooks: {
+            SweepReversal: {
+              rules: { conditions: [{ id: 'x', label: 'X', field: 'price', op: 'near' }] },
+            },
+          },
+        },
+      } as never)
+    ).toThrow('Invalid rules for playbook SweepReversal');
+  });
+
+  it('scores signal confidence and grade from weights.json', () => {
+    const ctx = { ...baseContext, timestamp: '2024-01-15T15:00:00.000Z' };
+    const signal = buildSignal(ctx, classifyMarket(ctx, 'priority'), metadata);
+    const breakdown = signal.confidenceBreakdown!;
+
+    // 10.25 scored weight, 7.85 confirming (no transition, MSS or order block)
+    expect(breakdown.playbookConfidence).toBe(95);
+    expect(breakdown.confluence).toBeCloseTo(7.85 / 10.25);
+    expect(signal.confidence).toBe(100);
+    expect(signal.grade).toBe('A');
+
+    // Halving the session weight and ignoring confluence: 95 × 0.5 = 47.5 → 48, grade C
+    const tuned = resolveConfig({
+      weights: {
+        sessionWeights: { ny: 0.5, overlap: 0.5 },
+        confidenceModel: { confluenceRange: 0 },
+      },
+    });
+    runWithConfig(tuned, () => {
+      const weighted = buildSignal(ctx, classifyMarket(ctx, 'priority'), metadata);
+      expect(weighted.confidence).toBe(48);
+      expect(weighted.grade).toBe('C');
+    });
+  });
+
+  it('builds an NBB trade plan with a structure stop and R:R targets', () => {
+    const ctx: MarketContext = {
+      ...baseContext,
+      liquidityZones: [...baseContext.liquidityZones, { level: 4560, type: 'high', swept: false }],
+    };
+    const plan = buildTradePlan(ctx, classifyMarket(ctx, 'priority'), { rrTargets: [1, 2] })!;
+
+    // No order block → limit at the bullish FVG midpoint
+    expect(plan.model).toBe('NBB');
+    expect(plan.entry).toMatchObject({ type: 'limit', price: 4475, source: 'fvg' });
+
+    // Below the swept low 4425, minus the 0.02% buffer (0.897)
+    expect(plan.stop).toMatchObject({ price: 4424.103, level: 4425, source: 'sweptLiquidity' });
+    expect(plan.risk).toBe(50.897);
+
+    expect(plan.targets.map((t) => [t.label, t.price, t.rr])).toEqual([
+      ['PDH', 4500, 0.49],
+      ['1R', 4525.897, 1],
+      ['Swing high', 4560, 1.67],
+      ['2R', 4576.794, 2],
+    ]);
+    expect(plan.invalidation.rule).toBe('Close below 4424.103 (below the swept low 4425)');
+    expect(plan.invalidations).toContain('HTF trend turns bearish');
+  });
+
+  it('derives risk and R:R from the tick-rounded entry and stop', () => {
+    const ctx: MarketContext = {
+      ...baseContext,
+      liquidityZones: [...baseContext.liquidityZones, { level: 4560, type: 'high', swept: false }],
+    };
+    const classification = classifyMarket(ctx, 'priority');
+    const plan = buildTradePlan(ctx, classification, { rrTargets: [1, 2], symbol: 'JP225' })!;
+
+    // JP225 ticks are whole points: the stop 4424.103 publishes as 4424
+    expect(plan.entry.price).toBe(4475);
+    expect(plan.stop.price).toBe(4424);
+    expect(plan.risk).toBe(51);
+    expect(plan.invalidation.price).toBe(4424);
+    expect(plan.targets.map((t) => [t.label, t.price, t.rr])).toEqual([
+      ['PDH', 4500, 0.49],
+      ['1R', 4526, 1],
+      ['Swing high', 4560, 1.67],
+      ['2R', 4577, 2],
+    ]);
+    for (const target of plan.targets) {
+      const rr = Math.abs(target.price - plan.entry.price) / plan.risk;
+      expect(target.rr).toBeCloseTo(rr, 2);
+    }
+  });
+
+  it('keeps first-match behaviour in priority mode (the default)', () => {
+    const result = classifyMarket(baseContext);
+
+    expect(result.signal?.playbookName).toBe('NBB PO3/OTE');
+    expect(result.ranked).toBeUndefined();
+  });
+});
@@ -0,0 +1,66 @@
+import { getPlaybookConfig, getThreshold, runWithConfig } from '@config/config';
+import { parseConfigOverrides, resolveConfig } from '@config/overrides';
+import { isInWindow } from '@detectors/sessionCalendar';
+
+describe('layered config overrides', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('maps frontend playbook settings onto the scoped config', async () => {
+    const config = resolveConfig(
+      parseConfigOverrides({
+        NBB: { enabled: false, adrMaxPct: 0.9 },
+        TORI: { enabled: true, minTouches: 4 },
+        JADE: { enabled: true, intradayStartHour: 8, intradayEndHour: 10 },
+      })
+    );
+
+    await runWithConfig(config, async () => {
+      await Promise.resolve();
+      expect(getPlaybookConfig('NBB').enabled).toBe(false);
+      expect(getThreshold('adrMaxPct')).toBe(0.9);
+      expect(getThreshold('minSwingTouches')).toBe(4);
+      // 08:15 New York (EST) is inside the overridden 08:00-10:00 kill zone
+      expect(isInWindow('nyAmKillZone', new Date('2024-01-15T13:15:00Z'))).toBe(true);
+    });
+
+    // Outside the scope the global files apply
+    expect(getPlaybookConfig('NBB').enabled).toBe(true);
+    expect(getThreshold('minSwingTouches')).toBe(2);
+    expect(isInWindow('nyAmKillZone', new Date('2024-01-15T13:15:00Z'))).toBe(false);
+  });
+
+  it('applies user then request layers', () => {
+    const user = { weights: { thresholds: { minSwingTouches: 3, imbalanceThreshold: 0.001 } } };
+    const request = parseConfigOverrides({ TORI: { minTouches: 5 } });
+    const { thresholds } = resolveConfig(user, request).weights;
+
+    expect(thresholds.minSwingTouches).toBe(5);
+    expect(thresholds.imbalanceThreshold).toBe(0.001);
+  });
+
+  it('rejects unknown keys, wrong types and invalid values', () => {
+    expect(() => parseConfigOverrides({ SCALPER: { enabled: true } })).toThrow('unknown key');
+    expect(() => resolveConfig({ weights: { thresholds: { nope: 1 } } } as never)).toThrow(
+      'unknown key weights.thresholds.nope'
+    );
+    expect(() => resolveConfig(parseConfigOverrides({ TORI: { minTouches: '3' } }))).toThrow(
+      'must be a number'
+    );
+    expect(() =>
+      resolveConfig({ playbooks: { playbooks: { NBB: { minConfidence: 150 } } } })
+    ).toThrow('Invalid minConfidence');
+    expect(() => resolveConfig(parseConfigOverrides({ JADE: { intradayStartHour: 25 } }))).toThrow(
+      'nyAmKillZone'
+    );
+
+    const polluted = JSON.parse('{"weights":{"__proto__":{"polluted":true}}}');
+    expect(() => resolveConfig(parseConfigOverrides(polluted))).toThrow('unknown key');
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
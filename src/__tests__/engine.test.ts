@@ -0,0 +1,113 @@
+import { analyzeWindow, buildMarketContext } from '@agent/context';
+import { ContextEngine } from '@agent/engine';
+import { buildChartOverlays } from '@agent/overlays';
+import { computeKeyLevels } from '@detectors/levels';
+import { RawCandle } from '@custom-types/market';
+
+// Deterministic 15m random walk with occasional gaps and volume bursts
+function makeCandles(count: number, start = Date.parse('2024-01-15T00:00:00Z') / 1000) {
+  let seed = 42;
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+
+  const candles: RawCandle[] = [];
+  let price = 4500;
+  for (let i = 0; i < count; i++) {
+    const open = price + (random() < 0.1 ? (random() - 0.5) * 30 : 0);
+    const close = open + (random() - 0.5) * 20;
+    candles.push({
+      open,
+      high: Math.max(open, close) + random() * 5,
+      low: Math.min(open, close) - random() * 5,
+      close,
+      volume: Math.round(1000 + random() * (random() < 0.1 ? 5000 : 1000)),
+      time: start + i * 900,
+    });
+    price = close;
+  }
+  return candles;
+}
+
+describe('ContextEngine', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('matches a full rebuild of the window on every bar', () => {
+    const candles = makeCandles(160);
+    const engine = new ContextEngine({ maxBars: 60, timeframe: '15m' });
+
+    candles.forEach((candle, i) => {
+      engine.push(candle);
+      const window = candles.slice(Math.max(0, i - 59), i + 1);
+      expect(engine.context()).toEqual(buildMarketContext({ candles: window, timeframe: '15m' }));
+    });
+  });
+
+  it('replaces the in-progress bar when a candle repeats the last time', () => {
+    const candles = makeCandles(40);
+    const engine = new ContextEngine({ maxBars: 30 });
+    engine.pushAll(candles);
+
+    const update = { ...candles[39], high: candles[39].high + 50, close: candles[39].high + 40 };
+    engine.push(update);
+
+    expect(engine.candles).toHaveLength(30);
+    expect(engine.context()).toEqual(
+      buildMarketContext({ candles: [...candles.slice(10, 39), update] })
+    );
+  });
+
+  it('derives key levels from the time-based history beyond the window', () => {
+    const candles = makeCandles(700);
+    const historyMs = 5 * 24 * 60 * 60 * 1000;
+    const engine = new ContextEngine({ maxBars: 50, levelHistoryMs: historyMs });
+    engine.pushAll(candles);
+
+    const cutoff = candles[699].time! - historyMs / 1000;
+    const history = candles.filter((c) => c.time! >= cutoff);
+    const context = engine.context();
+
+    expect(context.levels).toEqual(computeKeyLevels(history));
+    expect(context).toEqual(buildMarketContext(engine.rawData()));
+  });
+
+  it('uses supplied HTF series instead of resampling the window', () => {
+    const candles = makeCandles(120);
+    const htfCandles = makeCandles(30, Date.parse('2024-01-10T00:00:00Z') / 1000);
+    const engine = new ContextEngine({ maxBars: 60, timeframe: '15m', htfCandles });
+    engine.pushAll(candles);
+
+    const analysis = engine.windowAnalysis();
+    expect(analysis.htfSeries).toMatchObject({ candles: htfCandles, source: 'supplied' });
+    expect(analysis.trendlineSeries.source).toBe('supplied'); // trendline = htf (4h)
+    expect(engine.rawData().htfCandles).toBe(htfCandles);
+    expect(engine.context()).toEqual(buildMarketContext(engine.rawData()));
+  });
+
+  it('produces the same chart overlays as a full rebuild, in candle times', () => {
+    const candles = makeCandles(200);
+    const engine = new ContextEngine({ maxBars: 80, timeframe: '15m' });
+    engine.pushAll(candles);
+
+    const window = engine.rawData();
+    const overlays = buildChartOverlays(window, engine.windowAnalysis(), engine.context(), null);
+    const analysis = analyzeWindow(window);
+    expect(overlays).toEqual(
+      buildChartOverlays(window, analysis, buildMarketContext(window), null)
+    );
+
+    // Swing points sit on the high/low of the candle they are timed at
+    const byTime = new Map(window.candles.map((c) => [c.time, c]));
+    expect(overlays.liquidity.length).toBeGreaterThan(0);
+    for (const point of overlays.liquidity) {
+      const candle = byTime.get(point.time)!;
+      expect(point.price).toBe(point.side === 'high' ? candle.high : candle.low);
+    }
+    expect(overlays.orderBlocks.every((b) => b.to === candles[199].time)).toBe(true);
+    expect(overlays.sessions[0].time).toBe(window.candles[0].time);
+  });
+});
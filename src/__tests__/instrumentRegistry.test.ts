@@ -0,0 +1,113 @@
+import {
+  getInstrument,
+  isMarketOpen,
+  pipDistance,
+  providerSymbol,
+  quoteToAccountRate,
+  roundToTick,
+  roundUnits,
+} from '../instruments/instrumentRegistry';
+import { computeExposure } from '@portfolio/exposure';
+import { computeBasketRisk } from '@portfolio/riskEngine';
+import { runSimulation } from '@sim/simulator';
+
+describe('instrument registry', () => {
+  it('resolves provider aliases and rounds to ticks, pips and lot steps', () => {
+    const eurusd = getInstrument('EUR_USD');
+    expect(eurusd).toMatchObject({ symbol: 'EURUSD', inferred: false, contractSize: 100000 });
+    expect(providerSymbol('eur/usd', 'oanda')).toBe('EUR_USD');
+    expect(providerSymbol('DE30_EUR', 'FXCM')).toBe('GER30');
+    expect(providerSymbol('SOLUSDT', 'BINANCE')).toBe('SOLUSDT');
+
+    const usdjpy = getInstrument('USDJPY');
+    expect(roundToTick(151.23456, usdjpy)).toBe(151.235);
+    expect(pipDistance(151.2, 150.95, usdjpy)).toBe(25);
+    expect(roundToTick(1.0825049, eurusd)).toBe(1.0825);
+    expect(roundUnits(123456, eurusd)).toBe(123000);
+    expect(roundUnits(900, eurusd)).toBe(0); // below 0.01 lots
+
+    // Unknown pairs are inferred from the name
+    expect(getInstrument('EURNOK')).toMatchObject({ assetClass: 'forex', pipSize: 0.0001 });
+    expect(getInstrument('GBPTRY')).toMatchObject({ inferred: true, quoteCurrency: 'TRY' });
+  });
+
+  it('converts quote currencies and values JPY exposure in dollars', () => {
+    const gbpjpy = getInstrument('GBPJPY');
+    expect(quoteToAccountRate(gbpjpy, 'USD', { GBPJPY: 190 })).toBeNull();
+    expect(quoteToAccountRate(gbpjpy, 'USD', { USD_JPY: 150 })).toBeCloseTo(1 / 150);
+    expect(quoteToAccountRate(getInstrument('EURGBP'), 'USD', { GBPUSD: 1.27 })).toBe(1.27);
+    expect(quoteToAccountRate(getInstrument('BTCUSDT'), 'USD', {})).toBe(1);
+
+    // 1 lot USDJPY, 50 pips against: 50,000 JPY at 149.50
+    const [exposure] = computeExposure(
+      [
+        {
+          symbol: 'USDJPY',
+          direction: 'long',
+          size: 1,
+          entryPrice: 150,
+          currentPrice: 149.5,
+          instrument: 'FOREX',
+        },
+      ],
+      10000
+    );
+    expect(exposure.riskValue).toBeCloseTo(334.45, 2);
+  });
+
+  it('reports exposure it cannot convert instead of valuing it in dollars', async () => {
+    const positions = [
+      {
+        symbol: 'EURGBP',
+        direction: 'long' as const,
+        size: 1,
+        entryPrice: 0.86,
+        currentPrice: 0.855,
+        instrument: 'FOREX' as const,
+      },
+      {
+        symbol: 'BTCUSDT',
+        direction: 'short' as const,
+        size: 0.5,
+        entryPrice: 60000,
+        currentPrice: 61000,
+        instrument: 'CRYPTO' as const,
+      },
+    ];
+
+    const [eurgbp, btc] = computeExposure(positions, 10000);
+    expect(eurgbp).toMatchObject({ riskValue: null, normalizedRisk: null, missingRate: 'GBP/USD' });
+    expect(btc.riskValue).toBeCloseTo(500); // contractSize 1: 0.5 BTC × $1,000
+
+    const basket = computeBasketRisk(positions, { symbols: [], matrix: [] }, [eurgbp, btc], 10000);
+    expect(basket.volatility).toBeCloseTo(0.05);
+    expect(basket.alerts).toContain('No GBP/USD rate for EURGBP: its risk is not counted.');
+
+    // A GBPUSD price fills the gap: 50 pips × £100,000 × 1.27
+    const [converted] = computeExposure(positions, 10000, 'USD', { GBPUSD: 1.27 });
+    expect(converted.riskValue).toBeCloseTo(635);
+    expect(converted.missingRate).toBeUndefined();
+
+    await expect(
+      runSimulation({
+        candles: [],
+        riskConfig: { riskPerTradePercent: 1, stopLossPoints: 20, maxPositions: 1 },
+        startingCapital: 10000,
+        symbol: 'EURGBP',
+      })
+    ).rejects.toThrow('No GBP/USD rate for EURGBP');
+  });
+
+  it('knows forex and index trading hours', () => {
+    const eurusd = getInstrument('EURUSD');
+    expect(isMarketOpen(eurusd, new Date('2024-01-12T21:59:00Z'))).toBe(true); // Fri 16:59 NY
+    expect(isMarketOpen(eurusd, new Date('2024-01-12T22:30:00Z'))).toBe(false); // Fri 17:30 NY
+    expect(isMarketOpen(eurusd, new Date('2024-01-13T12:00:00Z'))).toBe(false); // Saturday
+    expect(isMarketOpen(eurusd, new Date('2024-01-14T22:30:00Z'))).toBe(true); // Sun 17:30 NY
+
+    const ger40 = getInstrument('GER40');
+    expect(isMarketOpen(ger40, new Date('2024-01-15T06:30:00Z'))).toBe(false); // 07:30 Berlin
+    expect(isMarketOpen(ger40, new Date('2024-01-15T07:30:00Z'))).toBe(true);
+    expect(isMarketOpen(getInstrument('BTCUSDT'), new Date('2024-01-13T12:00:00Z'))).toBe(true);
+  });
+});
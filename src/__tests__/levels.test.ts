@@ -0,0 +1,59 @@
+import { computeKeyLevels, getTradingDay } from '@detectors/levels';
+import { computeRangeStats } from '@detectors/range';
+
+// Hourly candles from Thu 2024-01-11 00:00 UTC to Tue 2024-01-16 15:00 UTC
+const START = Date.parse('2024-01-11T00:00:00Z') / 1000;
+const candles = Array.from({ length: 136 }, (_, i) => {
+  const base = 4500 + i;
+  return { open: base, high: base + 5, low: base - 5, close: base + 1, time: START + i * 3600 };
+});
+
+describe('key levels engine', () => {
+  it('groups candles by the 17:00 New York day boundary', () => {
+    // 21:59 UTC = 16:59 EST (Mon) / 22:00 UTC = 17:00 EST → Tuesday's trading day
+    expect(getTradingDay(Date.parse('2024-01-15T21:59:00Z') / 1000)).toBe('2024-01-15');
+    expect(getTradingDay(Date.parse('2024-01-15T22:00:00Z') / 1000)).toBe('2024-01-16');
+  });
+
+  it('derives PDH/PDL, weekly levels and opens from history only', () => {
+    const levels = computeKeyLevels(candles);
+    const at = (iso: string) => (Date.parse(iso) / 1000 - START) / 3600;
+
+    expect(levels.tradingDay).toBe('2024-01-16');
+
+    // Previous trading day: Mon 15th = Sun 22:00 UTC → Mon 21:00 UTC bar
+    expect(levels.previousDayHigh).toBe(4500 + at('2024-01-15T21:00:00Z') + 5);
+    expect(levels.previousDayLow).toBe(4500 + at('2024-01-14T22:00:00Z') - 5);
+
+    // Previous week runs through the weekend bars (Sun 14th ends 21:00 UTC)
+    expect(levels.previousWeekHigh).toBe(4500 + at('2024-01-14T21:00:00Z') + 5);
+    expect(levels.weeklyOpen).toBe(4500 + at('2024-01-14T22:00:00Z'));
+
+    // Midnight New York = 05:00 UTC
+    expect(levels.midnightOpen).toBe(4500 + at('2024-01-16T05:00:00Z'));
+
+    // Asian range window 20:00-00:00 New York = 01:00-04:00 UTC bars
+    expect(levels.asianHigh).toBe(4500 + at('2024-01-16T04:00:00Z') + 5);
+    expect(levels.asianLow).toBe(4500 + at('2024-01-16T01:00:00Z') - 5);
+    expect(levels.londonHigh).not.toBeNull();
+  });
+
+  it('returns empty levels for candles without time', () => {
+    const levels = computeKeyLevels(candles.map(({ time, ...c }) => c));
+    expect(levels.previousDayHigh).toBeNull();
+  });
+
+  it('measures ADR used and session ranges against completed days', () => {
+    const ranges = computeRangeStats(candles);
+
+    // Thu 11th starts mid-day and is left out; Fri-Mon are full 24-bar days (33 points)
+    expect(ranges.adrDays).toBe(4);
+    expect(ranges.adr).toBe(33);
+    // Tue 16th so far: 22:00-15:00 UTC → 17 hours of drift + one bar's range
+    expect(ranges.todayRange).toBe(27);
+    expect(ranges.adrUsedPct).toBe(0.81818);
+    // Asian session complete today, NY (13:00 UTC open) only 3 bars in
+    expect(ranges.sessions.asian).toEqual({ range: 17, average: 17, ratio: 1 });
+    expect(ranges.sessions.ny.ratio).toBe(0.66667);
+  });
+});
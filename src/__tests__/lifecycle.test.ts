@@ -0,0 +1,115 @@
+import { LifecyclePlan, SignalLifecycle } from '@signals/lifecycle';
+import { FlowrexSignal } from '@signals/signalEngine';
+
+const OPTIONS = {
+  armConfidence: 60,
+  formingGraceBars: 1,
+  armedExpiryBars: 3,
+  triggeredExpiryBars: 5,
+  cooldownBars: 2,
+};
+
+function signal(overrides: Partial<FlowrexSignal> = {}): FlowrexSignal {
+  return {
+    direction: 'long',
+    confidence: 80,
+    grade: 'A',
+    timeframe: '15m',
+    instrument: 'CRYPTO',
+    playbook: 'NBB PO3/OTE',
+    primaryPlaybook: 'NBB PO3/OTE',
+    reasons: [],
+    riskHints: [],
+    createdAt: '2024-01-15T14:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// Long limit at 100, stop 95, 2R target
+const PLAN: LifecyclePlan = {
+  entry: { type: 'limit', price: 100, zone: null, source: 'fvg', description: 'FVG' },
+  stop: { price: 95, level: 95.5, source: 'swing', description: 'Swing low' },
+  targets: [{ label: '2R', price: 110, rr: 2, source: 'rr' }],
+};
+
+const NEUTRAL = signal({ direction: 'neutral', confidence: 0, playbook: 'NONE' });
+
+// Bar n (15m apart) trading between low and high
+function bar(n: number, low: number, high: number) {
+  return { time: 1705327200 + n * 900, low, high, close: (low + high) / 2 };
+}
+
+describe('signal lifecycle', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('moves forming → armed → triggered → invalidated and dedups repeats', () => {
+    const lifecycle = new SignalLifecycle('BTCUSDT', '15m', OPTIONS);
+    const states = (update: Parameters<SignalLifecycle['update']>[0]) =>
+      lifecycle.update(update).map((t) => `${t.from}→${t.to}`);
+
+    expect(
+      states({ candle: bar(0, 101, 104), signal: signal({ confidence: 50 }), plan: PLAN })
+    ).toEqual(['null→forming']);
+    // Same bar, same setup: nothing new to emit
+    expect(
+      states({ candle: bar(0, 101, 105), signal: signal({ confidence: 50 }), plan: PLAN })
+    ).toEqual([]);
+    expect(states({ candle: bar(1, 102, 105), signal: signal(), plan: PLAN })).toEqual([
+      'forming→armed',
+    ]);
+    expect(states({ candle: bar(1, 101, 105), signal: signal(), plan: PLAN })).toEqual([]);
+    expect(states({ candle: bar(2, 99, 103), signal: NEUTRAL, plan: null })).toEqual([
+      'armed→triggered',
+    ]);
+    expect(states({ candle: bar(3, 94, 99), signal: NEUTRAL, plan: null })).toEqual([
+      'triggered→invalidated',
+    ]);
+    expect(lifecycle.active).toHaveLength(0);
+  });
+
+  it('expires stale setups and suppresses them during the cooldown', () => {
+    const lifecycle = new SignalLifecycle('BTCUSDT', '15m', OPTIONS);
+
+    const fire = (n: number) =>
+      lifecycle.update({ candle: bar(n, 101, 104), signal: signal(), plan: PLAN });
+    const idle = (n: number) =>
+      lifecycle.update({ candle: bar(n, 101, 104), signal: NEUTRAL, plan: null });
+
+    expect(fire(0).map((t) => t.to)).toEqual(['armed']);
+    expect([...idle(1), ...idle(2)]).toEqual([]);
+    expect(idle(3)).toMatchObject([
+      {
+        dedupKey: 'BTCUSDT:15m:NBB PO3/OTE:long',
+        from: 'armed',
+        to: 'expired',
+        at: new Date((1705327200 + 3 * 900) * 1000).toISOString(),
+      },
+    ]);
+
+    // Cooling down for 2 bars, then the setup may open again
+    expect([...fire(4), ...fire(5)]).toEqual([]);
+    expect(fire(6).map((t) => t.to)).toEqual(['armed']);
+  });
+
+  it('invalidates an untriggered setup when the playbook flips direction', () => {
+    const lifecycle = new SignalLifecycle('BTCUSDT', '15m', OPTIONS);
+
+    lifecycle.update({ candle: bar(0, 101, 104), signal: signal({ confidence: 50 }), plan: null });
+    const transitions = lifecycle.update({
+      candle: bar(1, 101, 104),
+      signal: signal({ direction: 'short', confidence: 50 }),
+      plan: null,
+    });
+
+    expect(transitions.map((t) => `${t.direction}:${t.to}`)).toEqual([
+      'long:invalidated',
+      'short:forming',
+    ]);
+  });
+});
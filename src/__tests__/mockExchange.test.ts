@@ -0,0 +1,151 @@
+import { createClientOrderId, getExecutionProvider, MockExchange } from '../execution';
+
+function candle(time: number, open: number, high: number, low: number, close: number) {
+  return { time, open, high, low, close };
+}
+
+describe('mock exchange', () => {
+  it('treats a repeated clientOrderId as the same order', async () => {
+    const exchange = new MockExchange({ startingBalance: 10000 });
+    const clientOrderId = createClientOrderId('signal-1', 'entry');
+    const request = {
+      clientOrderId,
+      symbol: 'eurusd',
+      side: 'buy' as const,
+      type: 'limit' as const,
+      quantity: 1000,
+      price: 1.08,
+    };
+
+    const first = await exchange.placeOrder(request);
+    const retry = await exchange.placeOrder(request);
+
+    expect(retry.id).toBe(first.id);
+    expect(await exchange.getOrders()).toHaveLength(1);
+    expect(createClientOrderId('signal-1', 'entry')).toBe(clientOrderId);
+    await expect(exchange.placeOrder({ ...request, quantity: 2000 })).rejects.toThrow(
+      'different order'
+    );
+    expect(getExecutionProvider('mock')).toBe(getExecutionProvider('MOCK'));
+  });
+
+  it('fills a limit entry, marks it to market and closes it at the target', async () => {
+    const exchange = new MockExchange({ startingBalance: 10000 });
+    const order = await exchange.placeOrder({
+      clientOrderId: 'a',
+      symbol: 'EURUSD',
+      side: 'buy',
+      type: 'limit',
+      quantity: 10000,
+      price: 1.08,
+      stopLoss: 1.078,
+      takeProfit: 1.084,
+    });
+
+    expect(exchange.processCandle('EURUSD', candle(1, 1.082, 1.083, 1.081, 1.0825))).toEqual([]);
+    const [entry] = exchange.processCandle('EURUSD', candle(2, 1.081, 1.0815, 1.0795, 1.081));
+    expect(entry).toMatchObject({ orderId: order.id, kind: 'entry', side: 'buy', price: 1.08 });
+    expect((await exchange.getAccount()).unrealizedPnl).toBeCloseTo(10);
+
+    const [exit] = exchange.processCandle('EURUSD', candle(3, 1.082, 1.085, 1.0815, 1.0845));
+    expect(exit).toMatchObject({ kind: 'target', side: 'sell', price: 1.084 });
+    expect(exit.pnl).toBeCloseTo(40);
+
+    const account = await exchange.getAccount();
+    expect(account.balance).toBeCloseTo(10040);
+    expect(account.openPositions).toBe(0);
+  });
+
+  it('fills market orders at the next open and exits at the stop on a two-sided bar', async () => {
+    const exchange = new MockExchange({ startingBalance: 10000 });
+    exchange.processCandle('BTCUSDT', candle(1, 100, 101, 99, 100));
+
+    const order = await exchange.placeOrder({
+      clientOrderId: 'b',
+      symbol: 'BTCUSDT',
+      side: 'sell',
+      type: 'market',
+      quantity: 2,
+      stopLoss: 103,
+      takeProfit: 95,
+    });
+    expect(order.status).toBe('open');
+
+    exchange.processCandle('BTCUSDT', candle(2, 100.5, 101, 100, 100.5));
+    const modified = await exchange.modifyOrder(order.id, { stopLoss: 102 });
+    expect(modified.stopLoss).toBe(102);
+
+    const [exit] = exchange.processCandle('BTCUSDT', candle(3, 100, 102.5, 94, 96));
+    expect(exit).toMatchObject({ kind: 'stop', side: 'buy', price: 102, pnl: -3 });
+    expect(await exchange.getPositions()).toEqual([]);
+    await expect(exchange.cancelOrder(order.id)).rejects.toThrow('filled');
+  });
+
+  it('ignores the rest of the bar an order was placed on', async () => {
+    const exchange = new MockExchange({ startingBalance: 10000 });
+    exchange.processCandle('EURUSD', candle(60, 1.08, 1.081, 1.079, 1.0805));
+
+    const order = await exchange.placeOrder({
+      clientOrderId: 'c',
+      symbol: 'EURUSD',
+      side: 'buy',
+      type: 'market',
+      quantity: 10000,
+      stopLoss: 1.078,
+      takeProfit: 1.083,
+    });
+    expect(order.placedAt).toBe(60);
+
+    // The stream re-sends the open bar: its open and range predate the order
+    expect(exchange.processCandle('EURUSD', candle(60, 1.08, 1.0835, 1.0775, 1.082))).toEqual([]);
+
+    const [entry] = exchange.processCandle('EURUSD', candle(120, 1.082, 1.0825, 1.0815, 1.082));
+    expect(entry).toMatchObject({ kind: 'entry', price: 1.082 });
+    const [position] = await exchange.getPositions();
+    expect(position.placedAt).toBe(60);
+  });
+
+  it('books JPY-quoted P&L in the account currency', async () => {
+    const exchange = new MockExchange({ startingBalance: 10000, currency: 'USD' });
+    await exchange.placeOrder({
+      clientOrderId: 'd',
+      symbol: 'USDJPY',
+      side: 'buy',
+      type: 'limit',
+      quantity: 100000,
+      price: 150,
+      takeProfit: 151,
+    });
+
+    exchange.processCandle('USDJPY', candle(60, 150.2, 150.3, 149.9, 150.1));
+    const [exit] = exchange.processCandle('USDJPY', candle(120, 150.5, 151.2, 150.4, 151));
+    expect(exit).toMatchObject({ kind: 'target', price: 151 });
+    expect(exit.pnl).toBeCloseTo(100000 / 151); // ¥100,000 at the USDJPY mark
+    expect((await exchange.getAccount()).balance).toBeCloseTo(10000 + 100000 / 151);
+
+    // Other quotes need a price of the quote currency against the account's
+    const rejected = await exchange.placeOrder({
+      clientOrderId: 'e',
+      symbol: 'EURGBP',
+      side: 'buy',
+      type: 'limit',
+      quantity: 10000,
+      price: 0.85,
+    });
+    expect(rejected.status).toBe('rejected');
+    expect(rejected.reason).toContain('GBP/USD');
+
+    await exchange.placeOrder({
+      clientOrderId: 'f',
+      symbol: 'GBPJPY',
+      side: 'sell',
+      type: 'limit',
+      quantity: 10000,
+      price: 190,
+    });
+    exchange.processCandle('GBPJPY', candle(120, 189.8, 190.1, 189.7, 190));
+    exchange.processCandle('GBPJPY', candle(180, 190, 190.2, 188, 188.5));
+    const [position] = await exchange.getPositions();
+    expect(position.unrealizedPnl).toBeCloseTo((10000 * 1.5) / 151); // through USDJPY
+  });
+});
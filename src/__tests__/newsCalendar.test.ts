@@ -0,0 +1,144 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { classifyMarket } from '@agent/classifier';
+import { AppConfig, getConfig, NewsBlackoutConfig, runWithConfig } from '@config/config';
+import { MarketContext } from '@custom-types/context';
+import { loadNewsCalendar, parseNewsCalendar, symbolCurrencies } from '@detectors/newsCalendar';
+import { buildSignal } from '@signals/signalEngine';
+
+// examples/news-calendar.csv: USD NFP (high) + AHE (medium) at 2026-11-06 13:30 UTC
+const CALENDAR = 'examples/news-calendar.csv';
+
+// Bullish NBB context at a given time
+function context(timestamp: string): MarketContext {
+  return {
+    timestamp,
+    session: 'ny',
+    sessionWindows: [],
+    htfTrend: 'bullish',
+    price: 1.085,
+    high: 1.086,
+    low: 1.083,
+    volume: 1500000,
+    po3ZonePresent: true,
+    priceAtPO3: true,
+    liquiditySweep: true,
+    sweptDirection: 'low',
+    liquidityZones: [{ level: 1.08, type: 'low', swept: true }],
+    structureBreak: true,
+    breakDirection: 'bullish',
+    structure: {
+      bos: true,
+      mss: false,
+      direction: 'bullish',
+      level: 1.084,
+      shift: { detected: false, direction: null, level: null },
+    },
+    orderBlocks: { bullish: null, bearish: null, atPrice: null },
+    fvg: { exists: true, type: 'bullish', high: 1.0845, low: 1.0835, unfilled: true },
+    volumeSpike: true,
+    displacement: true,
+    oteRetrace: true,
+    oteLevel: 0.705,
+    trendline: { exists: false, touches: 0, respected: false },
+    balanceZones: {
+      inBalance: false,
+      lvnDetected: false,
+      range: null,
+      transition: false,
+      transitionDirection: null,
+      imbalanceSize: 0,
+      lvnLevels: [],
+    },
+    volatility: 'low',
+    previousDayHigh: 1.09,
+    previousDayLow: 1.078,
+  };
+}
+
+function withNews(news: Partial<NewsBlackoutConfig>): AppConfig {
+  const config = getConfig();
+  const newsBlackout = { ...config.default.newsBlackout, calendarFile: CALENDAR, ...news };
+  return { ...config, default: { ...config.default, newsBlackout } };
+}
+
+function signalAt(timestamp: string, symbol: string) {
+  const ctx = context(timestamp);
+  return buildSignal(ctx, classifyMarket(ctx, 'priority'), {
+    instrument: 'FOREX',
+    timeframe: '15m',
+    symbol,
+  });
+}
+
+describe('news calendar', () => {
+  it('imports high/medium events from CSV and maps symbols to currencies', () => {
+    const events = parseNewsCalendar(fs.readFileSync(CALENDAR, 'utf-8'), 'csv');
+
+    expect(events).toHaveLength(5); // low-impact row dropped
+    expect(events[0]).toEqual({
+      time: new Date('2026-10-29T13:15:00Z'),
+      currency: 'EUR',
+      impact: 'high',
+      title: 'ECB Main Refinancing Rate',
+    });
+    expect(events[1].title).toBe('BOE Monetary Policy Summary, Official Bank Rate');
+
+    expect(symbolCurrencies('EUR/USD')).toEqual(['EUR', 'USD']);
+    expect(symbolCurrencies('XAUUSD')).toEqual(['USD']);
+    expect(symbolCurrencies('BTCUSDT')).toEqual(['USD']);
+    expect(symbolCurrencies('US500X')).toEqual([]);
+  });
+
+  it('suppresses signals around high-impact releases of the symbol currencies', () => {
+    runWithConfig(withNews({}), () => {
+      const before = signalAt('2026-11-06T13:05:00.000Z', 'EURUSD');
+      expect(before.direction).toBe('neutral');
+      expect(before.playbook).toBe('NBB PO3/OTE');
+      expect(before.riskHints).toEqual([
+        'News blackout: USD Non-Farm Payrolls (high impact) at 13:30 UTC, in 25 min',
+      ]);
+
+      // Window ends 30 min after the release; AUDJPY is not exposed to USD news
+      expect(signalAt('2026-11-06T14:01:00.000Z', 'EURUSD').direction).toBe('long');
+      expect(signalAt('2026-11-06T13:30:00.000Z', 'AUDJPY').direction).toBe('long');
+    });
+  });
+
+  it('applies the configured confidence penalty instead when asked to', () => {
+    const at = '2026-11-06T13:40:00.000Z';
+    const baseline = runWithConfig(withNews({ enabled: false }), () => signalAt(at, 'XAUUSD'));
+
+    const penalty = { beforeMinutes: 30, afterMinutes: 30, action: 'penalty' as const };
+    const impacts = { high: { ...penalty, penalty: 20 }, medium: { ...penalty, penalty: 5 } };
+    runWithConfig(withNews({ impacts }), () => {
+      const signal = signalAt(at, 'XAUUSD');
+      const hint = 'News blackout: USD Non-Farm Payrolls (high impact) at 13:30 UTC, 10 min ago';
+
+      expect(signal.direction).toBe('long');
+      expect(signal.confidence).toBe(baseline.confidence - 20);
+      expect(signal.riskHints).toContain(hint);
+      expect(signal.confidenceBreakdown?.adjustments).toContainEqual({ factor: hint, delta: -20 });
+    });
+  });
+
+  it('keeps the last good calendar when the file stops parsing', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'news-'));
+    const file = path.join(dir, 'calendar.csv');
+    try {
+      fs.copyFileSync(CALENDAR, file);
+      expect(loadNewsCalendar(file)).toHaveLength(5);
+
+      fs.writeFileSync(file, 'when,what\n2026-11-06 13:30,NFP\n');
+      fs.utimesSync(file, new Date(), new Date(Date.now() + 60_000));
+      expect(loadNewsCalendar(file)).toHaveLength(5);
+
+      const other = path.join(dir, 'other.json');
+      fs.writeFileSync(other, '{ not json');
+      expect(loadNewsCalendar(other)).toEqual([]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,62 @@
+import { evaluateOutcome, OutcomePlan } from '@signals/outcome';
+
+const T0 = 1705327200;
+
+// Long limit at 100, stop 95 (1R = 5), 2R target at 110
+const PLAN: OutcomePlan = {
+  entry: { type: 'limit', price: 100, zone: null, source: 'fvg', description: 'FVG' },
+  stop: { price: 95, level: 95.5, source: 'swing', description: 'Swing low' },
+  targets: [{ label: '2R', price: 110, rr: 2, source: 'rr' }],
+};
+
+// Bars after the signal bar (15m apart)
+function bars(...ranges: Array<[number, number]>) {
+  return ranges.map(([low, high], i) => ({
+    time: T0 + (i + 1) * 900,
+    low,
+    high,
+    close: (low + high) / 2,
+  }));
+}
+
+describe('signal outcome evaluation', () => {
+  it('fills the limit, then records the target with excursions and R', () => {
+    const outcome = evaluateOutcome(
+      PLAN,
+      'long',
+      T0,
+      bars([101, 104], [98, 102], [99, 106], [105, 111]),
+      10
+    );
+
+    expect(outcome).toMatchObject({
+      result: 'target',
+      target: '2R',
+      filledAt: T0 + 2 * 900,
+      exitPrice: 110,
+      rAchieved: 2,
+      mfe: 11,
+      mae: 2,
+      maeR: 0.4,
+      barsToOutcome: 4,
+      timeToOutcome: 4 * 900,
+    });
+  });
+
+  it('counts a bar that trades stop and target as a stop', () => {
+    const outcome = evaluateOutcome(PLAN, 'long', T0, bars([99, 101], [94, 112]), 10);
+    expect(outcome).toMatchObject({ result: 'stop', exitPrice: 95, rAchieved: -1 });
+  });
+
+  it('stays pending inside the window and expires or goes unfilled after it', () => {
+    expect(evaluateOutcome(PLAN, 'long', T0, bars([101, 104], [99, 103]), 3)).toBeNull();
+
+    expect(evaluateOutcome(PLAN, 'long', T0, bars([101, 104], [101, 103]), 2)).toMatchObject({
+      result: 'unfilled',
+      rAchieved: null,
+    });
+    expect(
+      evaluateOutcome(PLAN, 'long', T0, bars([101, 104], [99, 103], [102, 104]), 3)
+    ).toMatchObject({ result: 'expired', exitPrice: 103, rAchieved: 0.6 });
+  });
+});
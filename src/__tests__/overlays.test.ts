@@ -0,0 +1,248 @@
+import { analyzeWindow, WindowAnalysis } from '@agent/context';
+import { buildChartOverlays } from '@agent/overlays';
+import { MarketContext } from '@custom-types/context';
+import { RawCandle, RawMarketData } from '@custom-types/market';
+import { TradePlanLevels } from '@signals/tradePlan';
+
+const T0 = Date.parse('2024-01-15T14:00:00Z') / 1000;
+const H0 = Date.parse('2024-01-15T04:00:00Z') / 1000;
+
+function bars(start: number, step: number, ranges: Array<[number, number]>): RawCandle[] {
+  return ranges.map(([low, high], i) => ({
+    open: low,
+    high,
+    low,
+    close: (low + high) / 2,
+    volume: 1000,
+    time: start + i * step,
+  }));
+}
+
+// 15m execution bars: dealing range of the last 10 runs from 110 (bar 4) to 90 (bar 8)
+const candles = bars(T0, 900, [
+  [98, 102],
+  [97, 103],
+  [96, 104],
+  [97, 105],
+  [100, 110],
+  [99, 104],
+  [96, 102],
+  [94, 100],
+  [90, 96],
+  [93, 99],
+  [95, 101],
+  [97, 102],
+]);
+const time = (i: number) => candles[i].time as number;
+const rawData: RawMarketData = { candles, timeframe: '15m' };
+
+// 4h series: PO3 range 120 → 95, and higher swing lows at 8, 9, 10.5 for the trendline
+const htfCandles = bars(H0, 14400, [
+  [100, 120],
+  [95, 115],
+  [98, 112],
+]);
+const trendCandles = bars(H0, 14400, [
+  [10, 12],
+  [8, 10],
+  [11, 13],
+  [9, 11],
+  [12, 14],
+  [10.5, 12.5],
+  [13, 15],
+  [12, 14],
+]);
+
+const analysis: WindowAnalysis = {
+  ...analyzeWindow(rawData),
+  swings: {
+    swingHighs: [{ index: 4, level: 110, type: 'high' }],
+    swingLows: [
+      { index: 8, level: 90, type: 'low' },
+      { index: 20, level: 80, type: 'low' }, // outside the window
+    ],
+  },
+  orderBlocks: [
+    { index: 3, type: 'bullish', high: 105, low: 97, level: 101 },
+    { index: 6, type: 'bearish', high: 102, low: 96, level: 99 },
+  ],
+  htfSeries: { candles: htfCandles, timeframe: '4h', source: 'supplied' },
+  trendlineSeries: { candles: trendCandles, timeframe: '4h', source: 'supplied' },
+};
+
+const context: MarketContext = {
+  session: 'ny',
+  sessionWindows: [],
+  htfTrend: 'bullish',
+  price: 99.5,
+  high: 102,
+  low: 97,
+  volume: 1000,
+  po3ZonePresent: true,
+  priceAtPO3: true,
+  liquiditySweep: true,
+  sweptDirection: 'low',
+  liquidityZones: [
+    { level: 110, type: 'high', swept: false },
+    { level: 90, type: 'low', swept: true },
+  ],
+  structureBreak: false,
+  breakDirection: null,
+  structure: {
+    bos: false,
+    mss: false,
+    direction: null,
+    level: null,
+    shift: { detected: false, direction: null, level: null },
+  },
+  orderBlocks: {
+    bullish: { type: 'bullish', high: 105, low: 97, level: 101 },
+    bearish: { type: 'bearish', high: 102, low: 96, level: 99 },
+    atPrice: { type: 'bullish', high: 105, low: 97, level: 101 },
+  },
+  fvg: { exists: true, type: 'bullish', high: 97, low: 96, unfilled: true },
+  volumeSpike: false,
+  displacement: false,
+  oteRetrace: true,
+  oteLevel: 0.705,
+  trendline: { exists: true, touches: 3, respected: true },
+  balanceZones: {
+    inBalance: false,
+    lvnDetected: false,
+    range: null,
+    transition: false,
+    transitionDirection: null,
+    imbalanceSize: 0,
+    lvnLevels: [],
+  },
+  volatility: 'low',
+  previousDayHigh: 112,
+  previousDayLow: 88,
+};
+
+const plan: TradePlanLevels = {
+  model: 'NBB',
+  entry: { type: 'limit', price: 98, zone: null, source: 'orderBlock', description: '' },
+  stop: { price: 89.98, level: 90, source: 'sweptLiquidity', description: '' },
+  risk: 8.02,
+  targets: [
+    { label: '1R', price: 106.02, rr: 1, source: 'rr' },
+    { label: 'Swing high', price: 110, rr: 1.5, source: 'liquidity' },
+  ],
+  invalidation: { price: 89.98, rule: '' },
+  invalidations: [],
+};
+
+describe('chart overlays', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('places every detector overlay at the time of the candle that produced it', () => {
+    const overlays = buildChartOverlays(rawData, analysis, context, plan);
+    const to = time(11);
+
+    expect(overlays.timeframe).toBe('15m');
+    expect(overlays.to).toBe(to);
+
+    expect(overlays.liquidity).toEqual([
+      { time: time(4), price: 110, side: 'high', swept: false },
+      { time: time(8), price: 90, side: 'low', swept: true },
+    ]);
+
+    expect(overlays.orderBlocks).toEqual([
+      { from: time(3), to, high: 105, low: 97, direction: 'bullish', atPrice: true },
+      { from: time(6), to, high: 102, low: 96, direction: 'bearish', atPrice: false },
+    ]);
+
+    // The gap spans the last 3 candles
+    expect(overlays.fvg).toEqual([
+      { from: time(9), to, high: 97, low: 96, direction: 'bullish', unfilled: true },
+    ]);
+
+    // HTF range 120-95 (the current bar extends the last 4h bar down to 97)
+    expect(overlays.po3).toEqual({
+      from: H0,
+      to,
+      high: 120,
+      low: 95,
+      equilibrium: 107.5,
+      zone: 'discount',
+    });
+
+    // Bullish OTE retraces down from the execution range high 110 (size 20)
+    expect(overlays.ote).toMatchObject({ from: time(2), to, direction: 'bullish', active: true });
+    expect(overlays.ote!.levels.map((l) => l.ratio)).toEqual([0.62, 0.705, 0.79]);
+    expect(overlays.ote!.levels.map((l) => l.price)).toEqual([
+      expect.closeTo(97.6),
+      expect.closeTo(95.9),
+      expect.closeTo(94.2),
+    ]);
+
+    // First and last higher swing low of the 4h trendline series
+    expect(overlays.trendline).toEqual({
+      type: 'ascending',
+      p1: { time: H0 + 14400, price: 8 },
+      p2: { time: H0 + 5 * 14400, price: 10.5 },
+      touches: 3,
+      respected: true,
+      timeframe: '4h',
+    });
+
+    expect(overlays.planLevels).toEqual([
+      { kind: 'entry', label: 'Entry (limit)', price: 98, from: to },
+      { kind: 'stop', label: 'Stop', price: 89.98, from: to },
+      { kind: 'target', label: '1R', price: 106.02, from: to },
+      { kind: 'target', label: 'Swing high', price: 110, from: to },
+    ]);
+
+    expect(overlays.sessions[0].time).toBe(time(0));
+  });
+
+  it('mirrors the OTE for a bearish trend and leaves out what did not fire', () => {
+    const bearish: MarketContext = {
+      ...context,
+      htfTrend: 'bearish',
+      price: 110,
+      po3ZonePresent: false,
+      oteRetrace: false,
+      fvg: { exists: false, type: null, high: null, low: null, unfilled: false },
+      orderBlocks: { ...context.orderBlocks, atPrice: null },
+    };
+    const overlays = buildChartOverlays(rawData, analysis, bearish, null);
+
+    expect(overlays.ote!.direction).toBe('bearish');
+    expect(overlays.ote!.levels.map((l) => l.price)).toEqual([
+      expect.closeTo(102.4),
+      expect.closeTo(104.1),
+      expect.closeTo(105.8),
+    ]);
+    expect(overlays.ote!.active).toBe(false);
+    expect(overlays.po3).toBeNull();
+    expect(overlays.fvg).toEqual([]);
+    expect(overlays.planLevels).toEqual([]);
+    expect(overlays.orderBlocks.some((b) => b.atPrice)).toBe(false);
+  });
+
+  it('returns empty overlays for untimed candles', () => {
+    const untimed = candles.map(({ time: _time, ...candle }) => candle);
+    const overlays = buildChartOverlays({ candles: untimed }, analysis, context, plan);
+
+    expect(overlays).toEqual({
+      timeframe: null,
+      to: null,
+      liquidity: [],
+      orderBlocks: [],
+      fvg: [],
+      po3: null,
+      ote: null,
+      trendline: null,
+      planLevels: [],
+      sessions: [],
+    });
+  });
+});
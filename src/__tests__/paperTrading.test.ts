@@ -0,0 +1,73 @@
+import type { SignalTransition } from '@signals/lifecycle';
+import { planPaperOrders } from '../paper/paperTrading';
+
+function armed(entryType: 'market' | 'limit', targets: number[]): SignalTransition {
+  const signal = {
+    direction: 'long' as const,
+    confidence: 78,
+    grade: 'A' as const,
+    timeframe: '15m',
+    instrument: 'FOREX',
+    symbol: 'EURUSD',
+    playbook: 'NBB PO3/OTE',
+    primaryPlaybook: 'NBB',
+    reasons: [],
+    riskHints: [],
+    createdAt: '2024-01-15T08:15:00.000Z',
+  };
+
+  return {
+    dedupKey: 'EURUSD:15m:NBB PO3/OTE:long',
+    symbol: 'EURUSD',
+    timeframe: '15m',
+    playbook: 'NBB PO3/OTE',
+    direction: 'long',
+    from: 'forming',
+    to: 'armed',
+    reason: 'Confidence 78 reached',
+    price: 1.0835,
+    at: '2024-01-15T08:15:00.000Z',
+    signal,
+    plan: {
+      entry: { type: entryType, price: 1.0825, zone: null, source: 'fvg', description: '' },
+      stop: { price: 1.0805, level: 1.0806, source: 'sweptLiquidity', description: '' },
+      targets: targets.map((price, i) => ({
+        label: `${i + 1}R`,
+        price,
+        rr: i + 1,
+        source: 'rr' as const,
+      })),
+    },
+  };
+}
+
+describe('paper trading', () => {
+  it('splits the risked size across one entry order per target', () => {
+    const orders = planPaperOrders('user-1', armed('limit', [1.0845, 1.0865]), 100000, 1);
+
+    // 1% of 100k over a 0.0020 stop = 500,000 units, half per leg
+    expect(orders).toHaveLength(2);
+    expect(orders.map((o) => o.quantity)).toEqual([250000, 250000]);
+    expect(orders.map((o) => o.takeProfit)).toEqual([1.0845, 1.0865]);
+    expect(orders[0]).toMatchObject({
+      symbol: 'EURUSD',
+      side: 'buy',
+      type: 'limit', // entry below the current price
+      price: 1.0825,
+      stopLoss: 1.0805,
+    });
+    expect(orders[0].clientOrderId).not.toBe(orders[1].clientOrderId);
+  });
+
+  it('derives the same client order IDs for the same setup', () => {
+    const first = planPaperOrders('user-1', armed('market', []), 50000, 0.5);
+    const again = planPaperOrders('user-1', armed('market', []), 51000, 0.5);
+
+    expect(first).toHaveLength(1);
+    expect(first[0]).toMatchObject({ type: 'market', price: undefined, takeProfit: undefined });
+    expect(again[0].clientOrderId).toBe(first[0].clientOrderId);
+    expect(planPaperOrders('user-2', armed('market', []), 50000, 0.5)[0].clientOrderId).not.toBe(
+      first[0].clientOrderId
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import { calculatePositionSize, parseSizingRequest } from '../risk/positionSizer';
+
+const request = (body: Record<string, unknown>) =>
+  parseSizingRequest({ balance: 10000, riskPercent: 1, ...body });
+
+describe('position sizer', () => {
+  it('sizes forex in lot steps and converts JPY risk into the account currency', () => {
+    const eurusd = calculatePositionSize(request({ symbol: 'EUR_USD', entry: 1.085, stop: 1.083 }));
+    expect(eurusd).toMatchObject({
+      symbol: 'EURUSD',
+      direction: 'long',
+      pips: 20,
+      units: 50000,
+      lots: 0.5,
+      riskAmount: 100,
+      pipValue: 5,
+      notional: 54250,
+    });
+    expect(eurusd.margin).toBeCloseTo(1806.5, 0); // 1:30
+
+    // 50 pips on USDJPY at 150 = 0.5 / 150 USD per unit
+    const usdjpy = calculatePositionSize(request({ symbol: 'USDJPY', entry: 150, stop: 150.5 }));
+    expect(usdjpy).toMatchObject({ direction: 'short', pips: 50, units: 30000, riskAmount: 100 });
+
+    expect(() =>
+      calculatePositionSize(request({ symbol: 'GBPJPY', entry: 190, stop: 189 }))
+    ).toThrow('No JPY/USD rate');
+    const gbpjpy = calculatePositionSize(
+      request({ symbol: 'GBPJPY', entry: 190, stop: 189, rates: { USD_JPY: 150 } })
+    );
+    expect(gbpjpy).toMatchObject({ units: 15000, lots: 0.15, riskAmount: 100 });
+  });
+
+  it('flags budgets below the minimum lot and rejects bad input', () => {
+    const gold = calculatePositionSize(
+      request({ symbol: 'XAUUSD', balance: 100, riskPercent: 0.5, entry: 2030, stop: 2020 })
+    );
+    expect(gold).toMatchObject({ units: 0, lots: 0, belowMinimum: true, riskAmount: 0 });
+
+    expect(() => request({ entry: 1.1, stop: 1.09 })).toThrow('symbol required');
+    expect(() => request({ symbol: 'EURUSD', entry: 1.1, stop: 1.1 })).toThrow('must differ');
+    expect(() => request({ symbol: 'EURUSD', entry: 1.1, stop: 1.09, riskPercent: 120 })).toThrow(
+      'Invalid riskPercent'
+    );
+  });
+});
@@ -0,0 +1,186 @@
+import { evaluateNBB } from '@playbooks/nbb';
+import { classifyMarket } from '@agent/classifier';
+import { buildSignal } from '@signals/signalEngine';
+import { computeRangeStats } from '@detectors/range';
+import { MarketContext } from '@custom-types/context';
+import { RangeStats } from '@custom-types/detector';
+import { runWithConfig } from '@config/config';
+import { resolveConfig } from '@config/overrides';
+
+// Bullish NY context every NBB condition passes on (before the ADR gate)
+const baseContext: MarketContext = {
+  session: 'ny',
+  sessionWindows: ['nyAmKillZone'],
+  htfTrend: 'bullish',
+  price: 4485,
+  high: 4490,
+  low: 4470,
+  volume: 1500000,
+  po3ZonePresent: true,
+  priceAtPO3: true,
+  liquiditySweep: true,
+  sweptDirection: 'low',
+  liquidityZones: [{ level: 4425, type: 'low', swept: true }],
+  structureBreak: true,
+  breakDirection: 'bullish',
+  structure: {
+    bos: true,
+    mss: false,
+    direction: 'bullish',
+    level: 4480,
+    shift: { detected: false, direction: null, level: null },
+  },
+  orderBlocks: { bullish: null, bearish: null, atPrice: null },
+  fvg: { exists: true, type: 'bullish', high: 4478, low: 4472, unfilled: true },
+  volumeSpike: true,
+  displacement: true,
+  oteRetrace: true,
+  oteLevel: 0.705,
+  trendline: { exists: true, touches: 3, respected: true },
+  balanceZones: {
+    inBalance: true,
+    lvnDetected: false,
+    range: null,
+    transition: false,
+    transitionDirection: null,
+    imbalanceSize: 0,
+    lvnLevels: [],
+  },
+  volatility: 'high',
+  previousDayHigh: 4500,
+  previousDayLow: 4380,
+};
+
+const metadata = { instrument: 'CFD', timeframe: '15m', symbol: 'US500' };
+
+function ranges(adrUsedPct: number | null, sessions: Partial<RangeStats['sessions']> = {}) {
+  const flat = { range: 10, average: 10, ratio: 1 };
+  return {
+    adr: adrUsedPct === null ? null : 50,
+    adrDays: adrUsedPct === null ? 0 : 5,
+    todayRange: adrUsedPct === null ? null : adrUsedPct * 50,
+    adrUsedPct,
+    atr: 4,
+    sessions: { asian: flat, london: flat, ny: flat, ...sessions },
+  };
+}
+
+describe('range analytics', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('NBB ADR gate (adrMaxPct 1.2)', () => {
+    it.each<{ name: string; ranges?: RangeStats; passed: boolean; message: string }>([
+      { name: 'no range stats', passed: true, message: 'No ADR history, check skipped' },
+      {
+        name: 'no completed day',
+        ranges: ranges(null),
+        passed: true,
+        message: 'No ADR history, check skipped',
+      },
+      { name: 'half the ADR used', ranges: ranges(0.5), passed: true, message: 'ADR OK: 50% used' },
+      {
+        name: 'exactly at the limit',
+        ranges: ranges(1.2),
+        passed: true,
+        message: 'ADR OK: 120% used',
+      },
+      {
+        name: 'past the limit',
+        ranges: ranges(1.21),
+        passed: false,
+        message: 'Day range spent: 121% of ADR used (max 120%)',
+      },
+    ])('$name', ({ ranges: stats, passed, message }) => {
+      const { signal, trace } = evaluateNBB({ ...baseContext, ranges: stats });
+      const adr = trace.conditions.find((c) => c.id === 'adr');
+
+      expect(adr).toMatchObject({ passed, message, threshold: { adrMaxPct: 1.2 } });
+      expect(signal !== null).toBe(passed);
+      expect(trace.rejectedBy).toBe(passed ? null : 'adr');
+    });
+
+    it('follows a configured adrMaxPct', () => {
+      const config = resolveConfig({ weights: { thresholds: { adrMaxPct: 1.5 } } });
+
+      runWithConfig(config, () => {
+        const { signal, trace } = evaluateNBB({ ...baseContext, ranges: ranges(1.3) });
+        expect(signal).not.toBeNull();
+        expect(trace.conditions.find((c) => c.id === 'adr')?.observed).toEqual({
+          adr: 50,
+          adrUsedPct: 1.3,
+        });
+      });
+    });
+  });
+
+  describe('range-exhaustion risk hints (adrWarnPct 0.8, sessionRangeWarnRatio 1.5)', () => {
+    const extended = (r: number) => ({ range: 15 * r, average: 15, ratio: r });
+
+    it.each<{ name: string; ranges?: RangeStats; hints: string[] }>([
+      { name: 'no range stats', hints: [] },
+      { name: 'ADR below the warning', ranges: ranges(0.79), hints: [] },
+      {
+        name: 'ADR at the warning',
+        ranges: ranges(0.8),
+        hints: ['ADR stretched: 80% of the 5-day average range already used'],
+      },
+      {
+        name: 'current session extended',
+        ranges: ranges(0.5, { ny: extended(1.5) }),
+        hints: ['NY range 1.5× its average (session extended)'],
+      },
+      {
+        name: 'another session extended',
+        ranges: ranges(0.5, { london: extended(2) }),
+        hints: [],
+      },
+      {
+        name: 'both stretched',
+        ranges: ranges(1.1, { ny: extended(2) }),
+        hints: [
+          'ADR stretched: 110% of the 5-day average range already used',
+          'NY range 2× its average (session extended)',
+        ],
+      },
+    ])('$name', ({ ranges: stats, hints }) => {
+      const ctx = { ...baseContext, ranges: stats };
+      const signal = buildSignal(ctx, classifyMarket(ctx, 'priority'), metadata);
+
+      expect(signal.direction).toBe('long');
+      expect(
+        signal.riskHints.filter((h) => h.startsWith('ADR') || h.includes('session extended'))
+      ).toEqual(hints);
+    });
+  });
+
+  it('leaves ADR and ATR empty without enough history', () => {
+    // Eight hourly bars of a single trading day
+    const start = Date.parse('2024-01-16T01:00:00Z') / 1000;
+    const candles = Array.from({ length: 8 }, (_, i) => ({
+      open: 100 + i,
+      high: 101 + i,
+      low: 99 + i,
+      close: 100.5 + i,
+      time: start + i * 3600,
+    }));
+    const stats = computeRangeStats(candles);
+
+    expect(stats).toMatchObject({
+      adr: null,
+      adrDays: 0,
+      todayRange: 9,
+      adrUsedPct: null,
+      atr: null,
+    });
+    expect(stats.sessions.ny).toEqual({ range: null, average: null, ratio: null });
+
+    // Untimed candles have no trading days at all
+    expect(computeRangeStats(candles.map(({ time: _time, ...c }) => c)).todayRange).toBeNull();
+  });
+});
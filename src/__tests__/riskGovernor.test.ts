@@ -0,0 +1,140 @@
+import {
+  evaluateTradeRisk,
+  NO_RISK_RULES,
+  parseRiskRules,
+  realizedPnl,
+  RiskState,
+  TradeProposal,
+} from '../risk/riskGovernor';
+
+const proposal: TradeProposal = {
+  symbol: 'EURUSD',
+  direction: 'long',
+  entryPrice: 1.085,
+  stopPrice: 1.083,
+  size: 1, // lot
+  at: new Date('2024-01-15T09:30:00Z'), // Monday
+};
+
+const flat: RiskState = {
+  balance: 10000,
+  currency: 'USD',
+  openPositions: [],
+  tradesToday: 0,
+  realizedPnlToday: 0,
+};
+
+describe('risk governor', () => {
+  it('names every rule a trade breaks', () => {
+    const rules = {
+      ...NO_RISK_RULES,
+      maxRiskPercent: 1,
+      maxDailyTrades: 3,
+      dailyLossLimitPercent: 2,
+    };
+
+    // 0.0020 × 1 lot (100k) = 200 = 2% of 10k
+    const decision = evaluateTradeRisk(rules, proposal, {
+      ...flat,
+      tradesToday: 3,
+      realizedPnlToday: -250,
+    });
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.rejections.map((r) => r.rule)).toEqual([
+      'maxRiskPercent',
+      'maxDailyTrades',
+      'dailyLossLimitPercent',
+    ]);
+    expect(decision.rejections[0]).toMatchObject({ limit: 1, actual: 2 });
+    expect(evaluateTradeRisk(rules, { ...proposal, size: 0.5 }, flat).allowed).toBe(true);
+  });
+
+  it('measures risk of lot-sized trades in the account currency', () => {
+    const rules = { ...NO_RISK_RULES, maxRiskPercent: 2 };
+
+    // 50 pips on 1 lot of EURUSD = $500 = 5%
+    const eurusd = { ...proposal, entryPrice: 1.085, stopPrice: 1.08 };
+    expect(evaluateTradeRisk(rules, eurusd, flat).rejections).toEqual([
+      expect.objectContaining({ rule: 'maxRiskPercent', actual: 5 }),
+    ]);
+
+    // 50 pips on 1 lot of USDJPY = ¥50,000 ≈ $333 at 150
+    const usdjpy = { ...proposal, symbol: 'USDJPY', entryPrice: 150, stopPrice: 149.5 };
+    expect(evaluateTradeRisk(rules, usdjpy, flat).rejections[0].actual).toBe(3.33);
+
+    // GBPJPY converts through a USDJPY rate sent with the trade
+    const gbpjpy = { ...usdjpy, symbol: 'GBPJPY', entryPrice: 190, stopPrice: 189.5, size: 0.5 };
+    expect(evaluateTradeRisk(rules, gbpjpy, flat).rejections[0].message).toContain('JPY/USD');
+    expect(evaluateTradeRisk(rules, { ...gbpjpy, rates: { USDJPY: 150 } }, flat).allowed).toBe(
+      true
+    );
+  });
+
+  it('trips the daily loss limit on a losing journaled trade', () => {
+    const rules = { ...NO_RISK_RULES, accountBalance: 10000, dailyLossLimitPercent: 2 };
+
+    // Long 1 lot EURUSD closed 50 pips down: −$500 = 5% of the 10k balance
+    const closed = [
+      { symbol: 'EURUSD', direction: 'long' as const, entryPrice: 1.085, exitPrice: 1.08, size: 1 },
+    ];
+    const realizedPnlToday = realizedPnl(closed, 'USD');
+    expect(realizedPnlToday).toBeCloseTo(-500, 6);
+
+    const decision = evaluateTradeRisk(rules, proposal, {
+      ...flat,
+      balance: null,
+      realizedPnlToday,
+    });
+    expect(decision.rejections).toEqual([
+      expect.objectContaining({ rule: 'dailyLossLimitPercent', actual: 5 }),
+    ]);
+
+    // Short 1 lot USDJPY stopped 100 pips up at 150: −¥100,000 ≈ −$667
+    const usdjpy = { ...closed[0], symbol: 'USDJPY', direction: 'short' as const };
+    expect(realizedPnl([{ ...usdjpy, entryPrice: 149, exitPrice: 150 }], 'USD')).toBeCloseTo(
+      -666.67,
+      2
+    );
+
+    // A cross without a rate to convert it is left out
+    const gbpjpy = { ...usdjpy, symbol: 'GBPJPY', entryPrice: 189, exitPrice: 190 };
+    expect(realizedPnl([gbpjpy], 'USD')).toBe(0);
+    expect(realizedPnl([gbpjpy], 'USD', { USDJPY: 150 })).toBeCloseTo(-666.67, 2);
+  });
+
+  it('counts positions adding to the same currency exposure', () => {
+    const rules = { ...NO_RISK_RULES, maxCorrelatedPositions: 2 };
+    const state: RiskState = {
+      ...flat,
+      openPositions: [
+        { symbol: 'GBPUSD', direction: 'long' },
+        { symbol: 'XAUUSD', direction: 'long' },
+      ],
+    };
+
+    const decision = evaluateTradeRisk(rules, proposal, state);
+    expect(decision.rejections).toEqual([
+      expect.objectContaining({ rule: 'maxCorrelatedPositions', actual: 3 }),
+    ]);
+    expect(decision.rejections[0].message).toContain('short USD');
+
+    // Short EURUSD is long USD: it hedges instead
+    expect(evaluateTradeRisk(rules, { ...proposal, direction: 'short' }, state).allowed).toBe(true);
+  });
+
+  it('validates rules and trading hours that run past midnight', () => {
+    const rules = parseRiskRules({ tradingHours: { start: '22:00', end: '06:00', days: [1] } });
+
+    const at = (iso: string) => ({ ...proposal, at: new Date(iso) });
+    expect(evaluateTradeRisk(rules, at('2024-01-15T23:00:00Z'), flat).allowed).toBe(true);
+    expect(evaluateTradeRisk(rules, at('2024-01-16T05:59:00Z'), flat).allowed).toBe(true);
+    expect(evaluateTradeRisk(rules, at('2024-01-16T06:00:00Z'), flat).allowed).toBe(false);
+    expect(evaluateTradeRisk(rules, at('2024-01-15T05:00:00Z'), flat).allowed).toBe(false);
+
+    expect(() => parseRiskRules({ maxDailyTrades: 2.5 })).toThrow('Invalid maxDailyTrades');
+    expect(() => parseRiskRules({ tradingHours: { start: '9:00', end: '17:00' } })).toThrow(
+      'tradingHours.start'
+    );
+  });
+});
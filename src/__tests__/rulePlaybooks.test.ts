@@ -0,0 +1,432 @@
+import { evaluateRulePlaybook, validateRuleDefinition } from '@playbooks/rules';
+import { MarketContext } from '@custom-types/context';
+import { RuleExpression, RulePlaybookDefinition } from '@custom-types/playbook';
+
+// Bullish NY AM context: swept lows, bullish FVG, no order block at price
+const baseContext: MarketContext = {
+  session: 'ny',
+  sessionWindows: ['nyAmKillZone'],
+  htfTrend: 'bullish',
+  price: 4485,
+  high: 4490,
+  low: 4470,
+  volume: 1500000,
+  po3ZonePresent: true,
+  priceAtPO3: true,
+  liquiditySweep: true,
+  sweptDirection: 'low',
+  liquidityZones: [{ level: 4425, type: 'low', swept: true }],
+  structureBreak: true,
+  breakDirection: 'bullish',
+  structure: {
+    bos: true,
+    mss: false,
+    direction: 'bullish',
+    level: 4480,
+    shift: { detected: false, direction: null, level: null },
+  },
+  orderBlocks: { bullish: null, bearish: null, atPrice: null },
+  fvg: { exists: true, type: 'bullish', high: 4478, low: 4472, unfilled: true },
+  volumeSpike: true,
+  displacement: true,
+  oteRetrace: true,
+  oteLevel: 0.705,
+  trendline: { exists: true, touches: 3, respected: true },
+  balanceZones: {
+    inBalance: true,
+    lvnDetected: false,
+    range: null,
+    transition: false,
+    transitionDirection: null,
+    imbalanceSize: 0,
+    lvnLevels: [],
+  },
+  volatility: 'high',
+  previousDayHigh: 4500,
+  previousDayLow: 4380,
+};
+
+const SWEEP_DIRECTION: RulePlaybookDefinition['direction'] = [
+  { field: 'sweptDirection', map: { low: 'bullish', high: 'bearish' } },
+];
+
+function rules(overrides: Partial<RulePlaybookDefinition> = {}): RulePlaybookDefinition {
+  return {
+    direction: SWEEP_DIRECTION,
+    conditions: [
+      { id: 'sweep', label: 'Liquidity Sweep', field: 'liquiditySweep', op: 'eq', value: true },
+    ],
+    tpLogic: { bullish: 'Target = PDH', bearish: 'Target = PDL' },
+    ...overrides,
+  };
+}
+
+function evaluate(
+  definition: RulePlaybookDefinition,
+  context: MarketContext = baseContext,
+  confidence = { baseConfidence: 80, minConfidence: 0 }
+) {
+  return evaluateRulePlaybook('Test', { rules: definition, ...confidence }, context);
+}
+
+// Does a single-condition playbook fire with this expression?
+function fires(expression: RuleExpression, context: MarketContext = baseContext): boolean {
+  const condition = { id: 'rule', label: 'Rule', ...expression };
+  return evaluate(rules({ conditions: [condition] }), context).signal !== null;
+}
+
+describe('rule-based playbooks', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('operators', () => {
+    it.each<{ name: string; expression: RuleExpression; expected: boolean }>([
+      {
+        name: 'eq match',
+        expression: { field: 'liquiditySweep', op: 'eq', value: true },
+        expected: true,
+      },
+      {
+        name: 'eq miss',
+        expression: { field: 'liquiditySweep', op: 'eq', value: false },
+        expected: false,
+      },
+      {
+        name: 'neq match',
+        expression: { field: 'session', op: 'neq', value: 'asia' },
+        expected: true,
+      },
+      {
+        name: 'neq miss',
+        expression: { field: 'session', op: 'neq', value: 'ny' },
+        expected: false,
+      },
+      { name: 'gt match', expression: { field: 'price', op: 'gt', value: 4480 }, expected: true },
+      {
+        name: 'gt on equal',
+        expression: { field: 'price', op: 'gt', value: 4485 },
+        expected: false,
+      },
+      {
+        name: 'gt on a string field',
+        expression: { field: 'session', op: 'gt', value: 1 },
+        expected: false,
+      },
+      {
+        name: 'gte on equal',
+        expression: { field: 'price', op: 'gte', value: 4485 },
+        expected: true,
+      },
+      { name: 'gte miss', expression: { field: 'price', op: 'gte', value: 4486 }, expected: false },
+      {
+        name: 'lt match',
+        expression: { field: 'oteLevel', op: 'lt', value: 0.79 },
+        expected: true,
+      },
+      {
+        name: 'lt on equal',
+        expression: { field: 'oteLevel', op: 'lt', value: 0.705 },
+        expected: false,
+      },
+      {
+        name: 'lte on equal',
+        expression: { field: 'oteLevel', op: 'lte', value: 0.705 },
+        expected: true,
+      },
+      {
+        name: 'lte miss',
+        expression: { field: 'oteLevel', op: 'lte', value: 0.7 },
+        expected: false,
+      },
+      {
+        name: 'in match',
+        expression: { field: 'session', op: 'in', value: ['london', 'ny'] },
+        expected: true,
+      },
+      {
+        name: 'in miss',
+        expression: { field: 'session', op: 'in', value: ['asia'] },
+        expected: false,
+      },
+      {
+        name: 'in without a list',
+        expression: { field: 'session', op: 'in', value: 'ny' },
+        expected: false,
+      },
+      {
+        name: 'includes match',
+        expression: { field: 'sessionWindows', op: 'includes', value: 'nyAmKillZone' },
+        expected: true,
+      },
+      {
+        name: 'includes miss',
+        expression: { field: 'sessionWindows', op: 'includes', value: 'londonKillZone' },
+        expected: false,
+      },
+      {
+        name: 'includes on a scalar',
+        expression: { field: 'session', op: 'includes', value: 'ny' },
+        expected: false,
+      },
+      {
+        name: 'exists (default true)',
+        expression: { field: 'fvg.high', op: 'exists' },
+        expected: true,
+      },
+      {
+        name: 'exists on null',
+        expression: { field: 'orderBlocks.atPrice', op: 'exists' },
+        expected: false,
+      },
+      {
+        name: 'exists false on null',
+        expression: { field: 'orderBlocks.atPrice', op: 'exists', value: false },
+        expected: true,
+      },
+      {
+        name: 'exists on a missing path',
+        expression: { field: 'fvg.zone.high', op: 'exists' },
+        expected: false,
+      },
+      {
+        name: 'dotted path',
+        expression: { field: 'trendline.touches', op: 'gte', value: 3 },
+        expected: true,
+      },
+    ])('$name', ({ expression, expected }) => {
+      expect(fires(expression)).toBe(expected);
+    });
+
+    it('picks the value for the trade direction', () => {
+      const fvgAligned: RuleExpression = {
+        field: 'fvg.type',
+        op: 'eq',
+        value: { bullish: 'bullish', bearish: 'bearish' },
+      };
+
+      expect(fires(fvgAligned)).toBe(true);
+      // Swept highs → bearish trade, the bullish FVG no longer agrees
+      expect(fires(fvgAligned, { ...baseContext, sweptDirection: 'high' })).toBe(false);
+    });
+  });
+
+  describe('all / any groups', () => {
+    const pass: RuleExpression = { field: 'displacement', op: 'eq', value: true };
+    const fail: RuleExpression = { field: 'volatility', op: 'eq', value: 'low' };
+
+    it.each<{ name: string; expression: RuleExpression; expected: boolean }>([
+      { name: 'all passing', expression: { all: [pass, pass] }, expected: true },
+      { name: 'all with one failing', expression: { all: [pass, fail] }, expected: false },
+      { name: 'any with one passing', expression: { any: [fail, pass] }, expected: true },
+      { name: 'any all failing', expression: { any: [fail, fail] }, expected: false },
+      {
+        name: 'any nested in all',
+        expression: { all: [pass, { any: [fail, pass] }] },
+        expected: true,
+      },
+      {
+        name: 'all nested in any',
+        expression: { any: [fail, { all: [pass, fail] }] },
+        expected: false,
+      },
+    ])('$name', ({ expression, expected }) => {
+      expect(fires(expression)).toBe(expected);
+    });
+
+    it('traces every field a group reads', () => {
+      const { trace } = evaluate(
+        rules({ conditions: [{ id: 'group', label: 'Group', all: [pass, { any: [fail, pass] }] }] })
+      );
+      const group = trace.conditions.find((c) => c.id === 'group');
+
+      expect(group?.observed).toEqual({ displacement: true, volatility: 'high' });
+      expect(group?.threshold).toEqual({
+        rule: 'displacement eq true AND (volatility eq "low" OR displacement eq true)',
+      });
+    });
+  });
+
+  describe('direction rules', () => {
+    it.each<{
+      name: string;
+      direction: RulePlaybookDefinition['direction'];
+      context: Partial<MarketContext>;
+      expected: 'bullish' | 'bearish' | null;
+    }>([
+      { name: 'mapped field', direction: SWEEP_DIRECTION, context: {}, expected: 'bullish' },
+      {
+        name: 'mapped field, other side',
+        direction: SWEEP_DIRECTION,
+        context: { sweptDirection: 'high', fvg: { ...baseContext.fvg, type: 'bearish' } },
+        expected: 'bearish',
+      },
+      {
+        name: 'raw field value',
+        direction: [{ field: 'breakDirection' }],
+        context: {},
+        expected: 'bullish',
+      },
+      {
+        name: 'falls through to the next source',
+        direction: [...SWEEP_DIRECTION, { field: 'htfTrend' }],
+        context: { sweptDirection: null },
+        expected: 'bullish',
+      },
+      {
+        name: 'value missing from the map',
+        direction: [{ field: 'session', map: { london: 'bullish' } }],
+        context: {},
+        expected: null,
+      },
+      {
+        name: 'no source resolves',
+        direction: [...SWEEP_DIRECTION, { field: 'htfTrend' }],
+        context: { sweptDirection: null, htfTrend: 'neutral' },
+        expected: null,
+      },
+    ])('$name', ({ direction, context, expected }) => {
+      const { signal, trace } = evaluate(rules({ direction }), { ...baseContext, ...context });
+
+      expect(signal?.direction ?? null).toBe(expected);
+      if (expected === null) {
+        expect(trace.rejectedBy).toBe('direction');
+        expect(trace.conditions).toHaveLength(1); // conditions need a direction
+      }
+    });
+
+    it('uses the tpLogic of the direction', () => {
+      const bearish = { ...baseContext, sweptDirection: 'high' as const };
+
+      expect(evaluate(rules()).signal?.tpLogic).toBe('Target = PDH');
+      expect(evaluate(rules(), bearish).signal?.tpLogic).toBe('Target = PDL');
+      expect(evaluate(rules({ tpLogic: 'Target = 2R' }), bearish).signal?.tpLogic).toBe(
+        'Target = 2R'
+      );
+    });
+  });
+
+  it('adds modifier deltas and enforces minConfidence', () => {
+    const definition = rules({
+      signalName: 'Sweep Test',
+      modifiers: [
+        {
+          id: 'displacement',
+          label: 'Displacement',
+          delta: 5,
+          when: { field: 'displacement', op: 'eq', value: true },
+        },
+        {
+          id: 'lowVol',
+          label: 'Low volatility',
+          delta: -10,
+          when: { field: 'volatility', op: 'eq', value: 'low' },
+        },
+      ],
+    });
+
+    const { signal, trace } = evaluate(definition);
+    expect(signal).toMatchObject({ playbookName: 'Sweep Test', confidence: 85 });
+    expect(trace.modifiers.map((m) => [m.id, m.applied])).toEqual([
+      ['displacement', true],
+      ['lowVol', false],
+    ]);
+
+    const rejected = evaluate(definition, baseContext, { baseConfidence: 60, minConfidence: 70 });
+    expect(rejected.signal).toBeNull();
+    expect(rejected.trace.rejectedBy).toBe('minConfidence');
+  });
+
+  describe('validateRuleDefinition', () => {
+    it('accepts a valid definition', () => {
+      expect(validateRuleDefinition(rules(), ['sweep'])).toEqual([]);
+    });
+
+    it.each<{
+      name: string;
+      definition: Record<string, unknown>;
+      required?: string[];
+      error: string;
+    }>([
+      {
+        name: 'empty direction',
+        definition: { direction: [] },
+        error: 'direction needs at least one source field',
+      },
+      {
+        name: 'empty conditions',
+        definition: { conditions: [] },
+        error: 'conditions must be a non-empty array',
+      },
+      {
+        name: 'one-sided tpLogic',
+        definition: { tpLogic: { bullish: 'PDH' } },
+        error: 'tpLogic must be a string or { bullish, bearish }',
+      },
+      {
+        name: 'condition without a label',
+        definition: { conditions: [{ id: 'x', field: 'price', op: 'gt', value: 1 }] },
+        error: 'conditions[0] needs an id and a label',
+      },
+      {
+        name: 'unknown operator',
+        definition: { conditions: [{ id: 'x', label: 'X', field: 'price', op: 'near' }] },
+        error:
+          'conditions[0].op "near" is not one of eq, neq, gt, gte, lt, lte, in, includes, exists',
+      },
+      {
+        name: 'missing field',
+        definition: { conditions: [{ id: 'x', label: 'X', field: '', op: 'eq' }] },
+        error: 'conditions[0].field must be a MarketContext path',
+      },
+      {
+        name: 'empty group',
+        definition: { conditions: [{ id: 'x', label: 'X', any: [] }] },
+        error: 'conditions[0] all/any must be a non-empty array',
+      },
+      {
+        name: 'invalid predicate inside a group',
+        definition: {
+          conditions: [
+            {
+              id: 'x',
+              label: 'X',
+              all: [
+                { field: 'price', op: 'gt' },
+                { field: 'price', op: 'near' },
+              ],
+            },
+          ],
+        },
+        error: 'conditions[0][1].op "near"',
+      },
+      {
+        name: 'non-numeric modifier delta',
+        definition: {
+          modifiers: [{ id: 'm', label: 'M', delta: '5', when: { field: 'price', op: 'exists' } }],
+        },
+        error: 'modifiers[0].delta must be a number',
+      },
+      {
+        name: 'modifier without when',
+        definition: { modifiers: [{ id: 'm', label: 'M', delta: 5 }] },
+        error: 'modifiers[0].when must be an object',
+      },
+      {
+        name: 'required condition without a rule',
+        definition: {},
+        required: ['sweep', 'fvg'],
+        error: 'requiredConditions "fvg" has no matching rule condition',
+      },
+    ])('rejects $name', ({ definition, required = [], error }) => {
+      const errors = validateRuleDefinition(rules(definition as never), required);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toContain(error);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { rankScanRows, runScan, ScanCandleSource, ScanRow } from '../scanner/scanner';
+import { nextCandleClose } from '../scanner/scanScheduler';
+
+// Gently rising 15m candles
+function candles(count: number) {
+  const start = Date.parse('2024-01-15T08:00:00Z') / 1000;
+  return Array.from({ length: count }, (_, i) => {
+    const base = 1.08 + i * 0.0002;
+    return {
+      time: start + i * 900,
+      open: base,
+      high: base + 0.0004,
+      low: base - 0.0003,
+      close: base + 0.0001,
+      volume: 1000,
+    };
+  });
+}
+
+function row(symbol: string, fields: Partial<ScanRow>): ScanRow {
+  return {
+    rank: 0,
+    symbol,
+    provider: 'OANDA',
+    instrument: 'FOREX',
+    timeframe: '15m',
+    direction: 'long',
+    grade: 'B',
+    confidence: 60,
+    playbook: 'NBB PO3/OTE',
+    session: 'ny',
+    price: null,
+    candleTime: null,
+    entry: null,
+    stop: null,
+    riskHints: [],
+    signalId: null,
+    error: null,
+    ...fields,
+  };
+}
+
+describe('watchlist scanner', () => {
+  it('ranks by grade, then confidence, with neutral and failed symbols last', () => {
+    const ranked = rankScanRows([
+      row('GBPUSD', { direction: null, grade: null, confidence: 0, error: 'timeout' }),
+      row('USDJPY', { direction: 'neutral', grade: 'C', confidence: 0 }),
+      row('EURUSD', { grade: 'B', confidence: 72 }),
+      row('AUDUSD', { grade: 'A', confidence: 81 }),
+      row('USDCAD', { grade: 'B', confidence: 65 }),
+    ]);
+
+    expect(ranked.map((r) => [r.rank, r.symbol])).toEqual([
+      [1, 'AUDUSD'],
+      [2, 'EURUSD'],
+      [3, 'USDCAD'],
+      [4, 'USDJPY'],
+      [5, 'GBPUSD'],
+    ]);
+  });
+
+  it('analyses symbols with bounded parallelism and keeps failures as rows', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const source: ScanCandleSource = async (provider, symbol) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      if (symbol === 'BADPAIR') throw new Error('Unknown instrument');
+      return candles(60);
+    };
+
+    const symbols = ['EURUSD', 'GBPUSD', 'BADPAIR', 'USDJPY', 'AUDUSD', 'NZDUSD'];
+    const result = await runScan(
+      { timeframe: '15m', targets: symbols.map((symbol) => ({ symbol, provider: 'OANDA' })) },
+      { source }
+    );
+
+    expect(maxInFlight).toBeLessThanOrEqual(4); // scanner.maxConcurrency
+    expect(result.rows).toHaveLength(6);
+    expect(result.rows[5]).toMatchObject({ symbol: 'BADPAIR', error: 'Unknown instrument' });
+    expect(result.rows[0]).toMatchObject({ instrument: 'FOREX', candleTime: candles(60)[59].time });
+  });
+
+  it('ranks the last closed candle, not the one still in progress', async () => {
+    // 60 bars up to the current 15m bar, which opened seconds ago
+    const open = Math.floor(Date.now() / 900_000) * 900;
+    const history = candles(60).map((c, i) => ({ ...c, time: open - (59 - i) * 900 }));
+    const source: ScanCandleSource = async () => history;
+
+    const result = await runScan(
+      { timeframe: '15m', targets: [{ symbol: 'EURUSD', provider: 'OANDA' }] },
+      { source }
+    );
+
+    expect(result.rows[0]).toMatchObject({
+      error: null,
+      candleTime: history[58].time,
+      price: history[58].close,
+    });
+  });
+
+  it('schedules scans at the next epoch-aligned candle close', () => {
+    const now = Date.parse('2024-01-15T09:07:30Z');
+    expect(new Date(nextCandleClose('15m', now)!).toISOString()).toBe('2024-01-15T09:15:00.000Z');
+    expect(new Date(nextCandleClose('4h', now)!).toISOString()).toBe('2024-01-15T12:00:00.000Z');
+    expect(nextCandleClose('tick', now)).toBeNull();
+  });
+});
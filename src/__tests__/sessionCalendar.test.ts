@@ -0,0 +1,43 @@
+import {
+  getSessionAt,
+  getWindowOccurrence,
+  isInWindow,
+  buildSessionMarkers,
+} from '@detectors/sessionCalendar';
+
+describe('session calendar', () => {
+  it('tracks the NY AM kill zone across DST', () => {
+    // 09:30 New York is 14:30 UTC in winter (EST) and 13:30 UTC in summer (EDT)
+    const winter = getWindowOccurrence('nyAmKillZone', new Date('2024-01-15T15:00:00Z'));
+    const summer = getWindowOccurrence('nyAmKillZone', new Date('2024-07-15T15:00:00Z'));
+
+    expect(winter.start.toISOString()).toBe('2024-01-15T14:30:00.000Z');
+    expect(winter.end.toISOString()).toBe('2024-01-15T16:30:00.000Z');
+    expect(summer.start.toISOString()).toBe('2024-07-15T13:30:00.000Z');
+
+    expect(isInWindow('nyAmKillZone', new Date('2024-07-15T13:45:00Z'))).toBe(true);
+    expect(isInWindow('nyAmKillZone', new Date('2024-01-15T13:45:00Z'))).toBe(false);
+  });
+
+  it('resolves overlapping sessions by priority', () => {
+    expect(getSessionAt(new Date('2024-01-15T03:00:00Z')).current).toBe('asian');
+    expect(getSessionAt(new Date('2024-01-15T10:00:00Z')).current).toBe('london');
+    expect(getSessionAt(new Date('2024-01-15T15:00:00Z')).current).toBe('ny');
+    expect(getSessionAt(new Date('2024-01-15T23:00:00Z')).isActive).toBe(false);
+  });
+
+  it('handles windows that wrap past midnight', () => {
+    const occurrence = getWindowOccurrence('asianRange', new Date('2024-01-16T02:00:00Z'));
+    expect(occurrence.start.toISOString()).toBe('2024-01-16T01:00:00.000Z');
+    expect(occurrence.end.toISOString()).toBe('2024-01-16T05:00:00.000Z');
+  });
+
+  it('emits markers on session changes and window opens', () => {
+    const start = Date.parse('2024-01-15T14:00:00Z') / 1000;
+    const times = [0, 1, 2, 3].map((i) => start + i * 15 * 60);
+    const markers = buildSessionMarkers(times);
+
+    expect(markers.map((m) => m.session)).toEqual(['ny', 'ny']);
+    expect(markers[1].windows).toContain('nyAmKillZone');
+  });
+});
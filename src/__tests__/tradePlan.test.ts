@@ -0,0 +1,268 @@
+import { buildTradePlan } from '@signals/tradePlan';
+import { ClassifierOutput, Direction, MarketContext } from '@custom-types/context';
+import { KeyLevels } from '@custom-types/detector';
+
+// Flat context at 100: no zones or liquidity, so each case adds only what its model reads.
+// The 0.02% stop buffer is 0.02 at this price.
+const flat: MarketContext = {
+  session: 'ny',
+  sessionWindows: [],
+  htfTrend: 'neutral',
+  price: 100,
+  high: 101,
+  low: 99,
+  volume: 1000,
+  po3ZonePresent: false,
+  priceAtPO3: false,
+  liquiditySweep: false,
+  sweptDirection: null,
+  liquidityZones: [],
+  structureBreak: false,
+  breakDirection: null,
+  structure: {
+    bos: false,
+    mss: false,
+    direction: null,
+    level: null,
+    shift: { detected: false, direction: null, level: null },
+  },
+  orderBlocks: { bullish: null, bearish: null, atPrice: null },
+  fvg: { exists: false, type: null, high: null, low: null, unfilled: false },
+  volumeSpike: false,
+  displacement: false,
+  oteRetrace: false,
+  oteLevel: null,
+  trendline: { exists: false, touches: 0, respected: false },
+  balanceZones: {
+    inBalance: false,
+    lvnDetected: false,
+    range: null,
+    transition: false,
+    transitionDirection: null,
+    imbalanceSize: 0,
+    lvnLevels: [],
+  },
+  volatility: 'low',
+  previousDayHigh: 110,
+  previousDayLow: 90,
+};
+
+const bullishBlock = { type: 'bullish' as const, high: 99, low: 98, level: 98.5 };
+const bullishGap = {
+  exists: true,
+  type: 'bullish' as const,
+  high: 99.5,
+  low: 98.5,
+  unfilled: true,
+};
+
+function classification(primary: string, direction: Direction): ClassifierOutput {
+  return {
+    signal: {
+      playbookName: primary,
+      direction,
+      context: '',
+      tpLogic: '',
+      confidence: 80,
+      session: 'ny',
+    },
+    priority: 1,
+    timestamp: new Date('2024-01-15T15:00:00Z'),
+    primary,
+  };
+}
+
+describe('trade plan models', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each<{
+    name: string;
+    primary: string;
+    direction: Direction;
+    context: Partial<MarketContext>;
+    model: string;
+    entry: { type: string; price: number; source: string };
+    stop: { price: number; level: number; source: string };
+    invalidation: string;
+  }>([
+    {
+      name: 'NBB prefers the order block and stops below it',
+      primary: 'NBB',
+      direction: 'bullish',
+      context: { orderBlocks: { ...flat.orderBlocks, bullish: bullishBlock }, fvg: bullishGap },
+      model: 'NBB',
+      entry: { type: 'limit', price: 98.5, source: 'orderBlock' },
+      stop: { price: 97.98, level: 98, source: 'orderBlock' },
+      invalidation: 'HTF trend turns bearish',
+    },
+    {
+      name: 'NBB stops beyond the session sweep',
+      primary: 'NBB',
+      direction: 'bullish',
+      context: {
+        sessionSweep: { detected: true, sweptLevel: 97.5, direction: 'low', session: 'asian' },
+      },
+      model: 'NBB',
+      entry: { type: 'market', price: 100, source: 'market' },
+      stop: { price: 97.48, level: 97.5, source: 'sweptLiquidity' },
+      invalidation: 'HTF trend turns bearish',
+    },
+    {
+      name: 'JadeCap prefers the FVG and stops below it',
+      primary: 'JadeCap',
+      direction: 'bullish',
+      context: { orderBlocks: { ...flat.orderBlocks, bullish: bullishBlock }, fvg: bullishGap },
+      model: 'JadeCap',
+      entry: { type: 'limit', price: 99, source: 'fvg' },
+      stop: { price: 98.48, level: 98.5, source: 'fvg' },
+      invalidation: 'No fill before the NY kill zone ends',
+    },
+    {
+      name: 'JadeCap enters at market inside the FVG',
+      primary: 'JadeCap',
+      direction: 'bullish',
+      context: { fvg: { ...bullishGap, high: 100.5, low: 99.5 } },
+      model: 'JadeCap',
+      entry: { type: 'market', price: 100, source: 'fvg' },
+      stop: { price: 99.48, level: 99.5, source: 'fvg' },
+      invalidation: 'No fill before the NY kill zone ends',
+    },
+    {
+      name: 'JadeCap skips an FVG on the wrong side of price',
+      primary: 'JadeCap',
+      direction: 'bullish',
+      context: { fvg: { ...bullishGap, high: 102, low: 101 } },
+      model: 'JadeCap',
+      entry: { type: 'market', price: 100, source: 'market' },
+      stop: { price: 98.98, level: 99, source: 'lastBar' },
+      invalidation: 'No fill before the NY kill zone ends',
+    },
+    {
+      name: 'Tori enters at market and stops above the nearest swing high',
+      primary: 'Tori',
+      direction: 'bearish',
+      context: {
+        liquidityZones: [
+          { level: 104, type: 'high', swept: false },
+          { level: 102, type: 'high', swept: false },
+          { level: 98, type: 'high', swept: false },
+        ],
+      },
+      model: 'Tori',
+      entry: { type: 'market', price: 100, source: 'market' },
+      stop: { price: 102.02, level: 102, source: 'swing' },
+      invalidation: 'HTF trendline broken on a close',
+    },
+    {
+      name: 'Fabio stops below the nearest LVN behind entry',
+      primary: 'Fabio',
+      direction: 'bullish',
+      context: { balanceZones: { ...flat.balanceZones, lvnLevels: [97, 99, 101] } },
+      model: 'Fabio',
+      entry: { type: 'market', price: 100, source: 'market' },
+      stop: { price: 98.98, level: 99, source: 'lvn' },
+      invalidation: 'Price accepted back inside the balance range',
+    },
+    {
+      name: 'Fabio falls back to the balance range edge',
+      primary: 'Fabio',
+      direction: 'bullish',
+      context: { balanceZones: { ...flat.balanceZones, range: { high: 99.5, low: 96 } } },
+      model: 'Fabio',
+      entry: { type: 'market', price: 100, source: 'market' },
+      stop: { price: 95.98, level: 96, source: 'balanceRange' },
+      invalidation: 'Price accepted back inside the balance range',
+    },
+    {
+      name: 'rule playbooks use the default model',
+      primary: 'SweepReversal',
+      direction: 'bearish',
+      context: { liquidityZones: [{ level: 103, type: 'high', swept: true }] },
+      model: 'default',
+      entry: { type: 'market', price: 100, source: 'market' },
+      stop: { price: 103.02, level: 103, source: 'sweptLiquidity' },
+      invalidation: 'Close above 103.02 (above the swept high 103)',
+    },
+    {
+      name: 'a stop level on the wrong side of entry is skipped',
+      primary: 'NBB',
+      direction: 'bullish',
+      context: {
+        liquidityZones: [
+          { level: 100.5, type: 'low', swept: true },
+          { level: 98, type: 'low', swept: false },
+        ],
+      },
+      model: 'NBB',
+      entry: { type: 'market', price: 100, source: 'market' },
+      stop: { price: 97.98, level: 98, source: 'swing' },
+      invalidation: 'HTF trend turns bearish',
+    },
+  ])('$name', ({ primary, direction, context, model, entry, stop, invalidation }) => {
+    const plan = buildTradePlan({ ...flat, ...context }, classification(primary, direction))!;
+
+    expect(plan.model).toBe(model);
+    expect(plan.entry).toMatchObject(entry);
+    expect(plan.stop).toMatchObject(stop);
+    expect(plan.risk).toBeCloseTo(Math.abs(entry.price - stop.price), 5);
+    expect(plan.invalidations).toContain(invalidation);
+    expect(plan.invalidation.price).toBe(stop.price);
+  });
+
+  it('adds a limit invalidation when the first target can trade before the fill', () => {
+    const ctx = { ...flat, orderBlocks: { ...flat.orderBlocks, bullish: bullishBlock } };
+    const plan = buildTradePlan(ctx, classification('NBB', 'bullish'), { rrTargets: [1] })!;
+
+    expect(plan.entry.type).toBe('limit');
+    expect(plan.invalidations).toContain('Price reaches 1R before the limit fills');
+  });
+
+  it('merges liquidity and R-multiple targets, nearest first', () => {
+    const levels: KeyLevels = {
+      tradingDay: '2024-01-15',
+      previousDayHigh: 110,
+      previousDayLow: 90,
+      previousWeekHigh: 115,
+      previousWeekLow: 85,
+      asianHigh: 103,
+      asianLow: 95,
+      londonHigh: 104,
+      londonLow: 96,
+      midnightOpen: 100,
+      weeklyOpen: 100,
+    };
+    const ctx: MarketContext = {
+      ...flat,
+      levels,
+      liquidityZones: [
+        { level: 102, type: 'high', swept: false },
+        { level: 95, type: 'low', swept: false }, // same price as the Asian low
+      ],
+    };
+
+    // Market 100, stop 102.02 → risk 2.02; two nearest liquidity levels kept
+    const plan = buildTradePlan(ctx, classification('Tori', 'bearish'), { rrTargets: [1, 2] })!;
+    expect(plan.risk).toBe(2.02);
+    expect(plan.targets.map((t) => [t.label, t.price, t.rr, t.source])).toEqual([
+      ['1R', 97.98, 1, 'rr'],
+      ['London low', 96, 1.98, 'liquidity'],
+      ['2R', 95.96, 2, 'rr'],
+      ['Asian low', 95, 2.48, 'liquidity'],
+    ]);
+  });
+
+  it('returns no plan without a signal or a stop behind entry', () => {
+    const none: ClassifierOutput = { signal: null, priority: 0, timestamp: new Date() };
+    expect(buildTradePlan(flat, none)).toBeNull();
+
+    // The last bar's low is above the entry price: no stop below a market long
+    const pinned = { ...flat, low: 100.05 };
+    expect(buildTradePlan(pinned, classification('Tori', 'bullish'))).toBeNull();
+  });
+});
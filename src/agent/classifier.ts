@@ -1,23 +1,48 @@
-import { MarketContext, ClassifierOutput, PlaybookSignal } from '@custom-types/context';
+import {
+  MarketContext,
+  ClassifierOutput,
+  ClassifierMode,
+  PlaybookEvaluation,
+  PlaybookTrace,
+  RankedPlaybook,
+} from '@custom-types/context';
 import { createLogger } from '@utils/agent_logger';
-import { getAllPlaybookConfigs } from '@config/config';
-// Import real playbook check functions
-import { checkNBB } from '@playbooks/nbb';
-import { checkTori } from '@playbooks/tori';
-import { checkFabio } from '@playbooks/fabio';
-import { checkJadeCap } from '@playbooks/jadecap';
+import { getAllPlaybookConfigs, getClassifierMode, PlaybookConfig } from '@config/config';
+// Import real playbook evaluate functions
+import { evaluateNBB } from '@playbooks/nbb';
+import { evaluateTori } from '@playbooks/tori';
+import { evaluateFabio } from '@playbooks/fabio';
+import { evaluateJadeCap } from '@playbooks/jadecap';
+import { disabledEvaluation } from '@playbooks/trace';
+import { evaluateRulePlaybook } from '@playbooks/rules';
+import { contextClock } from '@utils/clock';
 
 // Create logger for classifier
 const logger = createLogger('Classifier');
 
-// Playbook check function mapping
-const playbookCheckers: Record<string, (context: MarketContext) => PlaybookSignal | null> = {
-  NBB: checkNBB,
-  Tori: checkTori,
-  Fabio: checkFabio,
-  JadeCap: checkJadeCap,
+type PlaybookEvaluator = (context: MarketContext) => PlaybookEvaluation;
+
+// Playbook evaluate function mapping
+const playbookEvaluators: Record<string, PlaybookEvaluator> = {
+  NBB: evaluateNBB,
+  Tori: evaluateTori,
+  Fabio: evaluateFabio,
+  JadeCap: evaluateJadeCap,
 };
 
+/**
+ * Evaluate function for a configured playbook
+ * Built-in modules first, then declarative "rules" from config/playbooks.json
+ */
+function getEvaluator(name: string, config: PlaybookConfig): PlaybookEvaluator | undefined {
+  const { rules, baseConfidence, minConfidence } = config;
+  if (playbookEvaluators[name] || !rules) {
+    return playbookEvaluators[name];
+  }
+  return (context) =>
+    evaluateRulePlaybook(name, { rules, baseConfidence, minConfidence }, context);
+}
+
 /**
  * ═══════════════════════════════════════════════════════════════
  * MAIN CLASSIFIER — THE BRAIN
@@ -25,61 +50,161 @@ const playbookCheckers: Record<string, (context: MarketContext) => PlaybookSigna
  * Dynamic priority logic based on config/playbooks.json
  * - Playbooks checked in order of priority (lowest number = highest priority)
  * - Only enabled playbooks are checked
- * - Returns first playbook that matches all conditions
+ * - 'priority' mode: returns first playbook that matches all conditions
+ * - 'scoring' mode: runs every enabled playbook and ranks the ones that fired
+ * - Every evaluated playbook contributes a per-condition trace
+ * - Playbooks with a "rules" block in config run through @playbooks/rules
  *
  * NOTE: This classifier now calls REAL playbook functions from @playbooks/*
  * and uses config-driven priority ordering
+ *
+ * @param market - Market context from buildMarketContext()
+ * @param mode - Override for globalSettings.classifierMode
  */
-export function classifyMarket(market: MarketContext): ClassifierOutput {
+export function classifyMarket(market: MarketContext, mode?: ClassifierMode): ClassifierOutput {
   logger.info('═══════════════════════════════════════════');
   logger.info('🧠 CLASSIFIER ANALYZING MARKET CONDITIONS...');
   logger.info('═══════════════════════════════════════════\n');
 
+  // Stamp the result with the context's analysis time, not the wall clock
+  const timestamp = contextClock(market)();
+
+  const classifierMode = mode || getClassifierMode();
+  if (classifierMode === 'scoring') {
+    return classifyByScore(market, timestamp);
+  }
+
   // Get playbooks sorted by priority from config
   const playbooks = getAllPlaybookConfigs();
+  const traces: PlaybookTrace[] = [];
 
   // Check each playbook in priority order
   for (const { name, config } of playbooks) {
     // Skip disabled playbooks
     if (!config.enabled) {
       logger.info(`→ Skipping ${name} (disabled in config)`);
+      traces.push(disabledEvaluation(name, config.minConfidence).trace);
       continue;
     }
 
     logger.info(`→ Checking ${name} Model (Priority ${config.priority})...`);
 
-    // Get the check function for this playbook
-    const checkFunction = playbookCheckers[name];
-    if (!checkFunction) {
+    // Get the evaluate function for this playbook
+    const evaluate = getEvaluator(name, config);
+    if (!evaluate) {
       logger.warn(`⚠️  No check function found for playbook: ${name}`);
       continue;
     }
 
     // Execute playbook check
-    const signal = checkFunction(market);
+    const { signal, trace } = evaluate(market);
+    traces.push(trace);
 
     // If playbook matched, return immediately
     if (signal) {
       logger.success(`✓✓✓ ${name.toUpperCase()} MODEL TRIGGERED ✓✓✓`);
-      return { signal, priority: config.priority, timestamp: new Date() };
+      return { signal, priority: config.priority, timestamp, mode: 'priority', traces };
     }
   }
 
   // No playbook matched
   logger.warn('⚠️ NO PLAYBOOK CONDITIONS MET');
   logger.warn('Market does not match any strategy criteria.\n');
-  return { signal: null, priority: 0, timestamp: new Date() };
+  return { signal: null, priority: 0, timestamp, mode: 'priority', traces };
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * SCORING MODE
+ * ═══════════════════════════════════════════════════════════════
+ * Runs every enabled checker and ranks the playbooks that fired.
+ *
+ * Ranking:
+ *   1. Higher confidence first
+ *   2. Ties broken by config priority (lower number wins)
+ *
+ * The top-ranked playbook becomes the primary signal and the runner-up
+ * its backup. `ranked` lists every playbook that fired (confirmations
+ * and conflicts).
+ */
+function classifyByScore(market: MarketContext, timestamp: Date): ClassifierOutput {
+  const playbooks = getAllPlaybookConfigs();
+  const ranked: RankedPlaybook[] = [];
+  const scores: Record<string, number> = {};
+  const traces: PlaybookTrace[] = [];
+
+  for (const { name, config } of playbooks) {
+    if (!config.enabled) {
+      logger.info(`→ Skipping ${name} (disabled in config)`);
+      traces.push(disabledEvaluation(name, config.minConfidence).trace);
+      continue;
+    }
+
+    const evaluate = getEvaluator(name, config);
+    if (!evaluate) {
+      logger.warn(`⚠️  No check function found for playbook: ${name}`);
+      continue;
+    }
+
+    logger.info(`→ Scoring ${name} Model (Priority ${config.priority})...`);
+
+    const { signal, trace } = evaluate(market);
+    traces.push(trace);
+    scores[name] = signal ? signal.confidence / 100 : 0;
+
+    if (signal) {
+      logger.success(`✓ ${name.toUpperCase()} fired @ ${signal.confidence}%`);
+      ranked.push({ name, priority: config.priority, signal });
+    }
+  }
+
+  ranked.sort((a, b) => b.signal.confidence - a.signal.confidence || a.priority - b.priority);
+
+  if (ranked.length === 0) {
+    logger.warn('⚠️ NO PLAYBOOK CONDITIONS MET');
+    logger.warn('Market does not match any strategy criteria.\n');
+    return {
+      signal: null,
+      priority: 0,
+      timestamp,
+      mode: 'scoring',
+      ranked,
+      scores,
+      traces,
+    };
+  }
+
+  const [top, runnerUp] = ranked;
+
+  logger.success(`✓✓✓ ${top.name.toUpperCase()} MODEL RANKED FIRST ✓✓✓`);
+  ranked.forEach((r, i) =>
+    logger.info(`  #${i + 1} ${r.name} — ${r.signal.direction.toUpperCase()} @ ${r.signal.confidence}%`)
+  );
+
+  return {
+    signal: top.signal,
+    priority: top.priority,
+    timestamp,
+    mode: 'scoring',
+    ranked,
+    scores,
+    primary: top.name,
+    backup: runnerUp?.name,
+    traces,
+  };
 }
 
 /**
  * ═══════════════════════════════════════════════════════════════
- * NOTE: Playbook check functions (checkNBB, checkTori, checkFabio,
- * checkJadeCap) are now imported from their respective playbook modules.
+ * NOTE: Playbook evaluate functions (evaluateNBB, evaluateTori,
+ * evaluateFabio, evaluateJadeCap) are imported from their respective
+ * playbook modules. The check* wrappers return only the signal.
  *
  * Each playbook module contains:
  * - Full validation logic
  * - Signal building
  * - Confidence scoring
+ * - A PlaybookTrace of every condition and modifier (see @playbooks/trace)
  *
  * See: @playbooks/nbb, @playbooks/tori, @playbooks/fabio, @playbooks/jadecap
  * ═══════════════════════════════════════════════════════════════
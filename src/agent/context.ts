@@ -1,12 +1,37 @@
-import { MarketContext } from '@custom-types/context';
+import { MarketContext, OrderBlockZone } from '@custom-types/context';
 import { RawMarketData } from '@custom-types/market';
+import { KeyLevels, RangeStats } from '@custom-types/detector';
 import { detectTrend } from '@detectors/trend';
-import { detectLiquidity } from '@detectors/liquidity';
+import {
+  detectLiquidity,
+  detectSessionSweep,
+  detectFVG,
+  detectMSS,
+  detectSwingHighsLows,
+  SwingPoints,
+} from '@detectors/liquidity';
+import { computeKeyLevels } from '@detectors/levels';
+import { computeRangeStats } from '@detectors/range';
 import { detectSession } from '@detectors/session';
 import { detectVolume } from '@detectors/volume';
 import { detectTrendline } from '@detectors/trendline';
 import { detectMMM, detectBreakerBlock, detectPO3Zone, detectOTELevel } from '@detectors/nbb';
+import {
+  detectMarketStructureShift,
+  detectOrderBlocks,
+  getMostRecentOrderBlock,
+  isPriceAtOrderBlock,
+  OrderBlock,
+} from '@detectors/structure';
+import {
+  detectBalanceZone,
+  detectAuctionTransition,
+  detectLowVolumeNodes,
+} from '@detectors/auction';
 import { createLogger } from '@utils/agent_logger';
+import { Clock, candleClock } from '@utils/clock';
+import { getTimeframeSettings } from '@config/config';
+import { resolveSeries, ResolvedSeries, withCurrentPrice } from '@agent/timeframes';
 
 // Create logger for context builder
 const logger = createLogger('Context-Builder');
@@ -21,7 +46,29 @@ export type { RawMarketData };
  * Builds MarketContext from raw market data by running all detectors.
  *
  * This is the glue between raw price data and the agent.
+ *
+ * Timeframes:
+ *   - htfTrend + PO3 dealing range → rawData.htfCandles
+ *   - Tori trendline               → rawData.candles4H
+ *   - All other detectors          → rawData.candles (execution)
+ * Missing HTF series are resampled from the execution candles.
+ */
+
+/**
+ * Detector inputs that scan the whole candle window
+ *
+ * buildMarketContext() derives them from scratch on every call;
+ * ContextEngine (@agent/engine) keeps them up to date bar by bar.
+ * Every other detector only reads the last few candles.
  */
+export interface WindowAnalysis {
+  levels: KeyLevels;
+  ranges: RangeStats;
+  swings: SwingPoints; // indexes relative to rawData.candles
+  orderBlocks: OrderBlock[]; // indexes relative to rawData.candles
+  htfSeries: ResolvedSeries;
+  trendlineSeries: ResolvedSeries;
+}
 
 /**
  * Build Market Context
@@ -30,18 +77,72 @@ export type { RawMarketData };
  * This is the SINGLE place where all detectors are called.
  *
  * @param rawData - Raw market data from your data source
+ * @param clock - Time source (defaults to the last candle's time)
  * @returns Complete MarketContext ready for the agent
  */
-export function buildMarketContext(rawData: RawMarketData): MarketContext {
-  logger.info('\n════════════════════════════════════════════');
-  logger.info('🔧 BUILDING MARKET CONTEXT FROM RAW DATA');
-  logger.info('════════════════════════════════════════════\n');
-
+export function buildMarketContext(
+  rawData: RawMarketData,
+  clock: Clock = candleClock(rawData.candles)
+): MarketContext {
   if (!rawData.candles || rawData.candles.length === 0) {
     throw new Error('No candle data provided');
   }
 
+  return assembleMarketContext(rawData, analyzeWindow(rawData), clock);
+}
+
+/**
+ * Run the full-window detectors from scratch
+ * @param rawData - Raw market data (at least one candle)
+ */
+export function analyzeWindow(rawData: RawMarketData): WindowAnalysis {
+  const { candles } = rawData;
+  const timeframeSettings = getTimeframeSettings();
+
+  return {
+    levels: rawData.levels || computeKeyLevels(candles),
+    ranges: rawData.ranges || computeRangeStats(candles),
+    swings: detectSwingHighsLows(candles),
+    orderBlocks: detectOrderBlocks(candles),
+    htfSeries: resolveSeries(
+      rawData.htfCandles,
+      candles,
+      timeframeSettings.htf,
+      rawData.timeframe
+    ),
+    trendlineSeries: resolveSeries(
+      rawData.candles4H ||
+        (timeframeSettings.trendline === timeframeSettings.htf ? rawData.htfCandles : undefined),
+      candles,
+      timeframeSettings.trendline,
+      rawData.timeframe
+    ),
+  };
+}
+
+/**
+ * Assemble MarketContext from a window analysis
+ *
+ * Runs the remaining (tail-window) detectors and maps every result
+ * onto MarketContext. Shared by buildMarketContext() and ContextEngine,
+ * so both produce identical contexts for the same window.
+ *
+ * @param rawData - Raw market data (at least one candle)
+ * @param analysis - Full-window detector results for rawData.candles
+ * @param clock - Time source (defaults to the last candle's time)
+ */
+export function assembleMarketContext(
+  rawData: RawMarketData,
+  analysis: WindowAnalysis,
+  clock: Clock = candleClock(rawData.candles)
+): MarketContext {
+  logger.info('\n════════════════════════════════════════════');
+  logger.info('🔧 BUILDING MARKET CONTEXT FROM RAW DATA');
+  logger.info('════════════════════════════════════════════\n');
+
   const currentCandle = rawData.candles[rawData.candles.length - 1];
+  const now = clock();
+  const { levels, swings, orderBlocks, htfSeries, trendlineSeries } = analysis;
 
   // ─────────────────────────────────────────────────────────────
   // Run all detectors
@@ -49,24 +150,37 @@ export function buildMarketContext(rawData: RawMarketData): MarketContext {
 
   logger.info('Running detectors...\n');
 
-  // 1. Detect HTF Trend
-  const trendResult = detectTrend(rawData.candles);
+  // 1. Detect HTF Trend (on the HTF series)
+  const { candles: htfCandles, timeframe: htfTimeframe, source: htfSource } = htfSeries;
+  logger.info(`HTF series: ${htfCandles.length} × ${htfTimeframe} (${htfSource})`);
+  const trendResult = detectTrend(htfSeries.candles);
+
+  // 2. Key Levels (PDH/PDL, weekly, session ranges) — explicit PDH/PDL win
+  const previousDayHigh = rawData.previousDayHigh ?? levels.previousDayHigh;
+  const previousDayLow = rawData.previousDayLow ?? levels.previousDayLow;
+  if (previousDayHigh === null || previousDayLow === null) {
+    logger.warn('⚠ No previous day in history - falling back to current candle high/low');
+  }
 
-  // 2. Detect Liquidity Zones and Sweeps
+  // 3. Detect Liquidity Zones and Sweeps
   const liquidityResult = detectLiquidity(
     rawData.candles,
-    rawData.previousDayHigh,
-    rawData.previousDayLow
+    previousDayHigh ?? undefined,
+    previousDayLow ?? undefined,
+    swings
   );
 
-  // 3. Detect Current Session
-  const sessionResult = detectSession();
+  // 4. Detect Asian/London range sweeps
+  const sessionSweep = detectSessionSweep(rawData.candles, levels);
+
+  // 5. Detect Session at analysis time
+  const sessionResult = detectSession(now);
 
-  // 4. Detect Volume Profile
+  // 6. Detect Volume Profile
   const volumeResult = detectVolume(rawData.candles);
 
-  // 5. Detect Trendlines
-  const trendlineResult = detectTrendline(rawData.candles, trendResult.htfTrend);
+  // 7. Detect Trendlines (Tori is traded off the 4H line)
+  const trendlineResult = detectTrendline(trendlineSeries.candles, trendResult.htfTrend);
 
   // ─────────────────────────────────────────────────────────────
   // NBB-Specific Detectors
@@ -74,18 +188,43 @@ export function buildMarketContext(rawData: RawMarketData): MarketContext {
 
   logger.info('\nRunning NBB-specific detectors...\n');
 
-  // 6. Detect Market Maker Model (MMM)
+  // 8. Detect Market Maker Model (MMM)
   const mmmResult = detectMMM(rawData.candles);
 
-  // 7. Detect Breaker Blocks
+  // 9. Detect Breaker Blocks
   const breakerResult = detectBreakerBlock(rawData.candles);
 
-  // 8. Detect PO3 Zones (Premium/Discount)
-  const po3Result = detectPO3Zone(rawData.candles, trendResult.htfTrend);
+  // 10. Detect PO3 Zones (Premium/Discount) on the HTF dealing range
+  const po3Result = detectPO3Zone(
+    withCurrentPrice(htfSeries.candles, currentCandle),
+    trendResult.htfTrend
+  );
 
-  // 9. Detect OTE Levels
+  // 11. Detect OTE Levels
   const oteResult = detectOTELevel(rawData.candles, trendResult.htfTrend);
 
+  // ─────────────────────────────────────────────────────────────
+  // Structure + Auction Detectors (JadeCap / Fabio)
+  // ─────────────────────────────────────────────────────────────
+
+  logger.info('\nRunning structure and auction detectors...\n');
+
+  // 12. Detect BOS/MSS against swing points, plus short-term MSS
+  const structureResult = detectMarketStructureShift(
+    rawData.candles,
+    trendResult.htfTrend,
+    swings
+  );
+  const mssResult = detectMSS(rawData.candles);
+
+  // 13. Detect Fair Value Gaps (order blocks come from the window analysis)
+  const fvgResult = detectFVG(rawData.candles);
+
+  // 14. Detect Balance, Balance → Imbalance transition and LVNs
+  const balanceResult = detectBalanceZone(rawData.candles);
+  const transitionResult = detectAuctionTransition(rawData.candles);
+  const lvnResult = detectLowVolumeNodes(rawData.candles);
+
   // ─────────────────────────────────────────────────────────────
   // Build MarketContext from detector results
   // ─────────────────────────────────────────────────────────────
@@ -96,17 +235,9 @@ export function buildMarketContext(rawData: RawMarketData): MarketContext {
   const liquiditySweep = liquidityResult.swept.length > 0;
   const sweptDirection = liquiditySweep ? liquidityResult.swept[0].direction : null;
 
-  // Determine if structure break occurred - use breaker block detection
-  const structureBreak = breakerResult.exists || (volumeResult.spike && volumeResult.displacement);
-  const breakDirection = breakerResult.exists
-    ? breakerResult.type
-    : structureBreak
-    ? trendResult.htfTrend === 'bullish'
-      ? 'bullish'
-      : trendResult.htfTrend === 'bearish'
-      ? 'bearish'
-      : null
-    : null;
+  // Structure break: swing break (BOS/MSS), then short-term MSS, then breaker block
+  const breakDirection = structureResult.direction ?? mssResult.type ?? breakerResult.type;
+  const structureBreak = breakDirection !== null;
 
   // Use real PO3 zone detection
   const po3ZonePresent = po3Result.exists;
@@ -136,6 +267,7 @@ export function buildMarketContext(rawData: RawMarketData): MarketContext {
   const context: MarketContext = {
     // Session
     session: sessionResult.current,
+    sessionWindows: sessionResult.windows || [],
 
     // HTF Trend
     htfTrend: trendResult.htfTrend,
@@ -158,6 +290,19 @@ export function buildMarketContext(rawData: RawMarketData): MarketContext {
     // Structure
     structureBreak,
     breakDirection,
+    structure: {
+      bos: structureResult.bos,
+      mss: structureResult.mss,
+      direction: structureResult.direction,
+      level: structureResult.level,
+      shift: { detected: mssResult.detected, direction: mssResult.type, level: mssResult.level },
+    },
+    orderBlocks: {
+      bullish: toZone(getMostRecentOrderBlock(orderBlocks, 'bullish')),
+      bearish: toZone(getMostRecentOrderBlock(orderBlocks, 'bearish')),
+      atPrice: toZone(isPriceAtOrderBlock(currentCandle.close, orderBlocks.slice().reverse())),
+    },
+    fvg: fvgResult,
 
     // Volume
     volumeSpike: volumeResult.spike,
@@ -176,16 +321,42 @@ export function buildMarketContext(rawData: RawMarketData): MarketContext {
 
     // Balance Zones
     balanceZones: {
-      inBalance: !volumeResult.displacement, // Simplified
-      lvnDetected: !volumeResult.spike, // Simplified - LVN when no volume spike
+      inBalance: balanceResult.inBalance,
+      lvnDetected: lvnResult.detected,
+      range: balanceResult.range
+        ? { high: balanceResult.range.high, low: balanceResult.range.low }
+        : null,
+      transition: transitionResult.transitionDetected,
+      transitionDirection: transitionResult.direction,
+      imbalanceSize: transitionResult.imbalanceSize,
+      lvnLevels: lvnResult.levels,
     },
 
     // Volatility
     volatility,
 
     // Previous Day Levels
-    previousDayHigh: rawData.previousDayHigh,
-    previousDayLow: rawData.previousDayLow,
+    previousDayHigh: previousDayHigh ?? currentCandle.high,
+    previousDayLow: previousDayLow ?? currentCandle.low,
+
+    // Key Levels + session range sweep
+    levels,
+    sessionSweep,
+
+    // Daily / session range analytics
+    ranges: analysis.ranges,
+
+    // Analysis time
+    timestamp: now.toISOString(),
+
+    // Timeframes the detectors ran on
+    timeframes: {
+      execution: rawData.timeframe || null,
+      htf: htfSeries.timeframe,
+      htfSource: htfSeries.source,
+      trendline: trendlineSeries.timeframe,
+      trendlineSource: trendlineSeries.source,
+    },
   };
 
   logger.success('✓ MarketContext built successfully\n');
@@ -193,7 +364,8 @@ export function buildMarketContext(rawData: RawMarketData): MarketContext {
   logger.info('📊 CONTEXT SUMMARY');
   logger.info('════════════════════════════════════════════');
   logger.info(`  HTF Trend: ${context.htfTrend.toUpperCase()}`);
-  logger.info(`  Session: ${context.session.toUpperCase()}`);
+  logger.info(`  Session: ${context.session.toUpperCase()} @ ${context.timestamp}`);
+  logger.info(`  Windows: ${context.sessionWindows.join(', ') || 'NONE'}`);
   logger.info(`  Price: ${context.price}`);
   logger.info('  ────────────────────────────────────────');
   logger.info(`  Volume Spike: ${context.volumeSpike ? 'YES' : 'NO'}`);
@@ -206,8 +378,24 @@ export function buildMarketContext(rawData: RawMarketData): MarketContext {
   logger.info(`  PO3 Zone: ${po3Result.exists ? (po3Result.inPremium ? 'PREMIUM' : 'DISCOUNT') : 'NONE'}`);
   logger.info(`  OTE Level: ${oteResult.available ? oteResult.level : 'NOT AVAILABLE'}`);
   logger.info('  ────────────────────────────────────────');
+  logger.info(`  BOS/MSS: ${structureResult.bos ? 'BOS' : structureResult.mss ? 'MSS' : 'NONE'}`);
+  logger.info(`  FVG: ${fvgResult.exists ? fvgResult.type?.toUpperCase() : 'NONE'}`);
+  logger.info(`  Order Blocks: ${orderBlocks.length}`);
+  logger.info(`  Balance: ${context.balanceZones.inBalance ? 'IN BALANCE' : 'NO'}`);
+  logger.info(`  Auction Transition: ${context.balanceZones.transition ? 'YES' : 'NO'}`);
+  logger.info(`  LVNs: ${lvnResult.levels.length}`);
+  logger.info('  ────────────────────────────────────────');
   logger.info(`  Trendline: ${context.trendline.exists ? `${context.trendline.touches} touches` : 'NONE'}`);
   logger.info('════════════════════════════════════════════\n');
 
   return context;
 }
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+// Drop the detector's candle index from an order block
+function toZone(block: OrderBlock | null): OrderBlockZone | null {
+  return block ? { type: block.type, high: block.high, low: block.low, level: block.level } : null;
+}
@@ -0,0 +1,363 @@
+import { MarketContext } from '@custom-types/context';
+import { RawCandle, RawMarketData } from '@custom-types/market';
+import { addToTradingDays, DayBucket, keyLevelsFromDays } from '@detectors/levels';
+import { rangeStatsFromDays } from '@detectors/range';
+import { isSwingHigh, isSwingLow, SwingPoint } from '@detectors/liquidity';
+import { orderBlockAt, OrderBlock } from '@detectors/structure';
+import { getTimeframeSettings } from '@config/config';
+import { Clock, parseCandleTime } from '@utils/clock';
+import { assembleMarketContext, WindowAnalysis } from '@agent/context';
+import {
+  bucketKey,
+  mergeCandles,
+  resampleCandles,
+  resolveSeries,
+  Resampler,
+} from '@agent/timeframes';
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * INCREMENTAL CONTEXT ENGINE
+ * ═══════════════════════════════════════════════════════════════
+ * Stateful MarketContext builder for live streams and backtests.
+ *
+ * buildMarketContext() re-scans the whole candle window on every call.
+ * ContextEngine keeps the full-window detector state between bars:
+ *   - Swing highs/lows (liquidity pools, BOS/MSS) → settled when the next bar arrives
+ *   - Order blocks                                 → settled when the next bar arrives
+ *   - Trading day buckets (PDH/PDL, weekly, sessions) → one append per bar
+ *   - HTF buckets (trend, PO3, trendline)            → last bucket updated per bar
+ *     (unless htfCandles / candles4H are supplied, as in RawMarketData)
+ * Tail-window detectors (volume stats, FVG, MSS, balance, ...) only read
+ * the last few bars and run unchanged.
+ *
+ * context() returns exactly what buildMarketContext(engine.rawData())
+ * returns, so the engine can replace a full rebuild anywhere.
+ *
+ * Usage:
+ * ```typescript
+ * const engine = new ContextEngine({ maxBars: 500, timeframe: '15m' });
+ * engine.pushAll(history);
+ *
+ * stream.on('candle', (candle) => {
+ *   engine.push(candle); // a bar with the same time replaces the last one
+ *   const context = engine.context();
+ * });
+ * ```
+ */
+
+export interface ContextEngineOptions {
+  maxBars?: number; // detector window (default 500)
+  timeframe?: string; // execution timeframe (inferred on every context() if missing)
+  levelHistoryMs?: number; // key levels lookback by time (default: the detector window)
+  previousDayHigh?: number; // explicit PDH/PDL override the levels engine
+  previousDayLow?: number;
+  htfCandles?: RawCandle[]; // HTF bias + PO3 series (read on every context(), keep it current)
+  candles4H?: RawCandle[]; // Tori trendline series (same)
+}
+
+// One HTF bar being built from execution candles
+interface HtfBucket {
+  key: number;
+  candles: RawCandle[];
+  merged: RawCandle;
+}
+
+const DEFAULT_MAX_BARS = 500;
+
+export class ContextEngine {
+  private readonly options: ContextEngineOptions;
+  private readonly maxBars: number;
+
+  private window: RawCandle[] = [];
+  private offset = 0; // bars evicted so far = absolute index of window[0]
+  private untimed = 0; // window candles without a numeric time
+
+  // Settled swings and order blocks, indexed by absolute bar index
+  private swingHighs: SwingPoint[] = [];
+  private swingLows: SwingPoint[] = [];
+  private orderBlocks: OrderBlock[] = [];
+
+  // Trading day buckets for the levels engine
+  private days: DayBucket[] = [];
+
+  // HTF buckets per target timeframe (minutes), built on first use
+  private resamplers = new Map<number, HtfBucket[]>();
+
+  constructor(options: ContextEngineOptions = {}) {
+    this.options = options;
+    this.maxBars = options.maxBars ?? DEFAULT_MAX_BARS;
+  }
+
+  /**
+   * Candles currently in the detector window (oldest first)
+   */
+  get candles(): readonly RawCandle[] {
+    return this.window;
+  }
+
+  /**
+   * Add a candle
+   * A candle with the same time as the last one replaces it (in-progress bar).
+   */
+  push(candle: RawCandle): void {
+    const last = this.window[this.window.length - 1];
+    if (last && candle.time !== undefined && candle.time === last.time) {
+      this.popLast();
+    }
+
+    this.append(candle);
+    while (this.window.length > this.maxBars) {
+      this.evictFirst();
+    }
+    this.trimLevelHistory();
+  }
+
+  /**
+   * Add candles in order (e.g. bootstrap history)
+   */
+  pushAll(candles: RawCandle[]): void {
+    for (const candle of candles) {
+      this.push(candle);
+    }
+  }
+
+  /**
+   * Build MarketContext for the current window
+   * @param clock - Time source (defaults to the last candle's time)
+   * @throws Error if no candles were pushed yet
+   */
+  context(clock?: Clock): MarketContext {
+    if (this.window.length === 0) {
+      throw new Error('No candle data provided');
+    }
+
+    return assembleMarketContext(this.rawData(), this.analysis(), clock);
+  }
+
+  /**
+   * Full-window detector results for rawData() (swings, order blocks, series)
+   */
+  windowAnalysis(): WindowAnalysis {
+    return this.analysis();
+  }
+
+  /**
+   * Equivalent input for a full rebuild with buildMarketContext()
+   */
+  rawData(): RawMarketData {
+    const { timeframe, previousDayHigh, previousDayLow, levelHistoryMs, htfCandles, candles4H } =
+      this.options;
+    return {
+      candles: this.window.slice(),
+      htfCandles,
+      candles4H,
+      previousDayHigh,
+      previousDayLow,
+      // Levels only differ from the window's own when history reaches further back
+      levels: levelHistoryMs !== undefined ? keyLevelsFromDays(this.days) : undefined,
+      ranges: levelHistoryMs !== undefined ? rangeStatsFromDays(this.days, this.window) : undefined,
+      timeframe,
+    };
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // WINDOW MAINTENANCE
+  // ═══════════════════════════════════════════════════════════════
+
+  private append(candle: RawCandle): void {
+    this.window.push(candle);
+
+    if (typeof candle.time === 'number') {
+      addToTradingDays(this.days, candle);
+      this.resamplers.forEach((buckets, minutes) => addToBucket(buckets, candle, minutes));
+    } else {
+      // Untimed candles are resampled by bar count, from scratch
+      this.untimed++;
+      this.resamplers.clear();
+    }
+
+    // The previous bar now has both neighbours
+    const i = this.window.length - 2;
+    if (i >= 1) {
+      this.settle(i);
+    }
+  }
+
+  // Swing points and order blocks at window index i
+  private settle(i: number): void {
+    const index = this.offset + i;
+    const candle = this.window[i];
+
+    if (isSwingHigh(this.window, i)) {
+      this.swingHighs.push({ index, level: candle.high, type: 'high' });
+    }
+    if (isSwingLow(this.window, i)) {
+      this.swingLows.push({ index, level: candle.low, type: 'low' });
+    }
+
+    const orderBlock = orderBlockAt(this.window, i);
+    if (orderBlock) {
+      this.orderBlocks.push({ ...orderBlock, index });
+    }
+  }
+
+  private popLast(): void {
+    const candle = this.window.pop() as RawCandle;
+
+    // Points settled on the new last bar depended on the popped one
+    const lastIndex = this.offset + this.window.length - 1;
+    for (const points of [this.swingHighs, this.swingLows, this.orderBlocks]) {
+      while (points.length > 0 && points[points.length - 1].index >= lastIndex) {
+        points.pop();
+      }
+    }
+
+    if (typeof candle.time !== 'number') {
+      this.untimed--;
+      return;
+    }
+
+    const day = this.days[this.days.length - 1];
+    day.candles.pop();
+    if (day.candles.length === 0) this.days.pop();
+
+    this.resamplers.forEach((buckets) => {
+      const bucket = buckets[buckets.length - 1];
+      bucket.candles.pop();
+      if (bucket.candles.length === 0) {
+        buckets.pop();
+      } else {
+        bucket.merged = mergeCandles(bucket.candles);
+      }
+    });
+  }
+
+  private evictFirst(): void {
+    const candle = this.window.shift() as RawCandle;
+    this.offset++;
+
+    // The new first bar has no left neighbour, so it can't be a swing or order block
+    for (const points of [this.swingHighs, this.swingLows, this.orderBlocks]) {
+      while (points.length > 0 && points[0].index <= this.offset) {
+        points.shift();
+      }
+    }
+
+    if (typeof candle.time !== 'number') {
+      this.untimed--;
+      return;
+    }
+
+    this.resamplers.forEach((buckets) => {
+      const bucket = buckets[0];
+      bucket.candles.shift();
+      if (bucket.candles.length === 0) {
+        buckets.shift();
+      } else {
+        bucket.merged = mergeCandles(bucket.candles);
+      }
+    });
+
+    // Without a time-based lookback, levels follow the window
+    if (this.options.levelHistoryMs === undefined && this.days[0]?.candles[0] === candle) {
+      this.shiftLevelHistory();
+    }
+  }
+
+  // Drop level history older than levelHistoryMs before the latest bar
+  private trimLevelHistory(): void {
+    const { levelHistoryMs } = this.options;
+    const latestDay = this.days[this.days.length - 1];
+    if (levelHistoryMs === undefined || !latestDay) return;
+
+    const cutoff = candleMillis(latestDay.candles[latestDay.candles.length - 1]) - levelHistoryMs;
+    while (this.days.length > 0 && candleMillis(this.days[0].candles[0]) < cutoff) {
+      this.shiftLevelHistory();
+    }
+  }
+
+  private shiftLevelHistory(): void {
+    this.days[0].candles.shift();
+    if (this.days[0].candles.length === 0) this.days.shift();
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // ANALYSIS
+  // ═══════════════════════════════════════════════════════════════
+
+  // Same values analyzeWindow() computes from scratch for the window
+  private analysis(): WindowAnalysis {
+    const settings = getTimeframeSettings();
+    const { timeframe, htfCandles, candles4H } = this.options;
+    const toWindowIndex = <T extends { index: number }>(points: T[]): T[] =>
+      points.map((point) => ({ ...point, index: point.index - this.offset }));
+
+    return {
+      levels: keyLevelsFromDays(this.days),
+      ranges: rangeStatsFromDays(this.days, this.window),
+      swings: {
+        swingHighs: toWindowIndex(this.swingHighs),
+        swingLows: toWindowIndex(this.swingLows),
+      },
+      // detectOrderBlocks() needs at least 4 candles
+      orderBlocks: this.window.length < 4 ? [] : toWindowIndex(this.orderBlocks),
+      htfSeries: resolveSeries(htfCandles, this.window, settings.htf, timeframe, this.resample),
+      trendlineSeries: resolveSeries(
+        candles4H || (settings.trendline === settings.htf ? htfCandles : undefined),
+        this.window,
+        settings.trendline,
+        timeframe,
+        this.resample
+      ),
+    };
+  }
+
+  // Incremental HTF buckets (by-count resampling of untimed candles is rebuilt)
+  private resample: Resampler = (candles, targetMinutes, sourceMinutes) => {
+    if (this.untimed > 0) {
+      return resampleCandles(candles, targetMinutes, sourceMinutes);
+    }
+
+    let buckets = this.resamplers.get(targetMinutes);
+    if (!buckets) {
+      buckets = [];
+      for (const candle of this.window) {
+        addToBucket(buckets, candle, targetMinutes);
+      }
+      this.resamplers.set(targetMinutes, buckets);
+    }
+
+    return buckets.map((bucket) => bucket.merged);
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+// Extend the last HTF bar (same sums as mergeCandles) or open a new one
+function addToBucket(buckets: HtfBucket[], candle: RawCandle, targetMinutes: number): void {
+  const key = bucketKey(candle.time as number, targetMinutes);
+  const last = buckets[buckets.length - 1];
+
+  if (!last || last.key !== key) {
+    buckets.push({ key, candles: [candle], merged: mergeCandles([candle]) });
+    return;
+  }
+
+  const merged = last.merged;
+  last.candles.push(candle);
+  last.merged = {
+    open: merged.open,
+    high: Math.max(merged.high, candle.high),
+    low: Math.min(merged.low, candle.low),
+    close: candle.close,
+    volume: merged.volume + (candle.volume || 0),
+    time: merged.time,
+  };
+}
+
+function candleMillis(candle: { time?: number }): number {
+  return parseCandleTime(candle.time)?.getTime() ?? 0;
+}
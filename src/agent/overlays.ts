@@ -0,0 +1,266 @@
+import { Direction, MarketContext } from '@custom-types/context';
+import { RawCandle, RawMarketData } from '@custom-types/market';
+import { dealingRange, OTE_FIB_LEVELS } from '@detectors/nbb';
+import { selectTrendline } from '@detectors/trendline';
+import { buildSessionMarkers, SessionMarker } from '@detectors/sessionCalendar';
+import { TradePlanLevels } from '@signals/tradePlan';
+import { WindowAnalysis } from '@agent/context';
+import { withCurrentPrice } from '@agent/timeframes';
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * CHART OVERLAYS
+ * ═══════════════════════════════════════════════════════════════
+ * Geometry the detectors worked with, in candle-time coordinates
+ * (unix seconds of the candle that produced it), for tradePlan.overlays:
+ *
+ *   liquidity    → swing highs/lows (liquidity pools), swept or not
+ *   orderBlocks  → every order block in the window, boxed to the last bar
+ *   fvg          → the gap on the last 3 candles
+ *   po3          → HTF dealing range + equilibrium (premium/discount)
+ *   ote          → 0.62 / 0.705 / 0.79 retracements of the dealing range
+ *   trendline    → first/last anchor of the trendline series' line
+ *   planLevels   → entry, stop and targets of the trade plan
+ *   sessions     → session/kill-zone change points
+ *
+ * Items whose candle has no time are left out. PO3 and trendline
+ * anchors use the HTF/trendline series' bar times, which may be
+ * resampled from the execution candles.
+ */
+
+export type OverlayTime = number; // unix seconds
+
+export interface OverlayPoint {
+  time: OverlayTime;
+  price: number;
+}
+
+export interface LiquidityOverlay extends OverlayPoint {
+  side: 'high' | 'low';
+  swept: boolean;
+}
+
+export interface ZoneOverlay {
+  from: OverlayTime;
+  to: OverlayTime;
+  high: number;
+  low: number;
+  direction: Direction;
+}
+
+export interface OrderBlockOverlay extends ZoneOverlay {
+  atPrice: boolean; // the order block price is currently in
+}
+
+export interface FvgOverlay extends ZoneOverlay {
+  unfilled: boolean;
+}
+
+export interface Po3Overlay {
+  from: OverlayTime;
+  to: OverlayTime;
+  high: number;
+  low: number;
+  equilibrium: number;
+  zone: 'premium' | 'discount' | 'equilibrium';
+}
+
+export interface OteOverlay {
+  from: OverlayTime;
+  to: OverlayTime;
+  direction: Direction;
+  levels: Array<{ ratio: number; price: number }>;
+  active: boolean; // price is retracing inside the OTE band
+}
+
+export interface TrendlineOverlay {
+  type: 'ascending' | 'descending';
+  p1: OverlayPoint;
+  p2: OverlayPoint;
+  touches: number;
+  respected: boolean;
+  timeframe: string;
+}
+
+export interface PlanLevelOverlay {
+  kind: 'entry' | 'stop' | 'target';
+  label: string;
+  price: number;
+  from: OverlayTime;
+}
+
+export interface ChartOverlays {
+  timeframe: string | null; // execution timeframe the times refer to
+  to: OverlayTime | null; // last candle (analysis bar)
+  liquidity: LiquidityOverlay[];
+  orderBlocks: OrderBlockOverlay[];
+  fvg: FvgOverlay[];
+  po3: Po3Overlay | null;
+  ote: OteOverlay | null;
+  trendline: TrendlineOverlay | null;
+  planLevels: PlanLevelOverlay[];
+  sessions: SessionMarker[];
+}
+
+/**
+ * Build the overlay document for one analysis
+ *
+ * @param rawData - Candles the context was built from
+ * @param analysis - Full-window detector results for rawData.candles
+ * @param context - MarketContext built from rawData + analysis
+ * @param plan - Trade plan levels (null when no playbook fired)
+ * @returns ChartOverlays in candle-time coordinates
+ */
+export function buildChartOverlays(
+  rawData: RawMarketData,
+  analysis: WindowAnalysis,
+  context: MarketContext,
+  plan: TradePlanLevels | null
+): ChartOverlays {
+  const { candles } = rawData;
+  const last = candles[candles.length - 1];
+  const to = last.time;
+  const times = candles.map((c) => c.time).filter((t): t is number => t !== undefined);
+
+  const overlays: ChartOverlays = {
+    timeframe: rawData.timeframe || null,
+    to: to ?? null,
+    liquidity: [],
+    orderBlocks: [],
+    fvg: [],
+    po3: null,
+    ote: null,
+    trendline: null,
+    planLevels: [],
+    sessions: buildSessionMarkers(times),
+  };
+  if (to === undefined) {
+    return overlays;
+  }
+
+  // Liquidity pools (swing points), swept flags as in MarketContext
+  const { swingHighs, swingLows } = analysis.swings;
+  overlays.liquidity = [...swingHighs, ...swingLows]
+    .filter((swing) => candles[swing.index]?.time !== undefined)
+    .map((swing) => ({
+      time: candles[swing.index].time as number,
+      price: swing.level,
+      side: swing.type,
+      swept: context.liquidityZones.some(
+        (z) => z.swept && z.type === swing.type && z.level === swing.level
+      ),
+    }))
+    .sort((a, b) => a.time - b.time);
+
+  // Order blocks, boxed from their candle to the last bar
+  const atPrice = context.orderBlocks.atPrice;
+  overlays.orderBlocks = analysis.orderBlocks
+    .filter((block) => candles[block.index]?.time !== undefined)
+    .map((block) => ({
+      from: candles[block.index].time as number,
+      to,
+      high: block.high,
+      low: block.low,
+      direction: block.type,
+      atPrice:
+        !!atPrice &&
+        atPrice.type === block.type &&
+        atPrice.high === block.high &&
+        atPrice.low === block.low,
+    }));
+
+  // FVG on the last 3 candles (detectFVG)
+  const { fvg } = context;
+  const gapStart = candles[candles.length - 3]?.time;
+  if (fvg.exists && fvg.type && fvg.high !== null && fvg.low !== null && gapStart !== undefined) {
+    overlays.fvg.push({
+      from: gapStart,
+      to,
+      high: fvg.high,
+      low: fvg.low,
+      direction: fvg.type,
+      unfilled: fvg.unfilled,
+    });
+  }
+
+  // PO3 dealing range on the HTF series (detectPO3Zone)
+  if (context.po3ZonePresent) {
+    const htfCandles = withCurrentPrice(analysis.htfSeries.candles, last);
+    overlays.po3 = toPo3(htfCandles, context.price, to);
+  }
+
+  // OTE retracements of the execution dealing range (detectOTELevel)
+  if (context.htfTrend !== 'neutral' && candles.length >= 3) {
+    const range = dealingRange(candles);
+    const from = candles[range.from].time;
+    const size = range.high - range.low;
+    if (from !== undefined && size > 0) {
+      overlays.ote = {
+        from,
+        to,
+        direction: context.htfTrend,
+        levels: OTE_FIB_LEVELS.map((ratio) => ({
+          ratio,
+          price:
+            context.htfTrend === 'bullish' ? range.high - ratio * size : range.low + ratio * size,
+        })),
+        active: context.oteRetrace,
+      };
+    }
+  }
+
+  // Trendline anchors on the trendline series (detectTrendline)
+  const { trendlineSeries } = analysis;
+  const trendline = selectTrendline(trendlineSeries.candles, context.htfTrend);
+  const [a1, a2] = trendline.anchors || [];
+  const t1 = a1 && trendlineSeries.candles[a1.index]?.time;
+  const t2 = a2 && trendlineSeries.candles[a2.index]?.time;
+  if (trendline.exists && trendline.type && t1 !== undefined && t2 !== undefined) {
+    overlays.trendline = {
+      type: trendline.type,
+      p1: { time: t1, price: a1.price },
+      p2: { time: t2, price: a2.price },
+      touches: trendline.touches,
+      respected: trendline.respected,
+      timeframe: trendlineSeries.timeframe,
+    };
+  }
+
+  // Trade plan levels from the analysed bar
+  if (plan) {
+    overlays.planLevels = [
+      { kind: 'entry', label: `Entry (${plan.entry.type})`, price: plan.entry.price, from: to },
+      { kind: 'stop', label: 'Stop', price: plan.stop.price, from: to },
+      ...plan.targets.map((target) => ({
+        kind: 'target' as const,
+        label: target.label,
+        price: target.price,
+        from: to,
+      })),
+    ];
+  }
+
+  return overlays;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+function toPo3(htfCandles: RawCandle[], price: number, to: OverlayTime): Po3Overlay | null {
+  if (htfCandles.length < 2) return null;
+
+  const range = dealingRange(htfCandles);
+  const from = htfCandles[range.from].time;
+  if (from === undefined) return null;
+
+  const equilibrium = range.low + (range.high - range.low) * 0.5;
+  return {
+    from,
+    to,
+    high: range.high,
+    low: range.low,
+    equilibrium,
+    zone: price > equilibrium ? 'premium' : price < equilibrium ? 'discount' : 'equilibrium',
+  };
+}
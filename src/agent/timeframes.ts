@@ -0,0 +1,207 @@
+import { RawCandle } from '@custom-types/market';
+import { createLogger } from '@utils/agent_logger';
+import { parseCandleTime } from '@utils/clock';
+
+// Create logger for timeframe helpers
+const logger = createLogger('Timeframes');
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * MULTI-TIMEFRAME HELPERS
+ * ═══════════════════════════════════════════════════════════════
+ * Resolves the candle series each detector should run on.
+ *
+ * - HTF bias + PO3 dealing range → htfCandles (e.g. 4H / Daily)
+ * - Tori trendline               → candles4H
+ * - Everything else              → execution candles
+ *
+ * When a series isn't supplied it is resampled from the execution
+ * candles (by candle time, or by bar count if candles carry no time).
+ */
+
+export type SeriesSource = 'supplied' | 'resampled' | 'execution';
+
+export interface ResolvedSeries {
+  candles: RawCandle[];
+  timeframe: string;
+  source: SeriesSource;
+}
+
+// Produces the resampled series (the context engine swaps in its incremental buckets)
+export type Resampler = (
+  candles: RawCandle[],
+  targetMinutes: number,
+  sourceMinutes: number
+) => RawCandle[];
+
+const UNIT_MINUTES: Record<string, number> = {
+  m: 1,
+  h: 60,
+  d: 60 * 24,
+  w: 60 * 24 * 7,
+};
+
+/**
+ * Parse a timeframe string ("15m", "4h", "1d", "D", "W") into minutes
+ * @returns Minutes, or null if the string isn't recognised
+ */
+export function parseTimeframe(timeframe: string | undefined): number | null {
+  if (!timeframe) return null;
+
+  const match = /^(\d*)\s*([mhdw])$/i.exec(timeframe.trim());
+  if (!match) return null;
+
+  const count = match[1] ? Number(match[1]) : 1;
+  const unit = match[2].toLowerCase();
+  return count > 0 ? count * UNIT_MINUTES[unit] : null;
+}
+
+/**
+ * Resample candles into a higher timeframe
+ *
+ * Buckets are aligned to the unix epoch when candles carry a time
+ * (so 4H bars open at 00:00, 04:00, ... UTC). Without times, every
+ * `targetMinutes / sourceMinutes` consecutive bars form one bucket,
+ * aligned so the last bucket ends on the latest candle.
+ */
+export function resampleCandles(
+  candles: RawCandle[],
+  targetMinutes: number,
+  sourceMinutes?: number
+): RawCandle[] {
+  if (candles.length === 0) return [];
+
+  const hasTime = candles.every((c) => typeof c.time === 'number');
+  const buckets: RawCandle[][] = [];
+
+  if (hasTime) {
+    let currentKey: number | null = null;
+    for (const candle of candles) {
+      const key = bucketKey(candle.time as number, targetMinutes);
+      if (key !== currentKey) {
+        buckets.push([]);
+        currentKey = key;
+      }
+      buckets[buckets.length - 1].push(candle);
+    }
+  } else {
+    const ratio = sourceMinutes ? Math.max(1, Math.round(targetMinutes / sourceMinutes)) : 1;
+    const offset = candles.length % ratio;
+    if (offset > 0) buckets.push(candles.slice(0, offset));
+    for (let i = offset; i < candles.length; i += ratio) {
+      buckets.push(candles.slice(i, i + ratio));
+    }
+  }
+
+  return buckets.map(mergeCandles);
+}
+
+/**
+ * Pick the series a detector should use for a timeframe
+ *
+ * @param supplied - Series sent by the caller (htfCandles / candles4H)
+ * @param execution - Execution timeframe candles
+ * @param targetTimeframe - Desired timeframe (e.g. "4h")
+ * @param executionTimeframe - Execution timeframe, inferred from candle times if missing
+ * @param resample - Resampler used when the series has to be built from execution candles
+ */
+export function resolveSeries(
+  supplied: RawCandle[] | undefined,
+  execution: RawCandle[],
+  targetTimeframe: string,
+  executionTimeframe?: string,
+  resample: Resampler = resampleCandles
+): ResolvedSeries {
+  if (supplied && supplied.length > 0) {
+    return { candles: supplied, timeframe: targetTimeframe, source: 'supplied' };
+  }
+
+  const targetMinutes = parseTimeframe(targetTimeframe);
+  const executionMinutes = parseTimeframe(executionTimeframe) ?? inferTimeframeMinutes(execution);
+
+  // Can't resample (unknown timeframes) or already at/above the target
+  if (!targetMinutes || !executionMinutes || executionMinutes >= targetMinutes) {
+    return {
+      candles: execution,
+      timeframe: executionTimeframe || targetTimeframe,
+      source: 'execution',
+    };
+  }
+
+  const candles = resample(execution, targetMinutes, executionMinutes);
+  logger.info(
+    `  ↻ Resampled ${execution.length} × ${executionMinutes}m → ${candles.length} × ${targetTimeframe}`
+  );
+
+  return { candles, timeframe: targetTimeframe, source: 'resampled' };
+}
+
+/**
+ * Epoch-aligned bucket a candle time falls in for a target timeframe
+ */
+export function bucketKey(time: number, targetMinutes: number): number {
+  return Math.floor(toMillis(time) / (targetMinutes * 60 * 1000));
+}
+
+/**
+ * Merge consecutive candles into one OHLCV bar
+ */
+export function mergeCandles(group: RawCandle[]): RawCandle {
+  return {
+    open: group[0].open,
+    high: Math.max(...group.map((c) => c.high)),
+    low: Math.min(...group.map((c) => c.low)),
+    close: group[group.length - 1].close,
+    volume: group.reduce((sum, c) => sum + (c.volume || 0), 0),
+    time: group[0].time,
+  };
+}
+
+/**
+ * Mark an HTF series to the current execution price
+ * Supplied HTF bars may close before the latest execution bar; the last
+ * HTF bar is extended so "current price" detectors see the live price.
+ */
+export function withCurrentPrice(candles: RawCandle[], current: RawCandle): RawCandle[] {
+  if (candles.length === 0) return candles;
+
+  const last = candles[candles.length - 1];
+  return [
+    ...candles.slice(0, -1),
+    {
+      ...last,
+      high: Math.max(last.high, current.high),
+      low: Math.min(last.low, current.low),
+      close: current.close,
+    },
+  ];
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Infer bar size from the median gap between candle times
+ */
+function inferTimeframeMinutes(candles: RawCandle[]): number | null {
+  const times = candles
+    .map((c) => c.time)
+    .filter((t): t is number => typeof t === 'number')
+    .map(toMillis);
+  if (times.length < 2) return null;
+
+  const gaps = times
+    .slice(1)
+    .map((t, i) => t - times[i])
+    .filter((g) => g > 0)
+    .sort((a, b) => a - b);
+  if (gaps.length === 0) return null;
+
+  return Math.round(gaps[Math.floor(gaps.length / 2)] / 60000) || null;
+}
+
+// Candle times may be unix seconds or milliseconds
+function toMillis(time: number): number {
+  return parseCandleTime(time)?.getTime() ?? time;
+}
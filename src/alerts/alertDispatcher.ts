@@ -0,0 +1,185 @@
+import { AlertsConfig, getAlertsConfig } from '@config/config';
+import type { Session } from '@custom-types/context';
+import type { FlowrexSignal } from '@signals/signalEngine';
+import { createLogger } from '@utils/agent_logger';
+import type { ScanRow } from '../scanner/scanner';
+import { AlertChannelConfig, AlertSignal, matchesRule } from './alertRules';
+import { listAlertRules, recordDelivery, wasRecentlyDelivered } from './alertService';
+import { AlertDelivery, DeliveryAttempt, getChannel } from './channels';
+
+const logger = createLogger('AlertDispatcher');
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * ALERT DISPATCHER
+ * ═══════════════════════════════════════════════════════════════
+ * Delivers a user's signals to the channels of every enabled rule
+ * that matches (see alertRules.ts):
+ *
+ *   1. cooldown → a rule sends the same setup (symbol:timeframe:
+ *                 playbook:direction) once per cooldownMinutes
+ *   2. deliver  → each channel is retried with exponential backoff
+ *                 (alerts.retry) while the failure is retryable
+ *   3. log      → the final result per channel goes to alert_deliveries
+ *
+ * Signal sources: TradingView/MT5 webhooks, live streams (setups that
+ * arm) and scheduled watchlist scans.
+ */
+
+type Sleep = (ms: number) => Promise<void>;
+
+const defaultSleep: Sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Deliver a signal to every matching rule of a user
+ *
+ * @returns Number of channel deliveries that succeeded
+ */
+export async function dispatchSignalAlerts(userId: string, signal: AlertSignal): Promise<number> {
+  const config = getAlertsConfig();
+  if (!config.enabled || signal.direction === 'neutral') return 0;
+
+  const rules = (await listAlertRules(userId, true)).filter((rule) =>
+    matchesRule(rule.conditions, signal)
+  );
+  const dedupKey = `${signal.symbol}:${signal.timeframe}:${signal.playbook}:${signal.direction}`;
+
+  let sent = 0;
+  for (const rule of rules) {
+    const cooldown = rule.cooldownMinutes ?? config.cooldownMinutes;
+    if (cooldown > 0 && (await wasRecentlyDelivered(rule.id, dedupKey, cooldown))) {
+      logger.info(`  🔕 ${rule.name}: ${dedupKey} already alerted within ${cooldown} min`);
+      continue;
+    }
+
+    const delivery: AlertDelivery = { rule: { id: rule.id, name: rule.name }, signal };
+    const results = await Promise.all(
+      rule.channels.map(async (channel) => {
+        const { attempt, attempts } = await deliverWithRetry(channel, delivery, config.retry);
+        await recordDelivery({
+          ruleId: rule.id,
+          userId,
+          channel: channel.type,
+          target: describeTarget(channel),
+          status: attempt.ok ? 'sent' : 'failed',
+          attempts,
+          responseStatus: attempt.status,
+          detail: attempt.detail,
+          dedupKey,
+          payload: delivery,
+        });
+        return attempt.ok;
+      })
+    );
+
+    const ok = results.filter(Boolean).length;
+    sent += ok;
+    logger.info(`  🔔 ${rule.name}: ${dedupKey} → ${ok}/${results.length} channel(s)`);
+  }
+
+  return sent;
+}
+
+/**
+ * Fire-and-forget dispatchSignalAlerts (errors are logged)
+ */
+export function notifySignalAlerts(userId: string, signal: AlertSignal): void {
+  dispatchSignalAlerts(userId, signal).catch((e) =>
+    logger.error(`Error dispatching alerts for ${signal.symbol}:`, e)
+  );
+}
+
+/**
+ * Send through one channel, retrying retryable failures with backoff
+ * Delay before attempt n (n ≥ 2): baseDelayMs × 2^(n − 2), capped at maxDelayMs.
+ */
+export async function deliverWithRetry(
+  channel: AlertChannelConfig,
+  delivery: AlertDelivery,
+  retry: AlertsConfig['retry'] = getAlertsConfig().retry,
+  sleep: Sleep = defaultSleep
+): Promise<{ attempt: DeliveryAttempt; attempts: number }> {
+  const sender = getChannel(channel.type);
+
+  let attempts = 0;
+  for (;;) {
+    attempts++;
+    const attempt = await sender.send(channel, delivery);
+    if (attempt.ok || !attempt.retryable || attempts >= retry.maxAttempts) {
+      return { attempt, attempts };
+    }
+
+    const delay = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** (attempts - 1));
+    logger.warn(
+      `  ↻ ${channel.type} attempt ${attempts} failed: ${attempt.detail} (retry in ${delay}ms)`
+    );
+    await sleep(delay);
+  }
+}
+
+/**
+ * Alert payload from an analysis response (runAnalysisFromBody)
+ */
+export function alertFromAnalysis(
+  source: string,
+  result: {
+    signal: FlowrexSignal;
+    context: { session: Session };
+    tradePlan: { entry: { price: number } | null; stop: { price: number } | null };
+  }
+): AlertSignal {
+  const { signal } = result;
+  return {
+    source,
+    symbol: signal.symbol || signal.instrument,
+    instrument: signal.instrument,
+    timeframe: signal.timeframe,
+    direction: signal.direction,
+    grade: signal.grade,
+    confidence: signal.confidence,
+    playbook: signal.playbook,
+    session: result.context.session,
+    entry: result.tradePlan.entry?.price ?? null,
+    stop: result.tradePlan.stop?.price ?? null,
+    reasons: signal.reasons,
+    riskHints: signal.riskHints,
+    at: signal.createdAt,
+  };
+}
+
+/**
+ * Alert payload from a scan row (null for failed rows)
+ */
+export function alertFromScanRow(row: ScanRow): AlertSignal | null {
+  if (row.error || !row.direction || !row.grade || !row.playbook) return null;
+  return {
+    source: 'scan',
+    symbol: row.symbol,
+    instrument: row.instrument,
+    timeframe: row.timeframe,
+    direction: row.direction,
+    grade: row.grade,
+    confidence: row.confidence,
+    playbook: row.playbook,
+    session: row.session,
+    entry: row.entry,
+    stop: row.stop,
+    reasons: [],
+    riskHints: row.riskHints,
+    at: row.candleTime ? new Date(row.candleTime * 1000).toISOString() : new Date().toISOString(),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+// Where a channel delivers, without tokens embedded in webhook paths
+function describeTarget(channel: AlertChannelConfig): string {
+  if (channel.type === 'email') return channel.to.join(', ');
+  try {
+    return new URL(channel.url).origin;
+  } catch {
+    return channel.url;
+  }
+}
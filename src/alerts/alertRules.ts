@@ -0,0 +1,223 @@
+import type { Session } from '@custom-types/context';
+import type { SignalDirection, SignalGrade } from '@signals/signalEngine';
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * ALERT RULES
+ * ═══════════════════════════════════════════════════════════════
+ * Per-user filters deciding which signals are delivered, e.g.:
+ *
+ *   grade A NBB on EURUSD in London → { minGrade: 'A', playbooks: ['NBB'],
+ *                                       symbols: ['EURUSD'], sessions: ['london'] }
+ *   any Fabio on crypto             → { playbooks: ['Fabio'], instruments: ['CRYPTO'] }
+ *   confidence ≥ 80                 → { minConfidence: 80 }
+ *
+ * Every condition that is set must hold; an empty rule matches every
+ * long/short signal (neutral results never alert). Playbooks match the
+ * start of the signal's playbook name ("NBB" matches "NBB PO3/OTE").
+ */
+
+export interface AlertConditions {
+  symbols?: string[];
+  instruments?: string[]; // FOREX | CRYPTO | CFD
+  timeframes?: string[];
+  playbooks?: string[];
+  sessions?: Session[];
+  directions?: Array<'long' | 'short'>;
+  minGrade?: SignalGrade;
+  minConfidence?: number;
+}
+
+export type AlertChannelConfig =
+  | { type: 'webhook'; url: string; secret?: string } // signed JSON POST
+  | { type: 'email'; to: string[] } // via alerts.smtp
+  | { type: 'chat'; url: string; format: 'slack' | 'discord' }; // chat incoming webhook
+
+export interface AlertRule {
+  id: string;
+  userId: string;
+  name: string;
+  enabled: boolean;
+  conditions: AlertConditions;
+  channels: AlertChannelConfig[];
+  cooldownMinutes: number | null; // null = alerts.cooldownMinutes
+}
+
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'userId'>;
+
+// What a delivery carries (built from an analysis result or a scan row)
+export interface AlertSignal {
+  source: string; // tradingview | mt5 | live | scan | test
+  symbol: string;
+  instrument: string;
+  timeframe: string;
+  direction: SignalDirection;
+  grade: SignalGrade;
+  confidence: number;
+  playbook: string;
+  session: Session | null;
+  entry: number | null;
+  stop: number | null;
+  reasons: string[];
+  riskHints: string[];
+  at: string; // signal (bar) time, ISO
+}
+
+const GRADES: SignalGrade[] = ['A', 'B', 'C'];
+const SESSIONS: Session[] = ['asian', 'london', 'ny'];
+
+/**
+ * Check a signal against a rule's conditions
+ */
+export function matchesRule(conditions: AlertConditions, signal: AlertSignal): boolean {
+  if (signal.direction === 'neutral') return false;
+
+  const includes = (list: string[] | undefined, value: string) =>
+    !list?.length || list.some((item) => normalize(item) === normalize(value));
+
+  if (!includes(conditions.symbols, signal.symbol)) return false;
+  if (!includes(conditions.instruments, signal.instrument)) return false;
+  if (!includes(conditions.timeframes, signal.timeframe)) return false;
+  if (!includes(conditions.directions, signal.direction)) return false;
+  if (conditions.sessions?.length && !conditions.sessions.includes(signal.session as Session)) {
+    return false;
+  }
+
+  const playbook = signal.playbook.toLowerCase();
+  if (
+    conditions.playbooks?.length &&
+    !conditions.playbooks.some((p) => playbook.startsWith(p.toLowerCase()))
+  ) {
+    return false;
+  }
+
+  if (conditions.minGrade && GRADES.indexOf(signal.grade) > GRADES.indexOf(conditions.minGrade)) {
+    return false;
+  }
+  if (conditions.minConfidence !== undefined && signal.confidence < conditions.minConfidence) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Validate an alert rule body (POST/PUT /alerts/rules)
+ *
+ * @throws Error describing the first invalid field
+ */
+export function parseAlertRule(body: Record<string, unknown>): AlertRuleInput {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) throw new Error('Alert rule name is required');
+
+  const channels = Array.isArray(body.channels) ? body.channels.map(parseChannel) : [];
+  if (channels.length === 0) throw new Error('An alert rule needs at least one channel');
+
+  const cooldown = body.cooldownMinutes;
+  if (cooldown !== undefined && cooldown !== null && !(Number(cooldown) >= 0)) {
+    throw new Error(`Invalid cooldownMinutes: ${cooldown} (must be >= 0)`);
+  }
+
+  return {
+    name,
+    enabled: body.enabled !== false,
+    conditions: parseAlertConditions((body.conditions || {}) as Record<string, unknown>),
+    channels,
+    cooldownMinutes: cooldown === undefined || cooldown === null ? null : Number(cooldown),
+  };
+}
+
+/**
+ * Validate rule conditions (also used as paper trading filters)
+ *
+ * @throws Error describing the first invalid condition
+ */
+export function parseAlertConditions(raw: Record<string, unknown>): AlertConditions {
+  const conditions: AlertConditions = {};
+
+  for (const key of ['symbols', 'instruments', 'timeframes', 'playbooks'] as const) {
+    if (raw[key] !== undefined) conditions[key] = stringList(raw[key], key);
+  }
+
+  if (raw.sessions !== undefined) {
+    const sessions = stringList(raw.sessions, 'sessions').map((s) => s.toLowerCase());
+    const unknown = sessions.find((s) => !SESSIONS.includes(s as Session));
+    if (unknown) throw new Error(`Invalid session: ${unknown} (asian, london or ny)`);
+    conditions.sessions = sessions as Session[];
+  }
+
+  if (raw.directions !== undefined) {
+    const directions = stringList(raw.directions, 'directions').map((d) => d.toLowerCase());
+    if (directions.some((d) => d !== 'long' && d !== 'short')) {
+      throw new Error('Invalid directions (long and/or short)');
+    }
+    conditions.directions = directions as Array<'long' | 'short'>;
+  }
+
+  if (raw.minGrade !== undefined) {
+    const grade = String(raw.minGrade).toUpperCase() as SignalGrade;
+    if (!GRADES.includes(grade)) throw new Error(`Invalid minGrade: ${raw.minGrade} (A, B or C)`);
+    conditions.minGrade = grade;
+  }
+
+  if (raw.minConfidence !== undefined) {
+    const confidence = Number(raw.minConfidence);
+    if (!(confidence >= 0 && confidence <= 100)) {
+      throw new Error(`Invalid minConfidence: ${raw.minConfidence} (0-100)`);
+    }
+    conditions.minConfidence = confidence;
+  }
+
+  return conditions;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+function parseChannel(raw: unknown): AlertChannelConfig {
+  const channel = (raw || {}) as Record<string, unknown>;
+
+  switch (channel.type) {
+    case 'webhook':
+      return {
+        type: 'webhook',
+        url: httpUrl(channel.url),
+        secret: typeof channel.secret === 'string' && channel.secret ? channel.secret : undefined,
+      };
+    case 'chat': {
+      const format = channel.format ?? 'slack';
+      if (format !== 'slack' && format !== 'discord') {
+        throw new Error(`Invalid chat format: ${format} (slack or discord)`);
+      }
+      return { type: 'chat', url: httpUrl(channel.url), format };
+    }
+    case 'email': {
+      const to = stringList(channel.to, 'email to');
+      const invalid = to.find((address) => !/^[^\s@<>]+@[^\s@<>]+$/.test(address));
+      if (invalid || to.length === 0) throw new Error(`Invalid email recipient: ${invalid ?? ''}`);
+      return { type: 'email', to };
+    }
+    default:
+      throw new Error(`Unknown alert channel: ${channel.type} (webhook, email or chat)`);
+  }
+}
+
+function httpUrl(value: unknown): string {
+  const url = typeof value === 'string' ? value.trim() : '';
+  if (!/^https?:\/\/\S+$/i.test(url)) throw new Error(`Invalid channel url: "${url}"`);
+  return url;
+}
+
+function stringList(value: unknown, field: string): string[] {
+  const list = Array.isArray(value) ? value : [value];
+  if (list.some((item) => typeof item !== 'string' || !item.trim())) {
+    throw new Error(`Invalid ${field} (expected a list of strings)`);
+  }
+  return list.map((item: string) => item.trim());
+}
+
+// Symbols compare without separators or case (EUR/USD = eurusd)
+function normalize(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
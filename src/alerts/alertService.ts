@@ -0,0 +1,197 @@
+import { pool } from '../db';
+import type { AlertChannelConfig, AlertConditions, AlertRule, AlertRuleInput } from './alertRules';
+
+export interface DeliveryLogEntry {
+  ruleId: string;
+  userId: string;
+  channel: AlertChannelConfig['type'];
+  target: string; // webhook origin or email recipients (no secrets)
+  status: 'sent' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  detail: string;
+  dedupKey: string;
+  payload: unknown;
+}
+
+interface AlertRuleRow {
+  id: string;
+  user_id: string;
+  name: string;
+  enabled: boolean;
+  conditions: AlertConditions | null;
+  channels: AlertChannelConfig[] | null;
+  cooldown_minutes: number | null;
+}
+
+/**
+ * List a user's alert rules
+ * @param enabledOnly - Only rules that deliver
+ */
+export async function listAlertRules(userId: string, enabledOnly = false): Promise<AlertRule[]> {
+  const res = await pool.query(
+    `
+      SELECT * FROM alert_rules
+      WHERE user_id = $1 AND ($2 = false OR enabled = true)
+      ORDER BY created_at ASC
+    `,
+    [userId, enabledOnly]
+  );
+  return res.rows.map(toAlertRule);
+}
+
+/**
+ * Get one alert rule (null when it doesn't exist or belongs to another user)
+ */
+export async function getAlertRule(userId: string, id: string): Promise<AlertRule | null> {
+  const res = await pool.query(`SELECT * FROM alert_rules WHERE id = $1 AND user_id = $2`, [
+    id,
+    userId,
+  ]);
+  return res.rowCount ? toAlertRule(res.rows[0]) : null;
+}
+
+/**
+ * Create an alert rule
+ */
+export async function createAlertRule(userId: string, input: AlertRuleInput): Promise<AlertRule> {
+  const res = await pool.query(
+    `
+      INSERT INTO alert_rules (user_id, name, enabled, conditions, channels, cooldown_minutes)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `,
+    [
+      userId,
+      input.name,
+      input.enabled,
+      JSON.stringify(input.conditions),
+      JSON.stringify(input.channels),
+      input.cooldownMinutes,
+    ]
+  );
+  return toAlertRule(res.rows[0]);
+}
+
+/**
+ * Replace an alert rule
+ * @returns Updated rule, or null when not found
+ */
+export async function updateAlertRule(
+  userId: string,
+  id: string,
+  input: AlertRuleInput
+): Promise<AlertRule | null> {
+  const res = await pool.query(
+    `
+      UPDATE alert_rules
+      SET name = $3, enabled = $4, conditions = $5, channels = $6, cooldown_minutes = $7,
+          updated_at = now()
+      WHERE id = $1 AND user_id = $2
+      RETURNING *
+    `,
+    [
+      id,
+      userId,
+      input.name,
+      input.enabled,
+      JSON.stringify(input.conditions),
+      JSON.stringify(input.channels),
+      input.cooldownMinutes,
+    ]
+  );
+  return res.rowCount ? toAlertRule(res.rows[0]) : null;
+}
+
+/**
+ * Delete an alert rule (its delivery log goes with it)
+ * @returns true when a rule was deleted
+ */
+export async function deleteAlertRule(userId: string, id: string): Promise<boolean> {
+  const res = await pool.query(`DELETE FROM alert_rules WHERE id = $1 AND user_id = $2`, [
+    id,
+    userId,
+  ]);
+  return (res.rowCount ?? 0) > 0;
+}
+
+/**
+ * Whether a rule already delivered the same setup within the cooldown
+ */
+export async function wasRecentlyDelivered(
+  ruleId: string,
+  dedupKey: string,
+  minutes: number
+): Promise<boolean> {
+  const res = await pool.query(
+    `
+      SELECT 1 FROM alert_deliveries
+      WHERE rule_id = $1 AND dedup_key = $2 AND status = 'sent'
+        AND created_at > now() - $3 * INTERVAL '1 minute'
+      LIMIT 1
+    `,
+    [ruleId, dedupKey, minutes]
+  );
+  return (res.rowCount ?? 0) > 0;
+}
+
+/**
+ * Log the final result of one channel delivery
+ */
+export async function recordDelivery(entry: DeliveryLogEntry): Promise<void> {
+  await pool.query(
+    `
+      INSERT INTO alert_deliveries (
+        rule_id, user_id, channel, target, status, attempts, response_status, detail,
+        dedup_key, payload
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    `,
+    [
+      entry.ruleId,
+      entry.userId,
+      entry.channel,
+      entry.target,
+      entry.status,
+      entry.attempts,
+      entry.responseStatus,
+      entry.detail,
+      entry.dedupKey,
+      JSON.stringify(entry.payload),
+    ]
+  );
+}
+
+/**
+ * Recent deliveries of a user's rules, newest first
+ */
+export async function listAlertDeliveries(userId: string, limit = 50) {
+  const res = await pool.query(
+    `
+      SELECT d.*, r.name AS rule_name
+      FROM alert_deliveries d
+      JOIN alert_rules r ON r.id = d.rule_id
+      WHERE d.user_id = $1
+      ORDER BY d.created_at DESC
+      LIMIT $2
+    `,
+    [userId, limit]
+  );
+  return res.rows;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+function toAlertRule(row: AlertRuleRow): AlertRule {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    enabled: row.enabled,
+    conditions: row.conditions || {},
+    channels: row.channels || [],
+    cooldownMinutes: row.cooldown_minutes,
+  };
+}
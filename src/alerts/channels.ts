@@ -0,0 +1,191 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { getAlertsConfig } from '@config/config';
+import type { AlertChannelConfig, AlertRule, AlertSignal } from './alertRules';
+import { sendMail, SmtpError } from './smtp';
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * ALERT DELIVERY CHANNELS
+ * ═══════════════════════════════════════════════════════════════
+ * One send() per channel type, each making a single attempt (retries
+ * and the delivery log live in alertDispatcher.ts):
+ *
+ *   webhook → JSON POST { event, rule, signal, sentAt }, signed with the
+ *             channel secret: X-Flowrex-Signature: sha256=HMAC(secret,
+ *             "<X-Flowrex-Timestamp>.<body>")
+ *   chat    → Slack ({ text }) or Discord ({ content }) incoming webhook
+ *   email   → plain-text email through alerts.smtp
+ *
+ * Network errors, timeouts, 408/429 and 5xx (4xx SMTP) are retryable;
+ * other rejections are final.
+ */
+
+export interface AlertDelivery {
+  rule: Pick<AlertRule, 'id' | 'name'>;
+  signal: AlertSignal;
+}
+
+export interface DeliveryAttempt {
+  ok: boolean;
+  status: number | null; // HTTP status / SMTP reply code
+  detail: string;
+  retryable: boolean;
+}
+
+export interface AlertChannel<C extends AlertChannelConfig = AlertChannelConfig> {
+  send(config: C, delivery: AlertDelivery): Promise<DeliveryAttempt>;
+}
+
+type ChannelOf<T extends AlertChannelConfig['type']> = Extract<AlertChannelConfig, { type: T }>;
+
+const WebhookChannel: AlertChannel<ChannelOf<'webhook'>> = {
+  send(config, delivery) {
+    const body = JSON.stringify({
+      event: 'signal.alert',
+      rule: delivery.rule,
+      signal: delivery.signal,
+      sentAt: new Date().toISOString(),
+    });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Flowrex-Event': 'signal.alert',
+      'X-Flowrex-Timestamp': timestamp,
+    };
+    if (config.secret) {
+      headers['X-Flowrex-Signature'] = `sha256=${signPayload(config.secret, timestamp, body)}`;
+    }
+
+    return postJSON(config.url, body, headers);
+  },
+};
+
+const ChatChannel: AlertChannel<ChannelOf<'chat'>> = {
+  send(config, delivery) {
+    const text = formatAlertText(delivery);
+    const body = JSON.stringify(config.format === 'discord' ? { content: text } : { text });
+    return postJSON(config.url, body, { 'Content-Type': 'application/json' });
+  },
+};
+
+const EmailChannel: AlertChannel<ChannelOf<'email'>> = {
+  async send(config, delivery) {
+    const { smtp, timeoutMs } = getAlertsConfig();
+    if (!smtp.host) {
+      return {
+        ok: false,
+        status: null,
+        detail: 'alerts.smtp.host not configured',
+        retryable: false,
+      };
+    }
+
+    try {
+      const reply = await sendMail(
+        smtp,
+        { to: config.to, subject: formatSubject(delivery), text: formatAlertText(delivery) },
+        timeoutMs
+      );
+      return { ok: true, status: reply.code, detail: reply.message, retryable: false };
+    } catch (e) {
+      const code = (e as SmtpError).replyCode ?? null;
+      return {
+        ok: false,
+        status: code,
+        detail: e instanceof Error ? e.message : String(e),
+        retryable: code === null || code < 500,
+      };
+    }
+  },
+};
+
+/**
+ * Get the channel implementation for a channel type
+ */
+export function getChannel<T extends AlertChannelConfig['type']>(
+  type: T
+): AlertChannel<ChannelOf<T>> {
+  switch (type) {
+    case 'webhook':
+      return WebhookChannel as AlertChannel<ChannelOf<T>>;
+    case 'chat':
+      return ChatChannel as AlertChannel<ChannelOf<T>>;
+    case 'email':
+      return EmailChannel as AlertChannel<ChannelOf<T>>;
+    default:
+      throw new Error(`Unknown alert channel: ${type}`);
+  }
+}
+
+/**
+ * HMAC-SHA256 signature of a webhook body (hex)
+ * Receivers recompute it over "<X-Flowrex-Timestamp>.<raw body>".
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Human-readable alert (chat message / email body)
+ */
+export function formatAlertText({ rule, signal }: AlertDelivery): string {
+  const side = signal.direction === 'long' ? '🟢 LONG' : '🔴 SHORT';
+  const levels = [
+    signal.session ? `Session: ${signal.session.toUpperCase()}` : null,
+    signal.entry !== null ? `Entry ${signal.entry}` : null,
+    signal.stop !== null ? `Stop ${signal.stop}` : null,
+  ].filter(Boolean);
+
+  return [
+    `${side} ${signal.symbol} ${signal.timeframe} — ${signal.playbook} ` +
+      `(Grade ${signal.grade}, ${signal.confidence}%)`,
+    levels.join(' · '),
+    ...signal.reasons.map((reason) => `✓ ${reason}`),
+    ...signal.riskHints.map((hint) => `⚠ ${hint}`),
+    `Rule: ${rule.name} · ${signal.source} · ${signal.at}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+function formatSubject({ signal }: AlertDelivery): string {
+  const side = signal.direction.toUpperCase();
+  const quality = `${signal.grade} ${signal.confidence}%`;
+  return `[Flowrex] ${side} ${signal.symbol} ${signal.timeframe} · ${signal.playbook} · ${quality}`;
+}
+
+async function postJSON(
+  url: string,
+  body: string,
+  headers: Record<string, string>
+): Promise<DeliveryAttempt> {
+  try {
+    const res = await axios.post(url, body, {
+      headers,
+      timeout: getAlertsConfig().timeoutMs,
+      validateStatus: () => true,
+      transformRequest: [(data) => data], // send the signed bytes as-is
+    });
+    const ok = res.status >= 200 && res.status < 300;
+    return {
+      ok,
+      status: res.status,
+      detail: ok ? 'delivered' : `HTTP ${res.status}`,
+      retryable: !ok && (res.status === 408 || res.status === 429 || res.status >= 500),
+    };
+  } catch (e) {
+    // No response: connection refused, DNS, timeout
+    return {
+      ok: false,
+      status: null,
+      detail: e instanceof Error ? e.message : String(e),
+      retryable: true,
+    };
+  }
+}
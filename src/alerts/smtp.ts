@@ -0,0 +1,226 @@
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import type { SmtpConfig } from '@config/config';
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * MINIMAL SMTP CLIENT
+ * ═══════════════════════════════════════════════════════════════
+ * Just enough SMTP to send a plain-text alert email:
+ *
+ *   220 greeting → EHLO → [STARTTLS → EHLO] → [AUTH PLAIN]
+ *   → MAIL FROM → RCPT TO (each) → DATA → message → QUIT
+ *
+ * secure: true connects with TLS (port 465); otherwise startTls: true
+ * upgrades the connection and refuses to go on (and send credentials)
+ * in plaintext when the server doesn't offer STARTTLS.
+ * A reply with an unexpected code rejects with the server's reply
+ * and its code (4xx = temporary, worth retrying).
+ */
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+export interface SmtpReply {
+  code: number;
+  message: string;
+}
+
+// Rejection for an unexpected reply (network failures have no replyCode)
+export type SmtpError = Error & { replyCode?: number };
+
+/**
+ * Send one email
+ *
+ * @param config - SMTP server (alerts.smtp)
+ * @param message - Recipients, subject and plain-text body
+ * @param timeoutMs - Socket inactivity timeout
+ * @returns The server's reply to the message data (250 ...)
+ */
+export async function sendMail(
+  config: SmtpConfig,
+  message: MailMessage,
+  timeoutMs = 10000
+): Promise<SmtpReply> {
+  const password = process.env.SMTP_PASSWORD || config.password;
+  const connection = await SmtpConnection.open(config, timeoutMs);
+
+  try {
+    await connection.expect([220]);
+    const features = await connection.command(`EHLO ${os.hostname()}`, [250]);
+
+    if (!config.secure && config.startTls) {
+      if (!/\bSTARTTLS\b/i.test(features.message)) {
+        throw new Error(`SMTP server ${config.host} does not offer STARTTLS (startTls is on)`);
+      }
+      await connection.command('STARTTLS', [220]);
+      await connection.upgrade(config.host);
+      await connection.command(`EHLO ${os.hostname()}`, [250]);
+    }
+
+    if (config.user) {
+      const token = Buffer.from(`\0${config.user}\0${password}`).toString('base64');
+      await connection.command(`AUTH PLAIN ${token}`, [235]);
+    }
+
+    const from = addressOf(config.from);
+    await connection.command(`MAIL FROM:<${from}>`, [250]);
+    for (const recipient of message.to) {
+      await connection.command(`RCPT TO:<${addressOf(recipient)}>`, [250, 251]);
+    }
+
+    await connection.command('DATA', [354]);
+    const reply = await connection.command(`${formatMessage(config.from, message)}\r\n.`, [250]);
+    await connection.command('QUIT', [221]).catch(() => undefined);
+    return reply;
+  } finally {
+    connection.close();
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = '';
+  private waiting: ((error: Error | null) => void) | null = null;
+  private failure: Error | null = null;
+
+  private constructor(
+    socket: net.Socket,
+    private readonly timeoutMs: number
+  ) {
+    this.socket = socket;
+    this.attach();
+  }
+
+  static open(config: SmtpConfig, timeoutMs: number): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const options = { host: config.host, port: config.port };
+      const event = config.secure ? 'secureConnect' : 'connect';
+      const socket = config.secure
+        ? tls.connect({ ...options, servername: config.host })
+        : net.connect(options);
+
+      socket.once(event, () => {
+        socket.removeListener('error', reject);
+        resolve(new SmtpConnection(socket, timeoutMs));
+      });
+      socket.once('error', reject);
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+    });
+  }
+
+  // Send a command and wait for a reply with one of the expected codes
+  async command(line: string, codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes, line.split(' ')[0]);
+  }
+
+  async expect(codes: number[], command = 'connect'): Promise<SmtpReply> {
+    const reply = await this.readReply();
+    if (!codes.includes(reply.code)) {
+      const error: SmtpError = new Error(`SMTP ${command} failed: ${reply.code} ${reply.message}`);
+      error.replyCode = reply.code;
+      throw error;
+    }
+    return reply;
+  }
+
+  upgrade(host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.socket.removeAllListeners('data');
+      const secure = tls.connect({ socket: this.socket, servername: host }, () => {
+        this.socket = secure;
+        this.attach();
+        resolve();
+      });
+      secure.once('error', reject);
+    });
+  }
+
+  close() {
+    this.socket.destroy();
+  }
+
+  private attach() {
+    this.socket.setTimeout(this.timeoutMs, () =>
+      this.socket.destroy(new Error('SMTP connection timed out'))
+    );
+    this.socket.on('data', (chunk) => {
+      this.buffer += chunk.toString('utf8');
+      this.notify(null);
+    });
+    this.socket.on('error', (error) => this.notify(error));
+    this.socket.on('close', () => this.notify(new Error('SMTP connection closed')));
+  }
+
+  private notify(error: Error | null) {
+    if (error && !this.failure) this.failure = error;
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.(error);
+  }
+
+  // A reply is complete at a line with "NNN " (continuation lines are "NNN-")
+  private async readReply(): Promise<SmtpReply> {
+    for (;;) {
+      // The text after the last CRLF may be a partial line
+      const lines = this.buffer.split('\r\n');
+      const complete = lines.slice(0, -1);
+      const last = complete.findIndex((line) => /^\d{3}( |$)/.test(line));
+      if (last >= 0) {
+        this.buffer = lines.slice(last + 1).join('\r\n');
+        const replyLines = lines.slice(0, last + 1);
+        return {
+          code: Number(replyLines[last].slice(0, 3)),
+          message: replyLines.map((line) => line.slice(4)).join('\n'),
+        };
+      }
+
+      if (this.failure) throw this.failure;
+      await new Promise<void>((resolve, reject) => {
+        this.waiting = (error) => (error ? reject(error) : resolve());
+      });
+    }
+  }
+}
+
+// RFC 5322 message with dot-stuffing (a body line starting with "." gets another ".")
+function formatMessage(from: string, message: MailMessage): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  const body = message.text
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+// Header value without control characters (a CR/LF would start a new header);
+// non-ASCII values as an RFC 2047 encoded word
+function encodeHeader(value: string): string {
+  const clean = Array.from(value, (c) => (c < ' ' || c === '\x7F' ? ' ' : c)).join('');
+  return /^[\x20-\x7E]*$/.test(clean)
+    ? clean
+    : `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+// "Name <user@host>" → user@host
+function addressOf(value: string): string {
+  const match = /<([^>]+)>/.exec(value);
+  return (match ? match[1] : value).trim();
+}
@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
+import type { Socket } from 'socket.io';
 import { verifyToken, UserPayload } from './authService';
 
 // Extend Express Request to include user payload
@@ -35,3 +36,27 @@ export function requireAuth(req: Request, res: Response, next: NextFunction) {
     return res.status(401).json({ error: err.message || 'Authentication failed' });
   }
 }
+
+/**
+ * Socket.IO room of a user's private events (paper account, scan results)
+ */
+export function userRoom(userId: string): string {
+  return `user:${userId}`;
+}
+
+/**
+ * Join a socket to its user's room when it connects with a valid token
+ * (io(url, { auth: { token } })); sockets without one only get public events
+ */
+export function joinUserRoom(socket: Socket): UserPayload | null {
+  const token = socket.handshake.auth?.token;
+  if (typeof token !== 'string' || !token) return null;
+
+  try {
+    const user = verifyToken(token.replace(/^Bearer /, ''));
+    socket.join(userRoom(user.id));
+    return user;
+  } catch {
+    return null;
+  }
+}
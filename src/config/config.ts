@@ -1,6 +1,10 @@
 import fs from 'fs';
 import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
 import { createLogger } from '@utils/agent_logger';
+import type { ClassifierMode, Session } from '@custom-types/context';
+import type { RulePlaybookDefinition } from '@custom-types/playbook';
+import { validateRuleDefinition } from '@playbooks/rules';
 
 const logger = createLogger('Config');
 
@@ -14,9 +18,11 @@ const logger = createLogger('Config');
  * - Load configurations from JSON files
  * - Playbook settings (priority, minConfidence, enabled state)
  * - Detector weights for confidence scoring
+ * - Session calendar (IANA time zones, kill zones)
  * - Default application settings
  * - Configuration validation
  * - Environment-specific overrides
+ * - Scoped per-analysis config (user/request overrides, see overrides.ts)
  *
  * Usage:
  * ```typescript
@@ -56,14 +62,108 @@ export interface DefaultConfig {
     maxFileSize: string;
     maxFiles: number;
   };
+  signalLifecycle: SignalLifecycleConfig;
+  outcomeTracking: OutcomeTrackingConfig;
+  newsBlackout: NewsBlackoutConfig;
+  scanner: ScannerConfig;
+  alerts: AlertsConfig;
+  execution: ExecutionConfig;
+  paperTrading: PaperTradingConfig;
+  riskGovernor: RiskGovernorConfig;
+}
+
+// Live signal lifecycle (see @signals/lifecycle), counted in execution bars
+export interface SignalLifecycleConfig {
+  armConfidence: number; // min signal confidence for forming → armed
+  formingGraceBars: number; // bars a forming setup may go unseen before it expires
+  armedExpiryBars: number; // bars an armed setup waits for its entry
+  triggeredExpiryBars: number; // bars a triggered setup is tracked for its stop
+  cooldownBars: number; // bars before the same dedup key may open a new setup
+}
+
+// Background outcome evaluation of saved signals (src/journal/outcomeTracker.ts)
+export interface OutcomeTrackingConfig {
+  enabled: boolean;
+  intervalMinutes: number; // how often pending signals are evaluated
+  maxBars: number; // bars after the signal before an unresolved plan expires
+  batchSize: number; // pending signals evaluated per run
+  providers: Record<string, string>; // instrument → data provider for later candles
+}
+
+// Economic news blackout windows (see @detectors/newsCalendar)
+export interface NewsBlackoutConfig {
+  enabled: boolean;
+  calendarFile: string; // CSV or JSON event calendar (time, currency, impact, title)
+  impacts: Partial<Record<'high' | 'medium', NewsWindowConfig>>; // no window → impact ignored
+  symbolCurrencies: Record<string, string[]>; // symbols that are not a 6-letter currency pair
+}
+
+export interface NewsWindowConfig {
+  beforeMinutes: number; // blackout starts this long before the release
+  afterMinutes: number; // ...and ends this long after it
+  action: 'suppress' | 'penalty'; // neutral signal, or confidence − penalty
+  penalty: number; // confidence points (action "penalty")
+}
+
+// Multi-symbol watchlist scans (src/scanner)
+export interface ScannerConfig {
+  maxConcurrency: number; // symbols fetched + analysed at the same time
+  candleLimit: number; // candles fetched per symbol
+  maxSymbols: number; // symbols per scan / watchlist
+  closeDelaySeconds: number; // scheduled scans wait this long after a candle close
+}
+
+// Alert rule deliveries (src/alerts)
+export interface AlertsConfig {
+  enabled: boolean;
+  cooldownMinutes: number; // default per rule: same setup is not re-sent within this window
+  timeoutMs: number; // per delivery attempt
+  retry: {
+    maxAttempts: number;
+    baseDelayMs: number; // backoff: baseDelayMs × 2^(attempt − 1), capped at maxDelayMs
+    maxDelayMs: number;
+  };
+  smtp: SmtpConfig;
+}
+
+export interface SmtpConfig {
+  host: string; // empty = email channel unavailable
+  port: number;
+  secure: boolean; // implicit TLS (port 465)
+  startTls: boolean; // upgrade plain connections with STARTTLS (fails when not offered)
+  user: string;
+  password: string; // SMTP_PASSWORD env var wins
+  from: string;
+}
+
+// Order execution providers (src/execution)
+export interface ExecutionConfig {
+  mock: {
+    startingBalance: number; // in-process mock exchange account
+    currency: string;
+  };
+}
+
+// Paper trading of live stream signals (src/paper)
+export interface PaperTradingConfig {
+  enabled: boolean;
+  riskPercent: number; // default account risk per setup (% of equity)
+}
+
+// Pre-trade risk limits (src/risk); the limits themselves are per user
+export interface RiskGovernorConfig {
+  enabled: boolean;
+  dayStartHourUtc: number; // trading day boundary for daily trade / loss limits
 }
 
 export interface PlaybookConfig {
   enabled: boolean;
   priority: number;
   minConfidence: number;
+  baseConfidence: number; // playbook score before confidence modifiers
   description: string;
   requiredConditions: string[];
+  rules?: RulePlaybookDefinition; // declarative playbook (see @playbooks/rules)
 }
 
 export interface PlaybooksConfig {
@@ -72,11 +172,15 @@ export interface PlaybooksConfig {
     JadeCap: PlaybookConfig;
     Tori: PlaybookConfig;
     Fabio: PlaybookConfig;
+    [name: string]: PlaybookConfig; // rule-based playbooks (entries with a "rules" block)
   };
   globalSettings: {
     enableAllPlaybooks: boolean;
     maxPlaybooksPerSignal: number;
     requireMinConfidence: boolean;
+    classifierMode?: ClassifierMode;
+    htfTimeframe?: string; // HTF bias + PO3 dealing range (default "4h")
+    trendlineTimeframe?: string; // Tori trendline (default "4h")
   };
 }
 
@@ -104,6 +208,9 @@ export interface WeightsConfig {
     clearLVN: number;
     strongMove: number;
     highVolatility: number;
+    strongAggression: number;
+    orderBlock: number;
+    nySession: number;
   };
   thresholds: {
     minSwingTouches: number;
@@ -113,6 +220,11 @@ export interface WeightsConfig {
     oteMaxLevel: number;
     balanceVolatilityThreshold: number;
     balanceRangeThreshold: number;
+    imbalanceThreshold: number; // Fabio: min gap size as a fraction of price
+    adrMaxPct: number; // NBB: max share of ADR the day may have used (1.2 = 120%)
+    adrPeriod: number; // completed trading days averaged into the ADR
+    adrWarnPct: number; // share of ADR used that adds a range-exhaustion risk hint
+    sessionRangeWarnRatio: number; // session range vs its average that adds a risk hint
   };
   sessionWeights: {
     asian: number;
@@ -120,20 +232,114 @@ export interface WeightsConfig {
     ny: number;
     overlap: number;
   };
+  confidenceModel: ConfidenceModelConfig;
+  tradePlan: TradePlanConfig;
+  calibration: CalibrationConfig;
+}
+
+// Signal confidence model (see @signals/confidenceModel)
+export interface ConfidenceModelConfig {
+  confluenceRange: number; // points between 0% and 100% weighted detector confluence
+  lateSessionPenalty: number;
+  choppyPenalty: number; // high volatility without displacement
+  counterTrendPenalty: number;
+  agreementBoost: number; // per agreeing playbook (scoring mode)
+  maxAgreementBoost: number;
+  conflictPenalty: number; // any playbook firing the other way
+  gradeA: number; // min confidence for grade A
+  gradeB: number; // min confidence for grade B
+}
+
+// Confidence recalibration (fitted by the calibration report, see @signals/calibration)
+export interface CalibrationConfig {
+  enabled: boolean;
+  points: CalibrationPoint[]; // ascending model confidence → calibrated confidence
+}
+
+export interface CalibrationPoint {
+  confidence: number; // model confidence (0-100)
+  calibrated: number; // realized hit rate as confidence (0-100)
+}
+
+// Trade plan generator (see @signals/tradePlan)
+export interface TradePlanConfig {
+  rrTargets: number[]; // R-multiple targets when the request sends none
+  stopBufferPct: number; // stop distance beyond structure, % of price (0.02 = 0.02%)
+  maxLiquidityTargets: number; // nearest untaken liquidity levels used as targets
+}
+
+export interface SessionWindowConfig {
+  label: string;
+  timezone: string; // IANA zone, e.g. "America/New_York" (DST handled by the zone)
+  start: string; // local "HH:mm"
+  end: string; // local "HH:mm" (end < start wraps past midnight)
+  session?: Session; // core session the window belongs to
+}
+
+export interface SessionsConfig {
+  sessions: Record<Session, SessionWindowConfig>;
+  sessionPriority: Session[]; // overlap resolution, first match wins
+  fallbackSession: Session; // used between sessions (e.g. after NY close)
+  windows: Record<string, SessionWindowConfig>; // named windows / kill zones
+  tradingDay: {
+    timezone: string; // IANA zone the day boundary is defined in
+    boundary: string; // local "HH:mm" a new trading day starts (e.g. 17:00 New York)
+  };
+}
+
+export type AssetClass = 'forex' | 'metal' | 'index' | 'crypto';
+
+export interface MarketHoursConfig {
+  timezone: string; // IANA zone the exchange hours are defined in
+  days: number[]; // local weekdays a session opens on (0 = Sunday)
+  open: string; // local "HH:mm"
+  close: string; // local "HH:mm" (close <= open runs into the next day)
+}
+
+// Contract specs shared by an asset class (instruments may override each)
+export interface AssetClassConfig {
+  contractSize: number; // units per lot
+  lotStep: number; // smallest lot increment the broker accepts
+  minLots: number;
+  marginRate: number; // initial margin as a fraction of notional (0.0333 = 1:30)
+  tradingHours: string | null; // key in tradingHours (null = always open)
+}
+
+export interface InstrumentConfig extends Partial<AssetClassConfig> {
+  assetClass: AssetClass;
+  baseCurrency: string | null; // null for indices
+  quoteCurrency: string; // currency prices and P&L are in
+  tickSize: number; // smallest price increment
+  pipSize: number; // price move of one pip / point
+  aliases: Record<string, string>; // provider → provider symbol (OANDA: EUR_USD)
+}
+
+export interface InstrumentsConfig {
+  tradingHours: Record<string, MarketHoursConfig>;
+  assetClasses: Record<AssetClass, AssetClassConfig>;
+  instruments: Record<string, InstrumentConfig>; // keyed by canonical symbol (EURUSD)
 }
 
 export interface AppConfig {
   default: DefaultConfig;
   playbooks: PlaybooksConfig;
   weights: WeightsConfig;
+  sessions: SessionsConfig;
+  instruments: InstrumentsConfig;
 }
 
+// The part of AppConfig that drives analysis (and may be overridden per user/request)
+export type AnalysisConfig = Pick<AppConfig, 'playbooks' | 'weights' | 'sessions'>;
+
 // ═══════════════════════════════════════════════════════════════
 // GLOBAL CONFIG CACHE
 // ═══════════════════════════════════════════════════════════════
 
 let cachedConfig: AppConfig | null = null;
 
+// Effective config of the analysis running in the current async context
+const configScope = new AsyncLocalStorage<AppConfig>();
+
 // ═══════════════════════════════════════════════════════════════
 // CONFIG LOADING FUNCTIONS
 // ═══════════════════════════════════════════════════════════════
@@ -177,11 +383,27 @@ export function loadConfig(configDir: string = './config'): AppConfig {
     const weightsConfig: WeightsConfig = JSON.parse(fs.readFileSync(weightsPath, 'utf-8'));
     logger.success('✓ weights.json loaded');
 
+    // Load sessions.json
+    const sessionsPath = path.join(absoluteConfigDir, 'sessions.json');
+    logger.info(`Loading sessions config from: ${sessionsPath}`);
+    const sessionsConfig: SessionsConfig = JSON.parse(fs.readFileSync(sessionsPath, 'utf-8'));
+    logger.success('✓ sessions.json loaded');
+
+    // Load instruments.json
+    const instrumentsPath = path.join(absoluteConfigDir, 'instruments.json');
+    logger.info(`Loading instruments config from: ${instrumentsPath}`);
+    const instrumentsConfig: InstrumentsConfig = JSON.parse(
+      fs.readFileSync(instrumentsPath, 'utf-8')
+    );
+    logger.success('✓ instruments.json loaded');
+
     // Build complete config
     const config: AppConfig = {
       default: defaultConfig,
       playbooks: playbooksConfig,
       weights: weightsConfig,
+      sessions: sessionsConfig,
+      instruments: instrumentsConfig,
     };
 
     // Validate config
@@ -203,11 +425,27 @@ export function loadConfig(configDir: string = './config'): AppConfig {
 /**
  * Get the current loaded configuration
  *
- * Returns the cached configuration. If not loaded, attempts to load it.
+ * Inside runWithConfig() this is the scoped (overridden) configuration.
+ * Otherwise returns the cached configuration, loading it if needed.
  *
  * @returns AppConfig object
  */
 export function getConfig(): AppConfig {
+  const scoped = configScope.getStore();
+  if (scoped) {
+    return scoped;
+  }
+
+  return getGlobalConfig();
+}
+
+/**
+ * Get the global configuration loaded from config/*.json
+ * Ignores any runWithConfig() scope (base layer for overrides).
+ *
+ * @returns AppConfig object
+ */
+export function getGlobalConfig(): AppConfig {
   if (!cachedConfig) {
     logger.warn('Config not loaded yet, loading now...');
     return loadConfig();
@@ -215,6 +453,21 @@ export function getConfig(): AppConfig {
   return cachedConfig;
 }
 
+/**
+ * Run a function with a scoped configuration
+ *
+ * Every getter (getPlaybookConfig, getThreshold, getSessionsConfig, ...)
+ * called from fn - including across awaits - reads `config` instead of
+ * the global files. Concurrent analyses keep their own scope.
+ *
+ * @param config - Effective configuration (see resolveConfig in overrides.ts)
+ * @param fn - Work to run under the configuration
+ * @returns fn's return value
+ */
+export function runWithConfig<T>(config: AppConfig, fn: () => T): T {
+  return configScope.run(config, fn);
+}
+
 /**
  * Get configuration for a specific playbook
  *
@@ -249,6 +502,32 @@ export function getAllPlaybookConfigs(): Array<{ name: string; config: PlaybookC
     .sort((a, b) => a.config.priority - b.config.priority);
 }
 
+/**
+ * Get classifier mode
+ *
+ * - 'priority': first enabled playbook (by priority) that fires wins
+ * - 'scoring': every enabled playbook is checked and ranked by confidence
+ *
+ * @returns ClassifierMode (defaults to 'priority' when not configured)
+ */
+export function getClassifierMode(): ClassifierMode {
+  const config = getConfig();
+  return config.playbooks.globalSettings.classifierMode || 'priority';
+}
+
+/**
+ * Get multi-timeframe settings
+ *
+ * @returns Timeframes used for HTF bias/PO3 and the Tori trendline
+ */
+export function getTimeframeSettings(): { htf: string; trendline: string } {
+  const { globalSettings } = getConfig().playbooks;
+  return {
+    htf: globalSettings.htfTimeframe || '4h',
+    trendline: globalSettings.trendlineTimeframe || '4h',
+  };
+}
+
 /**
  * Get detector weights configuration
  *
@@ -310,6 +589,124 @@ export function getSessionWeight(session: 'asian' | 'london' | 'ny' | 'overlap')
   return weights.sessionWeights[session] || 1.0;
 }
 
+/**
+ * Get signal confidence model settings
+ *
+ * @returns ConfidenceModelConfig (penalties, boosts and grade cut-offs)
+ */
+export function getConfidenceModel(): ConfidenceModelConfig {
+  return getDetectorWeights().confidenceModel;
+}
+
+/**
+ * Get trade plan generator settings
+ *
+ * @returns TradePlanConfig (default R:R targets, stop buffer, liquidity targets)
+ */
+export function getTradePlanConfig(): TradePlanConfig {
+  return getDetectorWeights().tradePlan;
+}
+
+/**
+ * Get confidence recalibration mapping
+ *
+ * @returns CalibrationConfig (enabled flag and mapping points)
+ */
+export function getCalibrationConfig(): CalibrationConfig {
+  return getDetectorWeights().calibration;
+}
+
+/**
+ * Get live signal lifecycle settings
+ *
+ * @returns SignalLifecycleConfig (arming threshold, expiries, cooldown)
+ */
+export function getSignalLifecycleConfig(): SignalLifecycleConfig {
+  return getConfig().default.signalLifecycle;
+}
+
+/**
+ * Get signal outcome tracking settings
+ *
+ * @returns OutcomeTrackingConfig (schedule, evaluation window, providers)
+ */
+export function getOutcomeTrackingConfig(): OutcomeTrackingConfig {
+  return getConfig().default.outcomeTracking;
+}
+
+/**
+ * Get economic news blackout settings
+ *
+ * @returns NewsBlackoutConfig (calendar file, windows per impact, symbol currencies)
+ */
+export function getNewsBlackoutConfig(): NewsBlackoutConfig {
+  return getConfig().default.newsBlackout;
+}
+
+/**
+ * Get watchlist scanner settings
+ *
+ * @returns ScannerConfig (parallelism, candle history, schedule delay)
+ */
+export function getScannerConfig(): ScannerConfig {
+  return getConfig().default.scanner;
+}
+
+/**
+ * Get alert delivery settings
+ *
+ * @returns AlertsConfig (cooldown, retry/backoff, SMTP server)
+ */
+export function getAlertsConfig(): AlertsConfig {
+  return getConfig().default.alerts;
+}
+
+/**
+ * Get order execution settings
+ *
+ * @returns ExecutionConfig (mock exchange account)
+ */
+export function getExecutionConfig(): ExecutionConfig {
+  return getConfig().default.execution;
+}
+
+/**
+ * Get paper trading settings
+ *
+ * @returns PaperTradingConfig (on/off, default risk per setup)
+ */
+export function getPaperTradingConfig(): PaperTradingConfig {
+  return getConfig().default.paperTrading;
+}
+
+/**
+ * Get pre-trade risk governor settings
+ *
+ * @returns RiskGovernorConfig (on/off, trading day boundary)
+ */
+export function getRiskGovernorConfig(): RiskGovernorConfig {
+  return getConfig().default.riskGovernor;
+}
+
+/**
+ * Get session calendar configuration
+ *
+ * @returns SessionsConfig with core sessions and named windows
+ */
+export function getSessionsConfig(): SessionsConfig {
+  const config = getConfig();
+  return config.sessions;
+}
+
+/**
+ * Get the instrument registry (contract specs, trading hours, provider aliases)
+ *
+ * @returns InstrumentsConfig from config/instruments.json
+ */
+export function getInstrumentsConfig(): InstrumentsConfig {
+  return getConfig().instruments;
+}
+
 /**
  * Check if a playbook is enabled
  *
@@ -345,6 +742,92 @@ export function validateConfig(config: AppConfig): void {
     throw new Error('Invalid port number in default config');
   }
 
+  // Validate signal lifecycle (confidence 0-100, bar counts >= 0)
+  const lifecycle = config.default.signalLifecycle;
+  for (const [name, value] of Object.entries(lifecycle)) {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid signalLifecycle.${name}: ${value} (must be a number >= 0)`);
+    }
+  }
+  if (lifecycle.armConfidence > 100) {
+    throw new Error(`Invalid signalLifecycle.armConfidence: ${lifecycle.armConfidence} (max 100)`);
+  }
+
+  // Validate outcome tracking (positive counts, known providers)
+  const outcomes = config.default.outcomeTracking;
+  for (const name of ['intervalMinutes', 'maxBars', 'batchSize'] as const) {
+    if (!Number.isInteger(outcomes[name]) || outcomes[name] < 1) {
+      throw new Error(`Invalid outcomeTracking.${name}: ${outcomes[name]} (integer >= 1)`);
+    }
+  }
+  for (const [instrument, provider] of Object.entries(outcomes.providers || {})) {
+    if (!['OANDA', 'FXCM', 'BINANCE', 'BYBIT'].includes(String(provider).toUpperCase())) {
+      throw new Error(`Invalid outcomeTracking.providers.${instrument}: ${provider}`);
+    }
+  }
+
+  // Validate news blackout windows (minutes >= 0, known action, penalty 0-100)
+  const news = config.default.newsBlackout;
+  for (const [impact, window] of Object.entries(news.impacts || {})) {
+    if (!['high', 'medium'].includes(impact)) {
+      throw new Error(`Invalid newsBlackout.impacts.${impact} (expected high or medium)`);
+    }
+    if (!(window.beforeMinutes >= 0) || !(window.afterMinutes >= 0)) {
+      throw new Error(`Invalid newsBlackout.impacts.${impact}: window minutes must be >= 0`);
+    }
+    if (window.action !== 'suppress' && window.action !== 'penalty') {
+      throw new Error(`Invalid newsBlackout.impacts.${impact}.action: ${window.action}`);
+    }
+    if (!(window.penalty >= 0 && window.penalty <= 100)) {
+      throw new Error(`Invalid newsBlackout.impacts.${impact}.penalty: ${window.penalty} (0-100)`);
+    }
+  }
+
+  // Validate scanner (positive counts, delay >= 0)
+  const scanner = config.default.scanner;
+  for (const name of ['maxConcurrency', 'candleLimit', 'maxSymbols'] as const) {
+    if (!Number.isInteger(scanner[name]) || scanner[name] < 1) {
+      throw new Error(`Invalid scanner.${name}: ${scanner[name]} (integer >= 1)`);
+    }
+  }
+  if (!(scanner.closeDelaySeconds >= 0)) {
+    throw new Error(`Invalid scanner.closeDelaySeconds: ${scanner.closeDelaySeconds} (>= 0)`);
+  }
+
+  // Validate alert retry/backoff (attempts >= 1, delays >= 0)
+  const alerts = config.default.alerts;
+  if (!Number.isInteger(alerts.retry.maxAttempts) || alerts.retry.maxAttempts < 1) {
+    throw new Error(`Invalid alerts.retry.maxAttempts: ${alerts.retry.maxAttempts} (integer >= 1)`);
+  }
+  for (const [name, value] of [
+    ['cooldownMinutes', alerts.cooldownMinutes],
+    ['timeoutMs', alerts.timeoutMs],
+    ['retry.baseDelayMs', alerts.retry.baseDelayMs],
+    ['retry.maxDelayMs', alerts.retry.maxDelayMs],
+  ] as const) {
+    if (!(value >= 0)) {
+      throw new Error(`Invalid alerts.${name}: ${value} (must be >= 0)`);
+    }
+  }
+
+  // Validate mock exchange account
+  const mock = config.default.execution.mock;
+  if (!(mock.startingBalance > 0)) {
+    throw new Error(`Invalid execution.mock.startingBalance: ${mock.startingBalance} (> 0)`);
+  }
+
+  // Validate paper trading risk
+  const paper = config.default.paperTrading;
+  if (!(paper.riskPercent > 0 && paper.riskPercent <= 100)) {
+    throw new Error(`Invalid paperTrading.riskPercent: ${paper.riskPercent} (0-100)`);
+  }
+
+  // Validate trading day boundary
+  const { dayStartHourUtc } = config.default.riskGovernor;
+  if (!Number.isInteger(dayStartHourUtc) || dayStartHourUtc < 0 || dayStartHourUtc > 23) {
+    throw new Error(`Invalid riskGovernor.dayStartHourUtc: ${dayStartHourUtc} (integer 0-23)`);
+  }
+
   // Validate playbook configs
   const playbooks = Object.entries(config.playbooks.playbooks);
   const priorities = new Set<number>();
@@ -356,15 +839,124 @@ export function validateConfig(config: AppConfig): void {
     }
     priorities.add(playbookConfig.priority);
 
-    // Check min confidence range
+    // Check min/base confidence range
     if (playbookConfig.minConfidence < 0 || playbookConfig.minConfidence > 100) {
       throw new Error(`Invalid minConfidence for ${name}: ${playbookConfig.minConfidence} (must be 0-100)`);
     }
+    if (!(playbookConfig.baseConfidence >= 0 && playbookConfig.baseConfidence <= 100)) {
+      throw new Error(
+        `Invalid baseConfidence for ${name}: ${playbookConfig.baseConfidence} (must be 0-100)`
+      );
+    }
 
     // Check priority range
     if (playbookConfig.priority < 1 || playbookConfig.priority > 10) {
       throw new Error(`Invalid priority for ${name}: ${playbookConfig.priority} (must be 1-10)`);
     }
+
+    // Check declarative rules
+    const { rules, requiredConditions } = playbookConfig;
+    if (rules) {
+      const errors = validateRuleDefinition(rules, requiredConditions);
+      if (errors.length > 0) {
+        throw new Error(`Invalid rules for playbook ${name}: ${errors.join('; ')}`);
+      }
+    }
+  }
+
+  // Validate classifier mode
+  const mode = config.playbooks.globalSettings.classifierMode;
+  if (mode !== undefined && mode !== 'priority' && mode !== 'scoring') {
+    throw new Error(`Invalid classifierMode: ${mode} (must be 'priority' or 'scoring')`);
+  }
+  const maxPlaybooks = config.playbooks.globalSettings.maxPlaybooksPerSignal;
+  if (!Number.isInteger(maxPlaybooks) || maxPlaybooks < 1) {
+    throw new Error(`Invalid maxPlaybooksPerSignal: ${maxPlaybooks} (must be an integer >= 1)`);
+  }
+
+  // Validate session calendar
+  const calendarEntries = [
+    ...Object.entries(config.sessions.sessions),
+    ...Object.entries(config.sessions.windows),
+  ];
+  const hhmm = /^([01]\d|2[0-3]):[0-5]\d$/;
+  for (const [name, window] of calendarEntries) {
+    if (!isValidTimeZone(window.timezone)) {
+      throw new Error(`Invalid timezone for session window ${name}: ${window.timezone}`);
+    }
+    if (!hhmm.test(window.start) || !hhmm.test(window.end)) {
+      throw new Error(`Invalid start/end for session window ${name} (must be HH:mm)`);
+    }
+  }
+
+  const { tradingDay } = config.sessions;
+  if (!isValidTimeZone(tradingDay.timezone) || !hhmm.test(tradingDay.boundary)) {
+    throw new Error('Invalid tradingDay in sessions config (need IANA timezone + HH:mm boundary)');
+  }
+
+  // Validate instrument registry (positive specs, known hours and asset classes)
+  const { tradingHours, assetClasses, instruments } = config.instruments;
+  for (const [name, hours] of Object.entries(tradingHours)) {
+    if (!isValidTimeZone(hours.timezone) || !hhmm.test(hours.open) || !hhmm.test(hours.close)) {
+      throw new Error(`Invalid tradingHours.${name} (need IANA timezone + HH:mm open/close)`);
+    }
+    if (!hours.days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)) {
+      throw new Error(`Invalid tradingHours.${name}.days (weekdays 0-6, 0 = Sunday)`);
+    }
+  }
+  const specFields = [
+    'tickSize',
+    'pipSize',
+    'contractSize',
+    'lotStep',
+    'minLots',
+    'marginRate',
+  ] as const;
+  for (const [symbol, spec] of Object.entries(instruments)) {
+    if (!assetClasses[spec.assetClass]) {
+      throw new Error(`Invalid assetClass for instrument ${symbol}: ${spec.assetClass}`);
+    }
+    const specs = { ...assetClasses[spec.assetClass], ...spec };
+    for (const field of specFields) {
+      if (!(specs[field] > 0)) {
+        throw new Error(`Invalid ${field} for instrument ${symbol}: ${specs[field]} (must be > 0)`);
+      }
+    }
+    if (specs.tradingHours !== null && !tradingHours[specs.tradingHours]) {
+      throw new Error(`Unknown tradingHours for instrument ${symbol}: ${specs.tradingHours}`);
+    }
+  }
+
+  // Validate thresholds (all are counts, ratios or fractions of price)
+  for (const [name, value] of Object.entries(config.weights.thresholds)) {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid threshold ${name}: ${value} (must be a number >= 0)`);
+    }
+  }
+
+  // Validate confidence model (grade cut-offs ordered, no negative penalties)
+  const model = config.weights.confidenceModel;
+  for (const [name, value] of Object.entries(model)) {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid confidenceModel.${name}: ${value} (must be a number >= 0)`);
+    }
+  }
+  if (model.gradeB > model.gradeA || model.gradeA > 100) {
+    throw new Error('Invalid confidenceModel grades (need gradeB <= gradeA <= 100)');
+  }
+
+  // Validate trade plan settings
+  const plan = config.weights.tradePlan;
+  if (!isValidRrTargets(plan.rrTargets)) {
+    throw new Error('Invalid tradePlan.rrTargets (must be an array of numbers > 0)');
+  }
+  if (!(plan.stopBufferPct >= 0) || !Number.isInteger(plan.maxLiquidityTargets)) {
+    throw new Error('Invalid tradePlan (need stopBufferPct >= 0, integer maxLiquidityTargets)');
+  }
+
+  // Validate calibration mapping (ascending confidence, non-decreasing 0-100 values)
+  if (!isValidCalibrationPoints(config.weights.calibration.points)) {
+    throw new Error('Invalid calibration.points (need ascending confidence, calibrated 0-100)');
   }
 
   // Validate detector weights (should be 0.0 - 1.0)
@@ -378,6 +970,42 @@ export function validateConfig(config: AppConfig): void {
   logger.success('✓ Configuration validation passed');
 }
 
+/**
+ * Check an R:R target list (config or request)
+ */
+export function isValidRrTargets(targets: unknown): targets is number[] {
+  return (
+    Array.isArray(targets) &&
+    targets.every((rr) => typeof rr === 'number' && Number.isFinite(rr) && rr > 0)
+  );
+}
+
+/**
+ * Check a calibration mapping (config or fitted report)
+ */
+export function isValidCalibrationPoints(points: unknown): points is CalibrationPoint[] {
+  if (!Array.isArray(points)) return false;
+
+  const isPercent = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 100;
+  return points.every((p, i) => {
+    const prev = points[i - 1];
+    return (
+      isPercent(p?.confidence) &&
+      isPercent(p?.calibrated) &&
+      (!prev || (p.confidence > prev.confidence && p.calibrated >= prev.calibrated))
+    );
+  });
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 // ═══════════════════════════════════════════════════════════════
 // UTILITIES
 // ═══════════════════════════════════════════════════════════════
@@ -439,13 +1067,30 @@ export function logConfigSummary(): void {
 export default {
   loadConfig,
   getConfig,
+  getGlobalConfig,
+  runWithConfig,
   getPlaybookConfig,
   getAllPlaybookConfigs,
+  getClassifierMode,
+  getTimeframeSettings,
   getDetectorWeights,
   getDetectorWeight,
   getConfidenceModifier,
   getThreshold,
   getSessionWeight,
+  getConfidenceModel,
+  getTradePlanConfig,
+  getCalibrationConfig,
+  getSignalLifecycleConfig,
+  getOutcomeTrackingConfig,
+  getNewsBlackoutConfig,
+  getScannerConfig,
+  getAlertsConfig,
+  getExecutionConfig,
+  getPaperTradingConfig,
+  getRiskGovernorConfig,
+  getSessionsConfig,
+  getInstrumentsConfig,
   isPlaybookEnabled,
   validateConfig,
   reloadConfig,
@@ -0,0 +1,238 @@
+import { createLogger } from '@utils/agent_logger';
+import { AnalysisConfig, AppConfig, getGlobalConfig, validateConfig } from './config';
+
+const logger = createLogger('ConfigOverrides');
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * LAYERED CONFIGURATION OVERRIDES
+ * ═══════════════════════════════════════════════════════════════
+ * Builds the effective configuration for one analysis:
+ *
+ *   config/*.json  →  per-user saved overrides  →  per-request overrides
+ *
+ * Each layer is a deep-partial AnalysisConfig ({ playbooks, weights,
+ * sessions }). Server settings (config/default.json) can't be overridden.
+ * The merged result goes through validateConfig() before it is used.
+ *
+ * The frontend's playbook settings are accepted as well and mapped:
+ *   - NBB.adrMaxPct              → weights.thresholds.adrMaxPct
+ *   - TORI.minTouches            → weights.thresholds.minSwingTouches
+ *   - FABIO.imbalanceThreshold   → weights.thresholds.imbalanceThreshold
+ *   - JADE.intradayStart/EndHour → sessions.windows.nyAmKillZone start/end
+ *   - <playbook>.enabled         → playbooks.playbooks.<name>.enabled
+ *
+ * Usage:
+ * ```typescript
+ * const config = resolveConfig(userOverrides, parseConfigOverrides(body.overrideConfig));
+ * const context = runWithConfig(config, () => buildMarketContext(rawData));
+ * ```
+ */
+
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends Array<unknown>
+    ? T[K]
+    : T[K] extends object
+      ? DeepPartial<T[K]>
+      : T[K];
+};
+
+export type ConfigOverrides = DeepPartial<AnalysisConfig>;
+
+// Playbook settings block sent by the frontend (store/useAgentStore.ts)
+interface PlaybookSettings {
+  enabled?: boolean;
+  adrMaxPct?: number;
+  minTouches?: number;
+  imbalanceThreshold?: number;
+  intradayStartHour?: number;
+  intradayEndHour?: number;
+}
+
+// Frontend settings key → playbook name in config/playbooks.json
+const PLAYBOOK_KEYS: Record<string, keyof AppConfig['playbooks']['playbooks']> = {
+  NBB: 'NBB',
+  TORI: 'Tori',
+  FABIO: 'Fabio',
+  JADE: 'JadeCap',
+};
+
+const OVERRIDE_SECTIONS: Array<keyof AnalysisConfig> = ['playbooks', 'weights', 'sessions'];
+
+// Keys that would reach Object.prototype while merging
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Normalize an override payload (request body or saved user settings)
+ *
+ * @param raw - ConfigOverrides, or the frontend's { NBB, TORI, FABIO, JADE } settings
+ * @returns ConfigOverrides (empty when raw is missing)
+ * @throws Error if raw is not an object or has unknown top-level keys
+ */
+export function parseConfigOverrides(raw: unknown): ConfigOverrides {
+  if (raw === undefined || raw === null) {
+    return {};
+  }
+
+  if (!isPlainObject(raw)) {
+    throw new Error('Invalid config overrides: expected an object');
+  }
+
+  const overrides: ConfigOverrides = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (OVERRIDE_SECTIONS.includes(key as keyof AnalysisConfig)) {
+      mergeInto(overrides as Record<string, unknown>, { [key]: value });
+    } else if (key in PLAYBOOK_KEYS) {
+      mergeInto(
+        overrides as Record<string, unknown>,
+        fromPlaybookSettings(key, value) as Record<string, unknown>
+      );
+    } else {
+      throw new Error(`Invalid config overrides: unknown key "${key}"`);
+    }
+  }
+
+  return overrides;
+}
+
+/**
+ * Merge override layers over the global configuration and validate
+ *
+ * @param layers - Overrides applied in order (later layers win)
+ * @returns Effective AppConfig
+ * @throws Error if an override has an unknown key, a wrong type or fails validateConfig()
+ */
+export function resolveConfig(...layers: Array<ConfigOverrides | undefined>): AppConfig {
+  const base = getGlobalConfig();
+  const active = layers.filter((layer): layer is ConfigOverrides => !!layer && !isEmpty(layer));
+  if (active.length === 0) {
+    return base;
+  }
+
+  const config = structuredClone(base);
+  for (const layer of active) {
+    applyOverrides(
+      config as unknown as Record<string, unknown>,
+      layer as Record<string, unknown>,
+      ''
+    );
+  }
+
+  validateConfig(config);
+  logger.info(`✓ Applied ${active.length} config override layer(s)`);
+  return config;
+}
+
+/**
+ * Analysis-relevant part of a configuration (echoed back in responses)
+ */
+export function toAnalysisConfig(config: AppConfig): AnalysisConfig {
+  const { playbooks, weights, sessions } = config;
+  return { playbooks, weights, sessions };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+// Map one frontend playbook settings block to config paths
+function fromPlaybookSettings(key: string, value: unknown): ConfigOverrides {
+  if (!isPlainObject(value)) {
+    throw new Error(`Invalid config overrides: ${key} must be an object`);
+  }
+
+  const settings = value as PlaybookSettings;
+  const name = PLAYBOOK_KEYS[key];
+  const overrides: ConfigOverrides = {};
+  const thresholds: DeepPartial<AppConfig['weights']['thresholds']> = {};
+
+  if (settings.enabled !== undefined) {
+    overrides.playbooks = { playbooks: { [name]: { enabled: settings.enabled } } };
+  }
+  if (settings.adrMaxPct !== undefined) thresholds.adrMaxPct = settings.adrMaxPct;
+  if (settings.minTouches !== undefined) thresholds.minSwingTouches = settings.minTouches;
+  if (settings.imbalanceThreshold !== undefined) {
+    thresholds.imbalanceThreshold = settings.imbalanceThreshold;
+  }
+  if (Object.keys(thresholds).length > 0) {
+    overrides.weights = { thresholds };
+  }
+
+  const { intradayStartHour, intradayEndHour } = settings;
+  if (intradayStartHour !== undefined || intradayEndHour !== undefined) {
+    const killZone: { start?: string; end?: string } = {};
+    if (intradayStartHour !== undefined) killZone.start = toHHMM(intradayStartHour);
+    if (intradayEndHour !== undefined) killZone.end = toHHMM(intradayEndHour);
+    overrides.sessions = { windows: { nyAmKillZone: killZone } };
+  }
+
+  return overrides;
+}
+
+// Hour of day → local "HH:mm" (validateConfig rejects hours outside 0-23)
+function toHHMM(hour: unknown): string {
+  if (typeof hour !== 'number' || !Number.isInteger(hour)) {
+    throw new Error(`Invalid config overrides: hour must be an integer, got ${hour}`);
+  }
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+// Deep-merge one override object into another (used while normalizing)
+function mergeInto(target: Record<string, unknown>, source: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(source)) {
+    if (UNSAFE_KEYS.includes(key)) {
+      throw new Error(`Invalid config overrides: key "${key}" is not allowed`);
+    }
+
+    const current = target[key];
+    if (isPlainObject(value) && isPlainObject(current)) {
+      mergeInto(current, value);
+    } else {
+      target[key] = value;
+    }
+  }
+}
+
+/**
+ * Apply an override layer onto a config in place
+ * Only keys that exist in the config are accepted, with the same type
+ * (arrays are replaced as a whole).
+ */
+function applyOverrides(
+  target: Record<string, unknown>,
+  overrides: Record<string, unknown>,
+  path: string
+): void {
+  for (const [key, value] of Object.entries(overrides)) {
+    const keyPath = path ? `${path}.${key}` : key;
+    if (value === undefined) continue;
+
+    if (!Object.prototype.hasOwnProperty.call(target, key)) {
+      throw new Error(`Invalid config override: unknown key ${keyPath}`);
+    }
+
+    const current = target[key];
+    if (isPlainObject(current)) {
+      if (!isPlainObject(value)) {
+        throw new Error(`Invalid config override: ${keyPath} must be an object`);
+      }
+      applyOverrides(current, value, keyPath);
+    } else if (Array.isArray(current) ? !Array.isArray(value) : typeof value !== typeof current) {
+      throw new Error(`Invalid config override: ${keyPath} must be ${describe(current)}`);
+    } else {
+      target[key] = value;
+    }
+  }
+}
+
+function describe(value: unknown): string {
+  return Array.isArray(value) ? 'an array' : `a ${typeof value}`;
+}
+
+function isEmpty(overrides: ConfigOverrides): boolean {
+  return Object.keys(overrides).length === 0;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
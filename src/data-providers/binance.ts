@@ -1,5 +1,6 @@
 import axios from 'axios';
 import WebSocket from 'ws';
+import { providerSymbol } from '../instruments/instrumentRegistry';
 import { Candle, DataProvider } from './types';
 
 /**
@@ -12,7 +13,8 @@ import { Candle, DataProvider } from './types';
 
 export const BinanceProvider: DataProvider = {
   async fetchOHLC(symbol: string, timeframe: string, limit: number): Promise<Candle[]> {
-    const url = `https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=${mapTimeframe(
+    const pair = providerSymbol(symbol, 'BINANCE');
+    const url = `https://api.binance.com/api/v3/klines?symbol=${pair}&interval=${mapTimeframe(
       timeframe
     )}&limit=${limit}`;
 
@@ -33,8 +35,9 @@ export const BinanceProvider: DataProvider = {
     timeframe: string,
     callback: (candle: Candle) => void
   ): Promise<() => void> {
+    const pair = providerSymbol(symbol, 'BINANCE').toLowerCase();
     const ws = new WebSocket(
-      `wss://stream.binance.com:9443/ws/${symbol.toLowerCase()}@kline_${mapTimeframe(timeframe)}`
+      `wss://stream.binance.com:9443/ws/${pair}@kline_${mapTimeframe(timeframe)}`
     );
 
     ws.on('message', (msg) => {
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { providerSymbol } from '../instruments/instrumentRegistry';
 import { Candle, DataProvider } from './types';
 
 /**
@@ -10,7 +11,8 @@ import { Candle, DataProvider } from './types';
 
 export const BybitProvider: DataProvider = {
   async fetchOHLC(symbol: string, timeframe: string, limit: number): Promise<Candle[]> {
-    const url = `https://api.bybit.com/v5/market/kline?category=linear&symbol=${symbol}&interval=${mapTimeframe(
+    const pair = providerSymbol(symbol, 'BYBIT');
+    const url = `https://api.bybit.com/v5/market/kline?category=linear&symbol=${pair}&interval=${mapTimeframe(
       timeframe
     )}&limit=${limit}`;
 
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { providerSymbol } from '../instruments/instrumentRegistry';
 import { Candle, DataProvider } from './types';
 
 /**
@@ -12,7 +13,8 @@ const FXCM_BASE = 'https://api.fxcm.com';
 
 export const FxcmProvider: DataProvider = {
   async fetchOHLC(symbol: string, timeframe: string, limit: number): Promise<Candle[]> {
-    const url = `${FXCM_BASE}/candles/${symbol}/${mapTimeframe(timeframe)}?num=${limit}`;
+    const instrument = encodeURIComponent(providerSymbol(symbol, 'FXCM'));
+    const url = `${FXCM_BASE}/candles/${instrument}/${mapTimeframe(timeframe)}?num=${limit}`;
 
     const res = await axios.get(url, {
       headers: {
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { providerSymbol } from '../instruments/instrumentRegistry';
 import { Candle, DataProvider } from './types';
 
 /**
@@ -16,8 +17,9 @@ const OANDA_BASE =
 export const OandaProvider: DataProvider = {
   async fetchOHLC(symbol: string, timeframe: string, limit: number): Promise<Candle[]> {
     const granularity = mapTimeframe(timeframe);
+    const instrument = providerSymbol(symbol, 'OANDA');
 
-    const url = `${OANDA_BASE}/instruments/${symbol}/candles?granularity=${granularity}&count=${limit}&price=M`;
+    const url = `${OANDA_BASE}/instruments/${instrument}/candles?granularity=${granularity}&count=${limit}&price=M`;
 
     const res = await axios.get(url, {
       headers: {
@@ -1,4 +1,5 @@
 import { createLogger } from '@utils/agent_logger';
+import { getThreshold } from '@config/config';
 
 // Create logger for auction detector
 const logger = createLogger('Auction-Detector');
@@ -12,6 +13,7 @@ const logger = createLogger('Auction-Detector');
  * Key Concepts:
  *   - Balance: Market in consolidation (low volatility, tight range)
  *   - Imbalance: Market breakout/transition (gap, strong directional move)
+ *   - LVN: Thin area of the volume profile price moves through quickly
  *
  * Strategy: Trade the transition from balance → imbalance
  */
@@ -50,7 +52,8 @@ export interface BalanceZoneOutput {
  *
  * Algorithm:
  * 1. Calculate ATR (Average True Range) for recent candles
- * 2. If recent range < ATR threshold → in balance
+ * 2. If bodies/range < balanceVolatilityThreshold and range/price <
+ *    balanceRangeThreshold (weights.json thresholds) → in balance
  * 3. Count consecutive candles in balance
  *
  * @param candles - Array of candle data
@@ -74,6 +77,8 @@ export function detectBalanceZone(
   }
 
   const recentCandles = candles.slice(-lookback);
+  const maxVolatility = getThreshold('balanceVolatilityThreshold');
+  const maxRange = getThreshold('balanceRangeThreshold');
 
   // Calculate range metrics
   const high = Math.max(...recentCandles.map((c) => c.high));
@@ -104,8 +109,8 @@ export function detectBalanceZone(
   // Balance detection criteria
   // 1. Small bodies relative to range (low volatility)
   // 2. Tight overall range
-  const isLowVolatility = volatilityRatio < 0.35;
-  const isTightRange = range / mid < 0.03; // Range < 3% of price
+  const isLowVolatility = volatilityRatio < maxVolatility;
+  const isTightRange = range / mid < maxRange; // Range < 3% of price (default)
 
   const inBalance = isLowVolatility && isTightRange;
 
@@ -116,7 +121,7 @@ export function detectBalanceZone(
     const candleRange = recentCandles[i].high - recentCandles[i].low;
     const candleVolatility = candleRange > 0 ? body / candleRange : 0;
 
-    if (candleVolatility < 0.35) {
+    if (candleVolatility < maxVolatility) {
       duration++;
     } else {
       break;
@@ -243,6 +248,92 @@ export function detectAuctionTransition(candles: CandleData[]): AuctionTransitio
   };
 }
 
+// ═══════════════════════════════════════════════════════════════
+// 4. LOW VOLUME NODE (LVN) DETECTION
+// ═══════════════════════════════════════════════════════════════
+
+export interface LowVolumeNodeOutput {
+  detected: boolean;
+  levels: number[]; // LVN prices (bin midpoints), low → high
+  nearest: number | null; // LVN closest to the current price
+}
+
+/**
+ * Detect Low Volume Nodes (LVN)
+ *
+ * Builds a simple volume profile of the recent candles: each candle's
+ * volume is spread evenly over the price bins its range covers.
+ * Interior bins holding less than 30% of the average bin volume are
+ * LVNs - prices the auction moved through quickly, which act as the
+ * path of least resistance when price leaves balance.
+ *
+ * @param candles - Array of candle data
+ * @param lookback - Number of candles in the profile (default 30)
+ * @param bins - Number of price bins (default 20)
+ * @returns LowVolumeNodeOutput with LVN levels
+ */
+export function detectLowVolumeNodes(
+  candles: CandleData[],
+  lookback: number = 30,
+  bins: number = 20
+): LowVolumeNodeOutput {
+  logger.info('  📉 Detecting Low Volume Nodes (LVN)...');
+
+  const none: LowVolumeNodeOutput = { detected: false, levels: [], nearest: null };
+  const recentCandles = candles.slice(-lookback);
+
+  if (recentCandles.length < 10) {
+    logger.warn('      ✗ Insufficient candles for volume profile');
+    return none;
+  }
+
+  const high = Math.max(...recentCandles.map((c) => c.high));
+  const low = Math.min(...recentCandles.map((c) => c.low));
+  const binSize = (high - low) / bins;
+  if (binSize <= 0) {
+    logger.info('      → Flat price range, no volume profile');
+    return none;
+  }
+
+  // Spread each candle's volume across the bins it traded through
+  const profile = new Array<number>(bins).fill(0);
+  for (const candle of recentCandles) {
+    const from = Math.min(bins - 1, Math.floor((candle.low - low) / binSize));
+    const to = Math.min(bins - 1, Math.floor((candle.high - low) / binSize));
+    const share = (candle.volume || 0) / (to - from + 1);
+    for (let i = from; i <= to; i++) {
+      profile[i] += share;
+    }
+  }
+
+  const avgVolume = profile.reduce((sum, v) => sum + v, 0) / bins;
+  if (avgVolume === 0) {
+    logger.warn('      ✗ No volume data for volume profile');
+    return none;
+  }
+
+  // Profile edges are always thin, only interior bins count as LVNs
+  const levels: number[] = [];
+  for (let i = 1; i < bins - 1; i++) {
+    if (profile[i] < avgVolume * 0.3) {
+      levels.push(low + (i + 0.5) * binSize);
+    }
+  }
+
+  if (levels.length === 0) {
+    logger.info('      → No low volume nodes in profile');
+    return none;
+  }
+
+  const price = recentCandles[recentCandles.length - 1].close;
+  const nearest = levels.reduce((best, level) =>
+    Math.abs(level - price) < Math.abs(best - price) ? level : best
+  );
+
+  logger.success(`      ✓ ${levels.length} LVN(s) found, nearest at ${nearest.toFixed(2)}`);
+  return { detected: true, levels, nearest };
+}
+
 // ═══════════════════════════════════════════════════════════════
 // HELPER FUNCTIONS
 // ═══════════════════════════════════════════════════════════════
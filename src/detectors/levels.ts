@@ -0,0 +1,215 @@
+import { KeyLevels } from '@custom-types/detector';
+import { getSessionsConfig } from '@config/config';
+import { isInSession, isInWindow, parseHHMM, toLocalTime } from '@detectors/sessionCalendar';
+import { createLogger } from '@utils/agent_logger';
+import { parseCandleTime } from '@utils/clock';
+
+// Create logger for levels detector
+const logger = createLogger('Levels-Detector');
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * KEY LEVELS ENGINE
+ * ═══════════════════════════════════════════════════════════════
+ * Derives reference levels from candle history.
+ *
+ * Candles are grouped into trading days using the configured day
+ * boundary (config/sessions.json → tradingDay, e.g. 17:00 New York):
+ *   - PDH / PDL              → previous trading day
+ *   - Previous week H / L    → previous trading week (Mon-Fri days)
+ *   - Asian / London ranges  → current trading day (previous day's
+ *                              until the session has traded today);
+ *                              Asian = the asianRange window when
+ *                              configured, London = its core session
+ *   - Midnight open          → first bar at/after 00:00 in the day's zone
+ *   - Weekly open            → first bar of the trading week
+ *
+ * Only candles up to the latest bar are used, so backtests never see
+ * future data. Candles without a time produce empty levels.
+ */
+
+interface PriceData {
+  open?: number;
+  high: number;
+  low: number;
+  close: number;
+  time?: number;
+}
+
+export interface DayBucket {
+  day: string; // trading day YYYY-MM-DD
+  week: string; // Monday of the trading week YYYY-MM-DD
+  candles: PriceData[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+const EMPTY_LEVELS: KeyLevels = {
+  tradingDay: null,
+  previousDayHigh: null,
+  previousDayLow: null,
+  previousWeekHigh: null,
+  previousWeekLow: null,
+  asianHigh: null,
+  asianLow: null,
+  londonHigh: null,
+  londonLow: null,
+  midnightOpen: null,
+  weeklyOpen: null,
+};
+
+/**
+ * Compute Key Levels
+ * @param candles - Candle history (oldest first, unix seconds or milliseconds)
+ * @returns KeyLevels relative to the latest candle
+ */
+export function computeKeyLevels(candles: PriceData[]): KeyLevels {
+  const days: DayBucket[] = [];
+  for (const candle of candles) {
+    if (typeof candle.time === 'number') addToTradingDays(days, candle);
+  }
+  return keyLevelsFromDays(days);
+}
+
+/**
+ * Compute Key Levels from candles already grouped into trading days
+ * (the incremental context engine keeps the buckets between bars)
+ * @param days - Trading day buckets, oldest first
+ * @returns KeyLevels relative to the latest candle
+ */
+export function keyLevelsFromDays(days: DayBucket[]): KeyLevels {
+  logger.info('  📐 Computing Key Levels...');
+
+  if (days.length === 0) {
+    logger.warn('      ✗ Candles carry no time, levels unavailable');
+    return { ...EMPTY_LEVELS };
+  }
+
+  const current = days[days.length - 1];
+  const previous = days.length > 1 ? days[days.length - 2] : null;
+
+  // Previous week = most recent week before the current one
+  const currentWeek = days.filter((d) => d.week === current.week);
+  const previousWeekKey = [...days].reverse().find((d) => d.week < current.week)?.week;
+  const previousWeek = days.filter((d) => d.week === previousWeekKey);
+
+  const previousDayRange = rangeOf(previous ? previous.candles : []);
+  const previousWeekRange = rangeOf(previousWeek.flatMap((d) => d.candles));
+  const asianRange = sessionRange(days, 'asian');
+  const londonRange = sessionRange(days, 'london');
+
+  const levels: KeyLevels = {
+    tradingDay: current.day,
+    previousDayHigh: previousDayRange.high,
+    previousDayLow: previousDayRange.low,
+    previousWeekHigh: previousWeekRange.high,
+    previousWeekLow: previousWeekRange.low,
+    asianHigh: asianRange.high,
+    asianLow: asianRange.low,
+    londonHigh: londonRange.high,
+    londonLow: londonRange.low,
+    midnightOpen: midnightOpen(current.candles),
+    weeklyOpen: openOf(currentWeek[0].candles[0]),
+  };
+
+  logger.info(`      → Trading day ${levels.tradingDay} (${days.length} days of history)`);
+  logger.info(
+    `      → PDH/PDL: ${levels.previousDayHigh ?? '—'} / ${levels.previousDayLow ?? '—'}`
+  );
+  logger.info(`      → Asian: ${levels.asianHigh ?? '—'} / ${levels.asianLow ?? '—'}`);
+  logger.info(`      → London: ${levels.londonHigh ?? '—'} / ${levels.londonLow ?? '—'}`);
+
+  return levels;
+}
+
+/**
+ * Append a timed candle to its trading day bucket (opening a new one if needed)
+ */
+export function addToTradingDays(days: DayBucket[], candle: PriceData): void {
+  const day = getTradingDay(candle.time as number);
+  const last = days[days.length - 1];
+  if (last && last.day === day) {
+    last.candles.push(candle);
+  } else {
+    days.push({ day, week: weekOf(day), candles: [candle] });
+  }
+}
+
+/**
+ * Trading day (YYYY-MM-DD) a time belongs to
+ *
+ * Boundaries from 12:00 onwards open the next day's session the evening
+ * before (17:00 New York → Monday starts Sunday 17:00). Earlier boundaries
+ * keep the calendar date and push the pre-boundary hours to the prior day.
+ */
+export function getTradingDay(time: number): string {
+  const { timezone, boundary } = getSessionsConfig().tradingDay;
+  const local = toLocalTime(candleDate(time), timezone);
+  const boundaryMinutes = parseHHMM(boundary);
+
+  let date = Date.UTC(local.year, local.month - 1, local.day);
+  if (boundaryMinutes >= DAY_MINUTES / 2 && local.minutes >= boundaryMinutes) {
+    date += DAY_MS;
+  } else if (boundaryMinutes < DAY_MINUTES / 2 && local.minutes < boundaryMinutes) {
+    date -= DAY_MS;
+  }
+
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+// Monday of the week a trading day falls in (Sunday sessions belong to the prior week)
+function weekOf(day: string): string {
+  const date = Date.parse(`${day}T00:00:00Z`);
+  const sinceMonday = (new Date(date).getUTCDay() + 6) % 7;
+  return new Date(date - sinceMonday * DAY_MS).toISOString().slice(0, 10);
+}
+
+function sessionRange(days: DayBucket[], session: 'asian' | 'london') {
+  // The Asian range is the window playbooks and overlays use, not Tokyo's core hours
+  const useWindow = session === 'asian' && !!getSessionsConfig().windows.asianRange;
+  const within = (date: Date) =>
+    useWindow ? isInWindow('asianRange', date) : isInSession(session, date);
+
+  // Today's session, or the previous day's until it has traded today
+  for (const bucket of days.slice(-2).reverse()) {
+    const inSession = bucket.candles.filter((c) => within(candleDate(c.time as number)));
+    if (inSession.length > 0) return rangeOf(inSession);
+  }
+  return { high: null, low: null };
+}
+
+function midnightOpen(dayCandles: PriceData[]): number | null {
+  const { timezone, boundary } = getSessionsConfig().tradingDay;
+  const boundaryMinutes = parseHHMM(boundary);
+
+  // Minutes from the start of the trading day until local midnight
+  const midnightOffset = (DAY_MINUTES - boundaryMinutes) % DAY_MINUTES;
+
+  const candle = dayCandles.find((c) => {
+    const { minutes } = toLocalTime(candleDate(c.time as number), timezone);
+    return (minutes - boundaryMinutes + DAY_MINUTES) % DAY_MINUTES >= midnightOffset;
+  });
+
+  return candle ? openOf(candle) : null;
+}
+
+function candleDate(time: number): Date {
+  return parseCandleTime(time) as Date;
+}
+
+function rangeOf(candles: PriceData[]): { high: number | null; low: number | null } {
+  if (candles.length === 0) return { high: null, low: null };
+  return {
+    high: Math.max(...candles.map((c) => c.high)),
+    low: Math.min(...candles.map((c) => c.low)),
+  };
+}
+
+function openOf(candle: PriceData): number {
+  return candle.open ?? candle.close;
+}
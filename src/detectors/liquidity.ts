@@ -1,4 +1,4 @@
-import { LiquidityDetectorOutput } from '@custom-types/detector';
+import { KeyLevels, LiquidityDetectorOutput } from '@custom-types/detector';
 import { createLogger } from '@utils/agent_logger';
 
 // Create logger for liquidity detector
@@ -30,12 +30,14 @@ interface PriceData {
  * @param data - Array of price data
  * @param previousHigh - Previous session/day high
  * @param previousLow - Previous session/day low
+ * @param swings - Precomputed swing points of `data` (incremental engine)
  * @returns LiquidityDetectorOutput with zones and swept levels
  */
 export function detectLiquidity(
   data: PriceData[],
   previousHigh?: number,
-  previousLow?: number
+  previousLow?: number,
+  swings?: SwingPoints
 ): LiquidityDetectorOutput {
   logger.info('  💧 Detecting Liquidity Zones & Advanced Patterns...');
 
@@ -45,8 +47,9 @@ export function detectLiquidity(
   }
 
   // Detect swing highs and lows (liquidity zones)
-  const highZones = detectSwingHighs(data);
-  const lowZones = detectSwingLows(data);
+  const { swingHighs, swingLows } = swings || detectSwingHighsLows(data);
+  const highZones = swingHighs.map((s) => s.level);
+  const lowZones = swingLows.map((s) => s.level);
 
   // Detect swept levels
   const sweptLevels = detectSweptLiquidity(data, highZones, lowZones, previousHigh, previousLow);
@@ -75,35 +78,18 @@ export function detectLiquidity(
 // ═══════════════════════════════════════════════════════════════
 
 /**
- * Detect swing highs (potential liquidity zones above price)
+ * Swing high at index i (potential liquidity zone above price)
+ * Needs both neighbours, so the first and last candle never qualify.
  */
-function detectSwingHighs(data: PriceData[]): number[] {
-  const swingHighs: number[] = [];
-
-  // Look for local highs (candle higher than neighbors)
-  for (let i = 1; i < data.length - 1; i++) {
-    if (data[i].high > data[i - 1].high && data[i].high > data[i + 1].high) {
-      swingHighs.push(data[i].high);
-    }
-  }
-
-  return swingHighs;
+export function isSwingHigh(data: PriceData[], i: number): boolean {
+  return data[i].high > data[i - 1].high && data[i].high > data[i + 1].high;
 }
 
 /**
- * Detect swing lows (potential liquidity zones below price)
+ * Swing low at index i (potential liquidity zone below price)
  */
-function detectSwingLows(data: PriceData[]): number[] {
-  const swingLows: number[] = [];
-
-  // Look for local lows (candle lower than neighbors)
-  for (let i = 1; i < data.length - 1; i++) {
-    if (data[i].low < data[i - 1].low && data[i].low < data[i + 1].low) {
-      swingLows.push(data[i].low);
-    }
-  }
-
-  return swingLows;
+export function isSwingLow(data: PriceData[], i: number): boolean {
+  return data[i].low < data[i - 1].low && data[i].low < data[i + 1].low;
 }
 
 /**
@@ -118,6 +104,11 @@ export interface SwingPoint {
   type: 'high' | 'low';
 }
 
+export interface SwingPoints {
+  swingHighs: SwingPoint[];
+  swingLows: SwingPoint[];
+}
+
 /**
  * Detect Swing Highs and Swing Lows
  * This is the REAL foundation - identifies local peaks and troughs
@@ -129,10 +120,7 @@ export interface SwingPoint {
  * @param candles - Array of price data
  * @returns Object with swingHighs and swingLows arrays with index and level
  */
-export function detectSwingHighsLows(candles: PriceData[]): {
-  swingHighs: SwingPoint[];
-  swingLows: SwingPoint[];
-} {
+export function detectSwingHighsLows(candles: PriceData[]): SwingPoints {
   const swingHighs: SwingPoint[] = [];
   const swingLows: SwingPoint[] = [];
 
@@ -142,7 +130,7 @@ export function detectSwingHighsLows(candles: PriceData[]): {
 
   // Detect swing highs (local peaks)
   for (let i = 1; i < candles.length - 1; i++) {
-    if (candles[i].high > candles[i - 1].high && candles[i].high > candles[i + 1].high) {
+    if (isSwingHigh(candles, i)) {
       swingHighs.push({
         index: i,
         level: candles[i].high,
@@ -153,7 +141,7 @@ export function detectSwingHighsLows(candles: PriceData[]): {
 
   // Detect swing lows (local troughs)
   for (let i = 1; i < candles.length - 1; i++) {
-    if (candles[i].low < candles[i - 1].low && candles[i].low < candles[i + 1].low) {
+    if (isSwingLow(candles, i)) {
       swingLows.push({
         index: i,
         level: candles[i].low,
@@ -394,19 +382,22 @@ export interface SessionSweepOutput {
   session: 'asian' | 'london' | null;
 }
 
+export type SessionRanges = Pick<KeyLevels, 'asianHigh' | 'asianLow' | 'londonHigh' | 'londonLow'>;
+
 /**
  * Detect Session Sweep (for JadeCap playbook)
  * Identifies when Asian/London highs/lows are swept during NY session
+ * @param candles - Execution candles
+ * @param ranges - Session ranges from computeKeyLevels()
  */
 export function detectSessionSweep(
   candles: PriceData[],
-  asianHigh?: number,
-  asianLow?: number,
-  londonHigh?: number,
-  londonLow?: number
+  ranges: SessionRanges
 ): SessionSweepOutput {
   logger.info('  🌏 Detecting Session Sweeps...');
 
+  const { asianHigh, asianLow, londonHigh, londonLow } = ranges;
+
   if (candles.length < 2) {
     logger.warn('      ✗ Insufficient data for session sweep detection');
     return { detected: false, sweptLevel: null, direction: null, session: null };
@@ -187,6 +187,32 @@ export function detectBreakerBlock(candles: CandleData[]): BreakerBlockOutput {
 // 3. PO3 ZONE DETECTION (Premium/Discount)
 // ═══════════════════════════════════════════════════════════════
 
+// Recent range PO3 and OTE are measured on (last 10 candles)
+export interface DealingRange {
+  high: number;
+  low: number;
+  from: number; // index of the first candle in the range
+}
+
+const DEALING_RANGE_BARS = 10;
+
+// Fibonacci retracements reported as OTE levels
+export const OTE_FIB_LEVELS = [0.62, 0.705, 0.79];
+
+/**
+ * Dealing range of the most recent candles
+ * @param candles - At least one candle
+ */
+export function dealingRange(candles: CandleData[]): DealingRange {
+  const from = Math.max(0, candles.length - DEALING_RANGE_BARS);
+  const recentCandles = candles.slice(from);
+  return {
+    high: Math.max(...recentCandles.map((c) => c.high)),
+    low: Math.min(...recentCandles.map((c) => c.low)),
+    from,
+  };
+}
+
 export interface PO3Output {
   exists: boolean;
   inPremium: boolean;
@@ -218,9 +244,7 @@ export function detectPO3Zone(
   }
 
   // Calculate range from recent swing high/low
-  const recentCandles = candles.slice(-10);
-  const high = Math.max(...recentCandles.map((c) => c.high));
-  const low = Math.min(...recentCandles.map((c) => c.low));
+  const { high, low } = dealingRange(candles);
   const range = high - low;
   const equilibrium = low + range * 0.5; // 50% level
 
@@ -281,9 +305,7 @@ export function detectOTELevel(
     return { available: false, level: null, percentage: null };
   }
 
-  const recentCandles = candles.slice(-10);
-  const high = Math.max(...recentCandles.map((c) => c.high));
-  const low = Math.min(...recentCandles.map((c) => c.low));
+  const { high, low } = dealingRange(candles);
   const range = high - low;
   const currentPrice = candles[candles.length - 1].close;
 
@@ -0,0 +1,262 @@
+import fs from 'fs';
+import path from 'path';
+import { getNewsBlackoutConfig, NewsWindowConfig } from '@config/config';
+import { createLogger } from '@utils/agent_logger';
+import { parseCandleTime } from '@utils/clock';
+
+// Create logger for the news calendar
+const logger = createLogger('News-Calendar');
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * ECONOMIC NEWS CALENDAR
+ * ═══════════════════════════════════════════════════════════════
+ * High/medium-impact releases (NFP, CPI, rate decisions) from a local
+ * calendar file (default.json "newsBlackout.calendarFile"):
+ *
+ *   CSV  → header row with time, currency, impact[, title]
+ *   JSON → array of { time, currency, impact, title } (or { events: [...] })
+ *
+ * time is ISO 8601 (no zone = UTC) or unix seconds/ms. Low-impact rows
+ * are dropped. The file is re-read when it changes, so importing a new
+ * week is a matter of replacing it.
+ *
+ * A symbol is exposed to the events of its currencies:
+ *   - symbolCurrencies in config (XAUUSD → USD, GER40 → EUR, ...)
+ *   - 6-letter pairs → both legs (EURUSD → EUR, USD)
+ *   - USDT/USDC/BUSD/USD quoted crypto → USD
+ *
+ * Inside [release − beforeMinutes, release + afterMinutes] of an impact
+ * the signal is suppressed or penalized (see findNewsBlackout).
+ */
+
+export type NewsImpact = 'high' | 'medium';
+
+export interface NewsEvent {
+  time: Date;
+  currency: string; // ISO code (USD, EUR, ...)
+  impact: NewsImpact;
+  title: string;
+}
+
+export interface NewsBlackout {
+  event: NewsEvent;
+  action: NewsWindowConfig['action'];
+  penalty: number; // confidence points (0 when suppressing)
+  minutesToEvent: number; // negative once the event has been released
+}
+
+const MINUTE_MS = 60 * 1000;
+const USD_QUOTES = ['USDT', 'USDC', 'BUSD', 'USD'];
+
+// Parsed calendar, keyed by file + modification time
+let cache: { file: string; mtimeMs: number; events: NewsEvent[] } | null = null;
+let missingFile: string | null = null;
+
+// ═══════════════════════════════════════════════════════════════
+// QUERY API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Find the news blackout (if any) a symbol is in at a point in time
+ * A suppressing window wins over a penalty; otherwise the nearest event.
+ *
+ * @param symbol - Trading symbol (EURUSD, XAUUSD, BTCUSDT, ...)
+ * @param at - Analysis time
+ * @param events - Calendar (defaults to the configured calendar file)
+ * @returns NewsBlackout, or null outside every window (or when disabled)
+ */
+export function findNewsBlackout(
+  symbol: string | undefined,
+  at: Date,
+  events?: NewsEvent[]
+): NewsBlackout | null {
+  const config = getNewsBlackoutConfig();
+  if (!config.enabled || !symbol) return null;
+
+  const currencies = symbolCurrencies(symbol);
+  if (currencies.length === 0) return null;
+
+  const candidates = (events ?? loadNewsCalendar())
+    .filter((event) => currencies.includes(event.currency))
+    .flatMap((event) => {
+      const window = config.impacts[event.impact];
+      if (!window) return [];
+
+      const minutesToEvent = (event.time.getTime() - at.getTime()) / MINUTE_MS;
+      const inside =
+        minutesToEvent <= window.beforeMinutes && -minutesToEvent <= window.afterMinutes;
+      if (!inside) return [];
+
+      return [
+        {
+          event,
+          action: window.action,
+          penalty: window.action === 'penalty' ? window.penalty : 0,
+          minutesToEvent: Math.round(minutesToEvent),
+        },
+      ];
+    });
+
+  candidates.sort(
+    (a, b) =>
+      Number(b.action === 'suppress') - Number(a.action === 'suppress') ||
+      Math.abs(a.minutesToEvent) - Math.abs(b.minutesToEvent)
+  );
+  return candidates[0] ?? null;
+}
+
+/**
+ * Currencies whose news moves a symbol
+ */
+export function symbolCurrencies(symbol: string): string[] {
+  const normalized = symbol.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const mapped = getNewsBlackoutConfig().symbolCurrencies[normalized];
+  if (mapped) return mapped.map((c) => c.toUpperCase());
+
+  if (/^[A-Z]{6}$/.test(normalized)) {
+    return [normalized.slice(0, 3), normalized.slice(3)];
+  }
+
+  const quote = USD_QUOTES.find((q) => normalized.endsWith(q) && normalized.length > q.length);
+  return quote ? ['USD'] : [];
+}
+
+/**
+ * Load the configured calendar file (cached until the file changes)
+ * A missing file means an empty calendar; a file that fails to parse is
+ * logged and the last good version of it kept.
+ */
+export function loadNewsCalendar(file: string = getNewsBlackoutConfig().calendarFile): NewsEvent[] {
+  const resolved = path.resolve(file);
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(resolved).mtimeMs;
+  } catch {
+    if (missingFile !== resolved) {
+      logger.warn(`News calendar not found: ${resolved} (no blackout windows)`);
+      missingFile = resolved;
+    }
+    return [];
+  }
+  missingFile = null;
+
+  if (cache && cache.file === resolved && cache.mtimeMs === mtimeMs) {
+    return cache.events;
+  }
+
+  const format = path.extname(resolved).toLowerCase() === '.csv' ? 'csv' : 'json';
+  let events: NewsEvent[];
+  try {
+    events = parseNewsCalendar(fs.readFileSync(resolved, 'utf-8'), format);
+    logger.info(`📰 Loaded ${events.length} news events from ${path.basename(resolved)}`);
+  } catch (e) {
+    // Keep the last good calendar of this file until it changes again
+    events = cache?.file === resolved ? cache.events : [];
+    logger.error(`Error loading news calendar ${resolved} (keeping ${events.length} events):`, e);
+  }
+
+  cache = { file: resolved, mtimeMs, events };
+  return events;
+}
+
+/**
+ * Parse calendar file content into high/medium-impact events
+ *
+ * @param content - File content
+ * @param format - "csv" (header row) or "json"
+ * @throws Error when the content cannot be read as a calendar
+ */
+export function parseNewsCalendar(content: string, format: 'csv' | 'json'): NewsEvent[] {
+  const rows = format === 'csv' ? parseCsv(content) : parseJson(content);
+
+  const events: NewsEvent[] = [];
+  rows.forEach((row, index) => {
+    const impact = String(row.impact ?? '')
+      .trim()
+      .toLowerCase();
+    if (impact !== 'high' && impact !== 'medium') return;
+
+    const time = parseEventTime(row.time);
+    const currency = String(row.currency ?? '')
+      .trim()
+      .toUpperCase();
+    if (!time || !/^[A-Z]{3}$/.test(currency)) {
+      throw new Error(`Invalid news event #${index + 1}: ${JSON.stringify(row)}`);
+    }
+
+    events.push({ time, currency, impact, title: String(row.title ?? '').trim() });
+  });
+
+  return events.sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+type CalendarRow = Record<string, unknown>;
+
+function parseJson(content: string): CalendarRow[] {
+  const parsed = JSON.parse(content);
+  const rows = Array.isArray(parsed) ? parsed : parsed?.events;
+  if (!Array.isArray(rows)) {
+    throw new Error('News calendar JSON must be an array of events (or { "events": [...] })');
+  }
+  return rows;
+}
+
+function parseCsv(content: string): CalendarRow[] {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+  if (lines.length === 0) return [];
+
+  const header = splitCsvLine(lines[0]).map((h) => h.toLowerCase());
+  for (const column of ['time', 'currency', 'impact']) {
+    if (!header.includes(column)) {
+      throw new Error(`News calendar CSV is missing the "${column}" column`);
+    }
+  }
+
+  return lines.slice(1).map((line) => {
+    const values = splitCsvLine(line);
+    return Object.fromEntries(header.map((name, i) => [name, values[i] ?? '']));
+  });
+}
+
+// Comma-separated fields, double quotes around fields that contain commas
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      field += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+// ISO strings without a zone are UTC (calendar exports are usually in UTC)
+function parseEventTime(value: unknown): Date | null {
+  if (typeof value === 'string') {
+    const iso = value.trim().replace(' ', 'T');
+    const zoned = /(Z|[+-]\d{2}:?\d{2})$/i.test(iso) || !iso.includes('T');
+    return parseCandleTime(zoned ? iso : `${iso}Z`);
+  }
+  return parseCandleTime(value);
+}
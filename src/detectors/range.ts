@@ -0,0 +1,136 @@
+import { RangeStats, SessionRangeStats } from '@custom-types/detector';
+import { getThreshold } from '@config/config';
+import { calculateATR } from '@detectors/auction';
+import { addToTradingDays, DayBucket } from '@detectors/levels';
+import { isInSession } from '@detectors/sessionCalendar';
+import { createLogger } from '@utils/agent_logger';
+import { parseCandleTime } from '@utils/clock';
+
+// Create logger for range analytics
+const logger = createLogger('Range-Detector');
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * DAILY RANGE ANALYTICS (ADR / ATR)
+ * ═══════════════════════════════════════════════════════════════
+ * How much of a "normal" day the market has already travelled,
+ * using the levels engine's trading days (config/sessions.json):
+ *
+ *   ADR          → average high − low of the last thresholds.adrPeriod
+ *                  completed trading days
+ *   ADR used     → current day's range / ADR (1.2 = 120%)
+ *   Session      → today's Asian / London / NY range vs the average
+ *                  of that session over the same days
+ *   ATR          → ATR(14) of the execution candles
+ *
+ * The oldest trading day is left out while other completed days
+ * exist, because the candle history may start in the middle of it.
+ */
+
+const SESSIONS = ['asian', 'london', 'ny'] as const;
+const ATR_PERIOD = 14;
+
+interface PriceData {
+  open?: number;
+  high: number;
+  low: number;
+  close: number;
+  time?: number;
+}
+
+/**
+ * Compute range statistics from candle history
+ * @param candles - Candle history (oldest first); candles without a time are ignored for ADR
+ */
+export function computeRangeStats(candles: PriceData[]): RangeStats {
+  const days: DayBucket[] = [];
+  for (const candle of candles) {
+    if (typeof candle.time === 'number') addToTradingDays(days, candle);
+  }
+  return rangeStatsFromDays(days, candles);
+}
+
+/**
+ * Compute range statistics from candles already grouped into trading days
+ * @param days - Trading day buckets, oldest first
+ * @param candles - Execution candles (ATR)
+ */
+export function rangeStatsFromDays(days: DayBucket[], candles: PriceData[]): RangeStats {
+  const period = getThreshold('adrPeriod');
+  const atr =
+    candles.length >= ATR_PERIOD
+      ? calculateATR(withOpen(candles.slice(-ATR_PERIOD)), ATR_PERIOD)
+      : null;
+
+  const current = days.length > 0 ? days[days.length - 1] : null;
+  const completed = days.slice(days.length > 2 ? 1 : 0, -1).slice(-period);
+
+  const adr = completed.length > 0 ? mean(completed.map((d) => rangeOf(d.candles))) : null;
+  const todayRange = current ? rangeOf(current.candles) : null;
+  const adrUsedPct = adr && todayRange !== null ? round(todayRange / adr) : null;
+
+  const sessions = Object.fromEntries(
+    SESSIONS.map((session) => [session, sessionStats(session, current, completed)])
+  ) as RangeStats['sessions'];
+
+  if (adr === null) {
+    logger.warn('      ✗ No completed trading day, ADR unavailable');
+  } else {
+    const used = Math.round((adrUsedPct ?? 0) * 100);
+    logger.info(
+      `  📏 ADR(${completed.length}d): ${round(adr)}, today ${todayRange} (${used}% used)`
+    );
+  }
+
+  return {
+    adr: adr === null ? null : round(adr),
+    adrDays: completed.length,
+    todayRange,
+    adrUsedPct,
+    atr: atr === null ? null : round(atr),
+    sessions,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+function sessionStats(
+  session: (typeof SESSIONS)[number],
+  current: DayBucket | null,
+  completed: DayBucket[]
+): SessionRangeStats {
+  const sessionRange = (day: DayBucket) => {
+    const inSession = day.candles.filter((c) =>
+      isInSession(session, parseCandleTime(c.time) as Date)
+    );
+    return inSession.length > 0 ? rangeOf(inSession) : null;
+  };
+
+  const history = completed.map(sessionRange).filter((r): r is number => r !== null);
+  const range = current ? sessionRange(current) : null;
+  const average = history.length > 0 ? mean(history) : null;
+
+  return {
+    range,
+    average: average === null ? null : round(average),
+    ratio: range !== null && average ? round(range / average) : null,
+  };
+}
+
+function rangeOf(candles: PriceData[]): number {
+  return round(Math.max(...candles.map((c) => c.high)) - Math.min(...candles.map((c) => c.low)));
+}
+
+function withOpen(candles: PriceData[]) {
+  return candles.map((c) => ({ ...c, open: c.open ?? c.close }));
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e5) / 1e5;
+}
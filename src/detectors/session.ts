@@ -1,5 +1,6 @@
 import { SessionInfo } from '@custom-types/detector';
 import { createLogger } from '@utils/agent_logger';
+import { getSessionAt, getActiveWindows } from '@detectors/sessionCalendar';
 
 // Create logger for session detector
 const logger = createLogger('Session-Detector');
@@ -10,89 +11,53 @@ const logger = createLogger('Session-Detector');
  * ═══════════════════════════════════════════════════════════════
  * Determines current trading session (Asian, London, NY).
  *
- * Session Times (UTC):
- *   - Asian:  00:00 - 09:00 UTC
- *   - London: 08:00 - 17:00 UTC
- *   - NY:     13:00 - 22:00 UTC
+ * Sessions and kill zones come from the session calendar
+ * (config/sessions.json), defined in local exchange time so DST
+ * is handled per time zone:
+ *   - Asian:  09:00 - 17:00 Asia/Tokyo
+ *   - London: 08:00 - 17:00 Europe/London
+ *   - NY:     08:00 - 17:00 America/New_York
  *
- * Note: Sessions overlap (London/NY from 13:00-17:00)
+ * Note: Sessions overlap (London/NY) — NY takes priority
  */
 
+// Windows treated as optimal trading windows (kill zones)
+const OPTIMAL_WINDOWS = ['londonOpen', 'nyAmKillZone'];
+
 /**
  * Detect Current Trading Session
  * @param currentTime - Optional current time (defaults to now)
- * @returns SessionInfo with current session and active status
+ * @returns SessionInfo with current session, active status and calendar windows
  */
 export function detectSession(currentTime?: Date): SessionInfo {
   const now = currentTime || new Date();
-  const hour = now.getUTCHours();
 
-  logger.info(`  🌍 Detecting Trading Session (UTC Hour: ${hour})...`);
+  logger.info(`  🌍 Detecting Trading Session (${now.toISOString()})...`);
 
-  // Determine session based on UTC hour
-  let current: 'asian' | 'london' | 'ny' = 'asian';
-  let isActive = true;
+  const info = getSessionAt(now);
 
-  if (hour >= 0 && hour < 8) {
-    // Asian session (00:00 - 08:00 UTC)
-    current = 'asian';
-    logger.info('  → Session: ASIAN (00:00 - 09:00 UTC)');
-  } else if (hour >= 8 && hour < 13) {
-    // London session (08:00 - 13:00 UTC, before overlap)
-    current = 'london';
-    logger.info('  → Session: LONDON (08:00 - 17:00 UTC)');
-  } else if (hour >= 13 && hour < 17) {
-    // London/NY overlap (13:00 - 17:00 UTC) - prioritize NY
-    current = 'ny';
-    logger.info('  → Session: NY (London/NY Overlap) (13:00 - 22:00 UTC)');
-  } else if (hour >= 17 && hour < 22) {
-    // NY session (17:00 - 22:00 UTC)
-    current = 'ny';
-    logger.info('  → Session: NY (13:00 - 22:00 UTC)');
-  } else {
-    // After NY close (22:00 - 00:00 UTC) - Asian pre-session
-    current = 'asian';
-    logger.info('  → Session: ASIAN (Pre-session) (22:00 - 00:00 UTC)');
+  logger.info(`  → Session: ${getSessionName(info.current).toUpperCase()}`);
+  if (info.windows && info.windows.length > 0) {
+    logger.info(`  → Windows: ${info.windows.join(', ')}`);
   }
 
-  // Check if session is active (not in transition periods)
-  // Transition periods: 09:00-10:00, 17:00-18:00, 22:00-23:00
-  if (hour === 9 || hour === 17 || hour === 22) {
-    isActive = false;
-    logger.warn('  ⚠ Session Transition Period - Low Activity');
+  // Outside every configured session (e.g. after NY close) - low activity
+  if (!info.isActive) {
+    logger.warn('  ⚠ Between sessions - Low Activity');
   }
 
-  return {
-    current,
-    isActive,
-  };
+  return info;
 }
 
 /**
  * Check if currently in optimal trading window
- * Optimal windows:
- *   - London open: 08:00-12:00 UTC
- *   - NY open: 13:30-16:00 UTC (9:30 AM - 12:00 PM EST)
+ * Optimal windows (see config/sessions.json):
+ *   - London open kill zone: 02:00-05:00 New York
+ *   - NY AM kill zone: 09:30-11:30 New York
  */
 export function isOptimalTradingWindow(currentTime?: Date): boolean {
   const now = currentTime || new Date();
-  const hour = now.getUTCHours();
-  const minute = now.getUTCMinutes();
-
-  // London optimal: 08:00-12:00 UTC
-  if (hour >= 8 && hour < 12) {
-    return true;
-  }
-
-  // NY optimal: 13:30-16:00 UTC (9:30 AM - 12:00 PM EST)
-  if (hour === 13 && minute >= 30) {
-    return true;
-  }
-  if (hour >= 14 && hour < 16) {
-    return true;
-  }
-
-  return false;
+  return getActiveWindows(now).some((window) => OPTIMAL_WINDOWS.includes(window));
 }
 
 /**
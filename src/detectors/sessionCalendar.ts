@@ -0,0 +1,248 @@
+import { Session } from '@custom-types/context';
+import { SessionInfo } from '@custom-types/detector';
+import { getSessionsConfig, SessionWindowConfig } from '@config/config';
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * SESSION CALENDAR
+ * ═══════════════════════════════════════════════════════════════
+ * Single source of truth for trading sessions and kill zones.
+ *
+ * Every window is defined in config/sessions.json as local wall-clock
+ * time in an IANA time zone, so DST shifts are handled by the zone:
+ *   - NY AM Kill Zone 09:30-11:30 America/New_York is 14:30 UTC in
+ *     winter and 13:30 UTC in summer
+ *
+ * Query API:
+ *   - getSessionAt(date)            → core session + active windows
+ *   - getActiveWindows(date)        → names of windows containing date
+ *   - isInWindow(name, date)        → single window check
+ *   - isInSession(session, date)    → core session check (ignores overlap priority)
+ *   - getWindowOccurrence(name, d)  → UTC start/end of the window on d's local day
+ *   - listWindows()                 → configured windows
+ *   - buildSessionMarkers(times)    → session change points for chart overlays
+ */
+
+export interface CalendarWindow extends SessionWindowConfig {
+  name: string;
+}
+
+export interface WindowOccurrence {
+  name: string;
+  label: string;
+  start: Date;
+  end: Date;
+}
+
+export interface SessionMarker {
+  time: number; // candle time (unix seconds)
+  session: Session;
+  windows: string[]; // windows that opened on this candle
+}
+
+export interface LocalTime {
+  year: number;
+  month: number;
+  day: number;
+  minutes: number; // minutes since local midnight
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+// Intl formatters are expensive to build, cache one per zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Candle series (backtests, levels) convert the same minutes repeatedly
+const LOCAL_TIME_CACHE_SIZE = 50000;
+const localTimeCache = new Map<string, LocalTime>();
+
+// ═══════════════════════════════════════════════════════════════
+// QUERY API
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Resolve the core session (and active windows) at a point in time
+ * Overlaps are resolved by sessionPriority (NY > London > Asian by default).
+ */
+export function getSessionAt(date: Date): SessionInfo {
+  const config = getSessionsConfig();
+
+  const current = config.sessionPriority.find((session) =>
+    isWithin(config.sessions[session], date)
+  );
+
+  return {
+    current: current || config.fallbackSession,
+    isActive: current !== undefined,
+    windows: getActiveWindows(date),
+  };
+}
+
+/**
+ * Names of all configured windows that contain the given time
+ */
+export function getActiveWindows(date: Date): string[] {
+  return listWindows()
+    .filter((window) => isWithin(window, date))
+    .map((window) => window.name);
+}
+
+/**
+ * Check if a time falls inside a named window
+ * @throws Error if the window is not configured
+ */
+export function isInWindow(name: string, date: Date): boolean {
+  return isWithin(getWindow(name), date);
+}
+
+/**
+ * Check if a time falls inside a core session's hours
+ * Unlike getSessionAt(), overlaps are not resolved (London and NY can both match).
+ */
+export function isInSession(session: Session, date: Date): boolean {
+  return isWithin(getSessionsConfig().sessions[session], date);
+}
+
+/**
+ * UTC start/end of a window on the local calendar day of `date`
+ * (in the window's own time zone). Wrapping windows end the next day.
+ */
+export function getWindowOccurrence(name: string, date: Date): WindowOccurrence {
+  const window = getWindow(name);
+  const local = toLocalTime(date, window.timezone);
+  const start = parseHHMM(window.start);
+  let end = parseHHMM(window.end);
+  if (end <= start) end += DAY_MINUTES;
+
+  return {
+    name,
+    label: window.label,
+    start: fromLocalTime(local, start, window.timezone),
+    end: fromLocalTime(local, end, window.timezone),
+  };
+}
+
+/**
+ * All configured named windows (kill zones, lunch, etc.)
+ */
+export function listWindows(): CalendarWindow[] {
+  const { windows } = getSessionsConfig();
+  return Object.entries(windows).map(([name, window]) => ({ name, ...window }));
+}
+
+/**
+ * Session change points for a candle series
+ * Emits a marker whenever the core session changes or a window opens.
+ *
+ * @param times - Candle times in unix seconds
+ */
+export function buildSessionMarkers(times: number[]): SessionMarker[] {
+  const markers: SessionMarker[] = [];
+  let lastSession: Session | null = null;
+  let lastWindows: string[] = [];
+
+  for (const time of times) {
+    const info = getSessionAt(new Date(time * 1000));
+    const windows = info.windows || [];
+    const opened = windows.filter((w) => !lastWindows.includes(w));
+
+    if (info.current !== lastSession || opened.length > 0) {
+      markers.push({ time, session: info.current, windows: opened });
+    }
+
+    lastSession = info.current;
+    lastWindows = windows;
+  }
+
+  return markers;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// TIME ZONE HELPERS
+// ═══════════════════════════════════════════════════════════════
+
+function getWindow(name: string): SessionWindowConfig {
+  const window = getSessionsConfig().windows[name];
+  if (!window) {
+    throw new Error(`Unknown session window: ${name}`);
+  }
+  return window;
+}
+
+function isWithin(window: SessionWindowConfig, date: Date): boolean {
+  const { minutes } = toLocalTime(date, window.timezone);
+  const start = parseHHMM(window.start);
+  const end = parseHHMM(window.end);
+
+  // Windows with end <= start wrap past local midnight
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * Parse a local "HH:mm" string into minutes since midnight
+ */
+export function parseHHMM(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock date and time of an instant in an IANA time zone
+ */
+export function toLocalTime(date: Date, timeZone: string): LocalTime {
+  const key = `${timeZone}|${Math.floor(date.getTime() / MINUTE_MS)}`;
+  const cached = localTimeCache.get(key);
+  if (cached) return cached;
+
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+
+  const local = {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    minutes: parts.hour * 60 + parts.minute,
+  };
+
+  if (localTimeCache.size >= LOCAL_TIME_CACHE_SIZE) localTimeCache.clear();
+  localTimeCache.set(key, local);
+  return local;
+}
+
+// Offset of the zone from UTC at a given instant, in minutes
+function zoneOffset(date: Date, timeZone: string): number {
+  const local = toLocalTime(date, timeZone);
+  const asUTC = Date.UTC(local.year, local.month - 1, local.day) + local.minutes * MINUTE_MS;
+  return Math.round((asUTC - Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS) / MINUTE_MS);
+}
+
+// Convert local day + minutes-from-midnight in a zone to a UTC instant
+function fromLocalTime(day: LocalTime, minutes: number, timeZone: string): Date {
+  const wallClock = Date.UTC(day.year, day.month - 1, day.day) + minutes * MINUTE_MS;
+
+  // Two passes settle the offset across DST transitions
+  let utc = wallClock - zoneOffset(new Date(wallClock), timeZone) * MINUTE_MS;
+  utc = wallClock - zoneOffset(new Date(utc), timeZone) * MINUTE_MS;
+
+  return new Date(utc);
+}
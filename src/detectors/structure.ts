@@ -1,5 +1,5 @@
 import { createLogger } from '@utils/agent_logger';
-import { detectSwingHighsLows, SwingPoint } from './liquidity';
+import { detectSwingHighsLows, SwingPoints } from './liquidity';
 
 // Create logger for structure detector
 const logger = createLogger('Structure-Detector');
@@ -46,11 +46,13 @@ export interface MarketStructureOutput {
  *
  * @param candles - Array of candle data
  * @param htfTrend - Higher timeframe trend for context
+ * @param swings - Precomputed swing points of `candles` (incremental engine)
  * @returns MarketStructureOutput with BOS/MSS status and direction
  */
 export function detectMarketStructureShift(
   candles: CandleData[],
-  htfTrend: 'bullish' | 'bearish' | 'neutral' = 'neutral'
+  htfTrend: 'bullish' | 'bearish' | 'neutral' = 'neutral',
+  swings?: SwingPoints
 ): MarketStructureOutput {
   logger.info('  🔄 Detecting Market Structure (BOS/MSS)...');
 
@@ -60,21 +62,17 @@ export function detectMarketStructureShift(
   }
 
   // Get swing points
-  const swings = detectSwingHighsLows(candles);
+  const { swingHighs, swingLows } = swings || detectSwingHighsLows(candles);
   const currentCandle = candles[candles.length - 1];
 
-  if (swings.swingHighs.length === 0 && swings.swingLows.length === 0) {
+  if (swingHighs.length === 0 && swingLows.length === 0) {
     logger.info('      → No swing points detected');
     return { bos: false, mss: false, direction: null, level: null };
   }
 
   // Find most recent swing high and low
-  const recentSwingHigh =
-    swings.swingHighs.length > 0
-      ? swings.swingHighs[swings.swingHighs.length - 1]
-      : null;
-  const recentSwingLow =
-    swings.swingLows.length > 0 ? swings.swingLows[swings.swingLows.length - 1] : null;
+  const recentSwingHigh = swingHighs.length > 0 ? swingHighs[swingHighs.length - 1] : null;
+  const recentSwingLow = swingLows.length > 0 ? swingLows[swingLows.length - 1] : null;
 
   // Check for BULLISH structure break
   if (recentSwingHigh && currentCandle.close > recentSwingHigh.level) {
@@ -172,50 +170,14 @@ export function detectOrderBlocks(candles: CandleData[]): OrderBlock[] {
   }
 
   const orderBlocks: OrderBlock[] = [];
-  const displacementThreshold = 0.7; // Body must be >70% of range
 
   for (let i = 1; i < candles.length - 1; i++) {
-    const prevCandle = candles[i - 1];
-    const currentCandle = candles[i];
-    const nextCandle = candles[i + 1];
-
-    const prevBody = Math.abs(prevCandle.close - prevCandle.open);
-    const currentBody = Math.abs(currentCandle.close - currentCandle.open);
-    const nextBody = Math.abs(nextCandle.close - nextCandle.open);
-    const nextRange = nextCandle.high - nextCandle.low;
-
-    // Check if next candle is a strong displacement move
-    const isStrongMove = nextBody / nextRange > displacementThreshold;
-
-    if (!isStrongMove) continue;
-
-    // Bullish OB: Last down candle before bullish move
-    if (nextCandle.close > nextCandle.open && currentCandle.close < currentCandle.open) {
-      orderBlocks.push({
-        level: (currentCandle.high + currentCandle.low) / 2,
-        type: 'bullish',
-        high: currentCandle.high,
-        low: currentCandle.low,
-        index: i,
-      });
-      logger.success(
-        `      ✓ BULLISH Order Block: ${currentCandle.low} - ${currentCandle.high}`
-      );
-    }
+    const orderBlock = orderBlockAt(candles, i);
+    if (!orderBlock) continue;
 
-    // Bearish OB: Last up candle before bearish move
-    if (nextCandle.close < nextCandle.open && currentCandle.close > currentCandle.open) {
-      orderBlocks.push({
-        level: (currentCandle.high + currentCandle.low) / 2,
-        type: 'bearish',
-        high: currentCandle.high,
-        low: currentCandle.low,
-        index: i,
-      });
-      logger.success(
-        `      ✓ BEARISH Order Block: ${currentCandle.low} - ${currentCandle.high}`
-      );
-    }
+    orderBlocks.push(orderBlock);
+    const { type, low, high } = orderBlock;
+    logger.success(`      ✓ ${type.toUpperCase()} Order Block: ${low} - ${high}`);
   }
 
   if (orderBlocks.length === 0) {
@@ -227,6 +189,41 @@ export function detectOrderBlocks(candles: CandleData[]): OrderBlock[] {
   return orderBlocks;
 }
 
+/**
+ * Order block formed by the candle at index i
+ * Decided by candles i and i + 1 only, so the last candle never qualifies.
+ *
+ * @returns The order block, or null if candle i isn't one
+ */
+export function orderBlockAt(candles: CandleData[], i: number): OrderBlock | null {
+  const displacementThreshold = 0.7; // Body must be >70% of range
+  const currentCandle = candles[i];
+  const nextCandle = candles[i + 1];
+
+  const nextBody = Math.abs(nextCandle.close - nextCandle.open);
+  const nextRange = nextCandle.high - nextCandle.low;
+
+  // Check if next candle is a strong displacement move
+  const isStrongMove = nextBody / nextRange > displacementThreshold;
+  if (!isStrongMove) return null;
+
+  let type: 'bullish' | 'bearish' | null = null;
+  if (nextCandle.close > nextCandle.open && currentCandle.close < currentCandle.open) {
+    type = 'bullish'; // Last down candle before bullish move
+  } else if (nextCandle.close < nextCandle.open && currentCandle.close > currentCandle.open) {
+    type = 'bearish'; // Last up candle before bearish move
+  }
+  if (!type) return null;
+
+  return {
+    level: (currentCandle.high + currentCandle.low) / 2,
+    type,
+    high: currentCandle.high,
+    low: currentCandle.low,
+    index: i,
+  };
+}
+
 // ═══════════════════════════════════════════════════════════════
 // 3. FAIR VALUE GAP (FVG) - Re-exported from liquidity.ts
 // ═══════════════════════════════════════════════════════════════
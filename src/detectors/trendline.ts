@@ -23,12 +23,19 @@ interface PriceData {
   time?: number;
 }
 
-interface TrendlineOutput {
+// Swing point the line is drawn through (index into the detector's data)
+export interface TrendlineAnchor {
+  index: number;
+  price: number;
+}
+
+export interface TrendlineOutput {
   exists: boolean;
   touches: number;
   respected: boolean;
   type?: 'ascending' | 'descending';
   slope?: number;
+  anchors?: TrendlineAnchor[]; // first and last swing point of a valid line
 }
 
 /**
@@ -52,44 +59,47 @@ export function detectTrendline(
     };
   }
 
-  // Detect ascending trendline (support) for bullish trends
-  const ascendingTrendline = detectAscendingTrendline(data);
-
-  // Detect descending trendline (resistance) for bearish trends
-  const descendingTrendline = detectDescendingTrendline(data);
-
-  // Choose trendline based on HTF trend
-  let trendline: TrendlineOutput;
+  const trendline = selectTrendline(data, htfTrend);
+  const name = trendline.type === 'descending' ? 'Descending' : 'Ascending';
+  const aligned =
+    (htfTrend === 'bullish' && trendline.type === 'ascending') ||
+    (htfTrend === 'bearish' && trendline.type === 'descending');
 
-  if (htfTrend === 'bullish' && ascendingTrendline.exists) {
-    trendline = ascendingTrendline;
-    logger.success(
-      `  ✓ Ascending Trendline: ${trendline.touches} touches, respected: ${trendline.respected}`
-    );
-  } else if (htfTrend === 'bearish' && descendingTrendline.exists) {
-    trendline = descendingTrendline;
+  if (!trendline.exists) {
+    logger.info('  → No valid trendline detected');
+  } else if (aligned) {
     logger.success(
-      `  ✓ Descending Trendline: ${trendline.touches} touches, respected: ${trendline.respected}`
+      `  ✓ ${name} Trendline: ${trendline.touches} touches, respected: ${trendline.respected}`
     );
-  } else if (ascendingTrendline.touches >= descendingTrendline.touches) {
-    trendline = ascendingTrendline;
-    if (trendline.exists) {
-      logger.info(`  → Ascending Trendline detected (${trendline.touches} touches)`);
-    }
   } else {
-    trendline = descendingTrendline;
-    if (trendline.exists) {
-      logger.info(`  → Descending Trendline detected (${trendline.touches} touches)`);
-    }
-  }
-
-  if (!trendline.exists) {
-    logger.info('  → No valid trendline detected');
+    logger.info(`  → ${name} Trendline detected (${trendline.touches} touches)`);
   }
 
   return trendline;
 }
 
+/**
+ * Choose the trendline for the HTF trend (no logging, reused by chart overlays)
+ *   - bullish → ascending line if valid, bearish → descending line if valid
+ *   - otherwise the line with more touches (ascending on a tie)
+ */
+export function selectTrendline(
+  data: PriceData[],
+  htfTrend?: 'bullish' | 'bearish' | 'neutral'
+): TrendlineOutput {
+  // Ascending trendline (support) for bullish trends
+  const ascendingTrendline = detectAscendingTrendline(data);
+
+  // Descending trendline (resistance) for bearish trends
+  const descendingTrendline = detectDescendingTrendline(data);
+
+  if (htfTrend === 'bullish' && ascendingTrendline.exists) return ascendingTrendline;
+  if (htfTrend === 'bearish' && descendingTrendline.exists) return descendingTrendline;
+  return ascendingTrendline.touches >= descendingTrendline.touches
+    ? ascendingTrendline
+    : descendingTrendline;
+}
+
 // ═══════════════════════════════════════════════════════════════
 // HELPER FUNCTIONS
 // ═══════════════════════════════════════════════════════════════
@@ -140,6 +150,7 @@ export function detectAscendingTrendline(data: PriceData[]): TrendlineOutput {
     touches: touches + 1, // +1 for initial point
     respected,
     type: 'ascending',
+    anchors: toAnchors(swingLows),
   };
 }
 
@@ -189,6 +200,7 @@ export function detectDescendingTrendline(data: PriceData[]): TrendlineOutput {
     touches: touches + 1, // +1 for initial point
     respected,
     type: 'descending',
+    anchors: toAnchors(swingHighs),
   };
 }
 
@@ -200,3 +212,13 @@ export function detectDescendingTrendline(data: PriceData[]): TrendlineOutput {
 export function isTrendlineRespected(trendlineOutput: TrendlineOutput): boolean {
   return trendlineOutput.exists && trendlineOutput.respected;
 }
+
+// First and last swing point of the line
+function toAnchors(points: Array<{ index: number; value: number }>): TrendlineAnchor[] {
+  const first = points[0];
+  const last = points[points.length - 1];
+  return [
+    { index: first.index, price: first.value },
+    { index: last.index, price: last.value },
+  ];
+}
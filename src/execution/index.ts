@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import { MockExchange } from './mockExchange';
+import { ExecutionProvider } from './types';
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * UNIFIED EXECUTION PROVIDER SELECTOR
+ * ═══════════════════════════════════════════════════════════════
+ * Central registry for order execution venues (the counterpart of
+ * getProvider in @data-providers/index). Only the in-process mock
+ * exchange is available until broker adapters are added.
+ */
+
+let mockExchange: MockExchange | null = null;
+
+export function getExecutionProvider(type: string): ExecutionProvider | null {
+  const providerType = type.toUpperCase();
+
+  switch (providerType) {
+    case 'MOCK':
+      mockExchange ??= new MockExchange();
+      return mockExchange;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get list of available execution providers
+ */
+export function getAvailableExecutionProviders(): string[] {
+  return ['MOCK'];
+}
+
+/**
+ * Deterministic client order ID for an automated order
+ * The same parts (e.g. signal ID + leg) always give the same ID, so a
+ * retried submission is recognised by the venue instead of doubling up.
+ */
+export function createClientOrderId(...parts: Array<string | number>): string {
+  const digest = crypto.createHash('sha256').update(parts.join(':')).digest('hex');
+  return `flx-${digest.slice(0, 24)}`;
+}
+
+// Re-export types for convenience
+export { MockExchange } from './mockExchange';
+export type { MockExchangeOptions, MockExchangeState } from './mockExchange';
+export type {
+  Account,
+  CandleDrivenExecution,
+  ExecutionProvider,
+  Fill,
+  Order,
+  OrderModification,
+  OrderRequest,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  Position,
+} from './types';
@@ -0,0 +1,372 @@
+import crypto from 'crypto';
+import type { Candle } from '@data-providers/types';
+import { getExecutionConfig } from '@config/config';
+import { getInstrument, quoteToAccountRate } from '../instruments/instrumentRegistry';
+import type {
+  Account,
+  CandleDrivenExecution,
+  Fill,
+  Order,
+  OrderModification,
+  OrderRequest,
+  Position,
+} from './types';
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * MOCK EXCHANGE (in-process)
+ * ═══════════════════════════════════════════════════════════════
+ * An ExecutionProvider that fills against candles passed to
+ * processCandle(), for testing signal-to-order automation without a
+ * broker. Each filled order opens its own position (no netting):
+ *
+ *   market → fills at the open of the next candle
+ *   limit  → buy when low ≤ price, sell when high ≥ price
+ *   stop   → buy when high ≥ price, sell when low ≤ price
+ *   exits  → stop-loss before take-profit when a candle trades both
+ *
+ * Price gaps fill at the candle open when it is past the level; levels
+ * hit on the candle that opened the position fill at the level.
+ * Orders and the positions they open ignore the candle they were placed
+ * on (a live stream re-sends its open bar), so nothing fills on prices
+ * traded before the order existed.
+ * P&L is (exit − entry) × quantity in the quote currency, converted to
+ * the account currency at the latest marks (USDJPY by its own price,
+ * GBPJPY through USDJPY). Orders that can't be converted are rejected,
+ * and a symbol's candles are held back until a conversion price is seen.
+ */
+
+export interface MockExchangeOptions {
+  startingBalance?: number;
+  currency?: string;
+  state?: MockExchangeState; // resume a saved account
+}
+
+export interface MockExchangeState {
+  orders: Order[];
+  positions: Position[];
+  realizedPnl: number;
+}
+
+export class MockExchange implements CandleDrivenExecution {
+  private readonly orders = new Map<string, Order>();
+  private readonly byClientId = new Map<string, Order>();
+  private readonly positions = new Map<string, Position>();
+  private readonly marks = new Map<string, Candle>();
+  private readonly currency: string;
+  private readonly startingBalance: number;
+  private realizedPnl = 0;
+
+  constructor(options: MockExchangeOptions = {}) {
+    const config = getExecutionConfig().mock;
+    this.startingBalance = options.startingBalance ?? config.startingBalance;
+    this.currency = options.currency ?? config.currency;
+
+    if (options.state) {
+      for (const order of options.state.orders) {
+        this.orders.set(order.id, { ...order });
+        this.byClientId.set(order.clientOrderId, this.orders.get(order.id)!);
+      }
+      for (const position of options.state.positions) {
+        this.positions.set(position.id, { ...position });
+      }
+      this.realizedPnl = options.state.realizedPnl;
+    }
+  }
+
+  async placeOrder(request: OrderRequest): Promise<Order> {
+    const existing = this.byClientId.get(request.clientOrderId);
+    if (existing) {
+      if (!sameOrder(existing, request)) {
+        throw new Error(`clientOrderId ${request.clientOrderId} was used for a different order`);
+      }
+      return { ...existing };
+    }
+
+    const now = new Date().toISOString();
+    const order: Order = {
+      id: this.nextId('ord'),
+      clientOrderId: request.clientOrderId,
+      symbol: request.symbol.toUpperCase(),
+      side: request.side,
+      type: request.type,
+      quantity: request.quantity,
+      price: request.type === 'market' ? null : (request.price ?? null),
+      stopLoss: request.stopLoss ?? null,
+      takeProfit: request.takeProfit ?? null,
+      status: 'open',
+      filledPrice: null,
+      reason: null,
+      placedAt: request.placedAt ?? this.marks.get(request.symbol.toUpperCase())?.time ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const problem = this.validate(order);
+    if (problem) {
+      order.status = 'rejected';
+      order.reason = problem;
+    }
+
+    this.orders.set(order.id, order);
+    this.byClientId.set(order.clientOrderId, order);
+    return { ...order };
+  }
+
+  async modifyOrder(orderId: string, changes: OrderModification): Promise<Order> {
+    const order = this.requireOrder(orderId);
+    const position = [...this.positions.values()].find((p) => p.orderId === orderId);
+
+    if (order.status === 'open') {
+      const updated: Order = {
+        ...order,
+        quantity: changes.quantity ?? order.quantity,
+        price: order.type === 'market' ? null : (changes.price ?? order.price),
+        stopLoss: changes.stopLoss === undefined ? order.stopLoss : changes.stopLoss,
+        takeProfit: changes.takeProfit === undefined ? order.takeProfit : changes.takeProfit,
+      };
+      const problem = this.validate(updated);
+      if (problem) throw new Error(problem);
+      Object.assign(order, updated, { updatedAt: new Date().toISOString() });
+    } else if (order.status === 'filled' && position) {
+      if (changes.quantity !== undefined || changes.price !== undefined) {
+        throw new Error(`Order ${orderId} is filled: only stopLoss / takeProfit can change`);
+      }
+      if (changes.stopLoss !== undefined) position.stopLoss = changes.stopLoss;
+      if (changes.takeProfit !== undefined) position.takeProfit = changes.takeProfit;
+      order.stopLoss = position.stopLoss;
+      order.takeProfit = position.takeProfit;
+      order.updatedAt = new Date().toISOString();
+    } else {
+      throw new Error(`Order ${orderId} is ${order.status} and has no open position`);
+    }
+
+    return { ...order };
+  }
+
+  async cancelOrder(orderId: string): Promise<Order> {
+    const order = this.requireOrder(orderId);
+    if (order.status !== 'open') {
+      throw new Error(`Order ${orderId} is ${order.status}`);
+    }
+    order.status = 'cancelled';
+    order.reason = 'Cancelled by client';
+    order.updatedAt = new Date().toISOString();
+    return { ...order };
+  }
+
+  async getOrders(): Promise<Order[]> {
+    return [...this.orders.values()].map((order) => ({ ...order }));
+  }
+
+  async getPositions(): Promise<Position[]> {
+    return [...this.positions.values()].map((position) => ({ ...position }));
+  }
+
+  async getAccount(): Promise<Account> {
+    const unrealizedPnl = [...this.positions.values()].reduce((sum, p) => sum + p.unrealizedPnl, 0);
+    const balance = this.startingBalance + this.realizedPnl;
+    return {
+      currency: this.currency,
+      balance,
+      equity: balance + unrealizedPnl,
+      realizedPnl: this.realizedPnl,
+      unrealizedPnl,
+      openPositions: this.positions.size,
+    };
+  }
+
+  processCandle(symbol: string, candle: Candle): Fill[] {
+    const key = symbol.toUpperCase();
+    const fills: Fill[] = [];
+    const rate = this.rateFor(key, candle.close);
+    if (rate === null) {
+      this.marks.set(key, candle);
+      return fills;
+    }
+
+    // 1. Entries
+    for (const order of this.orders.values()) {
+      if (order.symbol !== key || order.status !== 'open') continue;
+      if (!after(candle, order.placedAt)) continue;
+      const price = entryPrice(order, candle);
+      if (price === null) continue;
+
+      order.status = 'filled';
+      order.filledPrice = price;
+      order.updatedAt = new Date(candle.time * 1000).toISOString();
+
+      const position: Position = {
+        id: this.nextId('pos'),
+        orderId: order.id,
+        symbol: key,
+        direction: order.side === 'buy' ? 'long' : 'short',
+        quantity: order.quantity,
+        entryPrice: price,
+        stopLoss: order.stopLoss,
+        takeProfit: order.takeProfit,
+        markPrice: price,
+        unrealizedPnl: 0,
+        openedAt: candle.time,
+        placedAt: order.placedAt,
+      };
+      this.positions.set(position.id, position);
+      fills.push(this.fill(order, position, 'entry', price, candle.time, null));
+    }
+
+    // 2. Exits (stop first), then mark what is still open
+    for (const position of [...this.positions.values()]) {
+      if (position.symbol !== key) continue;
+      const exit = after(candle, position.placedAt) ? exitFor(position, candle) : null;
+
+      if (exit) {
+        const pnl = pnlOf(position, exit.price, rate);
+        this.realizedPnl += pnl;
+        this.positions.delete(position.id);
+        const order = this.orders.get(position.orderId)!;
+        fills.push(this.fill(order, position, exit.kind, exit.price, candle.time, pnl));
+      } else {
+        position.markPrice = candle.close;
+        position.unrealizedPnl = pnlOf(position, candle.close, rate);
+      }
+    }
+
+    this.marks.set(key, candle);
+    return fills;
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // HELPER METHODS
+  // ═══════════════════════════════════════════════════════════════
+
+  private validate(order: Order): string | null {
+    if (!(order.quantity > 0) || !Number.isFinite(order.quantity)) {
+      return `Invalid quantity: ${order.quantity}`;
+    }
+    if (order.type !== 'market' && !(order.price !== null && order.price > 0)) {
+      return `A ${order.type} order needs a price`;
+    }
+
+    // Brackets must sit on the right side of the expected entry
+    const reference = order.price ?? this.marks.get(order.symbol)?.close;
+    if (reference === undefined) return null;
+    if (this.rateFor(order.symbol, reference) === null) {
+      const { quoteCurrency } = getInstrument(order.symbol);
+      return `No ${quoteCurrency}/${this.currency} price to value ${order.symbol} P&L`;
+    }
+    const long = order.side === 'buy';
+    if (
+      order.stopLoss !== null &&
+      (long ? order.stopLoss >= reference : order.stopLoss <= reference)
+    ) {
+      return `stopLoss ${order.stopLoss} is on the wrong side of ${reference}`;
+    }
+    if (
+      order.takeProfit !== null &&
+      (long ? order.takeProfit <= reference : order.takeProfit >= reference)
+    ) {
+      return `takeProfit ${order.takeProfit} is on the wrong side of ${reference}`;
+    }
+    return null;
+  }
+
+  // Quote → account currency rate from the latest marks and a price of the symbol
+  private rateFor(symbol: string, price: number): number | null {
+    const prices: Record<string, number> = {};
+    this.marks.forEach((candle, key) => (prices[key] = candle.close));
+    prices[symbol] = price;
+    return quoteToAccountRate(getInstrument(symbol), this.currency, prices);
+  }
+
+  private requireOrder(orderId: string): Order {
+    const order = this.orders.get(orderId);
+    if (!order) throw new Error(`Unknown order: ${orderId}`);
+    return order;
+  }
+
+  private fill(
+    order: Order,
+    position: Position,
+    kind: Fill['kind'],
+    price: number,
+    time: number,
+    pnl: number | null
+  ): Fill {
+    const entry = kind === 'entry';
+    return {
+      id: this.nextId('fill'),
+      orderId: order.id,
+      clientOrderId: order.clientOrderId,
+      positionId: position.id,
+      symbol: position.symbol,
+      side: entry === (position.direction === 'long') ? 'buy' : 'sell',
+      quantity: position.quantity,
+      price,
+      kind,
+      pnl,
+      time,
+    };
+  }
+
+  private nextId(prefix: string): string {
+    return `mock-${prefix}-${crypto.randomUUID()}`;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+function sameOrder(order: Order, request: OrderRequest): boolean {
+  return (
+    order.symbol === request.symbol.toUpperCase() &&
+    order.side === request.side &&
+    order.type === request.type &&
+    order.quantity === request.quantity
+  );
+}
+
+// Candle is later than the one an order was placed on
+function after(candle: Candle, placedAt: number | null): boolean {
+  return placedAt === null || candle.time > placedAt;
+}
+
+// Fill price of an open order on this candle (null = not filled)
+function entryPrice(order: Order, candle: Candle): number | null {
+  if (order.type === 'market') return candle.open;
+  const price = order.price!;
+  const buy = order.side === 'buy';
+
+  if (order.type === 'limit') {
+    if (buy) return candle.low <= price ? Math.min(candle.open, price) : null;
+    return candle.high >= price ? Math.max(candle.open, price) : null;
+  }
+  if (buy) return candle.high >= price ? Math.max(candle.open, price) : null;
+  return candle.low <= price ? Math.min(candle.open, price) : null;
+}
+
+function exitFor(
+  position: Position,
+  candle: Candle
+): { kind: 'stop' | 'target'; price: number } | null {
+  const long = position.direction === 'long';
+  // A gap past the level fills at the open, unless the position opened on this candle
+  const gap = position.openedAt < candle.time;
+  const worst = (level: number) => (gap ? (long ? Math.min : Math.max)(candle.open, level) : level);
+  const best = (level: number) => (gap ? (long ? Math.max : Math.min)(candle.open, level) : level);
+
+  const { stopLoss, takeProfit } = position;
+  if (stopLoss !== null && (long ? candle.low <= stopLoss : candle.high >= stopLoss)) {
+    return { kind: 'stop', price: worst(stopLoss) };
+  }
+  if (takeProfit !== null && (long ? candle.high >= takeProfit : candle.low <= takeProfit)) {
+    return { kind: 'target', price: best(takeProfit) };
+  }
+  return null;
+}
+
+// P&L in account currency (rate converts from the quote currency)
+function pnlOf(position: Position, price: number, rate: number): number {
+  const direction = position.direction === 'long' ? 1 : -1;
+  return direction * (price - position.entryPrice) * position.quantity * rate;
+}
@@ -0,0 +1,145 @@
+import type { Candle } from '@data-providers/types';
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * BROKER EXECUTION PROVIDER TYPES
+ * ═══════════════════════════════════════════════════════════════
+ * Standardized interfaces for placing and managing orders
+ * (the write side of DataProvider in @data-providers/types)
+ */
+
+export type OrderSide = 'buy' | 'sell';
+export type OrderType = 'market' | 'limit' | 'stop';
+export type OrderStatus = 'open' | 'filled' | 'cancelled' | 'rejected';
+
+export interface OrderRequest {
+  /** Caller-chosen ID; placing the same clientOrderId again returns the existing order */
+  clientOrderId: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  /** Units of the instrument (coins, base currency, contracts) */
+  quantity: number;
+  /** Limit / stop trigger price (not used by market orders) */
+  price?: number;
+  /** Protective stop attached to the position the order opens */
+  stopLoss?: number;
+  /** Take-profit attached to the position the order opens */
+  takeProfit?: number;
+  /**
+   * Candle time (Unix seconds) the order is placed on; candle-driven
+   * venues only fill it on later candles. Defaults to the last candle
+   * seen for the symbol.
+   */
+  placedAt?: number;
+}
+
+export interface OrderModification {
+  quantity?: number; // open orders only
+  price?: number; // open limit / stop orders only
+  stopLoss?: number | null; // null removes it
+  takeProfit?: number | null; // null removes it
+}
+
+export interface Order {
+  id: string;
+  clientOrderId: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  price: number | null;
+  stopLoss: number | null;
+  takeProfit: number | null;
+  status: OrderStatus;
+  filledPrice: number | null;
+  /** Why the order was rejected or cancelled */
+  reason: string | null;
+  placedAt: number | null; // candle time placed on (Unix seconds), null = before any candle
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+}
+
+export interface Fill {
+  id: string;
+  orderId: string;
+  clientOrderId: string;
+  positionId: string;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  /** entry = order filled, stop / target = position closed by its stop or take-profit */
+  kind: 'entry' | 'stop' | 'target';
+  /** Realized P&L in account currency (exits only) */
+  pnl: number | null;
+  time: number; // Unix timestamp in seconds (candle time)
+}
+
+export interface Position {
+  id: string;
+  orderId: string; // the entry order
+  symbol: string;
+  direction: 'long' | 'short';
+  quantity: number;
+  entryPrice: number;
+  stopLoss: number | null;
+  takeProfit: number | null;
+  markPrice: number; // last close seen for the symbol
+  unrealizedPnl: number;
+  openedAt: number; // Unix timestamp in seconds
+  placedAt: number | null; // candle time its entry order was placed on
+}
+
+export interface Account {
+  currency: string;
+  balance: number; // starting balance + realized P&L
+  equity: number; // balance + unrealized P&L
+  realizedPnl: number;
+  unrealizedPnl: number;
+  openPositions: number;
+}
+
+export interface ExecutionProvider {
+  /**
+   * Place an order
+   * Idempotent per clientOrderId: a retry returns the order already placed.
+   * @returns The order (status "rejected" with a reason when it can't be accepted)
+   */
+  placeOrder(request: OrderRequest): Promise<Order>;
+
+  /**
+   * Change an open order, or the stop / take-profit of the position a
+   * filled order opened
+   */
+  modifyOrder(orderId: string, changes: OrderModification): Promise<Order>;
+
+  /**
+   * Cancel an open order
+   */
+  cancelOrder(orderId: string): Promise<Order>;
+
+  /**
+   * Orders placed through this provider, oldest first
+   */
+  getOrders(): Promise<Order[]>;
+
+  /**
+   * Open positions
+   */
+  getPositions(): Promise<Position[]>;
+
+  /**
+   * Account balance and equity
+   */
+  getAccount(): Promise<Account>;
+}
+
+// Candle-driven venues (mock exchange) fill orders as candles arrive
+export interface CandleDrivenExecution extends ExecutionProvider {
+  /**
+   * Fill open orders and close positions against a new candle
+   * @returns Fills in the order they happened
+   */
+  processCandle(symbol: string, candle: Candle): Fill[];
+}
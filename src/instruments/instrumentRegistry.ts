@@ -0,0 +1,261 @@
+import {
+  AssetClass,
+  getInstrumentsConfig,
+  InstrumentsConfig,
+  MarketHoursConfig,
+} from '@config/config';
+import { symbolCurrencies } from '@detectors/newsCalendar';
+import { parseHHMM, toLocalTime } from '@detectors/sessionCalendar';
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * INSTRUMENT REGISTRY
+ * ═══════════════════════════════════════════════════════════════
+ * Contract specs per symbol from config/instruments.json, merged over
+ * their asset class defaults:
+ *
+ *   tickSize / pipSize       price rounding, pip distances (JPY pairs: 0.01)
+ *   contractSize / lotStep   units per lot, smallest lot increment
+ *   quoteCurrency            currency P&L is in (see quoteToAccountRate)
+ *   tradingHours             exchange session in its own time zone
+ *   aliases                  provider symbols (OANDA EUR_USD, FXCM EUR/USD)
+ *
+ * Any alias or spelling resolves to the canonical symbol (EUR_USD,
+ * eur/usd → EURUSD). Symbols missing from the file are inferred from
+ * their name: 6-letter fiat pairs, USD(T)-quoted crypto, else an index.
+ */
+
+export interface Instrument {
+  symbol: string; // canonical, e.g. EURUSD
+  assetClass: AssetClass;
+  baseCurrency: string | null;
+  quoteCurrency: string;
+  tickSize: number;
+  pipSize: number;
+  contractSize: number; // units per lot
+  lotStep: number;
+  minLots: number;
+  marginRate: number;
+  tradingHours: MarketHoursConfig | null; // null = always open
+  aliases: Record<string, string>; // provider → provider symbol
+  inferred: boolean; // not in config/instruments.json
+}
+
+// prettier-ignore
+const FIAT = [
+  'USD', 'EUR', 'GBP', 'JPY', 'CHF', 'AUD', 'NZD', 'CAD', 'SEK',
+  'NOK', 'DKK', 'SGD', 'HKD', 'ZAR', 'MXN', 'PLN', 'TRY', 'CNH',
+];
+const METALS = ['XAU', 'XAG', 'XPT', 'XPD'];
+const USD_QUOTES = ['USDT', 'USDC', 'BUSD', 'USD'];
+
+// Normalized alias → canonical symbol, per loaded (or scoped) registry
+const aliasIndexes = new WeakMap<InstrumentsConfig, Map<string, string>>();
+
+/**
+ * Resolve a symbol or provider alias to its instrument specs
+ */
+export function getInstrument(symbol: string): Instrument {
+  const config = getInstrumentsConfig();
+  const key = normalize(symbol);
+  const canonical = config.instruments[key] ? key : aliasIndex(config).get(key);
+  if (!canonical) return inferInstrument(key, config);
+
+  const { tradingHours, ...spec } = {
+    ...config.assetClasses[config.instruments[canonical].assetClass],
+    ...config.instruments[canonical],
+  };
+  return {
+    symbol: canonical,
+    ...spec,
+    tradingHours: tradingHours ? config.tradingHours[tradingHours] : null,
+    inferred: false,
+  };
+}
+
+/**
+ * Symbol a data provider expects (OANDA: EURUSD → EUR_USD)
+ * Unknown symbols are passed through unchanged.
+ */
+export function providerSymbol(symbol: string, provider: string): string {
+  const instrument = getInstrument(symbol);
+  if (instrument.inferred) return symbol;
+  return instrument.aliases[provider.toUpperCase()] ?? instrument.symbol;
+}
+
+/**
+ * Round a price to the instrument's tick size
+ */
+export function roundToTick(price: number, instrument: Instrument): number {
+  return roundTo(
+    Math.round(price / instrument.tickSize) * instrument.tickSize,
+    instrument.tickSize
+  );
+}
+
+/**
+ * Round a size in units down to the broker's lot step
+ *
+ * @returns Units, or 0 when below the minimum lot size
+ */
+export function roundUnits(units: number, instrument: Instrument): number {
+  const { contractSize, lotStep, minLots } = instrument;
+  const lots = Math.floor(units / contractSize / lotStep + 1e-9) * lotStep;
+  if (lots < minLots - 1e-9) return 0;
+  return roundTo(lots * contractSize, lotStep * contractSize);
+}
+
+/**
+ * Distance between two prices in pips (points for indices and crypto)
+ */
+export function pipDistance(from: number, to: number, instrument: Instrument): number {
+  return roundTo(Math.abs(from - to) / instrument.pipSize, 0.1);
+}
+
+/**
+ * Rate converting the instrument's quote currency into an account currency
+ *
+ * @param prices - Known prices by symbol (any spelling). The instrument's
+ *                 own price converts pairs based in the account currency
+ *                 (USDJPY → 1 / price); other pairs need a price of the
+ *                 quote against the account currency (GBPJPY → USDJPY)
+ * @returns Rate, or null when no known price links the two currencies
+ */
+export function quoteToAccountRate(
+  instrument: Instrument,
+  accountCurrency: string,
+  prices: Record<string, number>
+): number | null {
+  const quote = currencyCode(instrument.quoteCurrency);
+  const account = currencyCode(accountCurrency);
+  if (quote === account) return 1;
+
+  const known = new Map(
+    Object.entries(prices)
+      .filter(([, price]) => price > 0)
+      .map(([symbol, price]) => [getInstrument(symbol).symbol, price])
+  );
+
+  const own = known.get(instrument.symbol);
+  if (own && instrument.baseCurrency && currencyCode(instrument.baseCurrency) === account) {
+    return 1 / own;
+  }
+
+  const direct = known.get(`${quote}${account}`);
+  if (direct) return direct;
+  const inverse = known.get(`${account}${quote}`);
+  return inverse ? 1 / inverse : null;
+}
+
+/**
+ * Check if the instrument's market is open at an instant
+ */
+export function isMarketOpen(instrument: Instrument, at: Date): boolean {
+  const hours = instrument.tradingHours;
+  if (!hours) return true;
+
+  const local = toLocalTime(at, hours.timezone);
+  const weekday = new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+  const open = parseHHMM(hours.open);
+  const close = parseHHMM(hours.close);
+
+  if (open < close) {
+    return hours.days.includes(weekday) && local.minutes >= open && local.minutes < close;
+  }
+  // Session runs past midnight: the early hours belong to the previous day's session
+  if (local.minutes >= open) return hours.days.includes(weekday);
+  return local.minutes < close && hours.days.includes((weekday + 6) % 7);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+function normalize(symbol: string): string {
+  return symbol.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+// Stablecoins count as the dollar for conversions
+function currencyCode(currency: string): string {
+  const code = currency.toUpperCase();
+  return USD_QUOTES.includes(code) ? 'USD' : code;
+}
+
+function aliasIndex(config: InstrumentsConfig): Map<string, string> {
+  let index = aliasIndexes.get(config);
+  if (!index) {
+    index = new Map();
+    for (const [symbol, spec] of Object.entries(config.instruments)) {
+      for (const alias of Object.values(spec.aliases)) index.set(normalize(alias), symbol);
+    }
+    aliasIndexes.set(config, index);
+  }
+  return index;
+}
+
+// Specs for a symbol missing from the registry, guessed from its name
+function inferInstrument(symbol: string, config: InstrumentsConfig): Instrument {
+  const base = symbol.slice(0, 3);
+  const quote = symbol.slice(3);
+  const usdQuote = USD_QUOTES.find((q) => symbol.endsWith(q) && symbol.length > q.length);
+
+  let spec: Pick<
+    Instrument,
+    'assetClass' | 'baseCurrency' | 'quoteCurrency' | 'tickSize' | 'pipSize'
+  >;
+  if (symbol.length === 6 && FIAT.includes(quote) && FIAT.includes(base)) {
+    const jpy = quote === 'JPY';
+    spec = {
+      assetClass: 'forex',
+      baseCurrency: base,
+      quoteCurrency: quote,
+      tickSize: jpy ? 0.001 : 0.00001,
+      pipSize: jpy ? 0.01 : 0.0001,
+    };
+  } else if (symbol.length === 6 && FIAT.includes(quote) && METALS.includes(base)) {
+    spec = {
+      assetClass: 'metal',
+      baseCurrency: base,
+      quoteCurrency: quote,
+      tickSize: 0.01,
+      pipSize: 0.1,
+    };
+  } else if (usdQuote) {
+    spec = {
+      assetClass: 'crypto',
+      baseCurrency: symbol.slice(0, -usdQuote.length),
+      quoteCurrency: usdQuote,
+      tickSize: 0.00000001,
+      pipSize: 0.01,
+    };
+  } else {
+    const [currency] = symbolCurrencies(symbol);
+    spec = {
+      assetClass: 'index',
+      baseCurrency: null,
+      quoteCurrency: currency ?? 'USD',
+      tickSize: 0.01,
+      pipSize: 1,
+    };
+  }
+
+  const { tradingHours, ...defaults } = config.assetClasses[spec.assetClass];
+  return {
+    symbol,
+    ...defaults,
+    ...spec,
+    tradingHours: tradingHours ? config.tradingHours[tradingHours] : null,
+    aliases: {},
+    inferred: true,
+  };
+}
+
+function roundTo(value: number, step: number): number {
+  return Number(value.toFixed(decimals(step)));
+}
+
+// Decimal places of a step (0.00001 → 5, 0.25 → 2, 1000 → 0)
+function decimals(step: number): number {
+  const [mantissa, exponent] = step.toExponential().split('e');
+  return Math.max(0, (mantissa.split('.')[1]?.length ?? 0) - Number(exponent));
+}
@@ -1,4 +1,5 @@
 import { pool } from '../db';
+import type { CalibrationSample } from '@signals/calibration';
 
 /**
  * Get recent signals from the database
@@ -39,3 +40,35 @@ export async function listRecentTrades(limit = 20, userId?: string) {
     return res.rows;
   }
 }
+
+/**
+ * Get a user's signals that have a filled outcome, as calibration samples
+ */
+export async function listCalibrationSamples(
+  userId: string,
+  since?: string
+): Promise<CalibrationSample[]> {
+  const res = await pool.query(
+    `
+      SELECT s.confidence, COALESCE(s.model_confidence, s.confidence) AS model_confidence,
+             s.grade, s.playbook,
+             COALESCE(s.raw_context->>'session', 'unknown') AS session,
+             o.r_achieved > 0 AS hit
+      FROM signals s
+      JOIN signal_outcomes o ON o.signal_id = s.id
+      WHERE s.user_id = $1
+        AND o.result NOT IN ('unfilled', 'unavailable')
+        AND ($2::timestamptz IS NULL OR s.created_at >= $2)
+    `,
+    [userId, since || null]
+  );
+
+  return res.rows.map((row) => ({
+    confidence: Number(row.confidence),
+    modelConfidence: Number(row.model_confidence),
+    grade: row.grade || 'C',
+    playbook: row.playbook,
+    session: row.session,
+    hit: row.hit === true,
+  }));
+}
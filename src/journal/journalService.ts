@@ -1,16 +1,28 @@
 import { pool } from '../db';
+import { MarketContext, PlaybookTrace } from '@custom-types/context';
+import type { SignalTransition } from '@signals/lifecycle';
+import type { OutcomePlan } from '@signals/outcome';
 
 /**
  * Save a Flowrex signal to the database
+ * The trade plan (entry/stop/targets) lets the outcome tracker grade it later.
  */
-export async function saveSignal(signal: any, context: any, source: string, userId: string) {
+export async function saveSignal(
+  signal: any,
+  context: any,
+  source: string,
+  userId: string,
+  trace?: PlaybookTrace[],
+  plan?: OutcomePlan | null
+) {
   const res = await pool.query(
     `
       INSERT INTO signals (
         user_id, symbol, instrument, direction, playbook, primary_playbook, backup_playbook,
-        confidence, grade, reasons, risk_hints, timeframe, source, raw_context
+        confidence, grade, reasons, risk_hints, timeframe, source, raw_context, evaluation_trace,
+        trade_plan, signal_time, model_confidence
       )
-      VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14)
+      VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18)
       RETURNING id
     `,
     [
@@ -28,12 +40,89 @@ export async function saveSignal(signal: any, context: any, source: string, user
       signal.timeframe,
       source,
       JSON.stringify(context || {}),
+      trace ? JSON.stringify(trace) : null,
+      plan ? JSON.stringify({ entry: plan.entry, stop: plan.stop, targets: plan.targets }) : null,
+      signal.createdAt || null,
+      signal.confidenceBreakdown?.uncalibrated ?? signal.confidence,
     ]
   );
 
   return res.rows[0].id as string;
 }
 
+/**
+ * Persist a live signal lifecycle transition
+ * A setup opening (from = null) saves a new signal row; later transitions
+ * update that row's state (and its trade plan once armed). Every transition
+ * is logged to signal_transitions.
+ */
+export async function recordSignalTransition(
+  transition: SignalTransition,
+  context: MarketContext,
+  userId: string,
+  trace?: PlaybookTrace[]
+) {
+  let signalId: string | undefined;
+
+  if (transition.from === null) {
+    signalId = await saveSignal(
+      transition.signal,
+      context,
+      'live-router',
+      userId,
+      trace,
+      transition.plan
+    );
+    await pool.query(`UPDATE signals SET dedup_key = $2, state = $3 WHERE id = $1`, [
+      signalId,
+      transition.dedupKey,
+      transition.to,
+    ]);
+  } else {
+    const res = await pool.query(
+      `
+        UPDATE signals SET state = $3, trade_plan = COALESCE(trade_plan, $4)
+        WHERE id = (
+          SELECT id FROM signals
+          WHERE user_id = $1 AND dedup_key = $2
+          ORDER BY created_at DESC LIMIT 1
+        )
+        RETURNING id
+      `,
+      [
+        userId,
+        transition.dedupKey,
+        transition.to,
+        transition.plan ? JSON.stringify(transition.plan) : null,
+      ]
+    );
+    signalId = res.rows[0]?.id;
+  }
+
+  if (!signalId) throw new Error(`No signal found for ${transition.dedupKey}`);
+
+  await pool.query(
+    `
+      INSERT INTO signal_transitions (
+        user_id, signal_id, dedup_key, from_state, to_state, reason, price, created_at
+      )
+      VALUES ($1,$2,$3,$4,$5,$6,$7,$8)
+    `,
+    [
+      userId,
+      signalId,
+      transition.dedupKey,
+      transition.from,
+      transition.to,
+      transition.reason,
+      transition.price,
+      transition.at,
+    ]
+  );
+
+  return signalId;
+}
+
 /**
  * Trade input interface
  */
@@ -49,6 +138,7 @@ export interface TradeInput {
   status: 'open' | 'closed' | 'cancelled';
   session?: string;
   notes?: string;
+  stopPrice?: number | null; // for the risk rules check only (not stored)
 }
 
 /**
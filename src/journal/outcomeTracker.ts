@@ -0,0 +1,235 @@
+import { pool } from '../db';
+import { getOutcomeTrackingConfig } from '@config/config';
+import { getProvider } from '@data-providers/index';
+import { parseTimeframe } from '@agent/timeframes';
+import { evaluateOutcome, OutcomeCandle, OutcomePlan, SignalOutcome } from '@signals/outcome';
+import { createLogger } from '@utils/agent_logger';
+
+const logger = createLogger('OutcomeTracker');
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * SIGNAL OUTCOME TRACKER
+ * ═══════════════════════════════════════════════════════════════
+ * Background job that grades saved signals against what price did
+ * afterwards (see @signals/outcome) and records the result in
+ * signal_outcomes: stop vs target, MFE/MAE, time-to-outcome, R.
+ *
+ * Every run takes the least recently checked signals that have a
+ * trade plan and no outcome yet (outcomeTracking.batchSize), fetches
+ * later candles once per symbol/timeframe from the instrument's
+ * provider (outcomeTracking.providers) and stores resolved outcomes.
+ * Pending signals are checked again on the next run. A signal more
+ * than MAX_FETCH bars old can no longer be replayed and is closed with
+ * the result "unavailable".
+ */
+
+// Later candles for a signal (defaults to the configured data provider)
+export type CandleSource = (
+  instrument: string,
+  symbol: string,
+  timeframe: string,
+  limit: number
+) => Promise<OutcomeCandle[]>;
+
+interface PendingSignal {
+  id: string;
+  user_id: string;
+  symbol: string;
+  instrument: string;
+  timeframe: string;
+  direction: 'long' | 'short';
+  trade_plan: OutcomePlan;
+  signal_time: Date;
+}
+
+// Most candles one provider request returns (Binance caps klines at 1000)
+const MAX_FETCH = 1000;
+
+/**
+ * Fetch candles from the provider configured for the instrument
+ */
+export const providerCandles: CandleSource = async (instrument, symbol, timeframe, limit) => {
+  const name = getOutcomeTrackingConfig().providers[instrument.toUpperCase()];
+  const provider = name ? getProvider(name) : null;
+  if (!provider) {
+    throw new Error(`No outcome provider configured for instrument ${instrument}`);
+  }
+  return provider.fetchOHLC(symbol, timeframe, limit);
+};
+
+/**
+ * Evaluate one batch of pending signals
+ *
+ * @param source - Where later candles come from
+ * @returns Number of outcomes recorded
+ */
+export async function evaluatePendingOutcomes(
+  source: CandleSource = providerCandles
+): Promise<number> {
+  const { batchSize, maxBars } = getOutcomeTrackingConfig();
+  const res = await pool.query(
+    `
+      SELECT s.id, s.user_id, s.symbol, s.instrument, s.timeframe, s.direction, s.trade_plan,
+             COALESCE(s.signal_time, s.created_at) AS signal_time
+      FROM signals s
+      LEFT JOIN signal_outcomes o ON o.signal_id = s.id
+      WHERE o.signal_id IS NULL
+        AND s.trade_plan IS NOT NULL
+        AND s.direction IN ('long', 'short')
+      ORDER BY s.outcome_checked_at ASC NULLS FIRST, s.created_at ASC
+      LIMIT $1
+    `,
+    [batchSize]
+  );
+  const pending = res.rows as PendingSignal[];
+  if (pending.length === 0) return 0;
+
+  // One candle request per instrument/symbol/timeframe
+  const groups = new Map<string, PendingSignal[]>();
+  for (const signal of pending) {
+    const key = `${signal.instrument}:${signal.symbol}:${signal.timeframe}`;
+    groups.set(key, [...(groups.get(key) || []), signal]);
+  }
+
+  let recorded = 0;
+  for (const signals of groups.values()) {
+    const { instrument, symbol, timeframe } = signals[0];
+    const minutes = parseTimeframe(timeframe);
+    if (!minutes) {
+      logger.warn(`⚠️  Unknown timeframe ${timeframe} - ${signals.length} signal(s) skipped`);
+      await markChecked(signals);
+      continue;
+    }
+
+    const oldest = Math.min(...signals.map((s) => toSeconds(s.signal_time)));
+    const limit = Math.min(MAX_FETCH, barsSince(oldest, minutes) + 2);
+
+    let candles: OutcomeCandle[];
+    try {
+      candles = await source(instrument, symbol, timeframe, limit);
+    } catch (e) {
+      logger.error(`Error fetching candles for ${symbol} ${timeframe}:`, e);
+      await markChecked(signals);
+      continue;
+    }
+
+    for (const signal of signals) {
+      const signalTime = toSeconds(signal.signal_time);
+      // Candles must start at or before the signal bar to replay it
+      if (!candles.length || candles[0].time > signalTime) {
+        if (barsSince(signalTime, minutes) + 2 > MAX_FETCH) {
+          logger.warn(`⚠️  Signal ${signal.id} is older than ${MAX_FETCH} bars - unavailable`);
+          await saveUnavailable(signal);
+        } else {
+          logger.warn(`⚠️  No candle history back to signal ${signal.id}`);
+        }
+        continue;
+      }
+
+      const outcome = evaluateOutcome(
+        signal.trade_plan,
+        signal.direction,
+        signalTime,
+        candles,
+        maxBars
+      );
+      if (outcome) {
+        await saveOutcome(signal, outcome);
+        recorded++;
+      }
+    }
+    await markChecked(signals);
+  }
+
+  logger.info(`📊 Outcomes: ${recorded} recorded, ${pending.length - recorded} pending`);
+  return recorded;
+}
+
+/**
+ * Run evaluatePendingOutcomes every outcomeTracking.intervalMinutes
+ *
+ * @returns Stop function
+ */
+export function startOutcomeTracker(source: CandleSource = providerCandles): () => void {
+  const { intervalMinutes } = getOutcomeTrackingConfig();
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await evaluatePendingOutcomes(source);
+    } catch (e) {
+      logger.error('Error evaluating signal outcomes:', e);
+    } finally {
+      running = false;
+    }
+  };
+
+  const interval = setInterval(run, intervalMinutes * 60_000);
+  logger.info(`⏱️  Outcome tracker running every ${intervalMinutes} min`);
+  return () => clearInterval(interval);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+async function saveOutcome(signal: PendingSignal, outcome: SignalOutcome) {
+  await pool.query(
+    `
+      INSERT INTO signal_outcomes (
+        signal_id, user_id, result, target, filled_at, exit_price, exit_at, r_achieved,
+        mfe, mae, mfe_r, mae_r, bars_to_outcome, time_to_outcome
+      )
+      VALUES (
+        $1, $2, $3, $4, to_timestamp($5), $6, to_timestamp($7), $8,
+        $9, $10, $11, $12, $13, $14 * INTERVAL '1 second'
+      )
+      ON CONFLICT (signal_id) DO NOTHING
+    `,
+    [
+      signal.id,
+      signal.user_id,
+      outcome.result,
+      outcome.target,
+      outcome.filledAt,
+      outcome.exitPrice,
+      outcome.exitAt,
+      outcome.rAchieved,
+      outcome.mfe,
+      outcome.mae,
+      outcome.mfeR,
+      outcome.maeR,
+      outcome.barsToOutcome,
+      outcome.timeToOutcome,
+    ]
+  );
+}
+
+// Terminal result for a signal whose candles can no longer be fetched
+async function saveUnavailable(signal: PendingSignal) {
+  await pool.query(
+    `
+      INSERT INTO signal_outcomes (signal_id, user_id, result)
+      VALUES ($1, $2, 'unavailable')
+      ON CONFLICT (signal_id) DO NOTHING
+    `,
+    [signal.id, signal.user_id]
+  );
+}
+
+async function markChecked(signals: PendingSignal[]) {
+  await pool.query(`UPDATE signals SET outcome_checked_at = now() WHERE id = ANY($1)`, [
+    signals.map((s) => s.id),
+  ]);
+}
+
+function barsSince(time: number, minutes: number): number {
+  return Math.ceil((Date.now() / 1000 - time) / (minutes * 60));
+}
+
+function toSeconds(date: Date): number {
+  return Math.floor(new Date(date).getTime() / 1000);
+}
@@ -2,7 +2,14 @@
 import { getProvider } from '@data-providers/index';
 import type { Candle } from '@data-providers/types';
 import type { Server as SocketIOServer } from 'socket.io';
-import { runAnalysisFromBody } from '../server-analysis-helper';
+import { ContextEngine } from '@agent/engine';
+import { SignalLifecycle, SignalTransition } from '@signals/lifecycle';
+import { createLogger } from '@utils/agent_logger';
+import { alertFromAnalysis, notifySignalAlerts } from '../alerts/alertDispatcher';
+import { recordSignalTransition } from '../journal/journalService';
+import { runAnalysisFromBody, toRawCandle } from '../server-analysis-helper';
+
+const logger = createLogger('LiveRouter');
 
 interface LiveStreamKey {
   provider: string;
@@ -12,34 +19,126 @@ interface LiveStreamKey {
 
 interface LiveStream {
   stop: () => void;
+  users: Set<string>; // transitions are journaled and alerted for each
+}
+
+// Every analysed update of a stream (transitions may be empty)
+export interface LiveUpdate {
+  provider: string;
+  symbol: string;
+  instrument: string;
+  timeframe: string;
+  candle: Candle;
+  result: Awaited<ReturnType<typeof runAnalysisFromBody>>;
+  transitions: SignalTransition[];
 }
 
+type LiveUpdateListener = (update: LiveUpdate) => void;
+
 const streams = new Map<string, LiveStream>();
+const listeners = new Set<LiveUpdateListener>();
 
 function keyOf(p: LiveStreamKey) {
   return `${p.provider}:${p.symbol}:${p.timeframe}`;
 }
 
+/**
+ * Start streaming candles and analysis for a symbol/timeframe
+ *
+ * Every update is analysed, but signals go through a SignalLifecycle:
+ * only state transitions (forming → armed → triggered → invalidated /
+ * expired) are emitted as 'signalTransition' / 'liveAnalysis' and
+ * journaled for every user subscribed to the stream; setups that arm go
+ * to each user's alert rules. 'liveCandle' is still sent on every update.
+ * Starting a running stream subscribes another user to it.
+ */
 export async function startLiveStream(
   io: SocketIOServer,
-  params: LiveStreamKey
+  params: LiveStreamKey,
+  userId?: string
 ) {
   const { provider, symbol, timeframe } = params;
   const p = getProvider(provider.toUpperCase());
   if (!p) throw new Error('Unknown provider: ' + provider);
 
   const k = keyOf(params);
-  if (streams.has(k)) {
-    // already running
+  const running = streams.get(k);
+  if (running) {
+    if (userId) running.users.add(userId);
     return;
   }
 
-  // We'll store last N candles so we can run the full agent on each update
+  // Registered before the history fetch so a concurrent start subscribes instead
+  const stream: LiveStream = { stop: () => {}, users: new Set(userId ? [userId] : []) };
+  streams.set(k, stream);
+
+  // We'll store last N candles for the UI; the engine keeps detector state
+  // up to date so each update doesn't re-run detectors over the buffer
   const buffer: Candle[] = [];
+  const engine = new ContextEngine({ maxBars: 500, timeframe });
+  const lifecycle = new SignalLifecycle(symbol, timeframe);
+
+  // Analyse the buffer and publish lifecycle transitions only
+  const analyze = async (instrument: string) => {
+    const body = { symbol, instrument, timeframe, candles: buffer };
+    const result = await runAnalysisFromBody(body, '/live/router', undefined, undefined, engine);
+
+    const { entry, stop, targets } = result.tradePlan;
+    const candle = buffer[buffer.length - 1];
+    const transitions = lifecycle.update({
+      candle,
+      signal: result.signal,
+      plan: entry && stop ? { entry, stop, targets } : null,
+    });
+
+    // A failing listener must not hold up journaling, emits or alerts
+    const update = { provider, symbol, instrument, timeframe, candle, result, transitions };
+    listeners.forEach((listener) => {
+      try {
+        listener(update);
+      } catch (e) {
+        logger.error(`Live update listener error for ${k}:`, e);
+      }
+    });
+    if (transitions.length === 0) return;
+
+    for (const transition of transitions) {
+      io.emit('signalTransition', transition);
+      for (const user of stream.users) {
+        try {
+          await recordSignalTransition(transition, result.context, user, result.trace);
+        } catch (e) {
+          logger.error('Error saving signal transition:', e);
+        }
+        if (transition.to === 'armed') {
+          notifySignalAlerts(user, alertFromAnalysis('live', result));
+        }
+      }
+    }
+
+    io.emit('liveAnalysis', {
+      source: 'live-router',
+      symbol,
+      instrument,
+      timeframe,
+      candles: buffer,
+      result,
+      transitions,
+    });
+  };
 
   // 1) Bootstrap with some history
-  const initial = await p.fetchOHLC(symbol, timeframe, 200);
+  let initial: Candle[];
+  try {
+    initial = await p.fetchOHLC(symbol, timeframe, 200);
+  } catch (e) {
+    if (streams.get(k) === stream) streams.delete(k);
+    throw e;
+  }
+  // Stopped while the history was loading
+  if (streams.get(k) !== stream) return;
   buffer.push(...initial);
+  engine.pushAll(initial.map(toRawCandle));
 
   // Emit initial data
   io.emit('liveCandleBatch', {
@@ -53,9 +152,16 @@ export async function startLiveStream(
 
   if (p.subscribeLive) {
     // 2) Use WS streaming (e.g., Binance)
-    stopFn = await p.subscribeLive(symbol, timeframe, async (candle) => {
-      buffer.push(candle);
-      if (buffer.length > 500) buffer.shift();
+    const subscribe = p.subscribeLive(symbol, timeframe, async (candle) => {
+      // Kline updates repeat the open bar's time until it closes
+      const last = buffer[buffer.length - 1];
+      if (last && last.time === candle.time) {
+        buffer[buffer.length - 1] = candle;
+      } else {
+        buffer.push(candle);
+        if (buffer.length > 500) buffer.shift();
+      }
+      engine.push(toRawCandle(candle));
 
       io.emit('liveCandle', {
         provider,
@@ -64,24 +170,24 @@ export async function startLiveStream(
         candle,
       });
 
-      // Auto-run analysis on each new candle
-      const body = {
-        symbol,
-        instrument: provider.toUpperCase() === 'BINANCE' ? 'CRYPTO' : 'FOREX',
-        timeframe,
-        candles: buffer,
-      };
-
-      const result = await runAnalysisFromBody(body, '/live/router');
-      io.emit('liveAnalysis', {
-        source: 'live-router',
-        symbol,
-        instrument: body.instrument,
-        timeframe,
-        candles: buffer,
-        result,
-      });
+      // Auto-run analysis on each update
+      try {
+        await analyze(provider.toUpperCase() === 'BINANCE' ? 'CRYPTO' : 'FOREX');
+      } catch (e) {
+        logger.error(`Analysis error for live stream ${k}:`, e);
+      }
     });
+    try {
+      stopFn = await subscribe;
+    } catch (e) {
+      if (streams.get(k) === stream) streams.delete(k);
+      throw e;
+    }
+    // Stopped while the subscription was opening: close it right away
+    if (streams.get(k) !== stream) {
+      stopFn();
+      return;
+    }
   } else {
     // 2b) Fallback: poll REST for brokers with no WS (OANDA / FXCM)
     const interval = setInterval(async () => {
@@ -92,8 +198,10 @@ export async function startLiveStream(
           const last = buffer[buffer.length - 1];
           if (!last || c.time > last.time) {
             buffer.push(c);
+            engine.push(toRawCandle(c));
           } else if (c.time === last.time) {
             buffer[buffer.length - 1] = c;
+            engine.push(toRawCandle(c)); // replaces the in-progress bar
           }
         });
         if (buffer.length > 500) buffer.splice(0, buffer.length - 500);
@@ -108,37 +216,39 @@ export async function startLiveStream(
           candle: last,
         });
 
-        const body = {
-          symbol,
-          instrument: provider.toUpperCase().includes('OANDA') ? 'FOREX' : 'CFD',
-          timeframe,
-          candles: buffer,
-        };
-
-        const result = await runAnalysisFromBody(body, '/live/router');
-        io.emit('liveAnalysis', {
-          source: 'live-router',
-          symbol,
-          instrument: body.instrument,
-          timeframe,
-          candles: buffer,
-          result,
-        });
+        await analyze(provider.toUpperCase().includes('OANDA') ? 'FOREX' : 'CFD');
       } catch (e) {
-        console.error('Polling error for live stream', provider, symbol, timeframe, e);
+        logger.error(`Polling error for live stream ${k}:`, e);
       }
     }, 10_000); // every 10s
 
     stopFn = () => clearInterval(interval);
   }
 
-  streams.set(k, { stop: stopFn });
+  stream.stop = stopFn;
 }
 
-export function stopLiveStream(params: LiveStreamKey) {
+/**
+ * Receive every analysed update of all live streams (e.g. paper trading)
+ *
+ * @returns Unsubscribe function
+ */
+export function onLiveUpdate(listener: LiveUpdateListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Unsubscribe a user from a live stream (all users when none is given);
+ * the stream stops once nobody is subscribed
+ */
+export function stopLiveStream(params: LiveStreamKey, userId?: string) {
   const k = keyOf(params);
   const s = streams.get(k);
-  if (s) {
+  if (!s) return;
+
+  if (userId) s.users.delete(userId);
+  if (!userId || s.users.size === 0) {
     s.stop();
     streams.delete(k);
   }
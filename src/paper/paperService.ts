@@ -0,0 +1,454 @@
+import { pool } from '../db';
+import type { AlertConditions } from '../alerts/alertRules';
+import type { Account, Fill, Order, Position } from '../execution/types';
+
+export interface PaperAccount {
+  userId: string;
+  enabled: boolean;
+  currency: string;
+  startingBalance: number;
+  riskPercent: number; // % of equity risked per setup
+  filters: AlertConditions; // which live signals are traded
+  balance: number;
+  equity: number;
+  updatedAt: string;
+}
+
+export interface PaperAccountInput {
+  enabled: boolean;
+  riskPercent: number;
+  filters: AlertConditions;
+  startingBalance?: number; // new accounts and resets only
+}
+
+// The setup an order belongs to
+export interface PaperOrderMeta {
+  setupKey: string; // lifecycle dedup key
+  timeframe: string; // stream whose candles fill the order
+  playbook: string;
+}
+
+export type PaperOrder = Order & PaperOrderMeta;
+
+// NUMERIC columns come back from pg as strings
+interface PaperAccountRow {
+  user_id: string;
+  enabled: boolean;
+  currency: string;
+  starting_balance: string;
+  risk_percent: string;
+  filters: AlertConditions | null;
+  balance: string;
+  equity: string;
+  updated_at: Date;
+}
+
+interface PaperOrderRow {
+  id: string;
+  client_order_id: string;
+  setup_key: string;
+  timeframe: string;
+  playbook: string;
+  symbol: string;
+  side: Order['side'];
+  type: Order['type'];
+  quantity: string;
+  price: string | null;
+  stop_loss: string | null;
+  take_profit: string | null;
+  status: Order['status'];
+  filled_price: string | null;
+  reason: string | null;
+  placed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface PaperPositionRow {
+  id: string;
+  order_id: string;
+  symbol: string;
+  direction: Position['direction'];
+  quantity: string;
+  entry_price: string;
+  stop_loss: string | null;
+  take_profit: string | null;
+  mark_price: string;
+  unrealized_pnl: string;
+  opened_at: Date;
+  placed_at: Date | null;
+}
+
+/**
+ * Get a user's paper account (null when none was created)
+ */
+export async function getPaperAccount(userId: string): Promise<PaperAccount | null> {
+  const res = await pool.query(`SELECT * FROM paper_accounts WHERE user_id = $1`, [userId]);
+  return res.rowCount ? toPaperAccount(res.rows[0]) : null;
+}
+
+/**
+ * Paper accounts of all users that trade live signals
+ */
+export async function listEnabledPaperAccounts(): Promise<PaperAccount[]> {
+  const res = await pool.query(`SELECT * FROM paper_accounts WHERE enabled = true`);
+  return res.rows.map(toPaperAccount);
+}
+
+/**
+ * Create a paper account or update its settings
+ * (balance and starting balance only change through resetPaperAccount)
+ */
+export async function savePaperAccount(
+  userId: string,
+  input: PaperAccountInput & { startingBalance: number; currency: string }
+): Promise<PaperAccount> {
+  const res = await pool.query(
+    `
+      INSERT INTO paper_accounts (
+        user_id, enabled, currency, starting_balance, risk_percent, filters, balance, equity
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $4, $4)
+      ON CONFLICT (user_id) DO UPDATE
+      SET enabled = EXCLUDED.enabled, risk_percent = EXCLUDED.risk_percent,
+          filters = EXCLUDED.filters, updated_at = now()
+      RETURNING *
+    `,
+    [
+      userId,
+      input.enabled,
+      input.currency,
+      input.startingBalance,
+      input.riskPercent,
+      JSON.stringify(input.filters),
+    ]
+  );
+  return toPaperAccount(res.rows[0]);
+}
+
+/**
+ * Start a paper account over: orders, positions and fills are deleted
+ * @returns Reset account, or null when the user has none
+ */
+export async function resetPaperAccount(
+  userId: string,
+  startingBalance?: number
+): Promise<PaperAccount | null> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(`DELETE FROM paper_orders WHERE user_id = $1`, [userId]);
+    const res = await client.query(
+      `
+        UPDATE paper_accounts
+        SET starting_balance = COALESCE($2, starting_balance),
+            balance = COALESCE($2, starting_balance),
+            equity = COALESCE($2, starting_balance),
+            updated_at = now()
+        WHERE user_id = $1
+        RETURNING *
+      `,
+      [userId, startingBalance ?? null]
+    );
+    await client.query('COMMIT');
+    return res.rowCount ? toPaperAccount(res.rows[0]) : null;
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Working orders and open positions to resume an account with
+ * (orders include the filled entries of open positions)
+ */
+export async function loadPaperState(
+  userId: string
+): Promise<{ orders: PaperOrder[]; positions: Position[] }> {
+  const orders = await pool.query(
+    `
+      SELECT * FROM paper_orders o
+      WHERE o.user_id = $1 AND (
+        o.status = 'open' OR EXISTS (
+          SELECT 1 FROM paper_positions p WHERE p.order_id = o.id AND p.status = 'open'
+        )
+      )
+      ORDER BY o.created_at ASC
+    `,
+    [userId]
+  );
+  const positions = await listPaperPositions(userId, 'open');
+  return { orders: orders.rows.map(toPaperOrder), positions };
+}
+
+/**
+ * Insert or update a paper order
+ */
+export async function savePaperOrder(userId: string, order: PaperOrder): Promise<void> {
+  await pool.query(
+    `
+      INSERT INTO paper_orders (
+        id, user_id, client_order_id, setup_key, timeframe, playbook, symbol, side, type,
+        quantity, price, stop_loss, take_profit, status, filled_price, reason, placed_at,
+        created_at, updated_at
+      )
+      VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, to_timestamp($17),
+        $18, $19
+      )
+      ON CONFLICT (id) DO UPDATE
+      SET quantity = EXCLUDED.quantity, price = EXCLUDED.price, stop_loss = EXCLUDED.stop_loss,
+          take_profit = EXCLUDED.take_profit, status = EXCLUDED.status,
+          filled_price = EXCLUDED.filled_price, reason = EXCLUDED.reason,
+          updated_at = EXCLUDED.updated_at
+    `,
+    [
+      order.id,
+      userId,
+      order.clientOrderId,
+      order.setupKey,
+      order.timeframe,
+      order.playbook,
+      order.symbol,
+      order.side,
+      order.type,
+      order.quantity,
+      order.price,
+      order.stopLoss,
+      order.takeProfit,
+      order.status,
+      order.filledPrice,
+      order.reason,
+      order.placedAt,
+      order.createdAt,
+      order.updatedAt,
+    ]
+  );
+}
+
+/**
+ * Insert or mark-to-market an open paper position
+ */
+export async function savePaperPosition(userId: string, position: Position): Promise<void> {
+  await pool.query(
+    `
+      INSERT INTO paper_positions (
+        id, user_id, order_id, symbol, direction, quantity, entry_price, stop_loss,
+        take_profit, mark_price, unrealized_pnl, status, opened_at, placed_at
+      )
+      VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 'open', to_timestamp($12), to_timestamp($13)
+      )
+      ON CONFLICT (id) DO UPDATE
+      SET stop_loss = EXCLUDED.stop_loss, take_profit = EXCLUDED.take_profit,
+          mark_price = EXCLUDED.mark_price, unrealized_pnl = EXCLUDED.unrealized_pnl
+    `,
+    [
+      position.id,
+      userId,
+      position.orderId,
+      position.symbol,
+      position.direction,
+      position.quantity,
+      position.entryPrice,
+      position.stopLoss,
+      position.takeProfit,
+      position.markPrice,
+      position.unrealizedPnl,
+      position.openedAt,
+      position.placedAt,
+    ]
+  );
+}
+
+/**
+ * Log a fill; exits also close their position
+ * @param balance - Account balance after the fill
+ */
+export async function recordPaperFill(userId: string, fill: Fill, balance: number): Promise<void> {
+  await pool.query(
+    `
+      INSERT INTO paper_fills (
+        id, user_id, order_id, position_id, symbol, side, kind, quantity, price, pnl,
+        balance, time
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, to_timestamp($12))
+    `,
+    [
+      fill.id,
+      userId,
+      fill.orderId,
+      fill.positionId,
+      fill.symbol,
+      fill.side,
+      fill.kind,
+      fill.quantity,
+      fill.price,
+      fill.pnl,
+      balance,
+      fill.time,
+    ]
+  );
+
+  if (fill.kind !== 'entry') {
+    await pool.query(
+      `
+        UPDATE paper_positions
+        SET status = 'closed', exit_price = $3, exit_reason = $4, realized_pnl = $5,
+            mark_price = $3, unrealized_pnl = 0, closed_at = to_timestamp($6)
+        WHERE id = $1 AND user_id = $2
+      `,
+      [fill.positionId, userId, fill.price, fill.kind, fill.pnl, fill.time]
+    );
+  }
+}
+
+/**
+ * Store a paper account's balance and equity
+ */
+export async function updatePaperBalance(userId: string, account: Account): Promise<void> {
+  await pool.query(
+    `
+      UPDATE paper_accounts SET balance = $2, equity = $3, updated_at = now()
+      WHERE user_id = $1
+    `,
+    [userId, account.balance, account.equity]
+  );
+}
+
+/**
+ * Setups opened and P&L realized since a time (risk rules' trading day)
+ */
+export async function loadPaperDayStats(
+  userId: string,
+  since: Date
+): Promise<{ setups: number; pnl: number }> {
+  const res = await pool.query(
+    `
+      SELECT
+        (SELECT COUNT(DISTINCT setup_key) FROM paper_orders
+           WHERE user_id = $1 AND created_at >= $2 AND status <> 'rejected') AS setups,
+        (SELECT COALESCE(SUM(pnl), 0) FROM paper_fills
+           WHERE user_id = $1 AND time >= $2) AS pnl
+    `,
+    [userId, since]
+  );
+  return { setups: Number(res.rows[0].setups), pnl: Number(res.rows[0].pnl) };
+}
+
+/**
+ * A user's paper orders, newest first
+ */
+export async function listPaperOrders(
+  userId: string,
+  status?: Order['status']
+): Promise<PaperOrder[]> {
+  const res = await pool.query(
+    `
+      SELECT * FROM paper_orders
+      WHERE user_id = $1 AND ($2::text IS NULL OR status = $2)
+      ORDER BY created_at DESC
+      LIMIT 200
+    `,
+    [userId, status ?? null]
+  );
+  return res.rows.map(toPaperOrder);
+}
+
+/**
+ * A user's paper positions, newest first
+ */
+export async function listPaperPositions(
+  userId: string,
+  status: 'open' | 'closed'
+): Promise<Position[]> {
+  const res = await pool.query(
+    `
+      SELECT * FROM paper_positions
+      WHERE user_id = $1 AND status = $2
+      ORDER BY opened_at DESC
+      LIMIT 200
+    `,
+    [userId, status]
+  );
+  return res.rows.map(toPosition);
+}
+
+/**
+ * Recent fills of a user's paper account, newest first
+ */
+export async function listPaperFills(userId: string, limit = 50) {
+  const res = await pool.query(
+    `SELECT * FROM paper_fills WHERE user_id = $1 ORDER BY time DESC LIMIT $2`,
+    [userId, limit]
+  );
+  return res.rows;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+function num(value: string | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+function seconds(value: Date | null): number | null {
+  return value === null ? null : Math.floor(value.getTime() / 1000);
+}
+
+function toPaperAccount(row: PaperAccountRow): PaperAccount {
+  return {
+    userId: row.user_id,
+    enabled: row.enabled,
+    currency: row.currency,
+    startingBalance: Number(row.starting_balance),
+    riskPercent: Number(row.risk_percent),
+    filters: row.filters || {},
+    balance: Number(row.balance),
+    equity: Number(row.equity),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+function toPaperOrder(row: PaperOrderRow): PaperOrder {
+  return {
+    id: row.id,
+    clientOrderId: row.client_order_id,
+    setupKey: row.setup_key,
+    timeframe: row.timeframe,
+    playbook: row.playbook,
+    symbol: row.symbol,
+    side: row.side,
+    type: row.type,
+    quantity: Number(row.quantity),
+    price: num(row.price),
+    stopLoss: num(row.stop_loss),
+    takeProfit: num(row.take_profit),
+    status: row.status,
+    filledPrice: num(row.filled_price),
+    reason: row.reason,
+    placedAt: seconds(row.placed_at),
+    createdAt: row.created_at.toISOString(),
+    updatedAt: row.updated_at.toISOString(),
+  };
+}
+
+function toPosition(row: PaperPositionRow): Position {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    symbol: row.symbol,
+    direction: row.direction,
+    quantity: Number(row.quantity),
+    entryPrice: Number(row.entry_price),
+    stopLoss: num(row.stop_loss),
+    takeProfit: num(row.take_profit),
+    markPrice: Number(row.mark_price),
+    unrealizedPnl: Number(row.unrealized_pnl),
+    openedAt: Math.floor(row.opened_at.getTime() / 1000),
+    placedAt: seconds(row.placed_at),
+  };
+}
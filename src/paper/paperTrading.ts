@@ -0,0 +1,423 @@
+import type { Server as SocketIOServer } from 'socket.io';
+import { getExecutionConfig, getPaperTradingConfig } from '@config/config';
+import type { SignalTransition } from '@signals/lifecycle';
+import { createLogger } from '@utils/agent_logger';
+import { alertFromAnalysis } from '../alerts/alertDispatcher';
+import { matchesRule, parseAlertConditions } from '../alerts/alertRules';
+import { userRoom } from '../auth/middleware';
+import { createClientOrderId, MockExchange } from '../execution';
+import type { Fill, OrderRequest } from '../execution/types';
+import { getInstrument, quoteToAccountRate, roundUnits } from '../instruments/instrumentRegistry';
+import { LiveUpdate, onLiveUpdate } from '../live/liveRouter';
+import { evaluateTradeRisk, RiskDecision, tradingDayStart } from '../risk/riskGovernor';
+import { getRiskRules } from '../risk/riskService';
+import {
+  getPaperAccount,
+  listEnabledPaperAccounts,
+  loadPaperDayStats,
+  loadPaperState,
+  PaperAccount,
+  PaperAccountInput,
+  PaperOrderMeta,
+  recordPaperFill,
+  savePaperOrder,
+  savePaperPosition,
+  updatePaperBalance,
+} from './paperService';
+
+const logger = createLogger('PaperTrading');
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * PAPER TRADING ENGINE
+ * ═══════════════════════════════════════════════════════════════
+ * Forward-tests live stream signals on a per-user paper account
+ * (a MockExchange per user, persisted in paper_* tables):
+ *
+ *   armed       → setup passes the account filters (alert rule
+ *                 conditions) and the user's risk rules → one entry
+ *                 order per plan target, sized so the stop risks
+ *                 riskPercent of equity in total
+ *   candles     → fill entries / stops / targets of that stream
+ *   invalidated / expired → unfilled entries are cancelled
+ *
+ * An account trades one setup per symbol at a time, filled by the
+ * candles of the timeframe the setup came from. Fills are emitted as
+ * 'paperFill'; balance, equity and positions as 'paperAccount' after
+ * fills and once per bar; setups the risk rules refuse as
+ * 'paperRejected', all to the user's socket room only.
+ */
+
+interface PaperBook {
+  account: PaperAccount;
+  exchange: MockExchange;
+  meta: Map<string, PaperOrderMeta>; // orderId → setup
+  marked: Map<string, number>; // symbol → candle time last persisted
+  queue: Promise<void>; // updates are applied one at a time
+}
+
+const books = new Map<string, PaperBook>();
+let unsubscribe: (() => void) | null = null;
+
+/**
+ * Resume enabled paper accounts and trade live stream updates
+ */
+export async function startPaperTrading(io: SocketIOServer) {
+  if (!getPaperTradingConfig().enabled || unsubscribe) return;
+
+  for (const account of await listEnabledPaperAccounts()) {
+    await loadBook(account);
+  }
+
+  unsubscribe = onLiveUpdate((update) => {
+    books.forEach((book) => {
+      book.queue = book.queue
+        .then(() => applyUpdate(io, book, update))
+        .catch((e) => logger.error(`Error updating paper account ${book.account.userId}:`, e));
+    });
+  });
+
+  logger.info(`📝 Paper trading started (${books.size} account(s))`);
+}
+
+/**
+ * Stop trading a user's paper account and wait for the update in flight,
+ * so nothing writes to it while it is changed (reloadPaperAccount resumes)
+ */
+export async function drainPaperAccount(userId: string) {
+  const book = books.get(userId);
+  books.delete(userId);
+  if (book) await book.queue;
+}
+
+/**
+ * Pick up a user's changed (or reset) paper account
+ */
+export async function reloadPaperAccount(userId: string) {
+  await drainPaperAccount(userId);
+  if (!getPaperTradingConfig().enabled) return;
+
+  const account = await getPaperAccount(userId);
+  if (account?.enabled) await loadBook(account);
+}
+
+/**
+ * Entry orders for an armed setup: one leg per target (a single leg
+ * without targets), splitting the quantity that risks riskPercent of
+ * equity between entry and stop. Legs are rounded down to the
+ * instrument's lot step, with the stop distance converted from the
+ * quote currency. Client order IDs derive from the setup, so the same
+ * setup is never placed twice.
+ *
+ * @returns Order requests (empty when the plan has no risk, no
+ *          conversion rate or a leg below the minimum lot)
+ */
+export function planPaperOrders(
+  userId: string,
+  transition: SignalTransition,
+  equity: number,
+  riskPercent: number,
+  currency: string = getExecutionConfig().mock.currency
+): OrderRequest[] {
+  const { plan, direction } = transition;
+  if (!plan) return [];
+
+  const entry = plan.entry.price;
+  const risk = Math.abs(entry - plan.stop.price);
+  if (!(risk > 0)) return [];
+
+  const instrument = getInstrument(transition.symbol);
+  const rate = quoteToAccountRate(instrument, currency, { [transition.symbol]: transition.price });
+  if (rate === null) {
+    logger.warn(
+      `  ⚠ No ${instrument.quoteCurrency}/${currency} rate to size ${transition.dedupKey}`
+    );
+    return [];
+  }
+
+  const legs = plan.targets.length ? plan.targets.map((t) => t.price) : [undefined];
+  const riskAmount = (equity * riskPercent) / 100;
+  const quantity = roundUnits(riskAmount / (risk * rate) / legs.length, instrument);
+  if (quantity <= 0) return [];
+  const long = direction === 'long';
+
+  // Limit when the entry is a pullback from the current price, stop when it is a breakout
+  const pullback = long ? entry <= transition.price : entry >= transition.price;
+  const type = plan.entry.type === 'market' ? 'market' : pullback ? 'limit' : 'stop';
+
+  return legs.map((takeProfit, leg) => ({
+    clientOrderId: createClientOrderId(userId, transition.dedupKey, transition.at, leg),
+    symbol: transition.symbol,
+    side: long ? 'buy' : 'sell',
+    type,
+    quantity,
+    price: type === 'market' ? undefined : entry,
+    stopLoss: plan.stop.price,
+    takeProfit,
+  }));
+}
+
+/**
+ * Validate a paper account body (PUT /paper/account)
+ *
+ * @throws Error describing the first invalid field
+ */
+export function parsePaperAccountInput(body: Record<string, unknown>): PaperAccountInput {
+  const riskPercent =
+    body.riskPercent === undefined ? getPaperTradingConfig().riskPercent : Number(body.riskPercent);
+  if (!(riskPercent > 0 && riskPercent <= 100)) {
+    throw new Error(`Invalid riskPercent: ${body.riskPercent} (0-100)`);
+  }
+
+  const startingBalance =
+    body.startingBalance === undefined ? undefined : Number(body.startingBalance);
+  if (startingBalance !== undefined && !(startingBalance > 0)) {
+    throw new Error(`Invalid startingBalance: ${body.startingBalance} (must be > 0)`);
+  }
+
+  return {
+    enabled: body.enabled !== false,
+    riskPercent,
+    filters: parseAlertConditions((body.filters || {}) as Record<string, unknown>),
+    startingBalance,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+async function loadBook(account: PaperAccount) {
+  const state = await loadPaperState(account.userId);
+  const exchange = new MockExchange({
+    startingBalance: account.startingBalance,
+    currency: account.currency || getExecutionConfig().mock.currency,
+    state: {
+      orders: state.orders,
+      positions: state.positions,
+      realizedPnl: account.balance - account.startingBalance,
+    },
+  });
+
+  const meta = new Map<string, PaperOrderMeta>();
+  for (const { id, setupKey, timeframe, playbook } of state.orders) {
+    meta.set(id, { setupKey, timeframe, playbook });
+  }
+
+  books.set(account.userId, {
+    account,
+    exchange,
+    meta,
+    marked: new Map(),
+    queue: Promise.resolve(),
+  });
+}
+
+async function applyUpdate(io: SocketIOServer, book: PaperBook, update: LiveUpdate) {
+  const { userId } = book.account;
+  const symbol = update.symbol.toUpperCase();
+  let changed = false;
+
+  // 1. Fill the active setup with candles of its own timeframe (or just mark the price)
+  const active = await activeSetup(book, symbol);
+  if (!active || active.timeframe === update.timeframe) {
+    const fills = book.exchange.processCandle(symbol, update.candle);
+    if (fills.length) {
+      await persistFills(io, book, fills);
+      changed = true;
+    }
+  }
+
+  // 2. Place or cancel orders for lifecycle transitions
+  for (const transition of update.transitions) {
+    if (transition.to === 'armed') {
+      changed = (await openSetup(io, book, update, transition)) || changed;
+    } else if (transition.to === 'invalidated' || transition.to === 'expired') {
+      changed = (await cancelSetup(book, transition)) || changed;
+    }
+  }
+
+  // 3. Mark to market after fills and once per bar
+  if (!changed && (!active || book.marked.get(symbol) === update.candle.time)) return;
+  book.marked.set(symbol, update.candle.time);
+
+  const positions = await book.exchange.getPositions();
+  for (const position of positions.filter((p) => p.symbol === symbol)) {
+    await savePaperPosition(userId, position);
+  }
+  const account = await book.exchange.getAccount();
+  await updatePaperBalance(userId, account);
+  io.to(userRoom(userId)).emit('paperAccount', { userId, account, positions });
+}
+
+// Timeframe of the setup holding orders / positions on a symbol
+async function activeSetup(book: PaperBook, symbol: string): Promise<PaperOrderMeta | null> {
+  const orders = await book.exchange.getOrders();
+  const working = orders.find((o) => o.symbol === symbol && o.status === 'open');
+  if (working) return book.meta.get(working.id) ?? null;
+
+  const positions = await book.exchange.getPositions();
+  const position = positions.find((p) => p.symbol === symbol);
+  return position ? (book.meta.get(position.orderId) ?? null) : null;
+}
+
+async function openSetup(
+  io: SocketIOServer,
+  book: PaperBook,
+  update: LiveUpdate,
+  transition: SignalTransition
+): Promise<boolean> {
+  const { account } = book;
+  if (!matchesRule(account.filters, alertFromAnalysis('paper', update.result))) {
+    return false;
+  }
+
+  const symbol = transition.symbol.toUpperCase();
+  const active = await activeSetup(book, symbol);
+  if (active) {
+    logger.info(
+      `  ⏭️  ${account.userId}: ${transition.dedupKey} skipped, ${active.setupKey} active`
+    );
+    return false;
+  }
+
+  const { equity, currency } = await book.exchange.getAccount();
+  const requests = planPaperOrders(
+    account.userId,
+    transition,
+    equity,
+    account.riskPercent,
+    currency
+  );
+  if (requests.length === 0) return false;
+
+  const decision = await checkPaperSetup(book, transition, requests);
+  if (!decision.allowed) {
+    const rules = decision.rejections.map((r) => r.rule).join(', ');
+    logger.warn(`  🛑 ${account.userId}: ${transition.dedupKey} rejected by risk rules (${rules})`);
+    io.to(userRoom(account.userId)).emit('paperRejected', {
+      userId: account.userId,
+      setupKey: transition.dedupKey,
+      rejections: decision.rejections,
+    });
+    return false;
+  }
+
+  const meta: PaperOrderMeta = {
+    setupKey: transition.dedupKey,
+    timeframe: transition.timeframe,
+    playbook: transition.playbook,
+  };
+
+  for (const request of requests) {
+    // Fills start with the next candle, not the bar the setup armed on
+    const order = await book.exchange.placeOrder({ ...request, placedAt: update.candle.time });
+    book.meta.set(order.id, meta);
+    await savePaperOrder(account.userId, { ...order, ...meta });
+    if (order.status === 'rejected') {
+      logger.warn(`  ⚠️  Paper order rejected for ${transition.dedupKey}: ${order.reason}`);
+    }
+  }
+
+  logger.info(`  📝 ${account.userId}: ${transition.dedupKey} → ${requests.length} paper order(s)`);
+  return true;
+}
+
+// Risk rules check of a setup against the paper account (setups count as one trade)
+async function checkPaperSetup(
+  book: PaperBook,
+  transition: SignalTransition,
+  requests: OrderRequest[]
+): Promise<RiskDecision> {
+  const { userId } = book.account;
+  const at = new Date(transition.at);
+  const instrument = getInstrument(transition.symbol);
+  const [rules, today, orders, positions, account] = await Promise.all([
+    getRiskRules(userId),
+    loadPaperDayStats(userId, tradingDayStart(at)),
+    book.exchange.getOrders(),
+    book.exchange.getPositions(),
+    book.exchange.getAccount(),
+  ]);
+
+  // Working entries and open positions, one per setup
+  const setups = new Map<string, { symbol: string; direction: 'long' | 'short' }>();
+  for (const order of orders.filter((o) => o.status === 'open')) {
+    const direction = order.side === 'buy' ? 'long' : 'short';
+    setups.set(book.meta.get(order.id)?.setupKey ?? order.id, { symbol: order.symbol, direction });
+  }
+  for (const position of positions) {
+    const key = book.meta.get(position.orderId)?.setupKey ?? position.id;
+    setups.set(key, { symbol: position.symbol, direction: position.direction });
+  }
+
+  return evaluateTradeRisk(
+    rules,
+    {
+      symbol: transition.symbol,
+      direction: transition.direction,
+      entryPrice: transition.plan!.entry.price,
+      stopPrice: transition.plan!.stop.price,
+      size: requests.reduce((sum, r) => sum + r.quantity, 0) / instrument.contractSize,
+      at,
+    },
+    {
+      balance: account.balance,
+      currency: account.currency,
+      openPositions: [...setups.values()],
+      tradesToday: today.setups,
+      realizedPnlToday: today.pnl,
+    }
+  );
+}
+
+async function cancelSetup(book: PaperBook, transition: SignalTransition): Promise<boolean> {
+  const orders = await book.exchange.getOrders();
+  const working = orders.filter(
+    (o) => o.status === 'open' && book.meta.get(o.id)?.setupKey === transition.dedupKey
+  );
+
+  for (const order of working) {
+    const cancelled = await book.exchange.cancelOrder(order.id);
+    cancelled.reason = `Setup ${transition.to}: ${transition.reason}`;
+    await savePaperOrder(book.account.userId, { ...cancelled, ...book.meta.get(order.id)! });
+  }
+  return working.length > 0;
+}
+
+async function persistFills(io: SocketIOServer, book: PaperBook, fills: Fill[]) {
+  const { userId } = book.account;
+  const orders = await book.exchange.getOrders();
+  const positions = await book.exchange.getPositions();
+  const account = await book.exchange.getAccount();
+
+  // Balance after each fill, counting back from the balance after all of them
+  let balance = account.balance - fills.reduce((sum, fill) => sum + (fill.pnl ?? 0), 0);
+
+  for (const fill of fills) {
+    if (fill.kind === 'entry') {
+      const order = orders.find((o) => o.id === fill.orderId)!;
+      await savePaperOrder(userId, { ...order, ...book.meta.get(order.id)! });
+      // Positions opened and closed on the same candle are saved as of their entry
+      const position = positions.find((p) => p.id === fill.positionId) ?? {
+        id: fill.positionId,
+        orderId: order.id,
+        symbol: fill.symbol,
+        direction: fill.side === 'buy' ? ('long' as const) : ('short' as const),
+        quantity: fill.quantity,
+        entryPrice: fill.price,
+        stopLoss: order.stopLoss,
+        takeProfit: order.takeProfit,
+        markPrice: fill.price,
+        unrealizedPnl: 0,
+        openedAt: fill.time,
+        placedAt: order.placedAt,
+      };
+      await savePaperPosition(userId, position);
+    }
+
+    balance += fill.pnl ?? 0;
+    await recordPaperFill(userId, fill, balance);
+    io.to(userRoom(userId)).emit('paperFill', { userId, fill, balance });
+  }
+}
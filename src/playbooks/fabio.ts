@@ -1,8 +1,24 @@
-import { MarketContext, PlaybookSignal } from '@custom-types/context';
+import {
+  ConditionTrace,
+  MarketContext,
+  PlaybookEvaluation,
+  PlaybookSignal,
+} from '@custom-types/context';
 import { createLogger } from '@utils/agent_logger';
-import { getPlaybookConfig, isPlaybookEnabled } from '@config/config';
-// Import real auction detectors
-import { detectBalanceZone, detectAuctionTransition, detectImbalance } from '@detectors/auction';
+import {
+  getConfidenceModifier,
+  getPlaybookConfig,
+  getThreshold,
+  isPlaybookEnabled,
+} from '@config/config';
+import {
+  ConfidenceScore,
+  conditionFor,
+  createTrace,
+  disabledEvaluation,
+  enforceMinConfidence,
+  scoreConfidence,
+} from './trace';
 
 // Create logger for Fabio playbook
 const logger = createLogger('Fabio');
@@ -26,69 +42,62 @@ const logger = createLogger('Fabio');
  * @returns PlaybookSignal or null if conditions not met
  */
 export function checkFabio(context: MarketContext): PlaybookSignal | null {
+  return evaluateFabio(context).signal;
+}
+
+/**
+ * Evaluate Fabio Playbook with a full per-condition trace
+ * @param context - Market context from buildMarketContext()
+ * @returns PlaybookEvaluation with signal (or null) and trace
+ */
+export function evaluateFabio(context: MarketContext): PlaybookEvaluation {
+  const config = getPlaybookConfig('Fabio');
+
   // Check if playbook is enabled in config
   if (!isPlaybookEnabled('Fabio')) {
     logger.warn('  ✗ [FABIO] Playbook is disabled in config\n');
-    return null;
+    return disabledEvaluation('Fabio', config.minConfidence);
   }
 
-  // Execute validation logic
-  const signal = executeFabio(context);
+  // Execute validation logic, then check minimum confidence threshold
+  const evaluation = enforceMinConfidence(executeFabio(context), config.minConfidence);
 
-  // If signal generated, check minimum confidence threshold
-  if (signal) {
-    const config = getPlaybookConfig('Fabio');
-    if (signal.confidence < config.minConfidence) {
-      logger.warn(`  ✗ [FABIO] Confidence ${signal.confidence}% below minimum threshold ${config.minConfidence}%\n`);
-      return null;
-    }
+  if (evaluation.trace.rejectedBy === 'minConfidence') {
+    const { confidence } = evaluation.trace;
+    logger.warn(`  ✗ [FABIO] Confidence ${confidence}% below minimum threshold ${config.minConfidence}%\n`);
   }
 
-  return signal;
+  return evaluation;
 }
 
-export function executeFabio(context: MarketContext): PlaybookSignal | null {
+export function executeFabio(context: MarketContext): PlaybookEvaluation {
   logger.info('  ┌─────────────────────────────────────────┐');
   logger.info('  │  FABIO AUCTION MARKET - VALIDATION      │');
   logger.info('  └─────────────────────────────────────────┘\n');
 
-  // ─────────────────────────────────────────────────────────────
-  // 1. BALANCE → IMBALANCE TRANSITION
-  // ─────────────────────────────────────────────────────────────
-  if (!validateBalanceToImbalance(context)) {
-    logger.warn('  ✗ [FABIO] Balance → Imbalance transition not detected\n');
-    return null;
-  }
-
-  // ─────────────────────────────────────────────────────────────
-  // 2. LVN DETECTED
-  // ─────────────────────────────────────────────────────────────
-  if (!validateLVNDetected(context)) {
-    logger.warn('  ✗ [FABIO] Low Volume Node not detected\n');
-    return null;
-  }
-
-  // ─────────────────────────────────────────────────────────────
-  // 3. FOOTPRINT AGGRESSION
-  // ─────────────────────────────────────────────────────────────
-  if (!validateFootprintAggression(context)) {
-    logger.warn('  ✗ [FABIO] Footprint aggression not confirmed\n');
-    return null;
-  }
-
-  // ─────────────────────────────────────────────────────────────
-  // 4. ORDERFLOW CONFIRMATION
-  // ─────────────────────────────────────────────────────────────
-  if (!validateOrderflow(context)) {
-    logger.warn('  ✗ [FABIO] Orderflow not confirmed\n');
-    return null;
+  // Every condition is evaluated so the trace shows the full picture
+  const conditions = [
+    validateBalanceToImbalance(context), // 1. BALANCE → IMBALANCE TRANSITION
+    validateLVNDetected(context), // 2. LVN DETECTED
+    validateFootprintAggression(context), // 3. FOOTPRINT AGGRESSION
+    validateOrderflow(context), // 4. ORDERFLOW CONFIRMATION
+  ];
+
+  const failed = conditions.filter((c) => !c.passed);
+  if (failed.length > 0) {
+    logger.warn(`  ✗ [FABIO] Validation failed: ${failed.map((c) => c.label).join(', ')}\n`);
+    return { signal: null, trace: createTrace('Fabio', conditions) };
   }
 
   // ─────────────────────────────────────────────────────────────
   // ALL VALIDATIONS PASSED → BUILD SIGNAL
   // ─────────────────────────────────────────────────────────────
   logger.success('  ✓✓✓ ALL FABIO VALIDATIONS PASSED ✓✓✓\n');
-  return buildFabioSignal(context);
+  const score = scoreFabio(context);
+  return {
+    signal: buildFabioSignal(context, score.confidence),
+    trace: createTrace('Fabio', conditions, score),
+  };
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -98,80 +107,132 @@ export function executeFabio(context: MarketContext): PlaybookSignal | null {
 /**
  * 1. BALANCE → IMBALANCE TRANSITION
  * Validates market moving from balance to imbalance state
+ * (detectAuctionTransition: balance range followed by a gap of at
+ * least imbalanceThreshold × price)
  */
-function validateBalanceToImbalance(context: MarketContext): boolean {
+function validateBalanceToImbalance(context: MarketContext): ConditionTrace {
   logger.info('  [1/4] Validating Balance → Imbalance Transition...');
 
+  const { inBalance, transition, transitionDirection, imbalanceSize } = context.balanceZones;
+  const minImbalance = getThreshold('imbalanceThreshold') * context.price;
+  const observed = { inBalance, transition, transitionDirection, imbalanceSize };
+  const threshold = { inBalance: false, transition: true, minImbalanceSize: minImbalance };
+  const check = conditionFor('balanceToImbalance', 'Balance → Imbalance', observed, threshold);
+
   // Must transition from balance to imbalance
-  if (context.balanceZones.inBalance === true) {
+  if (inBalance) {
     logger.warn('      ✗ Market still in balance, waiting for imbalance');
-    return false;
+    return check.fail('Market still in balance, waiting for imbalance');
+  }
+
+  if (!transition) {
+    logger.warn('      ✗ Imbalance did not start from a balance zone');
+    return check.fail('Imbalance did not start from a balance zone');
+  }
+
+  if (imbalanceSize < minImbalance) {
+    const message =
+      `Imbalance too small: ${imbalanceSize.toFixed(2)} (needs ${minImbalance.toFixed(2)}+)`;
+    logger.warn(`      ✗ ${message}`);
+    return check.fail(message);
   }
 
-  logger.success('      ✓ Balance → Imbalance transition confirmed');
-  return true;
+  const direction = transitionDirection?.toUpperCase();
+  logger.success(`      ✓ Balance → ${direction} imbalance transition confirmed`);
+  return check.pass(`Balance → ${transitionDirection} imbalance transition confirmed`);
 }
 
 /**
  * 2. LVN DETECTED
  * Validates Low Volume Node presence (critical for Fabio plays)
  */
-function validateLVNDetected(context: MarketContext): boolean {
+function validateLVNDetected(context: MarketContext): ConditionTrace {
   logger.info('  [2/4] Validating LVN (Low Volume Node)...');
 
-  if (!context.balanceZones.lvnDetected) {
+  const { lvnDetected, lvnLevels } = context.balanceZones;
+  const observed = { lvnDetected, lvnCount: lvnLevels.length };
+  const threshold = { lvnDetected: true };
+  const check = conditionFor('lvnDetected', 'LVN Detected', observed, threshold);
+
+  if (!lvnDetected) {
     logger.warn('      ✗ No LVN detected in volume profile');
-    return false;
+    return check.fail('No LVN detected in volume profile');
   }
 
-  logger.success('      ✓ LVN detected in volume profile');
-  return true;
+  logger.success(`      ✓ ${lvnLevels.length} LVN(s) detected in volume profile`);
+  return check.pass(`${lvnLevels.length} LVN(s) detected in volume profile`);
 }
 
 /**
  * 3. FOOTPRINT AGGRESSION
  * Validates aggressive buying/selling in footprint chart
  */
-function validateFootprintAggression(context: MarketContext): boolean {
+function validateFootprintAggression(context: MarketContext): ConditionTrace {
   logger.info('  [3/4] Validating Footprint Aggression...');
 
+  const observed = { displacement: context.displacement, volumeSpike: context.volumeSpike };
+  const threshold = { displacement: true, volumeSpike: true };
+  const check = conditionFor('footprintAggression', 'Footprint Aggression', observed, threshold);
+
   // Check for displacement (aggressive move)
   if (!context.displacement) {
     logger.warn('      ✗ No displacement/aggression detected');
-    return false;
+    return check.fail('No displacement/aggression detected');
   }
 
   // Volume spike indicates aggressive participation
   if (!context.volumeSpike) {
     logger.warn('      ✗ No volume spike to support aggression');
-    return false;
+    return check.fail('No volume spike to support aggression');
   }
 
   logger.success('      ✓ Footprint aggression confirmed (displacement + volume)');
-  return true;
+  return check.pass('Footprint aggression confirmed (displacement + volume)');
 }
 
 /**
  * 4. ORDERFLOW CONFIRMATION
  * Validates orderflow confirms continuation or shows rejection
  */
-function validateOrderflow(context: MarketContext): boolean {
+function validateOrderflow(context: MarketContext): ConditionTrace {
   logger.info('  [4/4] Validating Orderflow...');
 
+  const observed = {
+    structureBreak: context.structureBreak,
+    breakDirection: context.breakDirection,
+    transitionDirection: context.balanceZones.transitionDirection,
+    htfTrend: context.htfTrend,
+  };
+  const threshold = {
+    structureBreak: true,
+    breakDirection: context.balanceZones.transitionDirection,
+    htfTrend: 'bullish | bearish',
+  };
+  const check = conditionFor('orderflowConfirmation', 'Orderflow Confirmation', observed, threshold);
+
   // Orderflow should show structure break in trend direction
   if (!context.structureBreak) {
     logger.warn('      ✗ No structure break to confirm orderflow');
-    return false;
+    return check.fail('No structure break to confirm orderflow');
+  }
+
+  // The break must agree with the imbalance leaving balance
+  const { transitionDirection } = context.balanceZones;
+  if (transitionDirection && context.breakDirection !== transitionDirection) {
+    const message =
+      `Structure break ${context.breakDirection} against ${transitionDirection} imbalance`;
+    logger.warn(`      ✗ ${message}`);
+    return check.fail(message);
   }
 
   // HTF bias should align with orderflow
   if (context.htfTrend === 'neutral') {
     logger.warn('      ✗ HTF neutral, need clear bias for orderflow confirmation');
-    return false;
+    return check.fail('HTF neutral, need clear bias for orderflow confirmation');
   }
 
   logger.success(`      ✓ Orderflow confirmed: ${context.htfTrend.toUpperCase()} continuation`);
-  return true;
+  return check.pass(`Orderflow confirmed: ${context.htfTrend} continuation`);
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -179,9 +240,13 @@ function validateOrderflow(context: MarketContext): boolean {
 // ═══════════════════════════════════════════════════════════════
 
 /**
- * Detect imbalance direction based on HTF and structure
+ * Detect imbalance direction from the auction transition, then HTF and structure
  */
 function detectImbalanceDirection(context: MarketContext): 'bullish' | 'bearish' {
+  if (context.balanceZones.transitionDirection) {
+    return context.balanceZones.transitionDirection;
+  }
+
   if (context.htfTrend === 'bullish' && context.breakDirection === 'bullish') {
     return 'bullish';
   } else if (context.htfTrend === 'bearish' && context.breakDirection === 'bearish') {
@@ -195,10 +260,33 @@ function detectImbalanceDirection(context: MarketContext): 'bullish' | 'bearish'
 // SIGNAL BUILDER
 // ═══════════════════════════════════════════════════════════════
 
+/**
+ * Score Fabio confidence
+ * Base confidence: playbooks.json baseConfidence (78%)
+ * Add strongAggression (+10%) for volume spike + displacement
+ * Add clearLVN (+7%) for a clear LVN
+ */
+function scoreFabio(context: MarketContext): ConfidenceScore {
+  return scoreConfidence(getPlaybookConfig('Fabio').baseConfidence, [
+    {
+      id: 'strongAggression',
+      label: 'Volume spike + displacement',
+      delta: getConfidenceModifier('strongAggression'),
+      applied: context.volumeSpike && context.displacement,
+    },
+    {
+      id: 'clearLVN',
+      label: 'Clear LVN',
+      delta: getConfidenceModifier('clearLVN'),
+      applied: context.balanceZones.lvnDetected,
+    },
+  ]);
+}
+
 /**
  * Build Fabio Playbook Signal
  */
-function buildFabioSignal(context: MarketContext): PlaybookSignal {
+function buildFabioSignal(context: MarketContext, confidence: number): PlaybookSignal {
   const direction = detectImbalanceDirection(context);
 
   // Build context string
@@ -210,11 +298,6 @@ function buildFabioSignal(context: MarketContext): PlaybookSignal {
       ? 'Target = Value Area High (VAH) OR imbalance fill'
       : 'Target = Value Area Low (VAL) OR imbalance fill';
 
-  // Calculate confidence
-  let confidence = 78;
-  if (context.volumeSpike && context.displacement) confidence += 10; // Strong aggression
-  if (context.balanceZones.lvnDetected) confidence += 7; // Clear LVN
-
   logger.info('  ═══════════════════════════════════════════');
   logger.info('  🎯 FABIO SIGNAL GENERATED');
   logger.info('  ═══════════════════════════════════════════');
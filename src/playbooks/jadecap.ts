@@ -1,8 +1,19 @@
-import { MarketContext, PlaybookSignal } from '@custom-types/context';
+import {
+  ConditionTrace,
+  MarketContext,
+  PlaybookEvaluation,
+  PlaybookSignal,
+} from '@custom-types/context';
 import { createLogger } from '@utils/agent_logger';
-import { getPlaybookConfig, isPlaybookEnabled } from '@config/config';
-// Import real session and liquidity detectors
-import { detectSessionSweep, detectFVG, detectMSS } from '@detectors/liquidity';
+import { getConfidenceModifier, getPlaybookConfig, isPlaybookEnabled } from '@config/config';
+import {
+  ConfidenceScore,
+  conditionFor,
+  createTrace,
+  disabledEvaluation,
+  enforceMinConfidence,
+  scoreConfidence,
+} from './trace';
 
 // Create logger for JadeCap playbook
 const logger = createLogger('JadeCap');
@@ -26,69 +37,62 @@ const logger = createLogger('JadeCap');
  * @returns PlaybookSignal or null if conditions not met
  */
 export function checkJadeCap(context: MarketContext): PlaybookSignal | null {
+  return evaluateJadeCap(context).signal;
+}
+
+/**
+ * Evaluate JadeCap Playbook with a full per-condition trace
+ * @param context - Market context from buildMarketContext()
+ * @returns PlaybookEvaluation with signal (or null) and trace
+ */
+export function evaluateJadeCap(context: MarketContext): PlaybookEvaluation {
+  const config = getPlaybookConfig('JadeCap');
+
   // Check if playbook is enabled in config
   if (!isPlaybookEnabled('JadeCap')) {
     logger.warn('  ✗ [JADECAP] Playbook is disabled in config\n');
-    return null;
+    return disabledEvaluation('JadeCap', config.minConfidence);
   }
 
-  // Execute validation logic
-  const signal = executeJadeCap(context);
+  // Execute validation logic, then check minimum confidence threshold
+  const evaluation = enforceMinConfidence(executeJadeCap(context), config.minConfidence);
 
-  // If signal generated, check minimum confidence threshold
-  if (signal) {
-    const config = getPlaybookConfig('JadeCap');
-    if (signal.confidence < config.minConfidence) {
-      logger.warn(`  ✗ [JADECAP] Confidence ${signal.confidence}% below minimum threshold ${config.minConfidence}%\n`);
-      return null;
-    }
+  if (evaluation.trace.rejectedBy === 'minConfidence') {
+    const { confidence } = evaluation.trace;
+    logger.warn(`  ✗ [JADECAP] Confidence ${confidence}% below minimum threshold ${config.minConfidence}%\n`);
   }
 
-  return signal;
+  return evaluation;
 }
 
-export function executeJadeCap(context: MarketContext): PlaybookSignal | null {
+export function executeJadeCap(context: MarketContext): PlaybookEvaluation {
   logger.info('  ┌─────────────────────────────────────────┐');
   logger.info('  │  JADECAP LIQUIDITY MODEL - VALIDATION   │');
   logger.info('  └─────────────────────────────────────────┘\n');
 
-  // ─────────────────────────────────────────────────────────────
-  // 1. SESSION SWEEP
-  // ─────────────────────────────────────────────────────────────
-  if (!validateSessionSweep(context)) {
-    logger.warn('  ✗ [JADECAP] Session sweep not detected\n');
-    return null;
-  }
-
-  // ─────────────────────────────────────────────────────────────
-  // 2. NY WINDOW TIMING
-  // ─────────────────────────────────────────────────────────────
-  if (!validateNYWindow(context)) {
-    logger.warn('  ✗ [JADECAP] Not in NY window (9:30-11:30)\n');
-    return null;
-  }
-
-  // ─────────────────────────────────────────────────────────────
-  // 3. FVG OR MSS AFTER SWEEP
-  // ─────────────────────────────────────────────────────────────
-  if (!validateFVGOrMSS(context)) {
-    logger.warn('  ✗ [JADECAP] No FVG/MSS detected after sweep\n');
-    return null;
-  }
-
-  // ─────────────────────────────────────────────────────────────
-  // 4. VOLATILITY CONTEXT
-  // ─────────────────────────────────────────────────────────────
-  if (!validateVolatilityContext(context)) {
-    logger.warn('  ✗ [JADECAP] Volatility context not favorable\n');
-    return null;
+  // Every condition is evaluated so the trace shows the full picture
+  const conditions = [
+    validateSessionSweep(context), // 1. SESSION SWEEP
+    validateNYWindow(context), // 2. NY WINDOW TIMING
+    validateFVGOrMSS(context), // 3. FVG OR MSS AFTER SWEEP
+    validateVolatilityContext(context), // 4. VOLATILITY CONTEXT
+  ];
+
+  const failed = conditions.filter((c) => !c.passed);
+  if (failed.length > 0) {
+    logger.warn(`  ✗ [JADECAP] Validation failed: ${failed.map((c) => c.label).join(', ')}\n`);
+    return { signal: null, trace: createTrace('JadeCap', conditions) };
   }
 
   // ─────────────────────────────────────────────────────────────
   // ALL VALIDATIONS PASSED → BUILD SIGNAL
   // ─────────────────────────────────────────────────────────────
   logger.success('  ✓✓✓ ALL JADECAP VALIDATIONS PASSED ✓✓✓\n');
-  return buildJadeCapSignal(context);
+  const score = scoreJadeCap(context);
+  return {
+    signal: buildJadeCapSignal(context, score.confidence),
+    trace: createTrace('JadeCap', conditions, score),
+  };
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -99,88 +103,132 @@ export function executeJadeCap(context: MarketContext): PlaybookSignal | null {
  * 1. SESSION SWEEP
  * Validates liquidity sweep occurred during Asian or London session
  */
-function validateSessionSweep(context: MarketContext): boolean {
+function validateSessionSweep(context: MarketContext): ConditionTrace {
   logger.info('  [1/4] Validating Session Sweep...');
 
+  const sessionSweep = context.sessionSweep;
+  const observed = {
+    liquiditySweep: context.liquiditySweep,
+    sweptDirection: context.sweptDirection ?? null,
+    sessionSweep: sessionSweep?.session ?? null,
+    sweptLevel: sessionSweep?.sweptLevel ?? null,
+  };
+  const threshold = { liquiditySweep: true, sweptDirection: 'high | low' };
+  const check = conditionFor('sessionSweep', 'Session Sweep', observed, threshold);
+
+  // Asian/London range sweep from the levels engine
+  if (sessionSweep?.detected) {
+    const side = `${sessionSweep.session?.toUpperCase()} ${sessionSweep.direction?.toUpperCase()}`;
+    const message = `Session sweep confirmed: ${side} swept at ${sessionSweep.sweptLevel}`;
+    logger.success(`      ✓ ${message}`);
+    return check.pass(message);
+  }
+
   if (!context.liquiditySweep) {
     logger.warn('      ✗ No liquidity sweep detected');
-    return false;
+    return check.fail('No liquidity sweep detected');
   }
 
   // For JadeCap, we look for sweeps that happened earlier (Asian/London)
   // that are being reacted to during NY session
   if (!context.sweptDirection) {
     logger.warn('      ✗ Sweep direction not identified');
-    return false;
+    return check.fail('Sweep direction not identified');
   }
 
   logger.success(`      ✓ Session sweep confirmed: ${context.sweptDirection?.toUpperCase()} side swept`);
-  return true;
+  return check.pass(`Session sweep confirmed: ${context.sweptDirection} side swept`);
 }
 
 /**
  * 2. NY WINDOW TIMING
  * Validates trade setup during optimal NY window (9:30-11:30 AM EST)
  */
-function validateNYWindow(context: MarketContext): boolean {
+function validateNYWindow(context: MarketContext): ConditionTrace {
   logger.info('  [2/4] Validating NY Window (9:30-11:30)...');
 
+  const inKillZone = context.sessionWindows.includes('nyAmKillZone');
+  const observed = { session: context.session, nyAmKillZone: inKillZone };
+  const threshold = { session: 'ny', nyAmKillZone: true };
+  const check = conditionFor('nyWindow', 'NY Window', observed, threshold);
+
   // Must be NY session for JadeCap model
   if (context.session !== 'ny') {
     logger.warn(`      ✗ Wrong session: ${context.session} (need NY session)`);
-    return false;
+    return check.fail(`Wrong session: ${context.session} (need NY session)`);
   }
 
-  // In real implementation, check actual time is between 9:30-11:30
-  // For now, assume if it's NY session, we're good
-  logger.success('      ✓ NY session window confirmed');
-  return true;
+  // 9:30-11:30 New York time, DST-aware (session calendar)
+  if (!inKillZone) {
+    logger.warn('      ✗ Outside NY AM kill zone (9:30-11:30 New York)');
+    return check.fail('Outside NY AM kill zone (9:30-11:30 New York)');
+  }
+
+  logger.success('      ✓ NY AM kill zone confirmed');
+  return check.pass('NY AM kill zone confirmed');
 }
 
 /**
  * 3. FVG OR MSS VALIDATION
- * Validates Fair Value Gap or Market Structure Shift after sweep
+ * Validates Fair Value Gap or Market Structure Shift after sweep,
+ * pointing away from the swept side (low sweep → bullish FVG/MSS)
  */
-function validateFVGOrMSS(context: MarketContext): boolean {
+function validateFVGOrMSS(context: MarketContext): ConditionTrace {
   logger.info('  [3/4] Validating FVG/MSS Formation...');
 
-  // Check for structure break (MSS indicator)
-  if (!context.structureBreak) {
-    logger.warn('      ✗ No MSS (Market Structure Shift) detected');
-    return false;
+  const expected = determineTradeDirection(context);
+  const { fvg, structure } = context;
+  const mssDirection = structure.shift.detected
+    ? structure.shift.direction
+    : structure.mss
+    ? structure.direction
+    : null;
+
+  const observed = { fvg: fvg.exists ? fvg.type : null, mss: mssDirection };
+  const threshold = { fvgOrMss: expected };
+  const check = conditionFor('fvgOrMss', 'FVG / MSS', observed, threshold);
+
+  if (fvg.exists && fvg.type === expected) {
+    const message = `${expected} FVG after sweep: ${fvg.low} - ${fvg.high}`;
+    logger.success(`      ✓ ${message}`);
+    return check.pass(message);
   }
 
-  // Displacement indicates potential FVG
-  if (!context.displacement) {
-    logger.warn('      ✗ No displacement (FVG indicator) detected');
-    return false;
+  if (mssDirection === expected) {
+    const level = structure.shift.detected ? structure.shift.level : structure.level;
+    logger.success(`      ✓ ${expected.toUpperCase()} MSS after sweep at ${level}`);
+    return check.pass(`${expected} MSS after sweep at ${level}`);
   }
 
-  logger.success('      ✓ FVG/MSS confirmed after sweep');
-  return true;
+  logger.warn(`      ✗ No ${expected} FVG or MSS after sweep`);
+  return check.fail(`No ${expected} FVG or MSS after sweep`);
 }
 
 /**
  * 4. VOLATILITY CONTEXT
  * Validates favorable volatility conditions
  */
-function validateVolatilityContext(context: MarketContext): boolean {
+function validateVolatilityContext(context: MarketContext): ConditionTrace {
   logger.info('  [4/4] Validating Volatility Context...');
 
+  const observed = { volatility: context.volatility, volumeSpike: context.volumeSpike };
+  const threshold = { volatility: 'medium | high', volumeSpike: true };
+  const check = conditionFor('volatilityContext', 'Volatility Context', observed, threshold);
+
   // JadeCap works best in high volatility
   if (context.volatility === 'low') {
     logger.warn('      ✗ Low volatility, JadeCap prefers high volatility');
-    return false;
+    return check.fail('Low volatility, JadeCap prefers high volatility');
   }
 
   // Volume spike indicates active market
   if (!context.volumeSpike) {
     logger.warn('      ✗ No volume spike, market may be inactive');
-    return false;
+    return check.fail('No volume spike, market may be inactive');
   }
 
   logger.success('      ✓ High volatility + volume spike confirmed');
-  return true;
+  return check.pass('High volatility + volume spike confirmed');
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -191,11 +239,16 @@ function validateVolatilityContext(context: MarketContext): boolean {
  * Determine trade direction based on sweep and HTF
  */
 function determineTradeDirection(context: MarketContext): 'bullish' | 'bearish' {
+  // Session range sweep takes precedence over generic liquidity sweeps
+  const swept = context.sessionSweep?.detected
+    ? context.sessionSweep.direction
+    : context.sweptDirection;
+
   // After low sweep → expect bullish reversal
   // After high sweep → expect bearish reversal
-  if (context.sweptDirection === 'low') {
+  if (swept === 'low') {
     return 'bullish';
-  } else if (context.sweptDirection === 'high') {
+  } else if (swept === 'high') {
     return 'bearish';
   }
 
@@ -207,10 +260,41 @@ function determineTradeDirection(context: MarketContext): 'bullish' | 'bearish'
 // SIGNAL BUILDER
 // ═══════════════════════════════════════════════════════════════
 
+/**
+ * Score JadeCap confidence
+ * Base confidence: playbooks.json baseConfidence (82%)
+ * Add strongMove (+8%) for volume spike + displacement
+ * Add highVolatility (+5%) for optimal (high) volatility
+ * Add orderBlock (+5%) when price sits in an order block in the trade direction
+ */
+function scoreJadeCap(context: MarketContext): ConfidenceScore {
+  const orderBlock = context.orderBlocks.atPrice;
+  return scoreConfidence(getPlaybookConfig('JadeCap').baseConfidence, [
+    {
+      id: 'strongMove',
+      label: 'Volume spike + displacement',
+      delta: getConfidenceModifier('strongMove'),
+      applied: context.volumeSpike && context.displacement,
+    },
+    {
+      id: 'highVolatility',
+      label: 'High volatility',
+      delta: getConfidenceModifier('highVolatility'),
+      applied: context.volatility === 'high',
+    },
+    {
+      id: 'orderBlock',
+      label: 'Price at order block',
+      delta: getConfidenceModifier('orderBlock'),
+      applied: orderBlock !== null && orderBlock.type === determineTradeDirection(context),
+    },
+  ]);
+}
+
 /**
  * Build JadeCap Playbook Signal
  */
-function buildJadeCapSignal(context: MarketContext): PlaybookSignal {
+function buildJadeCapSignal(context: MarketContext, confidence: number): PlaybookSignal {
   const direction = determineTradeDirection(context);
 
   // Build context string
@@ -222,11 +306,6 @@ function buildJadeCapSignal(context: MarketContext): PlaybookSignal {
       ? 'Target = Opposite side liquidity OR recent high'
       : 'Target = Opposite side liquidity OR recent low';
 
-  // Calculate confidence
-  let confidence = 82;
-  if (context.volumeSpike && context.displacement) confidence += 8; // Strong move
-  if (context.volatility === 'high') confidence += 5; // Optimal volatility
-
   logger.info('  ═══════════════════════════════════════════');
   logger.info('  🎯 JADECAP SIGNAL GENERATED');
   logger.info('  ═══════════════════════════════════════════');
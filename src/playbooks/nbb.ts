@@ -1,6 +1,24 @@
-import { MarketContext, PlaybookSignal } from '@custom-types/context';
+import {
+  ConditionTrace,
+  MarketContext,
+  PlaybookEvaluation,
+  PlaybookSignal,
+} from '@custom-types/context';
 import { createLogger } from '@utils/agent_logger';
-import { getPlaybookConfig, isPlaybookEnabled } from '@config/config';
+import {
+  getConfidenceModifier,
+  getPlaybookConfig,
+  getThreshold,
+  isPlaybookEnabled,
+} from '@config/config';
+import {
+  ConfidenceScore,
+  conditionFor,
+  createTrace,
+  disabledEvaluation,
+  enforceMinConfidence,
+  scoreConfidence,
+} from './trace';
 // Import real detectors (for additional validation if needed)
 import { detectFVG, detectMSS, detectSwingHighsLows } from '@detectors/liquidity';
 import { detectMarketStructureShift, detectOrderBlocks } from '@detectors/structure';
@@ -23,7 +41,7 @@ const logger = createLogger('NBB');
  *   - Volume Spike + Displacement
  *   - OTE Retrace (0.62, 0.705, 0.79)
  *   - Session Filter
- *   - ADR validation (optional)
+ *   - ADR not exhausted (thresholds.adrMaxPct, skipped without ADR history)
  */
 
 /**
@@ -32,85 +50,65 @@ const logger = createLogger('NBB');
  * @returns PlaybookSignal or null if conditions not met
  */
 export function checkNBB(context: MarketContext): PlaybookSignal | null {
+  return evaluateNBB(context).signal;
+}
+
+/**
+ * Evaluate NBB Playbook with a full per-condition trace
+ * @param context - Market context from buildMarketContext()
+ * @returns PlaybookEvaluation with signal (or null) and trace
+ */
+export function evaluateNBB(context: MarketContext): PlaybookEvaluation {
+  const config = getPlaybookConfig('NBB');
+
   // Check if playbook is enabled in config
   if (!isPlaybookEnabled('NBB')) {
     logger.warn('  ✗ [NBB] Playbook is disabled in config\n');
-    return null;
+    return disabledEvaluation('NBB', config.minConfidence);
   }
 
-  // Execute validation logic
-  const signal = executeNBB(context);
+  // Execute validation logic, then check minimum confidence threshold
+  const evaluation = enforceMinConfidence(executeNBB(context), config.minConfidence);
 
-  // If signal generated, check minimum confidence threshold
-  if (signal) {
-    const config = getPlaybookConfig('NBB');
-    if (signal.confidence < config.minConfidence) {
-      logger.warn(`  ✗ [NBB] Confidence ${signal.confidence}% below minimum threshold ${config.minConfidence}%\n`);
-      return null;
-    }
+  if (evaluation.trace.rejectedBy === 'minConfidence') {
+    const { confidence } = evaluation.trace;
+    logger.warn(`  ✗ [NBB] Confidence ${confidence}% below minimum threshold ${config.minConfidence}%\n`);
   }
 
-  return signal;
+  return evaluation;
 }
 
-export function executeNBB(context: MarketContext): PlaybookSignal | null {
+export function executeNBB(context: MarketContext): PlaybookEvaluation {
   logger.info('  ┌─────────────────────────────────────────┐');
   logger.info('  │  NBB PLAYBOOK MODULE - FULL VALIDATION  │');
   logger.info('  └─────────────────────────────────────────┘\n');
 
-  // ─────────────────────────────────────────────────────────────
-  // 1. HTF BIAS
-  // ─────────────────────────────────────────────────────────────
-  if (!validateHTFBias(context)) {
-    logger.warn('  ✗ [NBB] HTF Bias validation failed\n');
-    return null;
-  }
-
-  // ─────────────────────────────────────────────────────────────
-  // 2. PO3 ZONE
-  // ─────────────────────────────────────────────────────────────
-  if (!validatePO3Zone(context)) {
-    logger.warn('  ✗ [NBB] PO3 Zone validation failed\n');
-    return null;
-  }
-
-  // ─────────────────────────────────────────────────────────────
-  // 3. LIQUIDITY SWEEP
-  // ─────────────────────────────────────────────────────────────
-  if (!validateLiquiditySweep(context)) {
-    logger.warn('  ✗ [NBB] Liquidity Sweep validation failed\n');
-    return null;
-  }
-
-  // ─────────────────────────────────────────────────────────────
-  // 4. STRUCTURE BREAK
-  // ─────────────────────────────────────────────────────────────
-  if (!validateStructureBreak(context)) {
-    logger.warn('  ✗ [NBB] Structure Break validation failed\n');
-    return null;
-  }
-
-  // ─────────────────────────────────────────────────────────────
-  // 5. VOLUME SPIKE
-  // ─────────────────────────────────────────────────────────────
-  if (!validateVolumeSpike(context)) {
-    logger.warn('  ✗ [NBB] Volume Spike validation failed\n');
-    return null;
-  }
-
-  // ─────────────────────────────────────────────────────────────
-  // 6. OTE RETRACE
-  // ─────────────────────────────────────────────────────────────
-  if (!validateOTERetrace(context)) {
-    logger.warn('  ✗ [NBB] OTE Retrace validation failed\n');
-    return null;
+  // Every condition is evaluated so the trace shows the full picture
+  const conditions = [
+    validateHTFBias(context), // 1. HTF BIAS
+    validatePO3Zone(context), // 2. PO3 ZONE
+    validateLiquiditySweep(context), // 3. LIQUIDITY SWEEP
+    validateStructureBreak(context), // 4. STRUCTURE BREAK
+    validateVolumeSpike(context), // 5. VOLUME SPIKE
+    validateOTERetrace(context), // 6. OTE RETRACE
+    validateADR(context), // 7. ADR
+  ];
+
+  const failed = conditions.filter((c) => !c.passed);
+  if (failed.length > 0) {
+    logger.warn(`  ✗ [NBB] Validation failed: ${failed.map((c) => c.label).join(', ')}\n`);
+    return { signal: null, trace: createTrace('NBB', conditions) };
   }
 
   // ─────────────────────────────────────────────────────────────
   // ALL VALIDATIONS PASSED → BUILD SIGNAL
   // ─────────────────────────────────────────────────────────────
   logger.success('  ✓✓✓ ALL NBB VALIDATIONS PASSED ✓✓✓\n');
-  return buildNBBSignal(context);
+  const score = scoreNBB(context);
+  return {
+    signal: buildNBBSignal(context, score.confidence),
+    trace: createTrace('NBB', conditions, score),
+  };
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -121,16 +119,20 @@ export function executeNBB(context: MarketContext): PlaybookSignal | null {
  * 1. HTF BIAS VALIDATION
  * Confirms clear bullish or bearish trend
  */
-function validateHTFBias(context: MarketContext): boolean {
-  logger.info('  [1/6] Validating HTF Bias...');
+function validateHTFBias(context: MarketContext): ConditionTrace {
+  logger.info('  [1/7] Validating HTF Bias...');
+
+  const observed = { htfTrend: context.htfTrend };
+  const threshold = { expected: 'bullish | bearish' };
+  const check = conditionFor('htfBias', 'HTF Bias', observed, threshold);
 
   if (context.htfTrend === 'neutral') {
     logger.warn('      ✗ HTF is neutral, NBB requires clear bias');
-    return false;
+    return check.fail('HTF is neutral, NBB requires clear bias');
   }
 
   logger.success(`      ✓ HTF Bias: ${context.htfTrend.toUpperCase()}`);
-  return true;
+  return check.pass(`HTF Bias: ${context.htfTrend}`);
 }
 
 /**
@@ -139,34 +141,44 @@ function validateHTFBias(context: MarketContext): boolean {
  *   - Bullish: Price in discount (below equilibrium)
  *   - Bearish: Price in premium (above equilibrium)
  */
-function validatePO3Zone(context: MarketContext): boolean {
-  logger.info('  [2/6] Validating PO3 Zone...');
+function validatePO3Zone(context: MarketContext): ConditionTrace {
+  logger.info('  [2/7] Validating PO3 Zone...');
+
+  const observed = {
+    po3ZonePresent: context.po3ZonePresent,
+    priceAtPO3: context.priceAtPO3,
+    htfTrend: context.htfTrend,
+  };
+  const threshold = {
+    po3ZonePresent: true,
+    priceAtPO3: true,
+    zone: context.htfTrend === 'bullish' ? 'discount' : 'premium',
+  };
+  const check = conditionFor('po3Zone', 'PO3 Zone', observed, threshold);
 
   if (!context.po3ZonePresent) {
     logger.warn('      ✗ No PO3 zone detected');
-    return false;
+    return check.fail('No PO3 zone detected');
   }
 
   if (!context.priceAtPO3) {
     logger.warn('      ✗ Price not at PO3 zone');
-    return false;
+    return check.fail('Price not at PO3 zone');
   }
 
   // Check if price is in correct zone based on HTF bias
   const isPO3Valid = isPriceInPO3Zone(context);
   if (!isPO3Valid) {
-    logger.warn(
-      `      ✗ Price in wrong PO3 zone (HTF ${context.htfTrend}, needs ${
-        context.htfTrend === 'bullish' ? 'discount' : 'premium'
-      })`
-    );
-    return false;
+    const message = `Price in wrong PO3 zone (HTF ${context.htfTrend}, needs ${
+      context.htfTrend === 'bullish' ? 'discount' : 'premium'
+    })`;
+    logger.warn(`      ✗ ${message}`);
+    return check.fail(message);
   }
 
-  logger.success(
-    `      ✓ Price at PO3 ${context.htfTrend === 'bullish' ? 'DISCOUNT' : 'PREMIUM'} zone`
-  );
-  return true;
+  const zone = context.htfTrend === 'bullish' ? 'DISCOUNT' : 'PREMIUM';
+  logger.success(`      ✓ Price at PO3 ${zone} zone`);
+  return check.pass(`Price at PO3 ${zone.toLowerCase()} zone`);
 }
 
 /**
@@ -175,25 +187,36 @@ function validatePO3Zone(context: MarketContext): boolean {
  *   - Bullish HTF: Sweep lows
  *   - Bearish HTF: Sweep highs
  */
-function validateLiquiditySweep(context: MarketContext): boolean {
-  logger.info('  [3/6] Validating Liquidity Sweep...');
+function validateLiquiditySweep(context: MarketContext): ConditionTrace {
+  logger.info('  [3/7] Validating Liquidity Sweep...');
+
+  const observed = {
+    liquiditySweep: context.liquiditySweep,
+    sweptDirection: context.sweptDirection,
+    htfTrend: context.htfTrend,
+  };
+  const threshold = {
+    liquiditySweep: true,
+    sweptDirection:
+      context.htfTrend === 'bullish' ? 'low' : context.htfTrend === 'bearish' ? 'high' : null,
+  };
+  const check = conditionFor('liquiditySweep', 'Liquidity Sweep', observed, threshold);
 
   if (!context.liquiditySweep) {
     logger.warn('      ✗ No liquidity sweep detected');
-    return false;
+    return check.fail('No liquidity sweep detected');
   }
 
   // Validate sweep direction matches HTF bias
   const sweepValid = detectLiquiditySweep(context);
   if (!sweepValid) {
-    logger.warn(
-      `      ✗ Sweep direction wrong (HTF ${context.htfTrend}, swept ${context.sweptDirection})`
-    );
-    return false;
+    const message = `Sweep direction wrong (HTF ${context.htfTrend}, swept ${context.sweptDirection})`;
+    logger.warn(`      ✗ ${message}`);
+    return check.fail(message);
   }
 
   logger.success(`      ✓ Liquidity swept: ${context.sweptDirection?.toUpperCase()} side`);
-  return true;
+  return check.pass(`Liquidity swept: ${context.sweptDirection} side`);
 }
 
 /**
@@ -202,46 +225,57 @@ function validateLiquiditySweep(context: MarketContext): boolean {
  *   - Bullish: Break of structure upward
  *   - Bearish: Break of structure downward
  */
-function validateStructureBreak(context: MarketContext): boolean {
-  logger.info('  [4/6] Validating Structure Break...');
+function validateStructureBreak(context: MarketContext): ConditionTrace {
+  logger.info('  [4/7] Validating Structure Break...');
+
+  const observed = {
+    structureBreak: context.structureBreak,
+    breakDirection: context.breakDirection,
+    htfTrend: context.htfTrend,
+  };
+  const threshold = { structureBreak: true, breakDirection: context.htfTrend };
+  const check = conditionFor('structureBreak', 'Structure Break', observed, threshold);
 
   if (!context.structureBreak) {
     logger.warn('      ✗ No structure break detected');
-    return false;
+    return check.fail('No structure break detected');
   }
 
   // Validate break direction aligns with HTF bias
   const breakValid = detectStructureBreak(context);
   if (!breakValid) {
-    logger.warn(
-      `      ✗ Structure break misaligned (HTF ${context.htfTrend}, break ${context.breakDirection})`
-    );
-    return false;
+    const message = `Structure break misaligned (HTF ${context.htfTrend}, break ${context.breakDirection})`;
+    logger.warn(`      ✗ ${message}`);
+    return check.fail(message);
   }
 
   logger.success(`      ✓ Structure break confirmed: ${context.breakDirection?.toUpperCase()}`);
-  return true;
+  return check.pass(`Structure break confirmed: ${context.breakDirection}`);
 }
 
 /**
  * 5. VOLUME SPIKE VALIDATION
  * Confirms volume spike with displacement
  */
-function validateVolumeSpike(context: MarketContext): boolean {
-  logger.info('  [5/6] Validating Volume Spike...');
+function validateVolumeSpike(context: MarketContext): ConditionTrace {
+  logger.info('  [5/7] Validating Volume Spike...');
+
+  const observed = { volumeSpike: context.volumeSpike, displacement: context.displacement };
+  const threshold = { volumeSpike: true, displacement: true };
+  const check = conditionFor('volumeSpike', 'Volume Spike', observed, threshold);
 
   if (!context.volumeSpike) {
     logger.warn('      ✗ No volume spike detected');
-    return false;
+    return check.fail('No volume spike detected');
   }
 
   if (!context.displacement) {
     logger.warn('      ✗ No displacement detected');
-    return false;
+    return check.fail('No displacement detected');
   }
 
   logger.success('      ✓ Volume spike + displacement confirmed');
-  return true;
+  return check.pass('Volume spike + displacement confirmed');
 }
 
 /**
@@ -249,28 +283,62 @@ function validateVolumeSpike(context: MarketContext): boolean {
  * Validates Optimal Trade Entry retrace:
  *   - Fib levels: 0.62, 0.705, 0.79 (50-79% range)
  */
-function validateOTERetrace(context: MarketContext): boolean {
-  logger.info('  [6/6] Validating OTE Retrace...');
+function validateOTERetrace(context: MarketContext): ConditionTrace {
+  logger.info('  [6/7] Validating OTE Retrace...');
+
+  const observed = { oteRetrace: context.oteRetrace, oteLevel: context.oteLevel };
+  const threshold = { oteRetrace: true, min: 0.62, max: 0.79 };
+  const check = conditionFor('oteRetrace', 'OTE Retrace', observed, threshold);
 
   if (!context.oteRetrace) {
     logger.warn('      ✗ No OTE retrace detected');
-    return false;
+    return check.fail('No OTE retrace detected');
   }
 
   if (context.oteLevel === null) {
     logger.warn('      ✗ OTE level not calculated');
-    return false;
+    return check.fail('OTE level not calculated');
   }
 
   // Validate OTE level is within acceptable range (0.62 - 0.79)
   const oteValid = context.oteLevel >= 0.62 && context.oteLevel <= 0.79;
   if (!oteValid) {
-    logger.warn(`      ✗ OTE level out of range: ${context.oteLevel} (needs 0.62-0.79)`);
-    return false;
+    const message = `OTE level out of range: ${context.oteLevel} (needs 0.62-0.79)`;
+    logger.warn(`      ✗ ${message}`);
+    return check.fail(message);
   }
 
   logger.success(`      ✓ OTE retrace confirmed at ${context.oteLevel}`);
-  return true;
+  return check.pass(`OTE retrace confirmed at ${context.oteLevel}`);
+}
+
+/**
+ * 7. ADR VALIDATION
+ * Rejects the setup once the day has used more than thresholds.adrMaxPct
+ * of its average daily range (no room left for the move)
+ */
+function validateADR(context: MarketContext): ConditionTrace {
+  logger.info('  [7/7] Validating ADR...');
+
+  const adrMaxPct = getThreshold('adrMaxPct');
+  const { adr = null, adrUsedPct = null } = context.ranges || {};
+  const observed = { adr, adrUsedPct };
+  const check = conditionFor('adr', 'ADR', observed, { adrMaxPct });
+
+  if (adrUsedPct === null) {
+    logger.info('      – No ADR history, check skipped');
+    return check.pass('No ADR history, check skipped');
+  }
+
+  const used = Math.round(adrUsedPct * 100);
+  if (adrUsedPct > adrMaxPct) {
+    const message = `Day range spent: ${used}% of ADR used (max ${Math.round(adrMaxPct * 100)}%)`;
+    logger.warn(`      ✗ ${message}`);
+    return check.fail(message);
+  }
+
+  logger.success(`      ✓ ADR OK: ${used}% used`);
+  return check.pass(`ADR OK: ${used}% used`);
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -357,11 +425,34 @@ function calculateOTELevel(high: number, low: number, currentPrice: number): num
 // SIGNAL BUILDER
 // ═══════════════════════════════════════════════════════════════
 
+/**
+ * Score NBB confidence
+ * Base confidence: playbooks.json baseConfidence (85%)
+ * Add strongVolume (+5%) if volume spike is strong (displacement)
+ * Add optimalOTE (+5%) if OTE level is 0.705 (optimal)
+ */
+function scoreNBB(context: MarketContext): ConfidenceScore {
+  return scoreConfidence(getPlaybookConfig('NBB').baseConfidence, [
+    {
+      id: 'strongVolume',
+      label: 'Displacement',
+      delta: getConfidenceModifier('strongVolume'),
+      applied: context.displacement,
+    },
+    {
+      id: 'optimalOTE',
+      label: 'OTE at 0.705',
+      delta: getConfidenceModifier('optimalOTE'),
+      applied: context.oteLevel === 0.705,
+    },
+  ]);
+}
+
 /**
  * Build NBB Playbook Signal
  * Constructs final signal with context, TP logic, and confidence
  */
-function buildNBBSignal(context: MarketContext): PlaybookSignal {
+function buildNBBSignal(context: MarketContext, confidence: number): PlaybookSignal {
   const direction = context.htfTrend === 'bullish' ? 'bullish' : 'bearish';
 
   // Build context string
@@ -375,14 +466,6 @@ function buildNBBSignal(context: MarketContext): PlaybookSignal {
       ? 'Target = Previous Day High OR MSS (Market Structure Shift)'
       : 'Target = Previous Day Low OR MSS (Market Structure Shift)';
 
-  // Calculate confidence
-  // Base confidence: 85%
-  // Add +5% if volume spike is strong
-  // Add +5% if OTE level is 0.705 (optimal)
-  let confidence = 85;
-  if (context.displacement) confidence += 5;
-  if (context.oteLevel === 0.705) confidence += 5;
-
   logger.info('  ═══════════════════════════════════════════');
   logger.info('  🎯 NBB SIGNAL GENERATED');
   logger.info('  ═══════════════════════════════════════════');
@@ -0,0 +1,350 @@
+import {
+  ConditionTrace,
+  Direction,
+  MarketContext,
+  PlaybookEvaluation,
+  PlaybookSignal,
+  TraceValue,
+} from '@custom-types/context';
+import {
+  RuleExpression,
+  RuleOperator,
+  RulePlaybookDefinition,
+  RulePredicate,
+  RuleScalar,
+  RuleValue,
+} from '@custom-types/playbook';
+import { createLogger } from '@utils/agent_logger';
+import { condition, createTrace, enforceMinConfidence, scoreConfidence } from './trace';
+
+// Create logger for rule-based playbooks
+const logger = createLogger('RulePlaybook');
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * DECLARATIVE (RULE-BASED) PLAYBOOKS
+ * ═══════════════════════════════════════════════════════════════
+ * Playbooks defined in config/playbooks.json instead of a module in
+ * src/playbooks/. Any entry with a "rules" block is evaluated here:
+ *
+ *   1. direction  → first source field that resolves to bullish/bearish
+ *   2. conditions → predicates over MarketContext fields (all must pass)
+ *   3. modifiers  → confidence deltas added to the playbook's baseConfidence
+ *   4. minConfidence from the playbook config
+ *
+ * Predicate values may be keyed by direction, so one rule covers both
+ * sides of the trade ({ "bullish": "low", "bearish": "high" }).
+ *
+ * Example (condition/modifier predicates: { field, op, value } or { all | any: [...] }):
+ * ```json
+ * "SweepReversal": {
+ *   "enabled": true,
+ *   "priority": 5,
+ *   "minConfidence": 70,
+ *   "baseConfidence": 70,
+ *   "description": "Sweep + FVG in the NY AM kill zone",
+ *   "requiredConditions": ["sweep", "killZone", "fvg"],
+ *   "rules": {
+ *     "direction": [
+ *       { "field": "sweptDirection", "map": { "low": "bullish", "high": "bearish" } }
+ *     ],
+ *     "conditions": [
+ *       { "id": "sweep", "label": "Liquidity Sweep",
+ *         "field": "liquiditySweep", "op": "eq", "value": true },
+ *       { "id": "killZone", "label": "NY AM Kill Zone",
+ *         "field": "sessionWindows", "op": "includes", "value": "nyAmKillZone" },
+ *       { "id": "fvg", "label": "FVG", "field": "fvg.type", "op": "eq",
+ *         "value": { "bullish": "bullish", "bearish": "bearish" } }
+ *     ],
+ *     "modifiers": [
+ *       { "id": "displacement", "label": "Displacement", "delta": 5,
+ *         "when": { "field": "displacement", "op": "eq", "value": true } }
+ *     ],
+ *     "tpLogic": {
+ *       "bullish": "Target = Previous Day High",
+ *       "bearish": "Target = Previous Day Low"
+ *     }
+ *   }
+ * }
+ * ```
+ */
+
+const OPERATORS: RuleOperator[] = [
+  'eq',
+  'neq',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'includes',
+  'exists',
+];
+
+/**
+ * Evaluate a rule-based playbook with a full per-condition trace
+ * @param name - Playbook key in config/playbooks.json
+ * @param playbook - The playbook's config entry (rules + base/min confidence)
+ * @param context - Market context from buildMarketContext()
+ */
+export function evaluateRulePlaybook(
+  name: string,
+  playbook: { rules: RulePlaybookDefinition; baseConfidence: number; minConfidence: number },
+  context: MarketContext
+): PlaybookEvaluation {
+  const { rules, minConfidence } = playbook;
+  logger.info(`  ┌─ ${name.toUpperCase()} (rule-based) ─┐`);
+
+  const direction = resolveDirection(rules, context);
+  const conditions: ConditionTrace[] = [directionCondition(rules, direction, context)];
+
+  if (direction) {
+    for (const rule of rules.conditions) {
+      const passed = matches(rule, context, direction);
+      conditions.push(
+        condition(
+          rule.id,
+          rule.label,
+          passed,
+          `${rule.label}: ${passed ? 'met' : 'not met'} (${describeExpression(rule, direction)})`,
+          observe(rule, context),
+          { rule: describeExpression(rule, direction) }
+        )
+      );
+    }
+  }
+
+  const failed = conditions.filter((c) => !c.passed);
+  if (!direction || failed.length > 0) {
+    logger.warn(`  ✗ [${name}] Validation failed: ${failed.map((c) => c.label).join(', ')}\n`);
+    return enforceMinConfidence(
+      { signal: null, trace: createTrace(name, conditions) },
+      minConfidence
+    );
+  }
+
+  const score = scoreConfidence(
+    playbook.baseConfidence,
+    (rules.modifiers || []).map((m) => ({
+      id: m.id,
+      label: m.label,
+      delta: m.delta,
+      applied: matches(m.when, context, direction),
+    }))
+  );
+
+  const signal: PlaybookSignal = {
+    playbookName: rules.signalName || name,
+    direction,
+    context: rules.conditions.map((c) => c.label).join(' + '),
+    tpLogic: typeof rules.tpLogic === 'string' ? rules.tpLogic : rules.tpLogic[direction],
+    confidence: score.confidence,
+    session: context.session,
+  };
+
+  logger.success(`  ✓ [${name}] ${direction.toUpperCase()} @ ${score.confidence}%`);
+
+  const evaluation = enforceMinConfidence(
+    { signal, trace: createTrace(name, conditions, score) },
+    minConfidence
+  );
+
+  if (evaluation.trace.rejectedBy === 'minConfidence') {
+    logger.warn(
+      `  ✗ [${name}] Confidence ${score.confidence}% below minimum threshold ${minConfidence}%\n`
+    );
+  }
+
+  return evaluation;
+}
+
+/**
+ * Check a rules block for structural errors
+ * @returns Error messages (empty when valid)
+ */
+export function validateRuleDefinition(
+  rules: RulePlaybookDefinition,
+  requiredConditions: string[]
+): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(rules.direction) || rules.direction.length === 0) {
+    errors.push('direction needs at least one source field');
+  }
+  if (!Array.isArray(rules.conditions) || rules.conditions.length === 0) {
+    errors.push('conditions must be a non-empty array');
+  }
+  if (
+    typeof rules.tpLogic !== 'string' &&
+    (typeof rules.tpLogic?.bullish !== 'string' || typeof rules.tpLogic?.bearish !== 'string')
+  ) {
+    errors.push('tpLogic must be a string or { bullish, bearish }');
+  }
+
+  const ids = (rules.conditions || []).map((c) => c.id);
+  (rules.conditions || []).forEach((c, i) => {
+    if (!c.id || !c.label) errors.push(`conditions[${i}] needs an id and a label`);
+    errors.push(...validateExpression(c, `conditions[${i}]`));
+  });
+  (rules.modifiers || []).forEach((m, i) => {
+    if (typeof m.delta !== 'number') errors.push(`modifiers[${i}].delta must be a number`);
+    errors.push(...validateExpression(m.when, `modifiers[${i}].when`));
+  });
+
+  for (const id of requiredConditions) {
+    if (!ids.includes(id)) {
+      errors.push(`requiredConditions "${id}" has no matching rule condition`);
+    }
+  }
+
+  return errors;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+function resolveDirection(
+  rules: RulePlaybookDefinition,
+  context: MarketContext
+): Direction | null {
+  for (const source of rules.direction) {
+    const value = readField(context, source.field);
+    const mapped = source.map ? source.map[String(value)] : value;
+    if (mapped === 'bullish' || mapped === 'bearish') {
+      return mapped;
+    }
+  }
+  return null;
+}
+
+function directionCondition(
+  rules: RulePlaybookDefinition,
+  direction: Direction | null,
+  context: MarketContext
+): ConditionTrace {
+  const observed: Record<string, TraceValue> = {};
+  for (const source of rules.direction) {
+    observed[source.field] = toTraceValue(readField(context, source.field));
+  }
+
+  const fields = rules.direction.map((s) => s.field).join(', ');
+  return condition(
+    'direction',
+    'Direction',
+    direction !== null,
+    direction ? `Direction: ${direction}` : `No direction from ${fields}`,
+    observed,
+    { sources: fields }
+  );
+}
+
+function matches(
+  expression: RuleExpression,
+  context: MarketContext,
+  direction: Direction
+): boolean {
+  if ('all' in expression) {
+    return expression.all.every((e) => matches(e, context, direction));
+  }
+  if ('any' in expression) {
+    return expression.any.some((e) => matches(e, context, direction));
+  }
+  return compare(readField(context, expression.field), expression, direction);
+}
+
+function compare(actual: unknown, predicate: RulePredicate, direction: Direction): boolean {
+  const expected = forDirection(predicate.value, direction);
+
+  switch (predicate.op) {
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'gt':
+      return typeof actual === 'number' && actual > Number(expected);
+    case 'gte':
+      return typeof actual === 'number' && actual >= Number(expected);
+    case 'lt':
+      return typeof actual === 'number' && actual < Number(expected);
+    case 'lte':
+      return typeof actual === 'number' && actual <= Number(expected);
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual as RuleScalar);
+    case 'includes':
+      return Array.isArray(actual) && actual.includes(expected);
+    case 'exists':
+      return (actual !== null && actual !== undefined) === (expected ?? true);
+  }
+}
+
+// Pick the direction's value from { bullish, bearish } values
+function forDirection(
+  value: RuleValue | undefined,
+  direction: Direction
+): RuleScalar | RuleScalar[] {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    return value[direction];
+  }
+  return value ?? null;
+}
+
+// Read a dotted path ("fvg.type", "levels.pdh") from the context
+function readField(context: MarketContext, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value !== null && typeof value === 'object'
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      context
+    );
+}
+
+function observe(expression: RuleExpression, context: MarketContext): Record<string, TraceValue> {
+  if ('all' in expression || 'any' in expression) {
+    const children = 'all' in expression ? expression.all : expression.any;
+    return Object.assign({}, ...children.map((e) => observe(e, context)));
+  }
+  return { [expression.field]: toTraceValue(readField(context, expression.field)) };
+}
+
+function describeExpression(expression: RuleExpression, direction: Direction): string {
+  if ('all' in expression) {
+    return expression.all.map((e) => describeExpression(e, direction)).join(' AND ');
+  }
+  if ('any' in expression) {
+    return `(${expression.any.map((e) => describeExpression(e, direction)).join(' OR ')})`;
+  }
+  const value = forDirection(expression.value, direction);
+  return `${expression.field} ${expression.op} ${JSON.stringify(value)}`;
+}
+
+function validateExpression(expression: RuleExpression, path: string): string[] {
+  if (!expression || typeof expression !== 'object') {
+    return [`${path} must be an object`];
+  }
+  if ('all' in expression || 'any' in expression) {
+    const children = 'all' in expression ? expression.all : expression.any;
+    if (!Array.isArray(children) || children.length === 0) {
+      return [`${path} all/any must be a non-empty array`];
+    }
+    return children.flatMap((e, i) => validateExpression(e, `${path}[${i}]`));
+  }
+  if (typeof expression.field !== 'string' || !expression.field) {
+    return [`${path}.field must be a MarketContext path`];
+  }
+  if (!OPERATORS.includes(expression.op)) {
+    return [`${path}.op "${expression.op}" is not one of ${OPERATORS.join(', ')}`];
+  }
+  return [];
+}
+
+function toTraceValue(value: unknown): TraceValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  return JSON.stringify(value);
+}
@@ -1,6 +1,24 @@
-import { MarketContext, PlaybookSignal } from '@custom-types/context';
+import {
+  ConditionTrace,
+  MarketContext,
+  PlaybookEvaluation,
+  PlaybookSignal,
+} from '@custom-types/context';
 import { createLogger } from '@utils/agent_logger';
-import { getPlaybookConfig, isPlaybookEnabled } from '@config/config';
+import {
+  getConfidenceModifier,
+  getPlaybookConfig,
+  getThreshold,
+  isPlaybookEnabled,
+} from '@config/config';
+import {
+  ConfidenceScore,
+  conditionFor,
+  createTrace,
+  disabledEvaluation,
+  enforceMinConfidence,
+  scoreConfidence,
+} from './trace';
 // Import real trendline detectors
 import {
   detectAscendingTrendline,
@@ -30,69 +48,62 @@ const logger = createLogger('Tori');
  * @returns PlaybookSignal or null if conditions not met
  */
 export function checkTori(context: MarketContext): PlaybookSignal | null {
+  return evaluateTori(context).signal;
+}
+
+/**
+ * Evaluate Tori Playbook with a full per-condition trace
+ * @param context - Market context from buildMarketContext()
+ * @returns PlaybookEvaluation with signal (or null) and trace
+ */
+export function evaluateTori(context: MarketContext): PlaybookEvaluation {
+  const config = getPlaybookConfig('Tori');
+
   // Check if playbook is enabled in config
   if (!isPlaybookEnabled('Tori')) {
     logger.warn('  ✗ [TORI] Playbook is disabled in config\n');
-    return null;
+    return disabledEvaluation('Tori', config.minConfidence);
   }
 
-  // Execute validation logic
-  const signal = executeTori(context);
+  // Execute validation logic, then check minimum confidence threshold
+  const evaluation = enforceMinConfidence(executeTori(context), config.minConfidence);
 
-  // If signal generated, check minimum confidence threshold
-  if (signal) {
-    const config = getPlaybookConfig('Tori');
-    if (signal.confidence < config.minConfidence) {
-      logger.warn(`  ✗ [TORI] Confidence ${signal.confidence}% below minimum threshold ${config.minConfidence}%\n`);
-      return null;
-    }
+  if (evaluation.trace.rejectedBy === 'minConfidence') {
+    const { confidence } = evaluation.trace;
+    logger.warn(`  ✗ [TORI] Confidence ${confidence}% below minimum threshold ${config.minConfidence}%\n`);
   }
 
-  return signal;
+  return evaluation;
 }
 
-export function executeTori(context: MarketContext): PlaybookSignal | null {
+export function executeTori(context: MarketContext): PlaybookEvaluation {
   logger.info('  ┌─────────────────────────────────────────┐');
   logger.info('  │  TORI TRENDLINE PLAYBOOK - VALIDATION   │');
   logger.info('  └─────────────────────────────────────────┘\n');
 
-  // ─────────────────────────────────────────────────────────────
-  // 1. HTF TRENDLINE ALIGNMENT
-  // ─────────────────────────────────────────────────────────────
-  if (!validateHTFTrendlineAlignment(context)) {
-    logger.warn('  ✗ [TORI] HTF Trendline alignment failed\n');
-    return null;
-  }
-
-  // ─────────────────────────────────────────────────────────────
-  // 2. TRENDLINE RESPECTED
-  // ─────────────────────────────────────────────────────────────
-  if (!validateTrendlineRespected(context)) {
-    logger.warn('  ✗ [TORI] Trendline not sufficiently respected\n');
-    return null;
-  }
-
-  // ─────────────────────────────────────────────────────────────
-  // 3. CLEAN STRUCTURE
-  // ─────────────────────────────────────────────────────────────
-  if (!validateCleanStructure(context)) {
-    logger.warn('  ✗ [TORI] Structure not clean (heavy imbalance detected)\n');
-    return null;
-  }
-
-  // ─────────────────────────────────────────────────────────────
-  // 4. SESSION TIMING
-  // ─────────────────────────────────────────────────────────────
-  if (!validateSessionTiming(context)) {
-    logger.warn('  ✗ [TORI] Session timing not optimal\n');
-    return null;
+  // Every condition is evaluated so the trace shows the full picture
+  const conditions = [
+    validateHTFTrendlineAlignment(context), // 1. HTF TRENDLINE ALIGNMENT
+    validateTrendlineRespected(context), // 2. TRENDLINE RESPECTED
+    validateCleanStructure(context), // 3. CLEAN STRUCTURE
+    validateSessionTiming(context), // 4. SESSION TIMING
+  ];
+
+  const failed = conditions.filter((c) => !c.passed);
+  if (failed.length > 0) {
+    logger.warn(`  ✗ [TORI] Validation failed: ${failed.map((c) => c.label).join(', ')}\n`);
+    return { signal: null, trace: createTrace('Tori', conditions) };
   }
 
   // ─────────────────────────────────────────────────────────────
   // ALL VALIDATIONS PASSED → BUILD SIGNAL
   // ─────────────────────────────────────────────────────────────
   logger.success('  ✓✓✓ ALL TORI VALIDATIONS PASSED ✓✓✓\n');
-  return buildToriSignal(context);
+  const score = scoreTori(context);
+  return {
+    signal: buildToriSignal(context, score.confidence),
+    trace: createTrace('Tori', conditions, score),
+  };
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -103,82 +114,99 @@ export function executeTori(context: MarketContext): PlaybookSignal | null {
  * 1. HTF TRENDLINE ALIGNMENT
  * Validates 4H trendline exists and aligns with HTF bias
  */
-function validateHTFTrendlineAlignment(context: MarketContext): boolean {
+function validateHTFTrendlineAlignment(context: MarketContext): ConditionTrace {
   logger.info('  [1/4] Validating HTF Trendline Alignment...');
 
+  const observed = { trendlineExists: context.trendline.exists, htfTrend: context.htfTrend };
+  const threshold = { trendlineExists: true, htfTrend: 'bullish | bearish' };
+  const check = conditionFor('htfTrendlineAlignment', 'HTF Trendline Alignment', observed, threshold);
+
   if (!context.trendline.exists) {
     logger.warn('      ✗ No trendline detected');
-    return false;
+    return check.fail('No trendline detected');
   }
 
   // HTF trend should not be neutral
   if (context.htfTrend === 'neutral') {
     logger.warn('      ✗ HTF trend is neutral, Tori requires clear bias');
-    return false;
+    return check.fail('HTF trend is neutral, Tori requires clear bias');
   }
 
   logger.success(`      ✓ Trendline exists, aligned with HTF ${context.htfTrend.toUpperCase()}`);
-  return true;
+  return check.pass(`Trendline exists, aligned with HTF ${context.htfTrend}`);
 }
 
 /**
  * 2. TRENDLINE RESPECTED
- * Validates trendline has been touched and respected 2-3+ times
+ * Validates trendline has been touched and respected at least
+ * minSwingTouches times (default 2, preferably 3+)
  */
-function validateTrendlineRespected(context: MarketContext): boolean {
+function validateTrendlineRespected(context: MarketContext): ConditionTrace {
   logger.info('  [2/4] Validating Trendline Respect...');
 
+  const minTouches = getThreshold('minSwingTouches');
+  const observed = { respected: context.trendline.respected, touches: context.trendline.touches };
+  const threshold = { respected: true, minTouches };
+  const check = conditionFor('trendlineRespected', 'Trendline Respected', observed, threshold);
+
   if (!context.trendline.respected) {
     logger.warn('      ✗ Trendline not respected');
-    return false;
+    return check.fail('Trendline not respected');
   }
 
-  // Require at least 2 touches (preferably 3+)
-  if (context.trendline.touches < 2) {
-    logger.warn(`      ✗ Insufficient touches: ${context.trendline.touches} (need 2+)`);
-    return false;
+  if (context.trendline.touches < minTouches) {
+    const message = `Insufficient touches: ${context.trendline.touches} (need ${minTouches}+)`;
+    logger.warn(`      ✗ ${message}`);
+    return check.fail(message);
   }
 
-  logger.success(
-    `      ✓ Trendline respected with ${context.trendline.touches} touch${
-      context.trendline.touches > 1 ? 'es' : ''
-    }`
-  );
-  return true;
+  const message = `Trendline respected with ${context.trendline.touches} touch${
+    context.trendline.touches > 1 ? 'es' : ''
+  }`;
+  logger.success(`      ✓ ${message}`);
+  return check.pass(message);
 }
 
 /**
  * 3. CLEAN STRUCTURE
  * Validates no heavy imbalance exists that could invalidate the setup
  */
-function validateCleanStructure(context: MarketContext): boolean {
+function validateCleanStructure(context: MarketContext): ConditionTrace {
   logger.info('  [3/4] Validating Clean Structure...');
 
+  const observed = { inBalance: context.balanceZones.inBalance };
+  const threshold = { inBalance: true };
+  const check = conditionFor('cleanStructure', 'Clean Structure', observed, threshold);
+
   // Check for balance zones - should NOT be in heavy imbalance
   if (context.balanceZones.inBalance === false) {
     logger.warn('      ✗ Market in imbalance, structure not clean');
-    return false;
+    return check.fail('Market in imbalance, structure not clean');
   }
 
   logger.success('      ✓ Clean structure confirmed (no heavy imbalance)');
-  return true;
+  return check.pass('Clean structure confirmed (no heavy imbalance)');
 }
 
 /**
  * 4. SESSION TIMING
  * Validates optimal session for Tori plays (London or NY preferred)
  */
-function validateSessionTiming(context: MarketContext): boolean {
+function validateSessionTiming(context: MarketContext): ConditionTrace {
   logger.info('  [4/4] Validating Session Timing...');
 
+  const observed = { session: context.session };
+  const threshold = { session: 'london | ny' };
+  const check = conditionFor('sessionTiming', 'Session Timing', observed, threshold);
+
   // Tori plays work best during London and NY sessions
   if (context.session !== 'london' && context.session !== 'ny') {
     logger.warn(`      ✗ Suboptimal session: ${context.session} (prefer London/NY)`);
-    return false;
+    return check.fail(`Suboptimal session: ${context.session} (prefer London/NY)`);
   }
 
   logger.success(`      ✓ Optimal session: ${context.session.toUpperCase()}`);
-  return true;
+  return check.pass(`Optimal session: ${context.session}`);
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -201,10 +229,33 @@ function detectTrendlineDirection(context: MarketContext): 'ascending' | 'descen
 // SIGNAL BUILDER
 // ═══════════════════════════════════════════════════════════════
 
+/**
+ * Score Tori confidence
+ * Base confidence: playbooks.json baseConfidence (80%)
+ * Add multipleTouches (+10%) for a strong trendline (3+ touches)
+ * Add nySession (+5%) during NY session (optimal)
+ */
+function scoreTori(context: MarketContext): ConfidenceScore {
+  return scoreConfidence(getPlaybookConfig('Tori').baseConfidence, [
+    {
+      id: 'multipleTouches',
+      label: '3+ trendline touches',
+      delta: getConfidenceModifier('multipleTouches'),
+      applied: context.trendline.touches >= 3,
+    },
+    {
+      id: 'nySession',
+      label: 'NY session',
+      delta: getConfidenceModifier('nySession'),
+      applied: context.session === 'ny',
+    },
+  ]);
+}
+
 /**
  * Build Tori Playbook Signal
  */
-function buildToriSignal(context: MarketContext): PlaybookSignal {
+function buildToriSignal(context: MarketContext, confidence: number): PlaybookSignal {
   const direction = context.htfTrend === 'bullish' ? 'bullish' : 'bearish';
   const trendlineDir = detectTrendlineDirection(context);
 
@@ -217,11 +268,6 @@ function buildToriSignal(context: MarketContext): PlaybookSignal {
       ? 'Target = Recent swing high OR next resistance level'
       : 'Target = Recent swing low OR next support level';
 
-  // Calculate confidence
-  let confidence = 80;
-  if (context.trendline.touches >= 3) confidence += 10; // Strong trendline
-  if (context.session === 'ny') confidence += 5; // Optimal session
-
   logger.info('  ═══════════════════════════════════════════');
   logger.info('  🎯 TORI SIGNAL GENERATED');
   logger.info('  ═══════════════════════════════════════════');
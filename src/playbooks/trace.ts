@@ -0,0 +1,152 @@
+import {
+  ConditionTrace,
+  ModifierTrace,
+  PlaybookEvaluation,
+  PlaybookTrace,
+  TraceValue,
+} from '@custom-types/context';
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * PLAYBOOK EVALUATION TRACE HELPERS
+ * ═══════════════════════════════════════════════════════════════
+ * Shared builders used by every playbook module to produce a
+ * machine-readable record of why a setup fired or was rejected.
+ *
+ * Flow inside a playbook:
+ *   1. Every validate* function returns a ConditionTrace
+ *   2. createTrace() collects them and finds the first failure
+ *   3. scoreConfidence() records base confidence + modifiers
+ *   4. enforceMinConfidence() applies the playbook's threshold
+ */
+
+export interface ConfidenceScore {
+  base: number;
+  modifiers: ModifierTrace[];
+  confidence: number;
+}
+
+/**
+ * Build a single condition result
+ */
+export function condition(
+  id: string,
+  label: string,
+  passed: boolean,
+  message: string,
+  observed: Record<string, TraceValue>,
+  threshold?: Record<string, TraceValue>
+): ConditionTrace {
+  return { id, label, passed, message, observed, threshold };
+}
+
+/**
+ * Bind id, label and observed values once, then report pass/fail
+ *
+ * @example
+ * ```typescript
+ * const check = conditionFor('htfBias', 'HTF Bias', { htfTrend: context.htfTrend });
+ * if (context.htfTrend === 'neutral') return check.fail('HTF is neutral');
+ * return check.pass(`HTF Bias: ${context.htfTrend}`);
+ * ```
+ */
+export function conditionFor(
+  id: string,
+  label: string,
+  observed: Record<string, TraceValue>,
+  threshold?: Record<string, TraceValue>
+): { pass: (message: string) => ConditionTrace; fail: (message: string) => ConditionTrace } {
+  return {
+    pass: (message) => condition(id, label, true, message, observed, threshold),
+    fail: (message) => condition(id, label, false, message, observed, threshold),
+  };
+}
+
+/**
+ * Sum a base confidence with every applied modifier
+ */
+export function scoreConfidence(base: number, modifiers: ModifierTrace[]): ConfidenceScore {
+  const confidence = modifiers.reduce((sum, m) => (m.applied ? sum + m.delta : sum), base);
+  return { base, modifiers, confidence };
+}
+
+/**
+ * Create a trace from evaluated conditions (and the score, if all passed)
+ */
+export function createTrace(
+  playbook: string,
+  conditions: ConditionTrace[],
+  score?: ConfidenceScore
+): PlaybookTrace {
+  const failed = conditions.find((c) => !c.passed);
+
+  return {
+    playbook,
+    enabled: true,
+    passed: !failed,
+    rejectedBy: failed ? failed.id : null,
+    conditions,
+    modifiers: score?.modifiers || [],
+    baseConfidence: score ? score.base : null,
+    confidence: score ? score.confidence : null,
+    minConfidence: null,
+  };
+}
+
+/**
+ * Evaluation for a playbook that is disabled in config
+ */
+export function disabledEvaluation(playbook: string, minConfidence: number): PlaybookEvaluation {
+  return {
+    signal: null,
+    trace: {
+      playbook,
+      enabled: false,
+      passed: false,
+      rejectedBy: 'disabled',
+      conditions: [],
+      modifiers: [],
+      baseConfidence: null,
+      confidence: null,
+      minConfidence,
+    },
+  };
+}
+
+/**
+ * Apply the playbook's minimum confidence to an evaluation
+ * Adds a "minConfidence" condition when a signal was produced.
+ */
+export function enforceMinConfidence(
+  evaluation: PlaybookEvaluation,
+  minConfidence: number
+): PlaybookEvaluation {
+  const trace: PlaybookTrace = { ...evaluation.trace, minConfidence };
+
+  if (!evaluation.signal) {
+    return { signal: null, trace };
+  }
+
+  const { confidence } = evaluation.signal;
+  const passed = confidence >= minConfidence;
+
+  trace.conditions = [
+    ...trace.conditions,
+    condition(
+      'minConfidence',
+      'Minimum Confidence',
+      passed,
+      passed
+        ? `Confidence ${confidence}% meets minimum ${minConfidence}%`
+        : `Confidence ${confidence}% below minimum threshold ${minConfidence}%`,
+      { confidence },
+      { min: minConfidence }
+    ),
+  ];
+
+  if (!passed) {
+    return { signal: null, trace: { ...trace, passed: false, rejectedBy: 'minConfidence' } };
+  }
+
+  return { signal: evaluation.signal, trace };
+}
@@ -1,24 +1,43 @@
+import { getInstrument, quoteToAccountRate } from '../instruments/instrumentRegistry';
 import { PortfolioPosition, PositionExposure } from './types';
 
+/**
+ * Value at risk per position, in the account currency
+ *
+ * @param rates - Extra prices converting quote currencies (GBPUSD, USDJPY, ...)
+ * @returns One exposure per position; riskValue is null (and missingRate
+ *          set) when no known price converts the quote currency
+ */
 export function computeExposure(
   positions: PortfolioPosition[],
-  accountBalance: number
+  accountBalance: number,
+  accountCurrency: string = 'USD',
+  rates: Record<string, number> = {}
 ): PositionExposure[] {
+  // The positions' own prices convert quote currencies too (USDJPY → JPY)
+  const prices = {
+    ...rates,
+    ...Object.fromEntries(positions.map((p) => [p.symbol, p.currentPrice])),
+  };
+
   return positions.map((p) => {
-    const pipValue =
-      p.instrument === 'FOREX'
-        ? 0.0001 * p.size * 100000
-        : p.instrument === 'CRYPTO'
-        ? p.size
-        : p.size;
+    const instrument = getInstrument(p.symbol);
+    const units = p.size * instrument.contractSize;
+    const rate = quoteToAccountRate(instrument, accountCurrency, prices);
+    const netExposure = p.direction === 'long' ? p.size : -p.size;
+
+    if (rate === null) {
+      const missingRate = `${instrument.quoteCurrency}/${accountCurrency}`;
+      return { symbol: p.symbol, netExposure, riskValue: null, normalizedRisk: null, missingRate };
+    }
 
     const stopDistance = Math.abs(p.currentPrice - p.entryPrice);
-    const riskValue = pipValue * stopDistance;
+    const riskValue = stopDistance * units * rate;
     const normalizedRisk = Math.min(100, (riskValue / accountBalance) * 100);
 
     return {
       symbol: p.symbol,
-      netExposure: p.direction === 'long' ? p.size : -p.size,
+      netExposure,
       riskValue,
       normalizedRisk,
     };
@@ -39,7 +39,8 @@ export function computeBasketRisk(
   const diversificationScore = Math.round(100 - avgCorr * 100);
 
   // Portfolio volatility (simple proxy)
-  const totalRisk = exposures.reduce((s, e) => s + e.riskValue, 0);
+  // Positions without a quote → account rate are reported, not guessed
+  const totalRisk = exposures.reduce((s, e) => s + (e.riskValue ?? 0), 0);
   const volatility = totalRisk / accountBalance;
 
   // Overall basket score
@@ -50,6 +51,11 @@ export function computeBasketRisk(
   if (Math.abs(jpyExposure) > 2) alerts.push('JPY cluster exposure detected.');
   if (avgCorr > 0.75) alerts.push('Portfolio highly correlated.');
   if (volatility > 0.05) alerts.push('High portfolio volatility.');
+  exposures
+    .filter((e) => e.missingRate)
+    .forEach((e) =>
+      alerts.push(`No ${e.missingRate} rate for ${e.symbol}: its risk is not counted.`)
+    );
 
   return {
     score,
@@ -9,9 +9,10 @@ export interface PortfolioPosition {
 
 export interface PositionExposure {
   symbol: string;
-  netExposure: number;    // signed: long positive, short negative
-  riskValue: number;      // value at risk based on distance to stop
-  normalizedRisk: number; // 0-100 scaled risk unit
+  netExposure: number;           // signed: long positive, short negative
+  riskValue: number | null;      // value at risk in the account currency (null: no rate)
+  normalizedRisk: number | null; // 0-100 scaled risk unit (null: no rate)
+  missingRate?: string;          // quote/account pair without a price (e.g. GBP/USD)
 }
 
 export interface CorrelationMatrix {
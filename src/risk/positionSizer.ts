@@ -0,0 +1,157 @@
+import {
+  getInstrument,
+  pipDistance,
+  quoteToAccountRate,
+  roundUnits,
+} from '../instruments/instrumentRegistry';
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * POSITION SIZER
+ * ═══════════════════════════════════════════════════════════════
+ * Size that risks riskPercent of the balance between entry and stop:
+ *
+ *   units   = balance × riskPercent / (|entry − stop| × quote rate),
+ *             rounded down to the instrument's lot step
+ *   risk    = what the rounded size loses at the stop (account currency)
+ *   margin  = units × entry × quote rate × marginRate
+ *
+ * The quote rate converts the instrument's quote currency into the
+ * account currency: 1 when they match, 1 / entry when the symbol is
+ * based in the account currency (USDJPY for USD), otherwise from the
+ * `rates` prices sent with the request (GBPJPY for USD needs USDJPY).
+ */
+
+export interface SizingRequest {
+  symbol: string;
+  balance: number;
+  currency: string; // account currency
+  riskPercent: number;
+  entry: number;
+  stop: number;
+  rates: Record<string, number>; // symbol → price, for quote conversion
+}
+
+export interface PositionSize {
+  symbol: string; // canonical
+  assetClass: string;
+  direction: 'long' | 'short';
+  entry: number;
+  stop: number;
+  pips: number; // entry → stop distance in pips (points for indices and crypto)
+  units: number;
+  lots: number;
+  lotStep: number;
+  belowMinimum: boolean; // risk budget buys less than the minimum lot (units = 0)
+  currency: string;
+  conversionRate: number; // quote → account currency
+  riskAmount: number; // lost at the stop with the rounded size
+  riskPercent: number; // riskAmount as % of balance
+  pipValue: number; // per pip at this size
+  notional: number;
+  margin: number;
+  marginRate: number;
+}
+
+/**
+ * Size a position for a risk budget
+ *
+ * @throws Error when no rate converts the quote into the account currency
+ */
+export function calculatePositionSize(request: SizingRequest): PositionSize {
+  const { balance, currency, riskPercent, entry, stop } = request;
+  const instrument = getInstrument(request.symbol);
+
+  const conversionRate = quoteToAccountRate(instrument, currency, {
+    [instrument.symbol]: entry,
+    ...request.rates,
+  });
+  if (conversionRate === null) {
+    const quote = instrument.quoteCurrency;
+    throw new Error(
+      `No ${quote}/${currency} rate for ${instrument.symbol} ` +
+        `(send rates with a ${quote}${currency} or ${currency}${quote} price)`
+    );
+  }
+
+  const distance = Math.abs(entry - stop);
+  const units = roundUnits((balance * riskPercent) / 100 / (distance * conversionRate), instrument);
+  const riskAmount = money(units * distance * conversionRate);
+  const notional = money(units * entry * conversionRate);
+
+  return {
+    symbol: instrument.symbol,
+    assetClass: instrument.assetClass,
+    direction: entry > stop ? 'long' : 'short',
+    entry,
+    stop,
+    pips: pipDistance(entry, stop, instrument),
+    units,
+    lots: Number((units / instrument.contractSize).toFixed(8)),
+    lotStep: instrument.lotStep,
+    belowMinimum: units === 0,
+    currency: currency.toUpperCase(),
+    conversionRate,
+    riskAmount,
+    riskPercent: money((riskAmount / balance) * 100),
+    pipValue: money(instrument.pipSize * units * conversionRate),
+    notional,
+    margin: money(notional * instrument.marginRate),
+    marginRate: instrument.marginRate,
+  };
+}
+
+/**
+ * Validate a sizing body (POST /risk/size)
+ *
+ * @throws Error describing the first invalid field
+ */
+export function parseSizingRequest(body: Record<string, unknown>): SizingRequest {
+  const positive = (name: string): number => {
+    const n = Number(body[name]);
+    if (body[name] === undefined || body[name] === null || !(n > 0)) {
+      throw new Error(`Invalid ${name}: ${body[name]} (must be > 0)`);
+    }
+    return n;
+  };
+
+  if (typeof body.symbol !== 'string' || !body.symbol.trim()) {
+    throw new Error('symbol required (or a signalId with a trade plan)');
+  }
+  const balance = positive('balance');
+  const riskPercent = positive('riskPercent');
+  if (riskPercent > 100) {
+    throw new Error(`Invalid riskPercent: ${riskPercent} (0-100)`);
+  }
+  const entry = positive('entry');
+  const stop = positive('stop');
+  if (entry === stop) {
+    throw new Error('entry and stop must differ');
+  }
+
+  const currency = body.currency === undefined ? 'USD' : body.currency;
+  if (typeof currency !== 'string' || !/^[A-Za-z]{3,4}$/.test(currency)) {
+    throw new Error(`Invalid currency: ${currency} (ISO code, e.g. USD)`);
+  }
+
+  const rates: Record<string, number> = {};
+  if (body.rates !== undefined) {
+    if (typeof body.rates !== 'object' || body.rates === null || Array.isArray(body.rates)) {
+      throw new Error('Invalid rates (expected { symbol: price })');
+    }
+    for (const [symbol, price] of Object.entries(body.rates)) {
+      if (!(Number(price) > 0)) throw new Error(`Invalid rate for ${symbol}: ${price}`);
+      rates[symbol] = Number(price);
+    }
+  }
+
+  return { symbol: body.symbol.trim(), balance, currency, riskPercent, entry, stop, rates };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+function money(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,345 @@
+import { getRiskGovernorConfig } from '@config/config';
+import { symbolCurrencies } from '@detectors/newsCalendar';
+import { getInstrument, quoteToAccountRate } from '../instruments/instrumentRegistry';
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * PRE-TRADE RISK GOVERNOR
+ * ═══════════════════════════════════════════════════════════════
+ * Checks a proposed trade against a user's risk rules before it is
+ * journaled or executed. Every rule that is set (null = no limit) is
+ * checked, and each one that fails becomes a rejection naming it:
+ *
+ *   maxRiskPercent         money lost at the stop as % of balance:
+ *                          |entry − stop| × lots × contractSize,
+ *                          converted from the quote currency
+ *   maxDailyTrades         trades opened this trading day, incl. this one
+ *   dailyLossLimitPercent  realized loss this trading day as % of balance
+ *   maxOpenPositions       open positions, incl. this one
+ *   maxCorrelatedPositions positions adding to the same currency
+ *                          exposure, incl. this one (long EURUSD,
+ *                          long GBPUSD and long XAUUSD are all short USD)
+ *   tradingHours           UTC days and time window trades may open in
+ *
+ * Trading days start at riskGovernor.dayStartHourUtc.
+ */
+
+export interface TradingHours {
+  days: number[]; // UTC weekdays, 0 = Sunday
+  start: string; // "HH:MM" UTC
+  end: string; // "HH:MM" UTC; before start = window runs past midnight
+}
+
+export interface RiskRules {
+  accountBalance: number | null; // balance for % limits when the trade source has none
+  maxRiskPercent: number | null;
+  maxDailyTrades: number | null;
+  dailyLossLimitPercent: number | null;
+  maxOpenPositions: number | null;
+  maxCorrelatedPositions: number | null;
+  tradingHours: TradingHours | null;
+}
+
+export type RiskRuleName = Exclude<keyof RiskRules, 'accountBalance'>;
+
+export interface TradeProposal {
+  symbol: string;
+  direction: 'long' | 'short';
+  entryPrice: number;
+  stopPrice: number | null;
+  size: number; // lots, as journaled (units = size × contractSize)
+  at: Date;
+  rates?: Record<string, number>; // symbol → price, for quote conversion (GBPJPY → USDJPY)
+}
+
+// The account the trade would join
+export interface RiskState {
+  balance: number | null;
+  currency: string; // account currency of the balance
+  openPositions: Array<{ symbol: string; direction: 'long' | 'short' }>;
+  tradesToday: number;
+  realizedPnlToday: number;
+}
+
+// A closed journal trade, as closeTrade stores it
+export interface ClosedTrade {
+  symbol: string;
+  direction: 'long' | 'short';
+  entryPrice: number;
+  exitPrice: number;
+  size: number; // lots
+}
+
+export interface RiskRejection {
+  rule: RiskRuleName;
+  message: string;
+  limit: number | string;
+  actual: number | string | null;
+}
+
+export interface RiskDecision {
+  allowed: boolean;
+  rejections: RiskRejection[];
+}
+
+export const NO_RISK_RULES: RiskRules = {
+  accountBalance: null,
+  maxRiskPercent: null,
+  maxDailyTrades: null,
+  dailyLossLimitPercent: null,
+  maxOpenPositions: null,
+  maxCorrelatedPositions: null,
+  tradingHours: null,
+};
+
+/**
+ * Check a proposed trade against risk rules
+ *
+ * @returns Decision with one rejection per failed rule
+ */
+export function evaluateTradeRisk(
+  rules: RiskRules,
+  proposal: TradeProposal,
+  state: RiskState
+): RiskDecision {
+  if (!getRiskGovernorConfig().enabled) return { allowed: true, rejections: [] };
+
+  const rejections: RiskRejection[] = [];
+  const reject = (
+    rule: RiskRuleName,
+    message: string,
+    limit: number | string,
+    actual: number | string | null
+  ) => rejections.push({ rule, message, limit, actual });
+  const balance = state.balance ?? rules.accountBalance;
+
+  if (rules.maxRiskPercent !== null) {
+    if (proposal.stopPrice === null) {
+      const message = 'A stop price is needed to check risk per trade';
+      reject('maxRiskPercent', message, rules.maxRiskPercent, null);
+    } else if (!balance) {
+      const message = 'No account balance to measure risk against';
+      reject('maxRiskPercent', message, rules.maxRiskPercent, null);
+    } else {
+      const risk = moneyAtRisk(proposal, proposal.stopPrice, state.currency);
+      const percent = risk === null ? null : round((risk / balance) * 100);
+      if (percent === null) {
+        const quote = getInstrument(proposal.symbol).quoteCurrency;
+        const message = `No ${quote}/${state.currency} rate to measure risk in ${proposal.symbol}`;
+        reject('maxRiskPercent', message, rules.maxRiskPercent, null);
+      } else if (percent > rules.maxRiskPercent) {
+        reject(
+          'maxRiskPercent',
+          `Trade risks ${percent}% of balance (max ${rules.maxRiskPercent}%)`,
+          rules.maxRiskPercent,
+          percent
+        );
+      }
+    }
+  }
+
+  if (rules.maxDailyTrades !== null && state.tradesToday + 1 > rules.maxDailyTrades) {
+    reject(
+      'maxDailyTrades',
+      `Daily trade limit reached (${state.tradesToday} of ${rules.maxDailyTrades} today)`,
+      rules.maxDailyTrades,
+      state.tradesToday + 1
+    );
+  }
+
+  if (rules.dailyLossLimitPercent !== null && balance && state.realizedPnlToday < 0) {
+    const lossPercent = round((-state.realizedPnlToday / balance) * 100);
+    if (lossPercent >= rules.dailyLossLimitPercent) {
+      reject(
+        'dailyLossLimitPercent',
+        `Daily loss limit hit: −${lossPercent}% today (limit ${rules.dailyLossLimitPercent}%)`,
+        rules.dailyLossLimitPercent,
+        lossPercent
+      );
+    }
+  }
+
+  const open = state.openPositions.length + 1;
+  if (rules.maxOpenPositions !== null && open > rules.maxOpenPositions) {
+    reject(
+      'maxOpenPositions',
+      `${open} open positions with this trade (max ${rules.maxOpenPositions})`,
+      rules.maxOpenPositions,
+      open
+    );
+  }
+
+  if (rules.maxCorrelatedPositions !== null) {
+    for (const [currency, sign] of currencyLegs(proposal.symbol, proposal.direction)) {
+      const same =
+        1 +
+        state.openPositions.filter((p) =>
+          currencyLegs(p.symbol, p.direction).some(([c, s]) => c === currency && s === sign)
+        ).length;
+      if (same > rules.maxCorrelatedPositions) {
+        const side = sign > 0 ? 'long' : 'short';
+        const limit = rules.maxCorrelatedPositions;
+        reject(
+          'maxCorrelatedPositions',
+          `${same} positions ${side} ${currency} with this trade (max ${limit})`,
+          rules.maxCorrelatedPositions,
+          same
+        );
+        break;
+      }
+    }
+  }
+
+  if (rules.tradingHours && !withinTradingHours(rules.tradingHours, proposal.at)) {
+    const { days, start, end } = rules.tradingHours;
+    reject(
+      'tradingHours',
+      `Outside trading hours (${start}–${end} UTC, days ${days.join(',')})`,
+      `${start}-${end}`,
+      proposal.at.toISOString()
+    );
+  }
+
+  return { allowed: rejections.length === 0, rejections };
+}
+
+/**
+ * Start of the trading day containing `at`
+ */
+export function tradingDayStart(at: Date): Date {
+  const hour = getRiskGovernorConfig().dayStartHourUtc;
+  const start = new Date(at);
+  start.setUTCHours(hour, 0, 0, 0);
+  if (start > at) start.setUTCDate(start.getUTCDate() - 1);
+  return start;
+}
+
+/**
+ * Realized P&L of closed trades in the account currency:
+ * (exit − entry) × lots × contractSize, converted from the quote
+ * currency. Trades whose quote can't be converted are left out.
+ */
+export function realizedPnl(
+  trades: ClosedTrade[],
+  currency: string,
+  rates?: Record<string, number>
+): number {
+  let total = 0;
+  for (const trade of trades) {
+    const instrument = getInstrument(trade.symbol);
+    const rate = quoteToAccountRate(instrument, currency, {
+      [instrument.symbol]: trade.exitPrice,
+      ...rates,
+    });
+    if (rate === null) continue;
+    const move =
+      trade.direction === 'long'
+        ? trade.exitPrice - trade.entryPrice
+        : trade.entryPrice - trade.exitPrice;
+    total += move * trade.size * instrument.contractSize * rate;
+  }
+  return total;
+}
+
+/**
+ * Validate a risk rules body (PUT /risk/rules); missing rules are off
+ *
+ * @throws Error describing the first invalid rule
+ */
+export function parseRiskRules(body: Record<string, unknown>): RiskRules {
+  const positive = (name: keyof RiskRules, integer = false): number | null => {
+    const value = body[name];
+    if (value === undefined || value === null) return null;
+    const n = Number(value);
+    if (!(n > 0) || (integer && !Number.isInteger(n))) {
+      throw new Error(`Invalid ${name}: ${value} (${integer ? 'integer ' : ''}> 0)`);
+    }
+    return n;
+  };
+
+  return {
+    accountBalance: positive('accountBalance'),
+    maxRiskPercent: positive('maxRiskPercent'),
+    maxDailyTrades: positive('maxDailyTrades', true),
+    dailyLossLimitPercent: positive('dailyLossLimitPercent'),
+    maxOpenPositions: positive('maxOpenPositions', true),
+    maxCorrelatedPositions: positive('maxCorrelatedPositions', true),
+    tradingHours: body.tradingHours ? parseTradingHours(body.tradingHours) : null,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+// Loss at the stop in account currency (null = quote can't be converted)
+function moneyAtRisk(proposal: TradeProposal, stop: number, currency: string): number | null {
+  const instrument = getInstrument(proposal.symbol);
+  const rate = quoteToAccountRate(instrument, currency, {
+    [instrument.symbol]: proposal.entryPrice,
+    ...proposal.rates,
+  });
+  if (rate === null) return null;
+  const units = proposal.size * instrument.contractSize;
+  return Math.abs(proposal.entryPrice - stop) * units * rate;
+}
+
+// Signed currency exposure of a position: pairs are long base / short
+// quote; other symbols are short the currency they are priced in
+function currencyLegs(symbol: string, direction: 'long' | 'short'): Array<[string, 1 | -1]> {
+  const sign = direction === 'long' ? 1 : -1;
+  const currencies = symbolCurrencies(symbol);
+  const normalized = symbol.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+  if (currencies.length === 2 && normalized === currencies.join('')) {
+    return [
+      [currencies[0], sign],
+      [currencies[1], -sign as 1 | -1],
+    ];
+  }
+  return currencies.map((currency) => [currency, -sign as 1 | -1]);
+}
+
+function withinTradingHours(hours: TradingHours, at: Date): boolean {
+  const minutes = at.getUTCHours() * 60 + at.getUTCMinutes();
+  const start = toMinutes(hours.start);
+  const end = toMinutes(hours.end);
+
+  if (start <= end) {
+    return hours.days.includes(at.getUTCDay()) && minutes >= start && minutes < end;
+  }
+  // Overnight window: the part after midnight belongs to the previous day
+  if (minutes >= start) return hours.days.includes(at.getUTCDay());
+  return minutes < end && hours.days.includes((at.getUTCDay() + 6) % 7);
+}
+
+function parseTradingHours(raw: unknown): TradingHours {
+  const hours = raw as Record<string, unknown>;
+  const time = /^([01]\d|2[0-3]):[0-5]\d$/;
+  if (typeof hours.start !== 'string' || !time.test(hours.start)) {
+    throw new Error(`Invalid tradingHours.start: ${hours.start} (HH:MM UTC)`);
+  }
+  if (typeof hours.end !== 'string' || !time.test(hours.end)) {
+    throw new Error(`Invalid tradingHours.end: ${hours.end} (HH:MM UTC)`);
+  }
+
+  const days = hours.days === undefined ? [1, 2, 3, 4, 5] : hours.days;
+  if (
+    !Array.isArray(days) ||
+    days.length === 0 ||
+    days.some((d) => !Number.isInteger(d) || d < 0 || d > 6)
+  ) {
+    throw new Error('Invalid tradingHours.days (UTC weekdays 0-6, 0 = Sunday)');
+  }
+
+  return { days: days as number[], start: hours.start, end: hours.end };
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
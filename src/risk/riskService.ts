@@ -0,0 +1,118 @@
+import type { OutcomePlan } from '@signals/outcome';
+import { pool } from '../db';
+import {
+  ClosedTrade,
+  evaluateTradeRisk,
+  NO_RISK_RULES,
+  realizedPnl,
+  RiskDecision,
+  RiskRules,
+  RiskState,
+  TradeProposal,
+  tradingDayStart,
+} from './riskGovernor';
+
+/**
+ * Get a user's risk rules (no limits when none were saved)
+ */
+export async function getRiskRules(userId: string): Promise<RiskRules> {
+  const res = await pool.query(`SELECT rules FROM risk_rules WHERE user_id = $1`, [userId]);
+  return res.rowCount ? { ...NO_RISK_RULES, ...res.rows[0].rules } : { ...NO_RISK_RULES };
+}
+
+/**
+ * Save a user's risk rules
+ */
+export async function saveRiskRules(userId: string, rules: RiskRules): Promise<RiskRules> {
+  await pool.query(
+    `
+      INSERT INTO risk_rules (user_id, rules, updated_at)
+      VALUES ($1, $2, now())
+      ON CONFLICT (user_id) DO UPDATE SET rules = EXCLUDED.rules, updated_at = now()
+    `,
+    [userId, JSON.stringify(rules)]
+  );
+  return rules;
+}
+
+/**
+ * Open trades and today's activity from the trade journal
+ * (the journal has no balance: % limits use rules.accountBalance, in USD)
+ *
+ * @param rates - symbol → price for converting closed crosses (GBPJPY → USDJPY)
+ */
+export async function loadJournalRiskState(
+  userId: string,
+  at: Date,
+  rates?: Record<string, number>
+): Promise<RiskState> {
+  const dayStart = tradingDayStart(at);
+  const res = await pool.query(
+    `
+      SELECT
+        (SELECT COALESCE(
+                  json_agg(json_build_object('symbol', symbol, 'direction', direction)), '[]')
+           FROM trades WHERE user_id = $1 AND status = 'open') AS open_positions,
+        (SELECT COUNT(*) FROM trades
+           WHERE user_id = $1 AND entry_time >= $2 AND status <> 'cancelled') AS trades_today,
+        (SELECT COALESCE(
+                  json_agg(json_build_object(
+                    'symbol', symbol, 'direction', direction, 'entryPrice', entry_price,
+                    'exitPrice', exit_price, 'size', size)), '[]')
+           FROM trades
+           WHERE user_id = $1 AND status = 'closed' AND exit_time >= $2) AS closed_today
+    `,
+    [userId, dayStart]
+  );
+
+  // trades.pnl leaves out the contract size and stays in the quote currency,
+  // so each closed trade is re-priced in USD
+  const row = res.rows[0];
+  const closed: ClosedTrade[] = row.closed_today.map((t: Record<string, unknown>) => ({
+    symbol: String(t.symbol),
+    direction: t.direction === 'short' ? 'short' : 'long',
+    entryPrice: Number(t.entryPrice),
+    exitPrice: Number(t.exitPrice),
+    size: Number(t.size),
+  }));
+  return {
+    balance: null,
+    currency: 'USD',
+    openPositions: row.open_positions,
+    tradesToday: Number(row.trades_today),
+    realizedPnlToday: realizedPnl(closed, 'USD', rates),
+  };
+}
+
+/**
+ * Check a trade about to be journaled against the user's rules
+ */
+export async function checkJournalTrade(
+  userId: string,
+  proposal: TradeProposal
+): Promise<RiskDecision> {
+  const [rules, state] = await Promise.all([
+    getRiskRules(userId),
+    loadJournalRiskState(userId, proposal.at, proposal.rates),
+  ]);
+  return evaluateTradeRisk(rules, proposal, state);
+}
+
+/**
+ * Symbol, entry and stop of a saved signal's trade plan
+ *
+ * @returns null when the signal does not exist or has no trade plan
+ */
+export async function loadSignalLevels(
+  userId: string,
+  signalId: string
+): Promise<{ symbol: string; entry: number; stop: number } | null> {
+  const res = await pool.query(
+    `SELECT symbol, trade_plan FROM signals WHERE id = $1 AND user_id = $2`,
+    [signalId, userId]
+  );
+  const plan: OutcomePlan | null = res.rows[0]?.trade_plan ?? null;
+  if (!plan) return null;
+
+  return { symbol: res.rows[0].symbol, entry: plan.entry.price, stop: plan.stop.price };
+}
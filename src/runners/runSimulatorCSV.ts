@@ -16,6 +16,8 @@ const logger = createLogger('CSV-Runner');
  *   npm run sim:csv -- examples/data.csv
  *   npm run sim:csv -- examples/data.csv NBB
  *   npm run sim:csv -- examples/data.csv all
+ *   npm run sim:csv -- examples/data.csv all EURUSD   (stop/TP in EURUSD pips)
+ *   npm run sim:csv -- examples/data.csv all EURGBP GBP   (account in GBP)
  *
  * Features:
  * - Load historical data from CSV
@@ -29,10 +31,16 @@ const logger = createLogger('CSV-Runner');
  *
  * @param csvPath - Path to CSV file
  * @param playbookFilter - Filter for specific playbook ('NBB', 'Tori', 'Fabio', 'JadeCap', 'all')
+ * @param symbol - Instrument the CSV holds (points become its pips, sizes its lot steps)
+ * @param accountCurrency - Currency of the starting capital (default USD). The
+ *                          symbol's quote must convert into it from the CSV
+ *                          prices alone, e.g. EURGBP needs GBP
  */
 export async function runSimulatorCSV(
   csvPath: string,
-  playbookFilter: 'NBB' | 'Tori' | 'Fabio' | 'JadeCap' | 'all' = 'all'
+  playbookFilter: 'NBB' | 'Tori' | 'Fabio' | 'JadeCap' | 'all' = 'all',
+  symbol?: string,
+  accountCurrency?: string
 ): Promise<void> {
   try {
     logger.info('═══════════════════════════════════════════════════');
@@ -51,20 +59,12 @@ export async function runSimulatorCSV(
       logger.warn('⚠️  Warning: Less than 50 candles may not produce reliable results');
     }
 
-    // Calculate previous day high/low (simplified - use all candles)
-    const allHighs = candles.map((c) => c.high);
-    const allLows = candles.map((c) => c.low);
-    const previousDayHigh = Math.max(...allHighs);
-    const previousDayLow = Math.min(...allLows);
-
-    logger.info(`Previous Day High: ${previousDayHigh}`);
-    logger.info(`Previous Day Low: ${previousDayLow}\n`);
+    // PDH/PDL, weekly and session levels are derived per candle by the
+    // simulator from prior history only (no look-ahead)
 
     // Create simulation config
     const config: SimulationConfig = {
       candles,
-      previousDayHigh,
-      previousDayLow,
       playbookFilter: playbookFilter === 'all' ? undefined : playbookFilter,
       riskConfig: {
         riskPerTradePercent: 2, // Risk 2% per trade
@@ -74,6 +74,8 @@ export async function runSimulatorCSV(
         useTrailingStop: false,
       },
       startingCapital: 100000, // $100k starting capital
+      symbol, // optional: stop/TP in its pips, sizes in its lot steps
+      accountCurrency, // optional: P&L currency (default USD)
       verbose: false, // Set to true for detailed trade-by-trade logging
     };
 
@@ -101,6 +103,8 @@ async function main() {
     // Parse command line arguments
     const csvPath = process.argv[2] || './examples/data.csv';
     const playbookFilter = (process.argv[3] || 'all') as 'NBB' | 'Tori' | 'Fabio' | 'JadeCap' | 'all';
+    const symbol = process.argv[4];
+    const accountCurrency = process.argv[5];
 
     // Validate playbook filter
     const validFilters = ['NBB', 'Tori', 'Fabio', 'JadeCap', 'all'];
@@ -110,15 +114,17 @@ async function main() {
       process.exit(1);
     }
 
-    await runSimulatorCSV(csvPath, playbookFilter);
+    await runSimulatorCSV(csvPath, playbookFilter, symbol, accountCurrency);
   } catch (error) {
     logger.error('Fatal error:', error);
     logger.info('\nUsage:');
-    logger.info('  npm run sim:csv -- <csv-path> [playbook-filter]');
+    logger.info('  npm run sim:csv -- <csv-path> [playbook-filter] [symbol] [account-currency]');
     logger.info('\nExamples:');
     logger.info('  npm run sim:csv -- examples/data.csv');
     logger.info('  npm run sim:csv -- examples/data.csv NBB');
-    logger.info('  npm run sim:csv -- examples/data.csv all\n');
+    logger.info('  npm run sim:csv -- examples/data.csv all');
+    logger.info('  npm run sim:csv -- examples/data.csv NBB EURUSD');
+    logger.info('  npm run sim:csv -- examples/data.csv all EURGBP GBP\n');
     process.exit(1);
   }
 }
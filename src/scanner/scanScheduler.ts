@@ -0,0 +1,112 @@
+import type { Server as SocketIOServer } from 'socket.io';
+import { parseTimeframe } from '@agent/timeframes';
+import { getScannerConfig } from '@config/config';
+import { createLogger } from '@utils/agent_logger';
+import { alertFromScanRow, notifySignalAlerts } from '../alerts/alertDispatcher';
+import { userRoom } from '../auth/middleware';
+import { runScan } from './scanner';
+import { listScheduledWatchlists, saveScanResult, Watchlist } from './watchlistService';
+
+const logger = createLogger('ScanScheduler');
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * SCHEDULED WATCHLIST SCANS
+ * ═══════════════════════════════════════════════════════════════
+ * Scans every scheduled watchlist right after each candle close of
+ * its timeframe (closes are aligned to the unix epoch, like resampled
+ * bars: 4h closes at 00:00, 04:00, ... UTC), plus
+ * scanner.closeDelaySeconds for the provider to publish the bar.
+ *
+ * Results are saved as the watchlist's last scan, emitted as
+ * 'scanResult' to the owner's socket room and passed to the owner's
+ * alert rules. A scan that is still running when the next close
+ * arrives skips that close.
+ */
+
+const timers = new Map<string, NodeJS.Timeout>();
+const running = new Set<string>();
+
+/**
+ * Next candle close of a timeframe after `now`
+ *
+ * @returns Close time (ms), or null for an unknown timeframe
+ */
+export function nextCandleClose(timeframe: string, now: number = Date.now()): number | null {
+  const minutes = parseTimeframe(timeframe);
+  if (!minutes) return null;
+
+  const period = minutes * 60_000;
+  return (Math.floor(now / period) + 1) * period;
+}
+
+/**
+ * (Re)schedule a watchlist; unscheduled watchlists are removed
+ */
+export function scheduleWatchlist(io: SocketIOServer, watchlist: Watchlist) {
+  unscheduleWatchlist(watchlist.id);
+  if (!watchlist.scheduled) return;
+
+  const close = nextCandleClose(watchlist.timeframe);
+  if (close === null) {
+    logger.warn(`⚠️  Unknown timeframe ${watchlist.timeframe} for watchlist ${watchlist.id}`);
+    return;
+  }
+
+  const delay = close - Date.now() + getScannerConfig().closeDelaySeconds * 1000;
+  const timer = setTimeout(async () => {
+    scheduleWatchlist(io, watchlist);
+    if (running.has(watchlist.id)) {
+      logger.warn(`⚠️  Previous scan of "${watchlist.name}" still running, skipping close`);
+      return;
+    }
+
+    running.add(watchlist.id);
+    try {
+      const result = await runScan(watchlist, { userId: watchlist.userId });
+      await saveScanResult(watchlist.id, result);
+      io.to(userRoom(watchlist.userId)).emit('scanResult', {
+        userId: watchlist.userId,
+        watchlistId: watchlist.id,
+        result,
+      });
+      for (const row of result.rows) {
+        const alert = alertFromScanRow(row);
+        if (alert) notifySignalAlerts(watchlist.userId, alert);
+      }
+    } catch (e) {
+      logger.error(`Error running scheduled scan "${watchlist.name}":`, e);
+    } finally {
+      running.delete(watchlist.id);
+    }
+  }, delay);
+
+  timers.set(watchlist.id, timer);
+}
+
+/**
+ * Stop scanning a watchlist at candle close
+ */
+export function unscheduleWatchlist(id: string) {
+  const timer = timers.get(id);
+  if (timer) {
+    clearTimeout(timer);
+    timers.delete(id);
+  }
+}
+
+/**
+ * Schedule every watchlist saved with scheduled = true
+ *
+ * @returns Stop function
+ */
+export async function startScanScheduler(io: SocketIOServer): Promise<() => void> {
+  const watchlists = await listScheduledWatchlists();
+  watchlists.forEach((watchlist) => scheduleWatchlist(io, watchlist));
+  logger.info(`⏱️  Scan scheduler running for ${watchlists.length} watchlist(s)`);
+
+  return () => {
+    timers.forEach((timer) => clearTimeout(timer));
+    timers.clear();
+  };
+}
@@ -0,0 +1,275 @@
+import { parseTimeframe } from '@agent/timeframes';
+import { getScannerConfig } from '@config/config';
+import { getAvailableProviders, getProvider } from '@data-providers/index';
+import type { Session } from '@custom-types/context';
+import type { Candle } from '@data-providers/types';
+import type { SignalDirection, SignalGrade } from '@signals/signalEngine';
+import { createLogger } from '@utils/agent_logger';
+import { runAnalysisFromBody } from '../server-analysis-helper';
+
+const logger = createLogger('Scanner');
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * WATCHLIST SCANNER
+ * ═══════════════════════════════════════════════════════════════
+ * Runs the full analysis pipeline (runAnalysisFromBody) over a list
+ * of symbols on one timeframe:
+ *
+ *   1. candles  → fetched per symbol through getProvider (scanner.candleLimit);
+ *                 a last bar still in progress is dropped, so scans
+ *                 run at candle close rank the bar that just closed
+ *   2. analysis → at most scanner.maxConcurrency symbols in flight
+ *   3. ranking  → directional signals first, by grade (A → C), then
+ *                 confidence; neutral results next, failed symbols last
+ *
+ * A symbol that fails (unknown symbol, provider error, too little
+ * history) becomes a row with `error` and never fails the scan.
+ */
+
+export interface ScanTarget {
+  symbol: string;
+  provider: string; // OANDA | FXCM | BINANCE | BYBIT
+}
+
+export interface ScanRequest {
+  timeframe: string;
+  targets: ScanTarget[];
+}
+
+export interface ScanRow {
+  rank: number;
+  symbol: string;
+  provider: string;
+  instrument: string;
+  timeframe: string;
+  direction: SignalDirection | null; // null when the symbol failed
+  grade: SignalGrade | null;
+  confidence: number;
+  playbook: string | null;
+  session: Session | null;
+  price: number | null; // last close
+  candleTime: number | null; // last candle (unix seconds)
+  entry: number | null;
+  stop: number | null;
+  riskHints: string[];
+  signalId: string | null; // journaled scans only
+  error: string | null;
+}
+
+// Request body of POST /scan and the watchlist routes
+export interface ScanBody {
+  timeframe?: unknown;
+  targets?: unknown;
+  symbols?: unknown;
+  provider?: unknown;
+}
+
+export interface ScanResult {
+  timeframe: string;
+  startedAt: string;
+  completedAt: string;
+  rows: ScanRow[];
+}
+
+// Candles for one symbol (defaults to the target's data provider)
+export type ScanCandleSource = (
+  provider: string,
+  symbol: string,
+  timeframe: string,
+  limit: number
+) => Promise<Candle[]>;
+
+const GRADE_ORDER: Record<SignalGrade, number> = { A: 0, B: 1, C: 2 };
+
+/**
+ * Fetch candles through the target's data provider
+ */
+export const providerScanCandles: ScanCandleSource = (provider, symbol, timeframe, limit) => {
+  const dataProvider = getProvider(provider);
+  if (!dataProvider) throw new Error(`Unknown provider: ${provider}`);
+  return dataProvider.fetchOHLC(symbol, timeframe, limit);
+};
+
+/**
+ * Scan a watchlist
+ *
+ * @param request - Timeframe and symbols
+ * @param options - userId (config overrides), journal (save signals), source (candles)
+ * @returns ScanResult with ranked rows
+ */
+export async function runScan(
+  request: ScanRequest,
+  options: { userId?: string; journal?: boolean; source?: ScanCandleSource } = {}
+): Promise<ScanResult> {
+  const { maxConcurrency, candleLimit } = getScannerConfig();
+  const source = options.source ?? providerScanCandles;
+  const { timeframe } = request;
+  const startedAt = new Date().toISOString();
+
+  logger.info(`🔎 Scanning ${request.targets.length} symbols on ${timeframe}...`);
+
+  const rows = await mapWithConcurrency(request.targets, maxConcurrency, async (target) => {
+    const instrument = instrumentFor(target.provider);
+    try {
+      const fetched = await source(target.provider, target.symbol, timeframe, candleLimit);
+      const candles = closedCandles(fetched, timeframe, Date.now());
+      const body = {
+        symbol: target.symbol,
+        instrument,
+        timeframe,
+        candles,
+        journal: options.journal ?? false,
+      };
+      const result = await runAnalysisFromBody(body, '/scan', options.userId);
+      const last = candles[candles.length - 1];
+
+      return scanRow(target, instrument, timeframe, {
+        direction: result.signal.direction,
+        grade: result.signal.grade,
+        confidence: result.signal.confidence,
+        playbook: result.signal.playbook,
+        session: result.context.session,
+        price: last.close,
+        candleTime: last.time,
+        entry: result.tradePlan.entry?.price ?? null,
+        stop: result.tradePlan.stop?.price ?? null,
+        riskHints: result.signal.riskHints,
+        signalId: result.signalId,
+      });
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      logger.warn(`⚠️  ${target.symbol} scan failed: ${error}`);
+      return scanRow(target, instrument, timeframe, { error });
+    }
+  });
+
+  const ranked = rankScanRows(rows);
+  const actionable = ranked.filter((r) => r.direction === 'long' || r.direction === 'short');
+  logger.success(`✓ Scan complete: ${actionable.length}/${ranked.length} symbols with a signal`);
+
+  return { timeframe, startedAt, completedAt: new Date().toISOString(), rows: ranked };
+}
+
+/**
+ * Sort scan rows (directional by grade + confidence, then neutral, then failed)
+ * and number them from 1
+ */
+export function rankScanRows(rows: ScanRow[]): ScanRow[] {
+  const tier = (row: ScanRow) => (row.error ? 2 : row.direction === 'neutral' ? 1 : 0);
+
+  return [...rows]
+    .sort(
+      (a, b) =>
+        tier(a) - tier(b) ||
+        (a.grade ? GRADE_ORDER[a.grade] : 3) - (b.grade ? GRADE_ORDER[b.grade] : 3) ||
+        b.confidence - a.confidence ||
+        a.symbol.localeCompare(b.symbol)
+    )
+    .map((row, i) => ({ ...row, rank: i + 1 }));
+}
+
+/**
+ * Validate a scan / watchlist body
+ * Accepts targets ([{ symbol, provider }]) or symbols + a shared provider.
+ *
+ * @throws Error describing the first invalid field
+ */
+export function parseScanRequest(body: ScanBody): ScanRequest {
+  const timeframe = String(body?.timeframe || '');
+  if (!parseTimeframe(timeframe)) {
+    throw new Error(`Invalid timeframe: "${timeframe}" (e.g. "15m", "1h", "4h")`);
+  }
+
+  const raw: Array<{ symbol?: unknown; provider?: unknown }> = Array.isArray(body?.targets)
+    ? body.targets
+    : Array.isArray(body?.symbols)
+      ? body.symbols.map((symbol) => ({ symbol, provider: body.provider }))
+      : [];
+
+  const { maxSymbols } = getScannerConfig();
+  if (raw.length === 0 || raw.length > maxSymbols) {
+    throw new Error(`A scan needs 1-${maxSymbols} symbols (targets or symbols + provider)`);
+  }
+
+  const targets = raw.map((t) => {
+    const symbol = typeof t?.symbol === 'string' ? t.symbol.trim() : '';
+    const provider = typeof t?.provider === 'string' ? t.provider.toUpperCase() : '';
+    if (!symbol) throw new Error(`Invalid scan target: ${JSON.stringify(t)}`);
+    if (!getProvider(provider)) {
+      const available = getAvailableProviders().join(', ');
+      throw new Error(`Unknown provider for ${symbol}: "${provider}". Available: ${available}`);
+    }
+    return { symbol, provider };
+  });
+
+  return { timeframe, targets };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+// Drop the last candle when it is still open at `now` (ms); providers
+// like Binance include the in-progress bar
+function closedCandles(candles: Candle[], timeframe: string, now: number): Candle[] {
+  const minutes = parseTimeframe(timeframe);
+  const last = candles[candles.length - 1];
+  if (!minutes || !last || (last.time + minutes * 60) * 1000 <= now) return candles;
+  return candles.slice(0, -1);
+}
+
+// Instrument class the pipeline and journal use for a provider
+function instrumentFor(provider: string): string {
+  if (provider === 'BINANCE' || provider === 'BYBIT') return 'CRYPTO';
+  if (provider === 'OANDA') return 'FOREX';
+  return 'CFD';
+}
+
+function scanRow(
+  target: ScanTarget,
+  instrument: string,
+  timeframe: string,
+  fields: Partial<ScanRow>
+): ScanRow {
+  return {
+    rank: 0,
+    symbol: target.symbol,
+    provider: target.provider,
+    instrument,
+    timeframe,
+    direction: null,
+    grade: null,
+    confidence: 0,
+    playbook: null,
+    session: null,
+    price: null,
+    candleTime: null,
+    entry: null,
+    stop: null,
+    riskHints: [],
+    signalId: null,
+    error: null,
+    ...fields,
+  };
+}
+
+// Run fn over items with at most `limit` calls in flight, results in input order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,135 @@
+import { pool } from '../db';
+import type { ScanRequest, ScanResult, ScanTarget } from './scanner';
+
+export interface Watchlist {
+  id: string;
+  userId: string;
+  name: string;
+  timeframe: string;
+  targets: ScanTarget[];
+  scheduled: boolean; // scanned at every candle close of the timeframe
+  lastScanAt: string | null;
+  lastResult: ScanResult | null;
+}
+
+export interface WatchlistInput extends ScanRequest {
+  name: string;
+  scheduled: boolean;
+}
+
+/**
+ * List a user's watchlists
+ */
+export async function listWatchlists(userId: string): Promise<Watchlist[]> {
+  const res = await pool.query(
+    `SELECT * FROM watchlists WHERE user_id = $1 ORDER BY created_at ASC`,
+    [userId]
+  );
+  return res.rows.map(toWatchlist);
+}
+
+/**
+ * Get one watchlist (null when it doesn't exist or belongs to another user)
+ */
+export async function getWatchlist(userId: string, id: string): Promise<Watchlist | null> {
+  const res = await pool.query(`SELECT * FROM watchlists WHERE id = $1 AND user_id = $2`, [
+    id,
+    userId,
+  ]);
+  return res.rowCount ? toWatchlist(res.rows[0]) : null;
+}
+
+/**
+ * Watchlists of all users that are scanned at candle close
+ */
+export async function listScheduledWatchlists(): Promise<Watchlist[]> {
+  const res = await pool.query(`SELECT * FROM watchlists WHERE scheduled = true`);
+  return res.rows.map(toWatchlist);
+}
+
+/**
+ * Create a watchlist
+ */
+export async function createWatchlist(userId: string, input: WatchlistInput): Promise<Watchlist> {
+  const res = await pool.query(
+    `
+      INSERT INTO watchlists (user_id, name, timeframe, targets, scheduled)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `,
+    [userId, input.name, input.timeframe, JSON.stringify(input.targets), input.scheduled]
+  );
+  return toWatchlist(res.rows[0]);
+}
+
+/**
+ * Replace a watchlist's name, symbols, timeframe and schedule
+ * @returns Updated watchlist, or null when not found
+ */
+export async function updateWatchlist(
+  userId: string,
+  id: string,
+  input: WatchlistInput
+): Promise<Watchlist | null> {
+  const res = await pool.query(
+    `
+      UPDATE watchlists
+      SET name = $3, timeframe = $4, targets = $5, scheduled = $6, updated_at = now()
+      WHERE id = $1 AND user_id = $2
+      RETURNING *
+    `,
+    [id, userId, input.name, input.timeframe, JSON.stringify(input.targets), input.scheduled]
+  );
+  return res.rowCount ? toWatchlist(res.rows[0]) : null;
+}
+
+/**
+ * Delete a watchlist
+ * @returns true when a watchlist was deleted
+ */
+export async function deleteWatchlist(userId: string, id: string): Promise<boolean> {
+  const res = await pool.query(`DELETE FROM watchlists WHERE id = $1 AND user_id = $2`, [
+    id,
+    userId,
+  ]);
+  return (res.rowCount ?? 0) > 0;
+}
+
+/**
+ * Keep the latest scan of a watchlist
+ */
+export async function saveScanResult(id: string, result: ScanResult): Promise<void> {
+  await pool.query(`UPDATE watchlists SET last_scan_at = $2, last_result = $3 WHERE id = $1`, [
+    id,
+    result.completedAt,
+    JSON.stringify(result),
+  ]);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+interface WatchlistRow {
+  id: string;
+  user_id: string;
+  name: string;
+  timeframe: string;
+  targets: ScanTarget[] | null;
+  scheduled: boolean;
+  last_scan_at: Date | null;
+  last_result: ScanResult | null;
+}
+
+function toWatchlist(row: WatchlistRow): Watchlist {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    timeframe: row.timeframe,
+    targets: row.targets || [],
+    scheduled: row.scheduled,
+    lastScanAt: row.last_scan_at ? new Date(row.last_scan_at).toISOString() : null,
+    lastResult: row.last_result || null,
+  };
+}
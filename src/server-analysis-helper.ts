@@ -1,8 +1,21 @@
-import { buildMarketContext, RawMarketData } from '@agent/context';
+import { analyzeWindow, assembleMarketContext, RawMarketData } from '@agent/context';
+import { ContextEngine } from '@agent/engine';
+import { buildChartOverlays } from '@agent/overlays';
+import { RawCandle } from '@custom-types/market';
 import { classifyMarket } from '@agent/classifier';
 import { buildSignal } from '@signals/signalEngine';
+import { buildTradePlan } from '@signals/tradePlan';
 import { createLogger } from '@utils/agent_logger';
 import { saveSignal } from './journal/journalService';
+import { Clock, parseCandleTime } from '@utils/clock';
+import { isValidRrTargets, runWithConfig } from '@config/config';
+import {
+  ConfigOverrides,
+  parseConfigOverrides,
+  resolveConfig,
+  toAnalysisConfig,
+} from '@config/overrides';
+import { getUserConfigOverrides } from './settings/userSettingsService';
 
 const logger = createLogger('AnalysisHelper');
 
@@ -11,51 +24,128 @@ function genId(prefix: string): string {
   return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(7)}`;
 }
 
+// Normalize webhook/bar times (seconds, ms or ISO) to unix seconds
+function toUnixSeconds(time: unknown): number | undefined {
+  const date = parseCandleTime(time);
+  return date ? Math.floor(date.getTime() / 1000) : undefined;
+}
+
+// Normalize a request/provider candle to RawCandle format
+export function toRawCandle(c: any): RawCandle {
+  return {
+    open: Number(c.open),
+    high: Number(c.high),
+    low: Number(c.low),
+    close: Number(c.close),
+    volume: Number(c.volume || 1000000),
+    time: toUnixSeconds(c.time),
+  };
+}
+
+function toRawCandles(candles: any[]): RawCandle[] {
+  return candles.map(toRawCandle);
+}
+
 /**
  * ═══════════════════════════════════════════════════════════════
  * REUSABLE ANALYSIS HELPER
  * ═══════════════════════════════════════════════════════════════
  * Convert HTTP request body to RawMarketData and run analysis
+ *
+ * Sessions and signal timestamps follow the last candle's time unless
+ * a clock is injected, so historical bars are analysed as of the bar.
+ *
+ * Live streams pass their ContextEngine (fed the same candles as
+ * body.candles) so the context is updated incrementally.
+ *
+ * Configuration is layered: config/*.json, then the user's saved
+ * overrides, then body.overrideConfig. The effective config is
+ * returned as `effectiveConfig`.
+ *
+ * body.rrTargets (the frontend's risk settings) sets the R-multiple
+ * targets of the trade plan; tradePlan.rrTargets applies otherwise.
+ *
+ * With a userId the signal is journaled, unless body.journal is false
+ * (scans still want the user's overrides without a journal entry).
  */
-export async function runAnalysisFromBody(body: any, routeLabel: string, userId?: string) {
+export async function runAnalysisFromBody(
+  body: any,
+  routeLabel: string,
+  userId?: string,
+  clock?: Clock,
+  engine?: ContextEngine
+) {
   const candles = body.candles || [];
 
   if (candles.length < 3) {
     throw new Error('Not enough candles (minimum 3 required)');
   }
 
-  // Convert to RawMarketData format
+  // Convert to RawMarketData format (HTF series are resampled when missing)
   const rawData: RawMarketData = {
-    candles: candles.map((c: any) => ({
-      open: Number(c.open),
-      high: Number(c.high),
-      low: Number(c.low),
-      close: Number(c.close),
-      volume: Number(c.volume || 1000000),
-      time: c.time,
-    })),
-    previousDayHigh: body.pdh || candles[candles.length - 1].high,
-    previousDayLow: body.pdl || candles[candles.length - 1].low,
+    candles: toRawCandles(candles),
+    // Explicit PDH/PDL win; otherwise the levels engine derives them from candles
+    previousDayHigh: body.pdh ? Number(body.pdh) : undefined,
+    previousDayLow: body.pdl ? Number(body.pdl) : undefined,
+    timeframe: body.timeframe || '15m',
+    htfCandles: body.htfCandles?.length ? toRawCandles(body.htfCandles) : undefined,
+    candles4H: body.candles4H?.length ? toRawCandles(body.candles4H) : undefined,
   };
 
-  // Build market context (runs all detectors)
-  const marketContext = buildMarketContext(rawData);
+  // Resolve effective config (invalid request overrides reject the request)
+  const requestOverrides = parseConfigOverrides(body.overrideConfig);
+  const userOverrides = userId ? await loadUserOverrides(userId) : undefined;
+  const config = resolveConfig(userOverrides, requestOverrides);
 
-  // Classify playbook
-  const classification = classifyMarket(marketContext);
+  if (body.rrTargets !== undefined && !isValidRrTargets(body.rrTargets)) {
+    throw new Error('Invalid rrTargets (expected an array of numbers > 0)');
+  }
 
-  // Build unified Flowrex signal
-  const signal = buildSignal(marketContext, classification, {
-    instrument: body.instrument || 'UNKNOWN',
-    timeframe: body.timeframe || '15m',
-    symbol: body.symbol,
+  const analysis = runWithConfig(config, () => {
+    // Build market context (runs all detectors, or reads the live engine's window state)
+    const windowData = engine ? engine.rawData() : rawData;
+    const windowAnalysis = engine ? engine.windowAnalysis() : analyzeWindow(rawData);
+    const marketContext = assembleMarketContext(windowData, windowAnalysis, clock);
+
+    // Classify playbook
+    const classification = classifyMarket(marketContext);
+
+    // Build unified Flowrex signal
+    const signal = buildSignal(marketContext, classification, {
+      instrument: body.instrument || 'UNKNOWN',
+      timeframe: body.timeframe || '15m',
+      symbol: body.symbol,
+    });
+
+    // Entry, stop and targets for the primary playbook (none for a suppressed signal)
+    const levels =
+      signal.direction === 'neutral'
+        ? null
+        : buildTradePlan(marketContext, classification, {
+            rrTargets: body.rrTargets,
+            symbol: body.symbol,
+          });
+
+    // Detector geometry + plan levels for the chart (candle-time coordinates)
+    const overlays = buildChartOverlays(windowData, windowAnalysis, marketContext, levels);
+
+    return { marketContext, classification, signal, levels, overlays };
   });
+  const { marketContext, classification, signal, levels, overlays } = analysis;
 
   // Auto-journal the signal to database (only if userId provided)
   let signalId: string | null = null;
-  if (userId) {
+  if (userId && body.journal !== false) {
     try {
-      signalId = await saveSignal(signal, marketContext, routeLabel.replace('/', ''), userId);
+      const source = routeLabel.replace('/', '');
+      signalId = await saveSignal(
+        signal,
+        marketContext,
+        source,
+        userId,
+        classification.traces,
+        levels
+      );
       logger.info(`✓ Signal saved to database: ${signalId}`);
     } catch (e) {
       logger.error('Error saving signal to database:', e);
@@ -71,16 +161,24 @@ export async function runAnalysisFromBody(body: any, routeLabel: string, userId?
     context: marketContext,
     classification,
     signal, // ⚡ Unified Flowrex signal
+    trace: classification.traces || [], // Per-playbook condition trace
     signalId, // Database signal ID for linking trades
     tradePlan: {
       playbook: classification.signal?.playbookName || 'NONE',
-      direction: classification.signal?.direction || 'NONE',
+      direction: (levels && classification.signal?.direction) || 'NONE',
       session: classification.signal?.session || 'UNKNOWN',
       confidence: classification.signal?.confidence || 0,
       context: classification.signal?.context || '',
       tpLogic: classification.signal?.tpLogic || '',
-      overlays: {}, // Placeholder for chart overlays
+      entry: levels?.entry ?? null,
+      stop: levels?.stop ?? null,
+      risk: levels?.risk ?? null,
+      targets: levels?.targets ?? [],
+      invalidation: levels?.invalidation ?? null,
+      invalidations: levels?.invalidations ?? [],
+      overlays,
     },
+    effectiveConfig: toAnalysisConfig(config), // Defaults + user + request overrides
   };
 
   logger.info(
@@ -89,3 +187,13 @@ export async function runAnalysisFromBody(body: any, routeLabel: string, userId?
 
   return result;
 }
+
+// Saved per-user overrides (analysis falls back to the global config if they can't be read)
+async function loadUserOverrides(userId: string): Promise<ConfigOverrides | undefined> {
+  try {
+    return parseConfigOverrides(await getUserConfigOverrides(userId));
+  } catch (e) {
+    logger.error('Error loading user config overrides:', e);
+    return undefined;
+  }
+}
@@ -9,11 +9,14 @@ import { startLiveStream, stopLiveStream } from './live/liveRouter';
 import { computeExposure } from '@portfolio/exposure';
 import { computeCorrelationMatrix } from '@portfolio/correlation';
 import { computeBasketRisk } from '@portfolio/riskEngine';
-import { createTrade, closeTrade, listRecentTrades } from './journal/journalService';
+import { createTrade, closeTrade, listRecentTrades, TradeInput } from './journal/journalService';
+import { startOutcomeTracker } from './journal/outcomeTracker';
+import { listCalibrationSamples } from './journal/journalQueries';
+import { buildCalibrationReport } from '@signals/calibration';
 import { openai } from './ai/openaiClient';
 import { buildAssistantContext } from './assistant/contextBuilder';
 import { registerUser, loginUser } from './auth/authService';
-import { requireAuth } from './auth/middleware';
+import { joinUserRoom, requireAuth } from './auth/middleware';
 import {
   getUserSettings,
   updateUserSettings,
@@ -21,10 +24,63 @@ import {
   findUserByTvSecret,
 } from './settings/userSettingsService';
 import type { PortfolioPosition } from '@portfolio/types';
+import { parseCandleTime } from '@utils/clock';
+import { getSessionAt, getWindowOccurrence, listWindows } from '@detectors/sessionCalendar';
+import { ConfigOverrides, parseConfigOverrides, resolveConfig } from '@config/overrides';
+import { getExecutionConfig, getOutcomeTrackingConfig } from '@config/config';
+import { getInstrument, isMarketOpen } from './instruments/instrumentRegistry';
+import { parseRiskRules, TradeProposal } from './risk/riskGovernor';
+import { calculatePositionSize, parseSizingRequest } from './risk/positionSizer';
+import {
+  checkJournalTrade,
+  getRiskRules,
+  loadSignalLevels,
+  saveRiskRules,
+} from './risk/riskService';
+import { parseScanRequest, runScan } from './scanner/scanner';
+import {
+  scheduleWatchlist,
+  startScanScheduler,
+  unscheduleWatchlist,
+} from './scanner/scanScheduler';
+import {
+  createWatchlist,
+  deleteWatchlist,
+  getWatchlist,
+  listWatchlists,
+  updateWatchlist,
+  WatchlistInput,
+} from './scanner/watchlistService';
+import { AlertRuleInput, parseAlertRule } from './alerts/alertRules';
+import {
+  createAlertRule,
+  deleteAlertRule,
+  listAlertDeliveries,
+  listAlertRules,
+  updateAlertRule,
+} from './alerts/alertService';
+import { alertFromAnalysis, notifySignalAlerts } from './alerts/alertDispatcher';
+import {
+  drainPaperAccount,
+  parsePaperAccountInput,
+  reloadPaperAccount,
+  startPaperTrading,
+} from './paper/paperTrading';
+import {
+  getPaperAccount,
+  listPaperFills,
+  listPaperOrders,
+  listPaperPositions,
+  PaperAccount,
+  PaperAccountInput,
+  resetPaperAccount,
+  savePaperAccount,
+} from './paper/paperService';
 
 const logger = createLogger('Server');
 const app = express();
 const PORT = process.env.PORT || 4000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 // HTTP server + Socket.IO
 const httpServer = http.createServer(app);
@@ -50,7 +106,8 @@ function validateWebhookSecret(req: Request, expectedSecret: string | undefined)
 
 // Socket.IO connection handling
 io.on('connection', (socket) => {
-  logger.info(`🔌 Client connected: ${socket.id}`);
+  const user = joinUserRoom(socket);
+  logger.info(`🔌 Client connected: ${socket.id}${user ? ` (user ${user.id})` : ''}`);
 
   socket.on('disconnect', () => {
     logger.info(`❌ Client disconnected: ${socket.id}`);
@@ -175,6 +232,7 @@ app.post('/webhook/tradingview', async (req: Request, res: Response) => {
       signal: result.signal, // ⚡ Include Flowrex signal
       result,
     });
+    notifySignalAlerts(userId, alertFromAnalysis('tradingview', result));
 
     logger.info(`✓ TradingView webhook processed for user: ${userId}`);
     res.json({ ok: true, resultId: result.id });
@@ -222,6 +280,7 @@ app.post('/webhook/mt5', async (req: Request, res: Response) => {
       signal: result.signal, // ⚡ Include Flowrex signal
       result,
     });
+    notifySignalAlerts(userId, alertFromAnalysis('mt5', result));
 
     logger.info(`✓ MT5 webhook processed for user: ${userId}`);
     res.json({ ok: true, resultId: result.id });
@@ -273,11 +332,69 @@ app.get('/data/ohlc', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * GET /instruments/:symbol
+ * ═══════════════════════════════════════════════════════════════
+ * Contract specs of a symbol or provider alias (EUR_USD → EURUSD)
+ * Query params: at (ISO time or unix seconds, for marketOpen; defaults to now)
+ */
+app.get('/instruments/:symbol', (req: Request, res: Response) => {
+  try {
+    const at = req.query.at ? parseCandleTime(String(req.query.at)) : new Date();
+    if (!at) {
+      return res.status(400).json({ error: 'Invalid "at" parameter' });
+    }
+
+    const instrument = getInstrument(String(req.params.symbol));
+    res.json({ ...instrument, marketOpen: isMarketOpen(instrument, at) });
+  } catch (err: any) {
+    logger.error('Error resolving instrument:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * GET /sessions
+ * ═══════════════════════════════════════════════════════════════
+ * Query the session calendar (DST-aware sessions and kill zones)
+ * Query params: at (ISO time or unix seconds, defaults to now)
+ */
+app.get('/sessions', (req: Request, res: Response) => {
+  try {
+    const at = req.query.at ? parseCandleTime(String(req.query.at)) : new Date();
+    if (!at) {
+      return res.status(400).json({ error: 'Invalid "at" parameter' });
+    }
+
+    const session = getSessionAt(at);
+    const windows = listWindows().map((w) => {
+      const occurrence = getWindowOccurrence(w.name, at);
+      return {
+        name: w.name,
+        label: w.label,
+        timezone: w.timezone,
+        session: w.session,
+        start: occurrence.start.toISOString(),
+        end: occurrence.end.toISOString(),
+        active: session.windows?.includes(w.name) || false,
+      };
+    });
+
+    res.json({ at: at.toISOString(), ...session, windows });
+  } catch (err: any) {
+    logger.error('Error querying session calendar:', err);
+    res.status(500).json({ error: String(err?.message || err) });
+  }
+});
+
 /**
  * ═══════════════════════════════════════════════════════════════
  * POST /data/live/start
  * ═══════════════════════════════════════════════════════════════
  * Start live market data stream from a broker
+ * Signal lifecycle transitions are journaled for the requesting user
  */
 app.post('/data/live/start', requireAuth, async (req: Request, res: Response) => {
   try {
@@ -286,7 +403,7 @@ app.post('/data/live/start', requireAuth, async (req: Request, res: Response) =>
       return res.status(400).json({ error: 'provider, symbol, timeframe required' });
     }
 
-    await startLiveStream(io, { provider, symbol, timeframe });
+    await startLiveStream(io, { provider, symbol, timeframe }, req.user!.id);
     logger.info(`📡 Started live stream: ${provider} ${symbol} ${timeframe}`);
     res.json({ ok: true });
   } catch (err: any) {
@@ -299,7 +416,8 @@ app.post('/data/live/start', requireAuth, async (req: Request, res: Response) =>
  * ═══════════════════════════════════════════════════════════════
  * POST /data/live/stop
  * ═══════════════════════════════════════════════════════════════
- * Stop live market data stream
+ * Stop the requesting user's subscription to a live market data stream
+ * (the stream itself stops when no user is left)
  */
 app.post('/data/live/stop', requireAuth, (req: Request, res: Response) => {
   try {
@@ -308,7 +426,7 @@ app.post('/data/live/stop', requireAuth, (req: Request, res: Response) => {
       return res.status(400).json({ error: 'provider, symbol, timeframe required' });
     }
 
-    stopLiveStream({ provider, symbol, timeframe });
+    stopLiveStream({ provider, symbol, timeframe }, req.user!.id);
     logger.info(`⏹️  Stopped live stream: ${provider} ${symbol} ${timeframe}`);
     res.json({ ok: true });
   } catch (err: any) {
@@ -316,21 +434,362 @@ app.post('/data/live/stop', requireAuth, (req: Request, res: Response) => {
   }
 });
 
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * POST /scan
+ * ═══════════════════════════════════════════════════════════════
+ * Scan a watchlist and rank the symbols by signal grade and confidence
+ * Body: { watchlistId } or { timeframe, targets: [{ symbol, provider }] }
+ *       (or symbols + provider); journal: true saves the signals
+ */
+app.post('/scan', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+
+    let request;
+    if (req.body.watchlistId) {
+      request = await getWatchlist(userId, String(req.body.watchlistId));
+      if (!request) return res.status(404).json({ error: 'Watchlist not found' });
+    } else {
+      try {
+        request = parseScanRequest(req.body);
+      } catch (err: any) {
+        return res.status(400).json({ error: String(err.message || err) });
+      }
+    }
+
+    const result = await runScan(request, { userId, journal: req.body.journal === true });
+    res.json(result);
+  } catch (err: any) {
+    logger.error('Error running scan:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * GET /scan/watchlists
+ * ═══════════════════════════════════════════════════════════════
+ * List current user's watchlists (with their last scan)
+ */
+app.get('/scan/watchlists', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const watchlists = await listWatchlists(req.user!.id);
+    res.json({ watchlists });
+  } catch (err: any) {
+    logger.error('Error listing watchlists:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * POST /scan/watchlists
+ * ═══════════════════════════════════════════════════════════════
+ * Save a watchlist
+ * Body: { name, timeframe, targets | symbols + provider, scheduled }
+ * Scheduled watchlists are scanned at every candle close of the timeframe
+ */
+app.post('/scan/watchlists', requireAuth, async (req: Request, res: Response) => {
+  let input: WatchlistInput;
+  try {
+    input = parseWatchlistInput(req.body);
+  } catch (err: any) {
+    return res.status(400).json({ error: String(err.message || err) });
+  }
+
+  try {
+    const watchlist = await createWatchlist(req.user!.id, input);
+    scheduleWatchlist(io, watchlist);
+    logger.info(`✓ Watchlist saved: ${watchlist.name} (${watchlist.targets.length} symbols)`);
+    res.json(watchlist);
+  } catch (err: any) {
+    logger.error('Error saving watchlist:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * PUT /scan/watchlists/:id
+ * ═══════════════════════════════════════════════════════════════
+ * Replace a watchlist (same body as POST /scan/watchlists)
+ */
+app.put('/scan/watchlists/:id', requireAuth, async (req: Request, res: Response) => {
+  let input: WatchlistInput;
+  try {
+    input = parseWatchlistInput(req.body);
+  } catch (err: any) {
+    return res.status(400).json({ error: String(err.message || err) });
+  }
+
+  try {
+    const watchlist = await updateWatchlist(req.user!.id, String(req.params.id), input);
+    if (!watchlist) return res.status(404).json({ error: 'Watchlist not found' });
+
+    scheduleWatchlist(io, watchlist);
+    res.json(watchlist);
+  } catch (err: any) {
+    logger.error('Error updating watchlist:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * DELETE /scan/watchlists/:id
+ * ═══════════════════════════════════════════════════════════════
+ * Delete a watchlist (and stop its scheduled scans)
+ */
+app.delete('/scan/watchlists/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const id = String(req.params.id);
+    const deleted = await deleteWatchlist(req.user!.id, id);
+    if (!deleted) return res.status(404).json({ error: 'Watchlist not found' });
+
+    unscheduleWatchlist(id);
+    res.json({ ok: true });
+  } catch (err: any) {
+    logger.error('Error deleting watchlist:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
+// Watchlist body: a scan request plus name and schedule flag
+function parseWatchlistInput(body: any): WatchlistInput {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name) throw new Error('Watchlist name is required');
+  return { ...parseScanRequest(body), name, scheduled: body.scheduled === true };
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * GET /alerts/rules
+ * ═══════════════════════════════════════════════════════════════
+ * List current user's alert rules
+ */
+app.get('/alerts/rules', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const rules = await listAlertRules(req.user!.id);
+    res.json({ rules });
+  } catch (err: any) {
+    logger.error('Error listing alert rules:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * POST /alerts/rules
+ * ═══════════════════════════════════════════════════════════════
+ * Create an alert rule
+ * Body: { name, enabled?, conditions: { symbols?, instruments?, timeframes?,
+ *         playbooks?, sessions?, directions?, minGrade?, minConfidence? },
+ *         channels: [{ type: 'webhook', url, secret? } | { type: 'email', to }
+ *                    | { type: 'chat', url, format: 'slack' | 'discord' }],
+ *         cooldownMinutes? }
+ */
+app.post('/alerts/rules', requireAuth, async (req: Request, res: Response) => {
+  let input: AlertRuleInput;
+  try {
+    input = parseAlertRule(req.body || {});
+  } catch (err: any) {
+    return res.status(400).json({ error: String(err.message || err) });
+  }
+
+  try {
+    const rule = await createAlertRule(req.user!.id, input);
+    logger.info(`✓ Alert rule saved: ${rule.name} (${rule.channels.length} channel(s))`);
+    res.json(rule);
+  } catch (err: any) {
+    logger.error('Error saving alert rule:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * PUT /alerts/rules/:id
+ * ═══════════════════════════════════════════════════════════════
+ * Replace an alert rule (same body as POST /alerts/rules)
+ */
+app.put('/alerts/rules/:id', requireAuth, async (req: Request, res: Response) => {
+  let input: AlertRuleInput;
+  try {
+    input = parseAlertRule(req.body || {});
+  } catch (err: any) {
+    return res.status(400).json({ error: String(err.message || err) });
+  }
+
+  try {
+    const rule = await updateAlertRule(req.user!.id, String(req.params.id), input);
+    if (!rule) return res.status(404).json({ error: 'Alert rule not found' });
+    res.json(rule);
+  } catch (err: any) {
+    logger.error('Error updating alert rule:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * DELETE /alerts/rules/:id
+ * ═══════════════════════════════════════════════════════════════
+ * Delete an alert rule and its delivery log
+ */
+app.delete('/alerts/rules/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const deleted = await deleteAlertRule(req.user!.id, String(req.params.id));
+    if (!deleted) return res.status(404).json({ error: 'Alert rule not found' });
+    res.json({ ok: true });
+  } catch (err: any) {
+    logger.error('Error deleting alert rule:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * GET /alerts/deliveries
+ * ═══════════════════════════════════════════════════════════════
+ * Delivery log of current user's alert rules, newest first
+ * Query: limit (default 50, max 500)
+ */
+app.get('/alerts/deliveries', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 500);
+    const deliveries = await listAlertDeliveries(req.user!.id, limit);
+    res.json({ deliveries });
+  } catch (err: any) {
+    logger.error('Error listing alert deliveries:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * GET /paper/account
+ * ═══════════════════════════════════════════════════════════════
+ * Current user's paper account with open positions and working orders
+ */
+app.get('/paper/account', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const account = await getPaperAccount(userId);
+    if (!account) return res.status(404).json({ error: 'Paper account not found' });
+
+    const [positions, orders] = await Promise.all([
+      listPaperPositions(userId, 'open'),
+      listPaperOrders(userId, 'open'),
+    ]);
+    res.json({ account, positions, orders });
+  } catch (err: any) {
+    logger.error('Error loading paper account:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * PUT /paper/account
+ * ═══════════════════════════════════════════════════════════════
+ * Create the paper account or change its settings
+ * Body: { enabled?, riskPercent?, filters?: alert rule conditions,
+ *         startingBalance? (new accounts only; see /paper/account/reset) }
+ * Enabled accounts trade setups of running live streams (/data/live/start)
+ */
+app.put('/paper/account', requireAuth, async (req: Request, res: Response) => {
+  let input: PaperAccountInput;
+  try {
+    input = parsePaperAccountInput(req.body || {});
+  } catch (err: any) {
+    return res.status(400).json({ error: String(err.message || err) });
+  }
+
+  try {
+    const { startingBalance, currency } = getExecutionConfig().mock;
+    const account = await savePaperAccount(req.user!.id, {
+      ...input,
+      startingBalance: input.startingBalance ?? startingBalance,
+      currency,
+    });
+    await reloadPaperAccount(account.userId);
+    res.json(account);
+  } catch (err: any) {
+    logger.error('Error saving paper account:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * POST /paper/account/reset
+ * ═══════════════════════════════════════════════════════════════
+ * Delete paper orders, positions and fills and restart the balance
+ * Body: { startingBalance? }
+ */
+app.post('/paper/account/reset', requireAuth, async (req: Request, res: Response) => {
+  const startingBalance = req.body?.startingBalance;
+  if (startingBalance !== undefined && !(Number(startingBalance) > 0)) {
+    return res.status(400).json({ error: `Invalid startingBalance: ${startingBalance}` });
+  }
+
+  try {
+    // No live update may write stale orders over the reset
+    await drainPaperAccount(req.user!.id);
+    let account: PaperAccount | null;
+    try {
+      account = await resetPaperAccount(
+        req.user!.id,
+        startingBalance === undefined ? undefined : Number(startingBalance)
+      );
+    } finally {
+      await reloadPaperAccount(req.user!.id);
+    }
+    if (!account) return res.status(404).json({ error: 'Paper account not found' });
+
+    res.json(account);
+  } catch (err: any) {
+    logger.error('Error resetting paper account:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * GET /paper/fills
+ * ═══════════════════════════════════════════════════════════════
+ * Paper fills of current user, newest first
+ * Query: limit (default 50, max 500)
+ */
+app.get('/paper/fills', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 500);
+    const fills = await listPaperFills(req.user!.id, limit);
+    res.json({ fills });
+  } catch (err: any) {
+    logger.error('Error listing paper fills:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
 /**
  * ═══════════════════════════════════════════════════════════════
  * POST /portfolio/radar
  * ═══════════════════════════════════════════════════════════════
  * Portfolio risk analysis endpoint
+ * Risk values are in the account currency (body.currency, default USD);
+ * body.rates adds prices for quotes the positions cannot convert (GBPUSD, ...)
  */
 app.post('/portfolio/radar', requireAuth, async (req: Request, res: Response) => {
   try {
-    const { positions, priceHistory, balance } = req.body;
+    const { positions, priceHistory, balance, currency, rates } = req.body;
 
     if (!positions || !priceHistory) {
       return res.status(400).json({ error: 'positions and priceHistory required' });
     }
 
-    const exposures = computeExposure(positions, balance || 5000);
+    const exposures = computeExposure(positions, balance || 5000, currency, rates);
     const corr = computeCorrelationMatrix(positions, priceHistory);
     const basket = computeBasketRisk(positions, corr, exposures, balance || 5000);
 
@@ -350,15 +809,165 @@ app.post('/portfolio/radar', requireAuth, async (req: Request, res: Response) =>
   }
 });
 
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * GET /risk/rules
+ * ═══════════════════════════════════════════════════════════════
+ * Current user's pre-trade risk rules (null = no limit)
+ */
+app.get('/risk/rules', requireAuth, async (req: Request, res: Response) => {
+  try {
+    res.json(await getRiskRules(req.user!.id));
+  } catch (err: any) {
+    logger.error('Error loading risk rules:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * PUT /risk/rules
+ * ═══════════════════════════════════════════════════════════════
+ * Replace the risk rules checked before journaling or paper trading
+ * Body: { accountBalance?, maxRiskPercent?, maxDailyTrades?, dailyLossLimitPercent?,
+ *         maxOpenPositions?, maxCorrelatedPositions?,
+ *         tradingHours?: { days?, start: "HH:MM", end: "HH:MM" } (UTC) }
+ */
+app.put('/risk/rules', requireAuth, async (req: Request, res: Response) => {
+  let rules;
+  try {
+    rules = parseRiskRules(req.body || {});
+  } catch (err: any) {
+    return res.status(400).json({ error: String(err.message || err) });
+  }
+
+  try {
+    res.json(await saveRiskRules(req.user!.id, rules));
+  } catch (err: any) {
+    logger.error('Error saving risk rules:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * POST /risk/size
+ * ═══════════════════════════════════════════════════════════════
+ * Position size that risks riskPercent of the balance
+ * Body: { symbol, balance, currency? (USD), riskPercent, entry, stop,
+ *         rates?: { USDJPY: 150.2, ... } (quote → account conversion) }
+ *   or: { signalId, balance, ... } → symbol, entry and stop from the
+ *       saved signal's trade plan (explicit fields win)
+ * Returns units/lots on the lot step, risk and pip value in the account
+ * currency, pip distance and the margin estimate
+ */
+app.post('/risk/size', requireAuth, async (req: Request, res: Response) => {
+  const body = { ...(req.body || {}) };
+
+  if (body.signalId) {
+    if (!UUID_PATTERN.test(String(body.signalId))) {
+      return res.status(400).json({ error: 'signalId must be a UUID' });
+    }
+    try {
+      const levels = await loadSignalLevels(req.user!.id, String(body.signalId));
+      if (!levels) {
+        return res.status(404).json({ error: 'Signal with a trade plan not found' });
+      }
+      body.symbol = body.symbol ?? levels.symbol;
+      body.entry = body.entry ?? levels.entry;
+      body.stop = body.stop ?? levels.stop;
+    } catch (err: any) {
+      logger.error('Error loading signal trade plan:', err);
+      return res.status(500).json({ error: String(err.message || err) });
+    }
+  }
+
+  try {
+    res.json(calculatePositionSize(parseSizingRequest(body)));
+  } catch (err: any) {
+    res.status(400).json({ error: String(err.message || err) });
+  }
+});
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * POST /risk/check
+ * ═══════════════════════════════════════════════════════════════
+ * Dry-run a trade against the risk rules and the trade journal
+ * Body: { symbol, direction, entryPrice, stopPrice?, size (lots), at?, rates? }
+ * Returns { allowed, rejections: [{ rule, message, limit, actual }] }
+ */
+app.post('/risk/check', requireAuth, async (req: Request, res: Response) => {
+  const { symbol, direction, entryPrice, stopPrice, size, at, rates } = req.body || {};
+  if (!symbol || (direction !== 'long' && direction !== 'short')) {
+    return res.status(400).json({ error: 'symbol and direction (long | short) required' });
+  }
+  if (!(Number(entryPrice) > 0) || !(Number(size) > 0)) {
+    return res.status(400).json({ error: 'entryPrice and size must be > 0' });
+  }
+  const when = at ? parseCandleTime(at) : new Date();
+  if (!when) {
+    return res.status(400).json({ error: 'Invalid "at" time' });
+  }
+
+  try {
+    const proposal: TradeProposal = {
+      symbol: String(symbol),
+      direction,
+      entryPrice: Number(entryPrice),
+      stopPrice: stopPrice === undefined || stopPrice === null ? null : Number(stopPrice),
+      size: Number(size),
+      at: when,
+      rates:
+        rates && typeof rates === 'object'
+          ? Object.fromEntries(Object.entries(rates).map(([s, price]) => [s, Number(price)]))
+          : undefined,
+    };
+    res.json(await checkJournalTrade(req.user!.id, proposal));
+  } catch (err: any) {
+    logger.error('Error checking trade risk:', err);
+    res.status(500).json({ error: String(err.message || err) });
+  }
+});
+
 /**
  * ═══════════════════════════════════════════════════════════════
  * POST /journal/trades
  * ═══════════════════════════════════════════════════════════════
  * Create a new trade journal entry
+ * Open trades are checked against the user's risk rules first (422 with
+ * { rejections } when a rule fails); send stopPrice for risk per trade
  */
 app.post('/journal/trades', requireAuth, async (req: Request, res: Response) => {
   try {
-    const trade = await createTrade(req.body, req.user!.id);
+    const input: TradeInput = req.body;
+    const entryTime = input.entryTime ? parseCandleTime(input.entryTime) : new Date();
+    if (!entryTime) {
+      return res.status(400).json({ error: 'Invalid entryTime' });
+    }
+
+    // New open trades must pass the user's risk rules
+    if (input.status === 'open') {
+      const decision = await checkJournalTrade(req.user!.id, {
+        symbol: input.symbol,
+        direction: input.direction === 'short' ? 'short' : 'long',
+        entryPrice: Number(input.entryPrice),
+        stopPrice:
+          input.stopPrice === undefined || input.stopPrice === null
+            ? null
+            : Number(input.stopPrice),
+        size: Number(input.size),
+        at: entryTime,
+      });
+      if (!decision.allowed) {
+        logger.warn(`🛑 Trade rejected by risk rules: ${input.symbol} ${input.direction}`);
+        return res
+          .status(422)
+          .json({ error: 'Trade rejected by risk rules', rejections: decision.rejections });
+      }
+    }
+
+    const trade = await createTrade(input, req.user!.id);
     logger.info(`✓ Trade created: ${trade.id} - ${trade.symbol} ${trade.direction}`);
     res.json(trade);
   } catch (err: any) {
@@ -402,6 +1011,34 @@ app.get('/journal/trades', requireAuth, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * GET /journal/calibration
+ * ═══════════════════════════════════════════════════════════════
+ * Confidence calibration of the user's signals with a recorded outcome:
+ * reliability bins and Brier score overall and per playbook, session
+ * and grade. ?fit=true adds a recalibration mapping for weights.json
+ * "calibration"; ?binSize (default 10) and ?since (ISO date) narrow it.
+ */
+app.get('/journal/calibration', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const binSize = req.query.binSize ? Number(req.query.binSize) : 10;
+    if (!(binSize >= 1 && binSize <= 100)) {
+      return res.status(400).json({ error: 'binSize must be between 1 and 100' });
+    }
+    const since = req.query.since ? parseCandleTime(req.query.since) : null;
+    if (req.query.since && !since) {
+      return res.status(400).json({ error: 'since must be an ISO date' });
+    }
+
+    const samples = await listCalibrationSamples(req.user!.id, since?.toISOString());
+    res.json(buildCalibrationReport(samples, { binSize, fit: req.query.fit === 'true' }));
+  } catch (err: any) {
+    logger.error('Error building calibration report:', err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
 /**
  * ═══════════════════════════════════════════════════════════════
  * POST /assistant/chat
@@ -511,13 +1148,26 @@ app.get('/settings/me', requireAuth, async (req: Request, res: Response) => {
  * PUT /settings/me
  * ═══════════════════════════════════════════════════════════════
  * Update current user's workspace settings
+ * configOverrides (optional) is validated against the global config
+ * before it is saved; omit it to keep the saved overrides.
  */
 app.put('/settings/me', requireAuth, async (req: Request, res: Response) => {
   try {
     const userId = req.user!.id;
     const { brokerConfig, keys } = req.body;
 
-    const updated = await updateUserSettings(userId, brokerConfig || {}, keys || {});
+    let configOverrides: ConfigOverrides | undefined;
+    if (req.body.configOverrides !== undefined) {
+      configOverrides = parseConfigOverrides(req.body.configOverrides);
+      resolveConfig(configOverrides);
+    }
+
+    const updated = await updateUserSettings(
+      userId,
+      brokerConfig || {},
+      keys || {},
+      configOverrides
+    );
     logger.info(`✓ Settings updated for user: ${userId}`);
     res.json(updated);
   } catch (err: any) {
@@ -554,15 +1204,34 @@ httpServer.listen(PORT, () => {
   logger.info(`   POST http://localhost:${PORT}/webhook/tradingview`);
   logger.info(`   POST http://localhost:${PORT}/webhook/mt5`);
   logger.info(`   GET  http://localhost:${PORT}/data/ohlc`);
+  logger.info(`   GET  http://localhost:${PORT}/instruments/:symbol`);
+  logger.info(`   GET  http://localhost:${PORT}/sessions`);
   logger.info(`   POST http://localhost:${PORT}/data/live/start`);
   logger.info(`   POST http://localhost:${PORT}/data/live/stop`);
+  logger.info(`   POST http://localhost:${PORT}/scan`);
+  logger.info(`   GET  http://localhost:${PORT}/scan/watchlists`);
+  logger.info(`   GET  http://localhost:${PORT}/alerts/rules`);
+  logger.info(`   GET  http://localhost:${PORT}/alerts/deliveries`);
+  logger.info(`   GET  http://localhost:${PORT}/paper/account`);
+  logger.info(`   GET  http://localhost:${PORT}/paper/fills`);
   logger.info(`   POST http://localhost:${PORT}/portfolio/radar`);
+  logger.info(`   GET  http://localhost:${PORT}/risk/rules`);
+  logger.info(`   POST http://localhost:${PORT}/risk/size`);
+  logger.info(`   POST http://localhost:${PORT}/risk/check`);
   logger.info(`   POST http://localhost:${PORT}/journal/trades`);
   logger.info(`   POST http://localhost:${PORT}/journal/trades/:id/close`);
   logger.info(`   GET  http://localhost:${PORT}/journal/trades`);
+  logger.info(`   GET  http://localhost:${PORT}/journal/calibration`);
   logger.info(`   POST http://localhost:${PORT}/assistant/chat`);
   logger.info(`   GET  http://localhost:${PORT}/health`);
   logger.info(`\n🔌 WebSocket: Socket.IO ready for live updates\n`);
+
+  if (getOutcomeTrackingConfig().enabled) {
+    startOutcomeTracker();
+  }
+
+  startScanScheduler(io).catch((e) => logger.error('Error starting scan scheduler:', e));
+  startPaperTrading(io).catch((e) => logger.error('Error starting paper trading:', e));
 });
 
 // Graceful shutdown
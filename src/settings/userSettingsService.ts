@@ -1,5 +1,6 @@
 import { pool } from '../db';
 import { encryptJSON, decryptJSON } from '../crypto/secretStore';
+import { ConfigOverrides } from '@config/overrides';
 
 export interface UserKeys {
   oanda?: { apiKey?: string; accountId?: string };
@@ -19,6 +20,7 @@ export interface UserBrokerConfig {
 export interface UserSettings {
   brokerConfig: UserBrokerConfig;
   keys: UserKeys;
+  configOverrides: ConfigOverrides; // layered over config/*.json in every analysis
 }
 
 /**
@@ -27,7 +29,7 @@ export interface UserSettings {
  */
 export async function getUserSettings(userId: string): Promise<UserSettings> {
   const res = await pool.query(
-    `SELECT broker_config, encrypted_keys FROM user_settings WHERE user_id = $1`,
+    `SELECT broker_config, encrypted_keys, config_overrides FROM user_settings WHERE user_id = $1`,
     [userId]
   );
 
@@ -39,45 +41,64 @@ export async function getUserSettings(userId: string): Promise<UserSettings> {
         defaultSymbol: 'BTCUSDT',
       },
       keys: {},
+      configOverrides: {},
     };
   }
 
   const row = res.rows[0];
   const brokerConfig = (row.broker_config || {}) as UserBrokerConfig;
   const keys = row.encrypted_keys ? (decryptJSON(row.encrypted_keys) as UserKeys) : {};
+  const configOverrides = (row.config_overrides || {}) as ConfigOverrides;
 
-  return { brokerConfig, keys };
+  return { brokerConfig, keys, configOverrides };
+}
+
+/**
+ * Get a user's saved configuration overrides
+ * Returns {} if the user has none
+ */
+export async function getUserConfigOverrides(userId: string): Promise<ConfigOverrides> {
+  const res = await pool.query(
+    `SELECT config_overrides FROM user_settings WHERE user_id = $1`,
+    [userId]
+  );
+
+  return (res.rows[0]?.config_overrides || {}) as ConfigOverrides;
 }
 
 /**
  * Update user settings in database
- * Encrypts keys before storing
+ * Encrypts keys before storing. Saved config overrides are kept when
+ * configOverrides is undefined.
  */
 export async function updateUserSettings(
   userId: string,
   brokerConfig: UserBrokerConfig,
-  keys: UserKeys
+  keys: UserKeys,
+  configOverrides?: ConfigOverrides
 ): Promise<UserSettings> {
   const encrypted = encryptJSON(keys);
 
   const res = await pool.query(
     `
-      INSERT INTO user_settings (user_id, broker_config, encrypted_keys)
-      VALUES ($1, $2, $3)
+      INSERT INTO user_settings (user_id, broker_config, encrypted_keys, config_overrides)
+      VALUES ($1, $2, $3, $4)
       ON CONFLICT (user_id)
       DO UPDATE SET
         broker_config = EXCLUDED.broker_config,
         encrypted_keys = EXCLUDED.encrypted_keys,
+        config_overrides = COALESCE(EXCLUDED.config_overrides, user_settings.config_overrides),
         updated_at = now()
-      RETURNING broker_config, encrypted_keys
+      RETURNING broker_config, encrypted_keys, config_overrides
     `,
-    [userId, brokerConfig, encrypted]
+    [userId, brokerConfig, encrypted, configOverrides ?? null]
   );
 
   const row = res.rows[0];
   return {
     brokerConfig: row.broker_config || {},
     keys,
+    configOverrides: row.config_overrides || {},
   };
 }
 
@@ -0,0 +1,190 @@
+import { CalibrationPoint } from '@config/config';
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * CONFIDENCE CALIBRATION
+ * ═══════════════════════════════════════════════════════════════
+ * Compares predicted confidence with realized hit rate on signals
+ * with a recorded outcome (see src/journal/outcomeTracker.ts):
+ *
+ *   reliability bins → signals bucketed by confidence (binSize points);
+ *                      a calibrated model has hitRate ≈ meanConfidence
+ *   Brier score      → mean (confidence/100 − hit)², 0 = perfect,
+ *                      0.25 = a constant 50% guess
+ *
+ * Reported overall and per playbook, session and grade.
+ *
+ * fitCalibration() turns bins of the model confidence (before any
+ * recalibration already in use) into a monotonic mapping
+ * (pool-adjacent-violators over the bins, weighted by signal count).
+ * Putting it in weights.json "calibration" (or a user's overrides)
+ * makes the confidence model apply it to every new signal.
+ */
+
+export interface CalibrationSample {
+  confidence: number; // 0-100 as published
+  modelConfidence: number; // before recalibration (the input a fitted mapping gets)
+  grade: string;
+  playbook: string;
+  session: string;
+  hit: boolean; // trade closed in profit (target, or expired above entry)
+}
+
+export interface ReliabilityBin {
+  from: number; // confidence range [from, to)
+  to: number;
+  count: number;
+  meanConfidence: number;
+  hitRate: number; // 0-100
+}
+
+export interface CalibrationGroup {
+  count: number;
+  hits: number;
+  hitRate: number; // 0-100
+  meanConfidence: number;
+  brier: number;
+  bins: ReliabilityBin[]; // non-empty bins only
+}
+
+export interface CalibrationReport {
+  binSize: number;
+  overall: CalibrationGroup;
+  byPlaybook: Record<string, CalibrationGroup>;
+  bySession: Record<string, CalibrationGroup>;
+  byGrade: Record<string, CalibrationGroup>;
+  recalibration: CalibrationPoint[] | null; // when requested
+}
+
+/**
+ * Build the calibration report
+ *
+ * @param samples - Signals with their outcome
+ * @param options - binSize (confidence points per bin), fit (add a recalibration mapping)
+ */
+export function buildCalibrationReport(
+  samples: CalibrationSample[],
+  options: { binSize?: number; fit?: boolean } = {}
+): CalibrationReport {
+  const binSize = options.binSize ?? 10;
+  if (!(binSize > 0 && binSize <= 100)) {
+    throw new Error(`Invalid binSize: ${binSize} (must be 1-100)`);
+  }
+
+  const groupBy = (key: (s: CalibrationSample) => string) => {
+    const groups: Record<string, CalibrationSample[]> = {};
+    for (const sample of samples) {
+      (groups[key(sample)] ||= []).push(sample);
+    }
+    return Object.fromEntries(
+      Object.entries(groups).map(([name, group]) => [name, summarize(group, binSize)])
+    );
+  };
+
+  const overall = summarize(samples, binSize);
+  return {
+    binSize,
+    overall,
+    byPlaybook: groupBy((s) => s.playbook),
+    bySession: groupBy((s) => s.session),
+    byGrade: groupBy((s) => s.grade),
+    recalibration: options.fit ? fitCalibration(modelBins(samples, binSize)) : null,
+  };
+}
+
+/**
+ * Fit a monotonic confidence → hit rate mapping from reliability bins
+ */
+export function fitCalibration(bins: ReliabilityBin[]): CalibrationPoint[] {
+  // Pool adjacent bins until hit rates are non-decreasing
+  const blocks: Array<{ confidence: number; hitRate: number; count: number }> = [];
+  for (const bin of bins) {
+    blocks.push({ confidence: bin.meanConfidence, hitRate: bin.hitRate, count: bin.count });
+    while (
+      blocks.length > 1 &&
+      blocks[blocks.length - 2].hitRate > blocks[blocks.length - 1].hitRate
+    ) {
+      const b = blocks.pop()!;
+      const a = blocks.pop()!;
+      const count = a.count + b.count;
+      blocks.push({
+        confidence: (a.confidence * a.count + b.confidence * b.count) / count,
+        hitRate: (a.hitRate * a.count + b.hitRate * b.count) / count,
+        count,
+      });
+    }
+  }
+
+  return blocks.map((b) => ({ confidence: round(b.confidence), calibrated: round(b.hitRate) }));
+}
+
+/**
+ * Map a model confidence through a calibration mapping
+ * Linear between points, flat beyond the first and last point.
+ */
+export function applyCalibration(confidence: number, points: CalibrationPoint[]): number {
+  if (points.length === 0) return confidence;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (confidence <= first.confidence) return first.calibrated;
+  if (confidence >= last.confidence) return last.calibrated;
+
+  const upper = points.findIndex((p) => p.confidence >= confidence);
+  const a = points[upper - 1];
+  const b = points[upper];
+  const t = (confidence - a.confidence) / (b.confidence - a.confidence);
+  return a.calibrated + t * (b.calibrated - a.calibrated);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+function summarize(samples: CalibrationSample[], binSize: number): CalibrationGroup {
+  const count = samples.length;
+  const hits = samples.filter((s) => s.hit).length;
+  const brier = samples.reduce((sum, s) => sum + (s.confidence / 100 - (s.hit ? 1 : 0)) ** 2, 0);
+
+  const bins: ReliabilityBin[] = [];
+  for (let from = 0; from < 100; from += binSize) {
+    const to = Math.min(100, from + binSize);
+    // The last bin includes 100
+    const inBin = samples.filter(
+      (s) => s.confidence >= from && (s.confidence < to || (to === 100 && s.confidence === 100))
+    );
+    if (inBin.length === 0) continue;
+
+    bins.push({
+      from,
+      to,
+      count: inBin.length,
+      meanConfidence: round(mean(inBin.map((s) => s.confidence))),
+      hitRate: round((inBin.filter((s) => s.hit).length / inBin.length) * 100),
+    });
+  }
+
+  return {
+    count,
+    hits,
+    hitRate: count ? round((hits / count) * 100) : 0,
+    meanConfidence: count ? round(mean(samples.map((s) => s.confidence))) : 0,
+    brier: count ? round(brier / count, 4) : 0,
+    bins,
+  };
+}
+
+// Reliability bins of the model confidence, for fitting a mapping to apply to it
+function modelBins(samples: CalibrationSample[], binSize: number): ReliabilityBin[] {
+  const model = samples.map((s) => ({ ...s, confidence: s.modelConfidence }));
+  return summarize(model, binSize).bins;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
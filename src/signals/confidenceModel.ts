@@ -0,0 +1,250 @@
+import { ClassifierOutput, Direction, MarketContext } from '@custom-types/context';
+import {
+  getCalibrationConfig,
+  getConfidenceModel,
+  getDetectorWeights,
+  getSessionWeight,
+  WeightsConfig,
+} from '@config/config';
+import { isInSession, isInWindow, listWindows } from '@detectors/sessionCalendar';
+import { applyCalibration } from './calibration';
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * WEIGHTED CONFIDENCE MODEL
+ * ═══════════════════════════════════════════════════════════════
+ * Turns the primary playbook's confidence into the signal confidence,
+ * driven entirely by config/weights.json:
+ *
+ *   confidence = playbookConfidence × sessionWeight
+ *              + confluenceRange × (confluence − 0.5)
+ *              − penalties + boosts                  (clamped 0-100, rounded)
+ *
+ *   playbookConfidence  baseConfidence (playbooks.json) + applied
+ *                       confidenceModifiers, as scored by the playbook
+ *   sessionWeight       sessionWeights[session] ("overlap" while the
+ *                       London and NY sessions are both open)
+ *   confluence          Σ detectorWeights of detectors confirming the
+ *                       trade direction / Σ all scored detectorWeights
+ *                       (0 → −range/2 points, 1 → +range/2 points)
+ *   penalties/boosts    confidenceModel: late NY session, high volatility
+ *                       without displacement, counter-trend, other
+ *                       playbooks agreeing or conflicting (scoring mode)
+ *
+ * With weights.json "calibration" enabled, the result is then mapped
+ * through the fitted calibration points (see calibration.ts).
+ *
+ * Grade: A at confidenceModel.gradeA+, B at gradeB+, otherwise C.
+ *
+ * Example (weights.json defaults): NBB at 95% in the NY session with 80%
+ * confluence → 95 × 1.0 + 20 × 0.3 = 101 → clamped to 100, grade A.
+ */
+
+export type SignalGrade = 'A' | 'B' | 'C';
+
+type DetectorId = keyof WeightsConfig['detectorWeights'];
+
+export interface DetectorEvidence {
+  id: DetectorId;
+  label: string;
+  weight: number;
+  active: boolean; // detector confirms the trade direction
+}
+
+export interface ConfidenceAdjustment {
+  factor: string;
+  delta: number; // points added (negative = penalty)
+}
+
+export interface ConfidenceBreakdown {
+  playbookConfidence: number;
+  sessionWeight: number;
+  confluence: number; // 0-1
+  confluenceDelta: number;
+  detectors: DetectorEvidence[];
+  adjustments: ConfidenceAdjustment[];
+  uncalibrated: number | null; // model confidence before recalibration (null when off)
+  confidence: number; // 0-100
+  grade: SignalGrade;
+}
+
+// How each weighted detector confirms a trade direction
+// (mmmPhase has no detector in MarketContext yet, so its weight is not scored)
+const DETECTORS: Array<{
+  id: DetectorId;
+  label: string;
+  confirms: (ctx: MarketContext, direction: Direction) => boolean;
+}> = [
+  { id: 'htfTrend', label: 'HTF trend', confirms: (ctx, dir) => ctx.htfTrend === dir },
+  {
+    id: 'liquiditySweep',
+    label: 'Liquidity sweep',
+    confirms: (ctx, dir) =>
+      ctx.liquiditySweep && ctx.sweptDirection === (dir === 'bullish' ? 'low' : 'high'),
+  },
+  {
+    id: 'structureBreak',
+    label: 'Structure break',
+    confirms: (ctx, dir) => ctx.structureBreak && ctx.breakDirection === dir,
+  },
+  { id: 'volumeSpike', label: 'Volume spike', confirms: (ctx) => ctx.volumeSpike },
+  { id: 'oteRetrace', label: 'OTE retrace', confirms: (ctx) => ctx.oteRetrace },
+  {
+    id: 'trendline',
+    label: 'Respected trendline',
+    confirms: (ctx) => ctx.trendline.exists && ctx.trendline.respected,
+  },
+  {
+    id: 'balanceToImbalance',
+    label: 'Balance → imbalance',
+    confirms: (ctx, dir) =>
+      ctx.balanceZones.transition && ctx.balanceZones.transitionDirection === dir,
+  },
+  { id: 'sessionTiming', label: 'Kill zone', confirms: (ctx) => inKillZone(ctx) },
+  { id: 'displacement', label: 'Displacement', confirms: (ctx) => ctx.displacement },
+  { id: 'fvg', label: 'Fair value gap', confirms: (ctx, dir) => ctx.fvg.type === dir },
+  {
+    id: 'mss',
+    label: 'Market structure shift',
+    confirms: (ctx, dir) =>
+      (ctx.structure.mss && ctx.structure.direction === dir) ||
+      ctx.structure.shift.direction === dir,
+  },
+  {
+    id: 'orderBlocks',
+    label: 'Order block at price',
+    confirms: (ctx, dir) => ctx.orderBlocks.atPrice?.type === dir,
+  },
+  {
+    id: 'po3Zone',
+    label: 'PO3 zone',
+    confirms: (ctx) => ctx.po3ZonePresent && ctx.priceAtPO3,
+  },
+];
+
+/**
+ * Score the signal confidence for the primary playbook
+ *
+ * @param ctx - Market context from detectors
+ * @param classification - Classifier output (must have a signal)
+ * @param now - Analysis time (late-session and overlap checks)
+ * @returns ConfidenceBreakdown with every input of the formula
+ */
+export function scoreSignalConfidence(
+  ctx: MarketContext,
+  classification: ClassifierOutput,
+  now: Date
+): ConfidenceBreakdown {
+  const signal = classification.signal;
+  if (!signal) {
+    throw new Error('Cannot score confidence without a playbook signal');
+  }
+
+  const model = getConfidenceModel();
+  const { detectorWeights } = getDetectorWeights();
+  const direction = signal.direction;
+
+  // Session multiplier
+  const overlap = isInSession('london', now) && isInSession('ny', now);
+  const sessionWeight = getSessionWeight(overlap ? 'overlap' : ctx.session);
+
+  // Weighted detector confluence
+  const detectors = DETECTORS.map(({ id, label, confirms }) => ({
+    id,
+    label,
+    weight: detectorWeights[id] ?? 0,
+    active: confirms(ctx, direction),
+  }));
+  const totalWeight = detectors.reduce((sum, d) => sum + d.weight, 0);
+  const activeWeight = detectors.reduce((sum, d) => (d.active ? sum + d.weight : sum), 0);
+  const confluence = totalWeight > 0 ? activeWeight / totalWeight : 0;
+  const confluenceDelta = model.confluenceRange * (confluence - 0.5);
+
+  // Penalties and boosts
+  const adjustments: ConfidenceAdjustment[] = [];
+
+  if (ctx.session === 'ny' && isInWindow('nyLate', now)) {
+    adjustments.push({ factor: 'Late NY session', delta: -model.lateSessionPenalty });
+  }
+
+  if (ctx.volatility === 'high' && !ctx.displacement) {
+    adjustments.push({
+      factor: 'High volatility without clear displacement',
+      delta: -model.choppyPenalty,
+    });
+  }
+
+  const oppositeTrend = direction === 'bullish' ? 'bearish' : 'bullish';
+  if (ctx.htfTrend === oppositeTrend) {
+    adjustments.push({
+      factor: 'Counter-trend trade (against HTF)',
+      delta: -model.counterTrendPenalty,
+    });
+  }
+
+  // Other playbooks that fired on the same context (scoring mode)
+  const otherPlaybooks = (classification.ranked || []).slice(1);
+  const agreeing = otherPlaybooks.filter((r) => r.signal.direction === direction);
+  const conflicting = otherPlaybooks.filter((r) => r.signal.direction !== direction);
+
+  if (agreeing.length > 0) {
+    const names = agreeing.map((r) => r.signal.playbookName).join(', ');
+    adjustments.push({
+      factor: `Confirmed by ${names}`,
+      delta: Math.min(model.maxAgreementBoost, agreeing.length * model.agreementBoost),
+    });
+  }
+
+  if (conflicting.length > 0) {
+    const names = conflicting
+      .map((r) => `${r.signal.playbookName} (${r.signal.direction})`)
+      .join(', ');
+    adjustments.push({ factor: `Conflicting playbook: ${names}`, delta: -model.conflictPenalty });
+  }
+
+  const raw =
+    signal.confidence * sessionWeight +
+    confluenceDelta +
+    adjustments.reduce((sum, a) => sum + a.delta, 0);
+  const modelConfidence = Math.round(Math.max(0, Math.min(100, raw)));
+
+  // Recalibration fitted from realized hit rates
+  const calibration = getCalibrationConfig();
+  const calibrate = calibration.enabled && calibration.points.length > 0;
+  const confidence = calibrate
+    ? Math.round(applyCalibration(modelConfidence, calibration.points))
+    : modelConfidence;
+
+  return {
+    playbookConfidence: signal.confidence,
+    sessionWeight,
+    confluence,
+    confluenceDelta,
+    detectors,
+    adjustments,
+    uncalibrated: calibrate ? modelConfidence : null,
+    confidence,
+    grade: gradeFor(confidence),
+  };
+}
+
+/**
+ * Grade a confidence with the configured cut-offs
+ */
+export function gradeFor(confidence: number): SignalGrade {
+  const { gradeA, gradeB } = getConfidenceModel();
+  if (confidence >= gradeA) return 'A';
+  if (confidence >= gradeB) return 'B';
+  return 'C';
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+// Inside a calendar window labelled as a kill zone (config/sessions.json)
+function inKillZone(ctx: MarketContext): boolean {
+  return listWindows().some(
+    (window) => /kill zone/i.test(window.label) && ctx.sessionWindows.includes(window.name)
+  );
+}
@@ -0,0 +1,223 @@
+import { getSignalLifecycleConfig, SignalLifecycleConfig } from '@config/config';
+import { createLogger } from '@utils/agent_logger';
+import { parseCandleTime } from '@utils/clock';
+import { FlowrexSignal } from './signalEngine';
+import { TradePlanLevels } from './tradePlan';
+
+const logger = createLogger('SignalLifecycle');
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * SIGNAL LIFECYCLE
+ * ═══════════════════════════════════════════════════════════════
+ * Stateful setup tracking for one live stream (symbol + timeframe).
+ *
+ * Every analysis update is folded into a lifecycle per dedup key
+ * (symbol:timeframe:playbook:direction):
+ *
+ *   forming   → playbook fired below signalLifecycle.armConfidence
+ *   armed     → confidence reached and a trade plan exists (plan frozen)
+ *   triggered → a bar traded through the entry (market entries at once)
+ *   invalidated → stop traded before/after entry, or direction flipped
+ *   expired   → forming setup disappeared, entry not filled in time,
+ *               or triggered setup tracked for triggeredExpiryBars
+ *
+ * update() only returns transitions, so repeated kline updates of the
+ * same setup produce nothing to persist or emit. After invalidated/expired
+ * the dedup key cools down for cooldownBars before a new setup may open.
+ *
+ * Usage:
+ * ```typescript
+ * const lifecycle = new SignalLifecycle('BTCUSDT', '15m');
+ * const transitions = lifecycle.update({ candle, signal: result.signal, plan });
+ * transitions.forEach((t) => io.emit('signalTransition', t));
+ * ```
+ */
+
+export type SignalState = 'forming' | 'armed' | 'triggered' | 'invalidated' | 'expired';
+
+// Entry/stop the lifecycle watches (the analysis response's tradePlan)
+export type LifecyclePlan = Pick<TradePlanLevels, 'entry' | 'stop' | 'targets'>;
+
+export interface LifecycleUpdate {
+  candle: { time?: number; high: number; low: number; close: number };
+  signal: FlowrexSignal;
+  plan: LifecyclePlan | null;
+}
+
+export interface SignalTransition {
+  dedupKey: string;
+  symbol: string;
+  timeframe: string;
+  playbook: string;
+  direction: 'long' | 'short';
+  from: SignalState | null; // null = setup opened
+  to: SignalState;
+  reason: string;
+  price: number; // close of the bar that caused the transition
+  at: string; // bar time (ISO), or the signal time for untimed bars
+  signal: FlowrexSignal; // latest signal seen for the setup
+  plan: LifecyclePlan | null; // frozen once armed
+}
+
+interface Setup {
+  dedupKey: string;
+  playbook: string;
+  direction: 'long' | 'short';
+  state: SignalState;
+  signal: FlowrexSignal;
+  plan: LifecyclePlan | null;
+  stateBar: number; // bar the current state was entered on
+  lastSeenBar: number; // last bar the playbook fired for this setup
+}
+
+const TERMINAL_STATES: SignalState[] = ['invalidated', 'expired'];
+
+export class SignalLifecycle {
+  private readonly symbol: string;
+  private readonly timeframe: string;
+  private readonly options?: Partial<SignalLifecycleConfig>;
+
+  private setups = new Map<string, Setup>();
+  private cooldowns = new Map<string, number>(); // dedup key → first bar it may reopen
+
+  private bar = -1;
+  private lastBarTime: number | undefined;
+
+  constructor(symbol: string, timeframe: string, options?: Partial<SignalLifecycleConfig>) {
+    this.symbol = symbol;
+    this.timeframe = timeframe;
+    this.options = options;
+  }
+
+  /**
+   * Setups that are forming, armed or triggered
+   */
+  get active(): ReadonlyArray<Readonly<Setup>> {
+    return Array.from(this.setups.values());
+  }
+
+  /**
+   * Dedup key of a setup
+   */
+  dedupKey(playbook: string, direction: 'long' | 'short'): string {
+    return `${this.symbol}:${this.timeframe}:${playbook}:${direction}`;
+  }
+
+  /**
+   * Fold one analysis update into the lifecycles
+   * A candle with the same time as the previous update is the same bar.
+   *
+   * @returns Transitions caused by this update (empty when nothing changed)
+   */
+  update({ candle, signal, plan }: LifecycleUpdate): SignalTransition[] {
+    const config = { ...getSignalLifecycleConfig(), ...this.options };
+    const transitions: SignalTransition[] = [];
+    const at = parseCandleTime(candle.time)?.toISOString() ?? signal.createdAt;
+
+    if (candle.time === undefined || candle.time !== this.lastBarTime) {
+      this.bar++;
+      this.lastBarTime = candle.time;
+    }
+
+    const move = (setup: Setup, to: SignalState, reason: string) => {
+      transitions.push({
+        dedupKey: setup.dedupKey,
+        symbol: this.symbol,
+        timeframe: this.timeframe,
+        playbook: setup.playbook,
+        direction: setup.direction,
+        from: setup.state === to ? null : setup.state,
+        to,
+        reason,
+        price: candle.close,
+        at,
+        signal: setup.signal,
+        plan: setup.plan,
+      });
+      setup.state = to;
+      setup.stateBar = this.bar;
+
+      if (TERMINAL_STATES.includes(to)) {
+        this.setups.delete(setup.dedupKey);
+        this.cooldowns.set(setup.dedupKey, this.bar + config.cooldownBars + 1);
+      }
+    };
+
+    // 1. Price and time checks for every open setup
+    for (const setup of this.active as Setup[]) {
+      const age = this.bar - setup.stateBar;
+      const { entry, stop } = setup.plan || {};
+      const long = setup.direction === 'long';
+      const stopHit = !!stop && (long ? candle.low <= stop.price : candle.high >= stop.price);
+      const entryHit = !!entry && (long ? candle.low <= entry.price : candle.high >= entry.price);
+
+      if (setup.state === 'forming' && this.bar - setup.lastSeenBar > config.formingGraceBars) {
+        move(setup, 'expired', `Setup stopped forming for ${config.formingGraceBars} bars`);
+      } else if (setup.state === 'armed' && stopHit) {
+        move(setup, 'invalidated', `Stop ${stop?.price} traded before entry`);
+      } else if (setup.state === 'armed' && entryHit && setup.stateBar < this.bar) {
+        move(setup, 'triggered', `Entry ${entry?.price} filled`);
+      } else if (setup.state === 'armed' && age >= config.armedExpiryBars) {
+        move(setup, 'expired', `Entry not filled within ${config.armedExpiryBars} bars`);
+      } else if (setup.state === 'triggered' && stopHit) {
+        move(setup, 'invalidated', `Stopped out at ${stop?.price}`);
+      } else if (setup.state === 'triggered' && age >= config.triggeredExpiryBars) {
+        move(setup, 'expired', `Tracked for ${config.triggeredExpiryBars} bars after entry`);
+      }
+    }
+
+    // 2. The current signal opens, advances or refreshes its setup
+    if (signal.direction !== 'neutral') {
+      const direction = signal.direction;
+      const key = this.dedupKey(signal.playbook, direction);
+      const opposite = this.setups.get(
+        this.dedupKey(signal.playbook, direction === 'long' ? 'short' : 'long')
+      );
+      if (opposite && opposite.state !== 'triggered') {
+        move(opposite, 'invalidated', `Direction flipped to ${direction}`);
+      }
+
+      const armable = signal.confidence >= config.armConfidence && !!plan;
+      let setup = this.setups.get(key);
+
+      if (!setup && (this.cooldowns.get(key) ?? 0) > this.bar) {
+        logger.info(`⏳ ${key} cooling down - update ignored`);
+      } else if (!setup) {
+        setup = {
+          dedupKey: key,
+          playbook: signal.playbook,
+          direction,
+          state: armable ? 'armed' : 'forming',
+          signal,
+          plan: armable ? plan : null,
+          stateBar: this.bar,
+          lastSeenBar: this.bar,
+        };
+        this.setups.set(key, setup);
+        this.cooldowns.delete(key);
+        move(setup, setup.state, armable ? 'Setup armed' : 'Setup forming');
+      } else {
+        setup.signal = signal;
+        setup.lastSeenBar = this.bar;
+        if (setup.state === 'forming' && armable) {
+          setup.plan = plan;
+          move(setup, 'armed', `Confidence ${signal.confidence}% reached`);
+        }
+      }
+
+      // Market entries fill on the bar they are armed on
+      if (setup?.state === 'armed' && setup.stateBar === this.bar) {
+        if (setup.plan?.entry.type === 'market') {
+          move(setup, 'triggered', `Market entry at ${setup.plan.entry.price}`);
+        }
+      }
+    }
+
+    for (const t of transitions) {
+      logger.info(`🔁 ${t.dedupKey}: ${t.from ?? 'new'} → ${t.to} (${t.reason})`);
+    }
+
+    return transitions;
+  }
+}
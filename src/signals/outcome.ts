@@ -0,0 +1,137 @@
+import { TradePlanLevels } from './tradePlan';
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * SIGNAL OUTCOME EVALUATION
+ * ═══════════════════════════════════════════════════════════════
+ * Replays the candles after a signal against its trade plan:
+ *
+ *   1. fill    → market entries fill on the first bar after the signal,
+ *                limit entries on the first bar that trades the entry
+ *   2. outcome → stop or nearest target, whichever is traded first
+ *                (a bar that trades both counts as a stop)
+ *   3. expiry  → after maxBars bars an unresolved trade is marked at the
+ *                last close; a limit that never filled is "unfilled"
+ *
+ * Excursions are measured from the fill to the outcome bar, in price
+ * and in R (multiples of |entry − stop|). Returns null while the
+ * window is still open and nothing was hit (evaluate again later).
+ */
+
+export type OutcomeResult = 'target' | 'stop' | 'expired' | 'unfilled';
+
+export type OutcomePlan = Pick<TradePlanLevels, 'entry' | 'stop' | 'targets'>;
+
+export interface OutcomeCandle {
+  time: number; // unix seconds
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface SignalOutcome {
+  result: OutcomeResult;
+  target: string | null; // label of the target that was hit
+  filledAt: number | null; // unix seconds
+  exitPrice: number | null;
+  exitAt: number; // bar the outcome was decided on (unix seconds)
+  rAchieved: number | null; // null when never filled
+  mfe: number; // max favourable excursion from entry (price)
+  mae: number; // max adverse excursion from entry (price, positive)
+  mfeR: number;
+  maeR: number;
+  barsToOutcome: number; // bars after the signal bar
+  timeToOutcome: number; // seconds from the signal to exitAt
+}
+
+/**
+ * Evaluate what price did after a signal
+ *
+ * @param plan - Entry, stop and targets the signal was saved with
+ * @param direction - Trade direction
+ * @param signalTime - Time of the analysed bar (unix seconds)
+ * @param candles - Candles of the signal's timeframe, oldest first
+ * @param maxBars - Bars after the signal before the trade expires
+ * @returns SignalOutcome, or null while still pending
+ */
+export function evaluateOutcome(
+  plan: OutcomePlan,
+  direction: 'long' | 'short',
+  signalTime: number,
+  candles: OutcomeCandle[],
+  maxBars: number
+): SignalOutcome | null {
+  const bars = candles.filter((c) => c.time > signalTime).slice(0, maxBars);
+  const long = direction === 'long';
+  const entry = plan.entry.price;
+  const stop = plan.stop.price;
+  const target = plan.targets[0];
+  const risk = Math.abs(entry - stop);
+
+  let filledAt: number | null = null;
+  let mfe = 0;
+  let mae = 0;
+
+  const finish = (
+    result: OutcomeResult,
+    index: number,
+    exitPrice: number | null
+  ): SignalOutcome => {
+    const exitAt = bars[index].time;
+    const pnl = exitPrice === null ? null : long ? exitPrice - entry : entry - exitPrice;
+    return {
+      result,
+      target: result === 'target' ? target.label : null,
+      filledAt,
+      exitPrice,
+      exitAt,
+      rAchieved: pnl === null ? null : round(toR(pnl, risk)),
+      mfe: round(mfe),
+      mae: round(mae),
+      mfeR: round(toR(mfe, risk)),
+      maeR: round(toR(mae, risk)),
+      barsToOutcome: index + 1,
+      timeToOutcome: exitAt - signalTime,
+    };
+  };
+
+  for (let i = 0; i < bars.length; i++) {
+    const bar = bars[i];
+
+    if (filledAt === null) {
+      const touched = long ? bar.low <= entry : bar.high >= entry;
+      if (plan.entry.type !== 'market' && !touched) continue;
+      filledAt = bar.time;
+    }
+
+    mfe = Math.max(mfe, long ? bar.high - entry : entry - bar.low);
+    mae = Math.max(mae, long ? entry - bar.low : bar.high - entry);
+
+    const stopHit = long ? bar.low <= stop : bar.high >= stop;
+    const targetHit = !!target && (long ? bar.high >= target.price : bar.low <= target.price);
+
+    if (stopHit) return finish('stop', i, stop);
+    if (targetHit) return finish('target', i, target.price);
+  }
+
+  if (bars.length < maxBars) {
+    return null;
+  }
+
+  const last = bars.length - 1;
+  return filledAt === null
+    ? finish('unfilled', last, null)
+    : finish('expired', last, bars[last].close);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+function toR(value: number, risk: number): number {
+  return risk > 0 ? value / risk : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e5) / 1e5;
+}
@@ -1,5 +1,14 @@
 import { MarketContext, ClassifierOutput, HTFTrend } from '@custom-types/context';
 import { createLogger } from '@utils/agent_logger';
+import { Clock, contextClock } from '@utils/clock';
+import { getThreshold } from '@config/config';
+import { findNewsBlackout, NewsBlackout } from '@detectors/newsCalendar';
+import {
+  ConfidenceBreakdown,
+  gradeFor,
+  scoreSignalConfidence,
+  SignalGrade,
+} from './confidenceModel';
 
 const logger = createLogger('SignalEngine');
 
@@ -13,7 +22,7 @@ const logger = createLogger('SignalEngine');
  */
 
 export type SignalDirection = 'long' | 'short' | 'neutral';
-export type SignalGrade = 'A' | 'B' | 'C';
+export type { SignalGrade };
 
 export interface FlowrexSignal {
   // Core signal properties
@@ -34,6 +43,7 @@ export interface FlowrexSignal {
   // Signal reasoning
   reasons: string[]; // Short bullet list of why this signal was generated
   riskHints: string[]; // Warnings/cautions (ADR stretched, late session, etc.)
+  confidenceBreakdown?: ConfidenceBreakdown; // Weighted confidence model inputs
 
   // Metadata
   createdAt: string;
@@ -48,6 +58,7 @@ export interface FlowrexSignal {
  * @param ctx - Market context from detectors
  * @param classification - Playbook classification result
  * @param metadata - Additional metadata (instrument, timeframe, symbol)
+ * @param clock - Time source (defaults to the context's analysis time)
  * @returns Normalized FlowrexSignal
  */
 export function buildSignal(
@@ -57,8 +68,11 @@ export function buildSignal(
     instrument: string;
     timeframe: string;
     symbol?: string;
-  }
+  },
+  clock: Clock = contextClock(ctx)
 ): FlowrexSignal {
+  const now = clock();
+
   logger.info('═══════════════════════════════════════════');
   logger.info('⚡ BUILDING FLOWREX SIGNAL...');
   logger.info('═══════════════════════════════════════════\n');
@@ -77,7 +91,7 @@ export function buildSignal(
       primaryPlaybook: 'NONE',
       reasons: ['No playbook conditions met'],
       riskHints: [],
-      createdAt: new Date().toISOString(),
+      createdAt: now.toISOString(),
     };
   }
 
@@ -89,84 +103,41 @@ export function buildSignal(
   const direction: SignalDirection = signal.direction === 'bullish' ? 'long' : 'short';
 
   // ─────────────────────────────────────────────────────────────
-  // 2. Calculate adjusted confidence
+  // 2. Score confidence + grade (weighted model, see confidenceModel.ts)
   // ─────────────────────────────────────────────────────────────
-  let adjustedConfidence = signal.confidence;
-
-  // Risk adjustments
-  const riskFactors: Array<{ factor: string; penalty: number }> = [];
-
-  // Late session penalty (if NY session and close to end)
-  if (ctx.session === 'ny') {
-    const now = new Date();
-    const hour = now.getUTCHours();
-    // NY session ends around 21:00 UTC
-    if (hour >= 20) {
-      riskFactors.push({ factor: 'Late NY session', penalty: 5 });
-      adjustedConfidence -= 5;
-    }
-  }
-
-  // High volatility without displacement (choppy market)
-  if (ctx.volatility === 'high' && !ctx.displacement) {
-    riskFactors.push({ factor: 'High volatility without clear displacement', penalty: 10 });
-    adjustedConfidence -= 10;
-  }
-
-  // Asian session lower liquidity
-  if (ctx.session === 'asian') {
-    riskFactors.push({ factor: 'Asian session (lower liquidity)', penalty: 5 });
-    adjustedConfidence -= 5;
-  }
-
-  // Against HTF trend (counter-trend trade)
-  const isCounterTrend =
-    (direction === 'long' && ctx.htfTrend === 'bearish') ||
-    (direction === 'short' && ctx.htfTrend === 'bullish');
-
-  if (isCounterTrend) {
-    riskFactors.push({ factor: 'Counter-trend trade (against HTF)', penalty: 15 });
-    adjustedConfidence -= 15;
-  }
-
-  // Confluence boosters
-  const confluenceFactors: Array<{ factor: string; boost: number }> = [];
+  const breakdown = scoreSignalConfidence(ctx, classification, now);
 
-  // Strong confluence: liquidity sweep + structure break + OTE
-  if (ctx.liquiditySweep && ctx.structureBreak && ctx.oteRetrace) {
-    confluenceFactors.push({ factor: 'Triple confluence (liquidity + structure + OTE)', boost: 10 });
-    adjustedConfidence += 10;
+  // News blackout (config/default.json "newsBlackout"): suppress, or penalize
+  const blackout = findNewsBlackout(metadata.symbol || metadata.instrument, now);
+  if (blackout?.action === 'suppress') {
+    logger.warn(`⚠️  ${describeBlackout(blackout)} - suppressing ${signal.playbookName}\n`);
+    return {
+      direction: 'neutral',
+      confidence: 0,
+      grade: 'C',
+      timeframe: metadata.timeframe,
+      instrument: metadata.instrument,
+      symbol: metadata.symbol,
+      playbook: signal.playbookName,
+      primaryPlaybook: signal.playbookName,
+      reasons: [`${signal.playbookName} ${signal.direction} setup suppressed by news blackout`],
+      riskHints: [describeBlackout(blackout)],
+      confidenceBreakdown: breakdown,
+      createdAt: now.toISOString(),
+    };
   }
-
-  // Volume spike + displacement
-  if (ctx.volumeSpike && ctx.displacement) {
-    confluenceFactors.push({ factor: 'Strong volume + displacement', boost: 5 });
-    adjustedConfidence += 5;
+  if (blackout) {
+    breakdown.adjustments.push({ factor: describeBlackout(blackout), delta: -blackout.penalty });
+    breakdown.confidence = Math.max(0, breakdown.confidence - blackout.penalty);
+    breakdown.grade = gradeFor(breakdown.confidence);
   }
 
-  // Trendline respect
-  if (ctx.trendline.exists && ctx.trendline.respected) {
-    confluenceFactors.push({ factor: 'Respected trendline', boost: 5 });
-    adjustedConfidence += 5;
-  }
+  const { confidence: adjustedConfidence, grade } = breakdown;
 
-  // Clamp confidence to 0-100
-  adjustedConfidence = Math.max(0, Math.min(100, adjustedConfidence));
+  const isCounterTrend = ctx.htfTrend !== 'neutral' && ctx.htfTrend !== signal.direction;
 
   // ─────────────────────────────────────────────────────────────
-  // 3. Assign quality grade
-  // ─────────────────────────────────────────────────────────────
-  let grade: SignalGrade;
-  if (adjustedConfidence >= 75) {
-    grade = 'A';
-  } else if (adjustedConfidence >= 50) {
-    grade = 'B';
-  } else {
-    grade = 'C';
-  }
-
-  // ─────────────────────────────────────────────────────────────
-  // 4. Build reasons list
+  // 3. Build reasons list
   // ─────────────────────────────────────────────────────────────
   const reasons: string[] = [];
 
@@ -201,19 +172,28 @@ export function buildSignal(
     reasons.push('Volume spike confirmation');
   }
 
-  // Confluence factors
-  for (const cf of confluenceFactors) {
-    reasons.push(cf.factor);
+  // Weighted detector confluence + boosts
+  const confirming = breakdown.detectors.filter((d) => d.active).map((d) => d.label);
+  reasons.push(
+    `Detector confluence ${Math.round(breakdown.confluence * 100)}% (${confirming.join(', ')})`
+  );
+  for (const adjustment of breakdown.adjustments) {
+    if (adjustment.delta > 0) reasons.push(adjustment.factor);
   }
 
   // ─────────────────────────────────────────────────────────────
-  // 5. Build risk hints
+  // 4. Build risk hints
   // ─────────────────────────────────────────────────────────────
   const riskHints: string[] = [];
 
-  // Add all risk factors as hints
-  for (const rf of riskFactors) {
-    riskHints.push(rf.factor);
+  // Add all penalties as hints
+  for (const adjustment of breakdown.adjustments) {
+    if (adjustment.delta < 0) riskHints.push(adjustment.factor);
+  }
+
+  if (breakdown.sessionWeight < 1) {
+    const weight = breakdown.sessionWeight;
+    riskHints.push(`${ctx.session.toUpperCase()} session weighted ×${weight} (lower liquidity)`);
   }
 
   // Additional risk hints based on market conditions
@@ -229,9 +209,13 @@ export function buildSignal(
     riskHints.push('Low volatility may limit profit potential');
   }
 
+  // Range exhaustion (ADR / session range analytics)
+  riskHints.push(...rangeRiskHints(ctx));
+
   // ─────────────────────────────────────────────────────────────
-  // 6. Assemble final signal
+  // 5. Assemble final signal
   // ─────────────────────────────────────────────────────────────
+  const backup = classification.ranked?.find((r) => r.name === classification.backup);
   const flowrexSignal: FlowrexSignal = {
     direction,
     confidence: adjustedConfidence,
@@ -241,17 +225,21 @@ export function buildSignal(
     symbol: metadata.symbol,
     playbook: signal.playbookName,
     primaryPlaybook: signal.playbookName,
-    backupPlaybook: undefined, // Future: implement backup playbook detection
+    backupPlaybook: backup?.signal.playbookName,
     reasons,
     riskHints,
-    createdAt: new Date().toISOString(),
+    confidenceBreakdown: breakdown,
+    createdAt: now.toISOString(),
   };
 
   // ─────────────────────────────────────────────────────────────
-  // 7. Log signal summary
+  // 6. Log signal summary
   // ─────────────────────────────────────────────────────────────
   logger.success(`✓ Signal generated: ${direction.toUpperCase()} @ ${adjustedConfidence}% (Grade ${grade})`);
   logger.info(`  Playbook: ${signal.playbookName}`);
+  if (flowrexSignal.backupPlaybook) {
+    logger.info(`  Backup: ${flowrexSignal.backupPlaybook}`);
+  }
   logger.info(`  Reasons: ${reasons.length} factors`);
   logger.info(`  Risk Hints: ${riskHints.length} warnings`);
   logger.info('═══════════════════════════════════════════\n');
@@ -276,3 +264,41 @@ function getTrendDescription(trend: HTFTrend): string {
       return 'unknown';
   }
 }
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * HELPER: Range-exhaustion risk hints
+ * ═══════════════════════════════════════════════════════════════
+ * The day (thresholds.adrWarnPct of ADR) or the current session
+ * (thresholds.sessionRangeWarnRatio × its average) is stretched.
+ */
+function rangeRiskHints(ctx: MarketContext): string[] {
+  const hints: string[] = [];
+  if (!ctx.ranges) return hints;
+
+  const { adrUsedPct, adrDays, sessions } = ctx.ranges;
+  if (adrUsedPct !== null && adrUsedPct >= getThreshold('adrWarnPct')) {
+    const used = Math.round(adrUsedPct * 100);
+    hints.push(`ADR stretched: ${used}% of the ${adrDays}-day average range already used`);
+  }
+
+  const { ratio } = sessions[ctx.session];
+  if (ratio !== null && ratio >= getThreshold('sessionRangeWarnRatio')) {
+    hints.push(`${ctx.session.toUpperCase()} range ${ratio}× its average (session extended)`);
+  }
+
+  return hints;
+}
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * HELPER: Describe the news event behind a blackout
+ * ═══════════════════════════════════════════════════════════════
+ */
+function describeBlackout(blackout: NewsBlackout): string {
+  const { event, minutesToEvent } = blackout;
+  const at = event.time.toISOString().slice(11, 16);
+  const when = minutesToEvent >= 0 ? `in ${minutesToEvent} min` : `${-minutesToEvent} min ago`;
+  const title = event.title || 'economic release';
+  return `News blackout: ${event.currency} ${title} (${event.impact} impact) at ${at} UTC, ${when}`;
+}
@@ -0,0 +1,432 @@
+import { ClassifierOutput, Direction, MarketContext } from '@custom-types/context';
+import { getTradePlanConfig } from '@config/config';
+import { createLogger } from '@utils/agent_logger';
+import { getInstrument, roundToTick } from '../instruments/instrumentRegistry';
+
+const logger = createLogger('TradePlan');
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * TRADE PLAN GENERATOR
+ * ═══════════════════════════════════════════════════════════════
+ * Turns the primary playbook signal into concrete price levels:
+ *
+ *   entry         → first aligned zone of the playbook's entry model
+ *                   (FVG / order block → limit at the zone midpoint,
+ *                   market when price is inside it or no zone applies)
+ *   stop          → first structure level of the playbook's stop model on
+ *                   the losing side of entry (swept low/high, order block,
+ *                   LVN, swing), pushed out by tradePlan.stopBufferPct
+ *   targets       → nearest untaken liquidity (swing highs/lows, PDH/PDL,
+ *                   weekly and session ranges) + R-multiple targets
+ *   invalidation  → close beyond the stop, plus playbook-specific rules
+ *
+ * Plan prices are rounded to the symbol's tick size (0.001 on JPY
+ * pairs, 0.01 on gold) from the instrument registry.
+ *
+ * Example (bullish NBB, bullish OB 1.0820-1.0830, swept low at 1.0800):
+ *   entry    limit 1.0825 (OB midpoint)
+ *   stop     1.0798 (1.0800 − 0.02% buffer) → risk 0.0027
+ *   targets  1R 1.0852, 2R 1.0879, PDH 1.0880 (2.04R), 4R 1.0933
+ */
+
+export type TradePlanEntryType = 'market' | 'limit';
+
+export interface PriceZone {
+  high: number;
+  low: number;
+}
+
+export interface TradePlanEntry {
+  type: TradePlanEntryType;
+  price: number;
+  zone: PriceZone | null; // zone the limit sits in (null for market entries)
+  source: string; // e.g. "fvg", "orderBlock", "market"
+  description: string;
+}
+
+export interface TradePlanStop {
+  price: number;
+  level: number; // structure level before the buffer
+  source: string; // e.g. "sweptLiquidity", "orderBlock", "lvn"
+  description: string;
+}
+
+export interface TradePlanTarget {
+  label: string; // e.g. "PDH", "2R"
+  price: number;
+  rr: number; // reward / risk at this target
+  source: 'liquidity' | 'rr';
+}
+
+export interface TradePlanLevels {
+  model: string; // playbook key whose plan model was used
+  entry: TradePlanEntry;
+  stop: TradePlanStop;
+  risk: number; // |entry − stop| in price units
+  targets: TradePlanTarget[]; // nearest first
+  invalidation: { price: number; rule: string };
+  invalidations: string[];
+}
+
+export interface TradePlanOptions {
+  rrTargets?: number[]; // overrides tradePlan.rrTargets (frontend risk settings)
+  symbol?: string; // rounds prices to its tick size (default 5 decimals)
+}
+
+// A zone or level one model step proposes (null = not available)
+interface Candidate {
+  source: string;
+  label: string;
+}
+interface ZoneCandidate extends Candidate {
+  zone: PriceZone | null; // null = enter at market
+}
+interface LevelCandidate extends Candidate {
+  level: number;
+}
+
+type ZoneSource = (ctx: MarketContext, dir: Direction) => ZoneCandidate | null;
+type LevelSource = (ctx: MarketContext, dir: Direction, entry: number) => LevelCandidate | null;
+
+interface PlanModel {
+  entries: ZoneSource[]; // tried in order, market is the fallback
+  stops: LevelSource[]; // tried in order, last bar's extreme is the fallback
+  invalidations: (dir: Direction) => string[]; // besides a close beyond the stop
+}
+
+// ═══════════════════════════════════════════════════════════════
+// ENTRY / STOP SOURCES
+// ═══════════════════════════════════════════════════════════════
+
+const fvgZone: ZoneSource = ({ fvg }, dir) =>
+  fvg.exists && fvg.unfilled && fvg.type === dir && fvg.high !== null && fvg.low !== null
+    ? { source: 'fvg', label: 'fair value gap', zone: { high: fvg.high, low: fvg.low } }
+    : null;
+
+const orderBlockZone: ZoneSource = ({ orderBlocks }, dir) => {
+  const block = orderBlocks.atPrice?.type === dir ? orderBlocks.atPrice : orderBlocks[dir];
+  return block ? { source: 'orderBlock', label: `${dir} order block`, zone: block } : null;
+};
+
+const marketEntry: ZoneSource = () => ({ source: 'market', label: 'market', zone: null });
+
+// Extreme of the liquidity swept against the trade (below the swept low for longs)
+const sweptLiquidity: LevelSource = (ctx, dir) => {
+  const side = dir === 'bullish' ? 'low' : 'high';
+  const levels = ctx.liquidityZones.filter((z) => z.swept && z.type === side).map((z) => z.level);
+  if (ctx.sessionSweep?.detected && ctx.sessionSweep.direction === side) {
+    levels.push(ctx.sessionSweep.sweptLevel as number);
+  }
+  const valid = levels.filter((level) => Number.isFinite(level));
+  if (valid.length === 0) return null;
+  return {
+    source: 'sweptLiquidity',
+    label: `swept ${side}`,
+    level: dir === 'bullish' ? Math.min(...valid) : Math.max(...valid),
+  };
+};
+
+const orderBlockEdge: LevelSource = (ctx, dir) => {
+  const candidate = orderBlockZone(ctx, dir);
+  return candidate?.zone
+    ? {
+        source: 'orderBlock',
+        label: candidate.label,
+        level: dir === 'bullish' ? candidate.zone.low : candidate.zone.high,
+      }
+    : null;
+};
+
+const fvgEdge: LevelSource = (ctx, dir) => {
+  const candidate = fvgZone(ctx, dir);
+  return candidate?.zone
+    ? {
+        source: 'fvg',
+        label: 'fair value gap',
+        level: dir === 'bullish' ? candidate.zone.low : candidate.zone.high,
+      }
+    : null;
+};
+
+// Back inside the auction: nearest LVN behind entry, else the balance range edge
+const balanceEdge: LevelSource = (ctx, dir, entry) => {
+  const { lvnLevels, range } = ctx.balanceZones;
+  const behind = lvnLevels.filter((level) => (dir === 'bullish' ? level < entry : level > entry));
+  if (behind.length > 0) {
+    const level = dir === 'bullish' ? Math.max(...behind) : Math.min(...behind);
+    return { source: 'lvn', label: 'low volume node', level };
+  }
+  if (!range) return null;
+  return {
+    source: 'balanceRange',
+    label: 'balance range',
+    level: dir === 'bullish' ? range.low : range.high,
+  };
+};
+
+// Nearest swing low below entry (longs) / swing high above entry (shorts)
+const swingLevel: LevelSource = (ctx, dir, entry) => {
+  const side = dir === 'bullish' ? 'low' : 'high';
+  const levels = ctx.liquidityZones
+    .filter((z) => z.type === side && (dir === 'bullish' ? z.level < entry : z.level > entry))
+    .map((z) => z.level);
+  if (levels.length === 0) return null;
+  return {
+    source: 'swing',
+    label: `swing ${side}`,
+    level: dir === 'bullish' ? Math.max(...levels) : Math.min(...levels),
+  };
+};
+
+// ═══════════════════════════════════════════════════════════════
+// PLAN MODELS (keyed like config/playbooks.json)
+// ═══════════════════════════════════════════════════════════════
+
+const DEFAULT_MODEL: PlanModel = {
+  entries: [fvgZone, orderBlockZone],
+  stops: [sweptLiquidity, orderBlockEdge, swingLevel],
+  invalidations: () => [],
+};
+
+const PLAN_MODELS: Record<string, PlanModel> = {
+  NBB: {
+    entries: [orderBlockZone, fvgZone],
+    stops: [sweptLiquidity, orderBlockEdge, swingLevel],
+    invalidations: (dir) => [`HTF trend turns ${dir === 'bullish' ? 'bearish' : 'bullish'}`],
+  },
+  JadeCap: {
+    entries: [fvgZone, orderBlockZone],
+    stops: [sweptLiquidity, fvgEdge, swingLevel],
+    invalidations: () => ['No fill before the NY kill zone ends'],
+  },
+  Tori: {
+    entries: [],
+    stops: [swingLevel, orderBlockEdge],
+    invalidations: () => ['HTF trendline broken on a close'],
+  },
+  Fabio: {
+    entries: [],
+    stops: [balanceEdge, swingLevel],
+    invalidations: () => ['Price accepted back inside the balance range'],
+  },
+};
+
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * BUILD TRADE PLAN
+ * ═══════════════════════════════════════════════════════════════
+ * @param ctx - Market context from detectors
+ * @param classification - Classifier output
+ * @param options - Request R:R targets (default tradePlan.rrTargets) and symbol (tick size)
+ * @returns TradePlanLevels, or null when no playbook fired
+ */
+export function buildTradePlan(
+  ctx: MarketContext,
+  classification: ClassifierOutput,
+  options: TradePlanOptions = {}
+): TradePlanLevels | null {
+  const signal = classification.signal;
+  if (!signal) {
+    return null;
+  }
+
+  const config = getTradePlanConfig();
+  const dir = signal.direction;
+  const sign = dir === 'bullish' ? 1 : -1;
+  const key = primaryPlaybookKey(classification);
+  const model = PLAN_MODELS[key] || DEFAULT_MODEL;
+  const instrument = options.symbol ? getInstrument(options.symbol) : null;
+  const toTick = (price: number) => (instrument ? roundToTick(price, instrument) : round(price));
+
+  logger.info(`📐 Building ${key} trade plan (${dir})...`);
+
+  // Entry: first zone on the right side of price, else market (prices from here on are
+  // tick-rounded, so risk and R:R match the published levels)
+  const zoneEntry = [...model.entries, marketEntry]
+    .map((source) => toEntry(ctx, dir, source(ctx, dir)))
+    .find((e): e is TradePlanEntry => e !== null) as TradePlanEntry;
+  const entry = { ...zoneEntry, price: toTick(zoneEntry.price) };
+
+  // Stop: first structure level behind entry, else the last bar's extreme
+  const buffer = (ctx.price * config.stopBufferPct) / 100;
+  const lastBar: LevelSource = () => ({
+    source: 'lastBar',
+    label: `last bar ${dir === 'bullish' ? 'low' : 'high'}`,
+    level: dir === 'bullish' ? ctx.low : ctx.high,
+  });
+  const stop = [...model.stops, lastBar]
+    .map((source) => source(ctx, dir, entry.price))
+    .map((candidate) => candidate && toStop(candidate, dir, buffer))
+    .map((s) => s && { ...s, price: toTick(s.price), level: toTick(s.level) })
+    .find((s): s is TradePlanStop => !!s && sign * (entry.price - s.price) > 0);
+
+  if (!stop) {
+    logger.warn('  ⚠ No stop level behind entry - trade plan skipped');
+    return null;
+  }
+
+  const risk = toTick(Math.abs(entry.price - stop.price));
+  const targets = buildTargets(ctx, dir, entry.price, risk, {
+    rrTargets: options.rrTargets ?? config.rrTargets,
+    maxLiquidityTargets: config.maxLiquidityTargets,
+    roundPrice: toTick,
+  });
+
+  const rule =
+    `Close ${dir === 'bullish' ? 'below' : 'above'} ${stop.price} ` +
+    `(${stop.description.toLowerCase()})`;
+  const invalidations = [rule, ...model.invalidations(dir)];
+  if (entry.type === 'limit' && targets.length > 0) {
+    invalidations.push(`Price reaches ${targets[0].label} before the limit fills`);
+  }
+
+  logger.success(
+    `  ✓ Entry ${entry.type} ${entry.price} | Stop ${stop.price} | ` +
+      `Targets ${targets.map((t) => `${t.label} ${t.rr}R`).join(', ') || 'none'}`
+  );
+
+  return {
+    model: PLAN_MODELS[key] ? key : 'default',
+    entry,
+    stop,
+    risk,
+    targets,
+    invalidation: { price: stop.price, rule },
+    invalidations,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// HELPER FUNCTIONS
+// ═══════════════════════════════════════════════════════════════
+
+// Config key of the playbook that produced the signal
+function primaryPlaybookKey(classification: ClassifierOutput): string {
+  return (
+    classification.primary ??
+    classification.traces?.find((t) => t.passed)?.playbook ??
+    classification.signal?.playbookName ??
+    'default'
+  );
+}
+
+// Zone → entry (null when the zone is on the wrong side of price)
+function toEntry(
+  ctx: MarketContext,
+  dir: Direction,
+  candidate: ZoneCandidate | null
+): TradePlanEntry | null {
+  if (!candidate) return null;
+
+  const { zone } = candidate;
+  if (!zone || (ctx.price >= zone.low && ctx.price <= zone.high)) {
+    return {
+      type: 'market',
+      price: ctx.price,
+      zone,
+      source: candidate.source,
+      description: zone
+        ? `Market entry inside the ${candidate.label} (${round(zone.low)}-${round(zone.high)})`
+        : `Market entry at ${round(ctx.price)}`,
+    };
+  }
+
+  const behindPrice = dir === 'bullish' ? zone.high < ctx.price : zone.low > ctx.price;
+  if (!behindPrice) return null;
+
+  const price = (zone.high + zone.low) / 2;
+  return {
+    type: 'limit',
+    price,
+    zone,
+    source: candidate.source,
+    description:
+      `Limit at the ${candidate.label} midpoint ${round(price)} ` +
+      `(${round(zone.low)}-${round(zone.high)})`,
+  };
+}
+
+function toStop(candidate: LevelCandidate, dir: Direction, buffer: number): TradePlanStop {
+  const price = dir === 'bullish' ? candidate.level - buffer : candidate.level + buffer;
+  return {
+    price,
+    level: candidate.level,
+    source: candidate.source,
+    description: `${dir === 'bullish' ? 'Below' : 'Above'} the ${candidate.label} ${round(
+      candidate.level
+    )}`,
+  };
+}
+
+// Untaken liquidity in the trade direction + R-multiple targets, nearest first
+// (rr measured from the rounded target price)
+function buildTargets(
+  ctx: MarketContext,
+  dir: Direction,
+  entry: number,
+  risk: number,
+  settings: {
+    rrTargets: number[];
+    maxLiquidityTargets: number;
+    roundPrice: (price: number) => number;
+  }
+): TradePlanTarget[] {
+  const sign = dir === 'bullish' ? 1 : -1;
+  const side = dir === 'bullish' ? 'high' : 'low';
+  const levels = ctx.levels;
+
+  const named: Array<[string, number | null | undefined]> =
+    dir === 'bullish'
+      ? [
+          ['PDH', levels?.previousDayHigh ?? ctx.previousDayHigh],
+          ['PWH', levels?.previousWeekHigh],
+          ['Asian high', levels?.asianHigh],
+          ['London high', levels?.londonHigh],
+        ]
+      : [
+          ['PDL', levels?.previousDayLow ?? ctx.previousDayLow],
+          ['PWL', levels?.previousWeekLow],
+          ['Asian low', levels?.asianLow],
+          ['London low', levels?.londonLow],
+        ];
+  const swings = ctx.liquidityZones
+    .filter((z) => z.type === side && !z.swept)
+    .map((z): [string, number] => [`Swing ${side}`, z.level]);
+
+  // Levels beyond entry, nearest first (the first label wins on equal prices)
+  const ahead = [...named, ...swings]
+    .filter((item): item is [string, number] => Number.isFinite(item[1]))
+    .map(([label, price]): [string, number] => [label, settings.roundPrice(price)])
+    .filter(([, price]) => sign * (price - entry) > 0)
+    .sort((a, b) => sign * (a[1] - b[1]));
+  const unique = ahead.filter(([, price], i) => i === 0 || ahead[i - 1][1] !== price);
+
+  const liquidity = unique.slice(0, settings.maxLiquidityTargets).map(([label, price]) => ({
+    label,
+    price,
+    rr: roundRr(Math.abs(price - entry) / risk),
+    source: 'liquidity' as const,
+  }));
+
+  const multiples = settings.rrTargets.map((rr) => {
+    const price = settings.roundPrice(entry + sign * rr * risk);
+    return {
+      label: `${rr}R`,
+      price,
+      rr: roundRr(Math.abs(price - entry) / risk),
+      source: 'rr' as const,
+    };
+  });
+
+  return [...liquidity, ...multiples].sort((a, b) => a.rr - b.rr);
+}
+
+// Strip float noise from derived prices
+function round(price: number): number {
+  return Math.round(price * 1e5) / 1e5;
+}
+
+function roundRr(rr: number): number {
+  return Math.round(rr * 100) / 100;
+}
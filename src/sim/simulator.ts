@@ -1,6 +1,13 @@
 import { createLogger } from '@utils/agent_logger';
-import { buildMarketContext, RawMarketData } from '@agent/context';
+import { ContextEngine } from '@agent/engine';
 import { classifyMarket } from '@agent/classifier';
+import {
+  getInstrument,
+  Instrument,
+  quoteToAccountRate,
+  roundToTick,
+  roundUnits,
+} from '../instruments/instrumentRegistry';
 import {
   SimulationConfig,
   SimulationResult,
@@ -13,6 +20,12 @@ import {
 
 const logger = createLogger('Simulator');
 
+// Detector window per candle
+const CONTEXT_WINDOW = 50;
+
+// History window for the levels engine (enough for previous week H/L)
+const LEVEL_HISTORY_MS = 15 * 24 * 60 * 60 * 1000;
+
 /**
  * ═══════════════════════════════════════════════════════════════
  * SIMULATION ENGINE
@@ -24,14 +37,12 @@ const logger = createLogger('Simulator');
  * - Track trades and P&L
  * - Calculate performance metrics
  * - Support multiple playbooks
- * - Risk management
+ * - Risk management (pips, lot steps and quote currency of config.symbol)
  *
  * Usage:
  * ```typescript
  * const config: SimulationConfig = {
- *   candles: historicalData,
- *   previousDayHigh: 4600,
- *   previousDayLow: 4400,
+ *   candles: historicalData, // PDH/PDL etc. derived per candle from prior history
  *   playbookFilter: 'NBB',
  *   riskConfig: {
  *     riskPerTradePercent: 2,
@@ -40,6 +51,7 @@ const logger = createLogger('Simulator');
  *     maxPositions: 1,
  *   },
  *   startingCapital: 100000,
+ *   symbol: 'EURUSD', // 20 pip stop, sizes in 0.01 lots
  * };
  *
  * const result = await runSimulation(config);
@@ -75,11 +87,41 @@ export async function runSimulation(config: SimulationConfig): Promise<Simulatio
   let peakCapital = currentCapital;
   let maxDrawdown = 0;
 
+  // Without a symbol, points are price units and sizes whole units
+  const instrument = config.symbol ? getInstrument(config.symbol) : null;
+  const point = instrument?.pipSize ?? 1;
+  const currency = config.accountCurrency ?? 'USD';
+  const firstPrices = { [config.symbol ?? '']: config.candles[0]?.close ?? 0 };
+  if (instrument && quoteToAccountRate(instrument, currency, firstPrices) === null) {
+    const quote = instrument.quoteCurrency;
+    throw new Error(
+      `No ${quote}/${currency} rate for ${instrument.symbol}: set accountCurrency to ${quote}`
+    );
+  }
+
+  // Detector state is updated bar by bar instead of rebuilt per candle.
+  // Key levels use the prior 15 days only (no look-ahead).
+  const engine = new ContextEngine({
+    maxBars: CONTEXT_WINDOW,
+    levelHistoryMs: LEVEL_HISTORY_MS,
+    previousDayHigh: config.previousDayHigh,
+    previousDayLow: config.previousDayLow,
+  });
+
   // Simulate candle by candle
   for (let i = 0; i < config.candles.length; i++) {
     const currentIndex = i;
     const currentCandle = config.candles[i];
 
+    engine.push({
+      open: currentCandle.open,
+      high: currentCandle.high,
+      low: currentCandle.low,
+      close: currentCandle.close,
+      volume: currentCandle.volume || 0,
+      time: currentCandle.time,
+    });
+
     if (config.verbose && i % 100 === 0) {
       logger.info(`Processing candle ${i + 1}/${config.candles.length} (${((i / config.candles.length) * 100).toFixed(1)}%)`);
     }
@@ -95,8 +137,10 @@ export async function runSimulation(config: SimulationConfig): Promise<Simulatio
 
         // Calculate P&L
         const direction = trade.direction === 'bullish' ? 1 : -1;
-        trade.profitLossPoints = direction * (trade.exitPrice! - trade.entryPrice);
-        trade.profitLossCurrency = trade.profitLossPoints * trade.size;
+        const move = direction * (trade.exitPrice! - trade.entryPrice);
+        const rate = conversionRate(instrument, currency, trade.exitPrice!);
+        trade.profitLossPoints = move / point;
+        trade.profitLossCurrency = move * trade.size * rate;
 
         // Update capital
         currentCapital += trade.profitLossCurrency;
@@ -127,31 +171,12 @@ export async function runSimulation(config: SimulationConfig): Promise<Simulatio
       continue; // Max positions reached
     }
 
-    // Build market context for current candle window
-    // Use last 50 candles (or less if not enough data)
-    const lookback = 50;
-    const startIdx = Math.max(0, i - lookback + 1);
-    const candleWindow = config.candles.slice(startIdx, i + 1);
-
-    if (candleWindow.length < 5) {
+    // Market context for the last 50 candles
+    if (engine.candles.length < 5) {
       continue; // Not enough data yet
     }
 
-    // Build context
-    const rawData: RawMarketData = {
-      candles: candleWindow.map((c) => ({
-        open: c.open,
-        high: c.high,
-        low: c.low,
-        close: c.close,
-        volume: c.volume || 0,
-        time: c.time,
-      })),
-      previousDayHigh: config.previousDayHigh,
-      previousDayLow: config.previousDayLow,
-    };
-
-    const marketContext = buildMarketContext(rawData);
+    const marketContext = engine.context();
 
     // Run classifier
     const result = classifyMarket(marketContext);
@@ -166,30 +191,29 @@ export async function runSimulation(config: SimulationConfig): Promise<Simulatio
       }
 
       // Calculate position size based on risk
+      const entryPrice = currentCandle.close;
       const riskAmount = currentCapital * (config.riskConfig.riskPerTradePercent / 100);
-      const stopLossDistance = config.riskConfig.stopLossPoints;
-      const positionSize = Math.floor(riskAmount / stopLossDistance);
+      const stopLossDistance = config.riskConfig.stopLossPoints * point;
+      const rate = conversionRate(instrument, currency, entryPrice);
+      const units = riskAmount / (stopLossDistance * rate);
+      const positionSize = instrument ? roundUnits(units, instrument) : Math.floor(units);
 
       if (positionSize <= 0) {
         continue; // Not enough capital to risk
       }
 
       // Create trade
-      const entryPrice = currentCandle.close;
       const direction = result.signal.direction;
+      const sign = direction === 'bullish' ? 1 : -1;
+      const toPrice = (price: number) => (instrument ? roundToTick(price, instrument) : price);
 
-      const stopLoss =
-        direction === 'bullish'
-          ? entryPrice - config.riskConfig.stopLossPoints
-          : entryPrice + config.riskConfig.stopLossPoints;
+      const stopLoss = toPrice(entryPrice - sign * stopLossDistance);
 
       const takeProfit = config.riskConfig.takeProfitPoints
-        ? direction === 'bullish'
-          ? entryPrice + config.riskConfig.takeProfitPoints
-          : entryPrice - config.riskConfig.takeProfitPoints
+        ? toPrice(entryPrice + sign * config.riskConfig.takeProfitPoints * point)
         : direction === 'bullish'
-          ? config.previousDayHigh
-          : config.previousDayLow;
+          ? marketContext.previousDayHigh
+          : marketContext.previousDayLow;
 
       const trade: Trade = {
         id: tradeIdCounter++,
@@ -219,8 +243,10 @@ export async function runSimulation(config: SimulationConfig): Promise<Simulatio
     trade.exitReason = 'END_OF_DATA';
 
     const direction = trade.direction === 'bullish' ? 1 : -1;
-    trade.profitLossPoints = direction * (trade.exitPrice - trade.entryPrice);
-    trade.profitLossCurrency = trade.profitLossPoints * trade.size;
+    const move = direction * (trade.exitPrice - trade.entryPrice);
+    const rate = conversionRate(instrument, currency, trade.exitPrice);
+    trade.profitLossPoints = move / point;
+    trade.profitLossCurrency = move * trade.size * rate;
 
     currentCapital += trade.profitLossCurrency;
     trades.push(trade);
@@ -260,6 +286,20 @@ export async function runSimulation(config: SimulationConfig): Promise<Simulatio
   return result;
 }
 
+/**
+ * Quote → account currency rate at a price (1 without a symbol)
+ *
+ * @throws Error when the instrument's own price cannot convert its quote
+ */
+function conversionRate(instrument: Instrument | null, currency: string, price: number): number {
+  if (!instrument) return 1;
+  const rate = quoteToAccountRate(instrument, currency, { [instrument.symbol]: price });
+  if (rate === null) {
+    throw new Error(`No ${instrument.quoteCurrency}/${currency} rate for ${instrument.symbol}`);
+  }
+  return rate;
+}
+
 /**
  * Check if a trade should exit
  */
@@ -470,8 +510,10 @@ export function generateReport(result: SimulationResult): void {
   logger.info('⚙️  CONFIGURATION:');
   logger.info(`   Starting Capital: $${result.config.startingCapital.toLocaleString()}`);
   logger.info(`   Risk per Trade: ${result.config.riskConfig.riskPerTradePercent}%`);
-  logger.info(`   Stop Loss: ${result.config.riskConfig.stopLossPoints} points`);
-  logger.info(`   Take Profit: ${result.config.riskConfig.takeProfitPoints || 'Dynamic'} points`);
+  const unit = result.config.symbol ? 'pips' : 'points';
+  logger.info(`   Symbol: ${result.config.symbol || 'n/a (price units)'}`);
+  logger.info(`   Stop Loss: ${result.config.riskConfig.stopLossPoints} ${unit}`);
+  logger.info(`   Take Profit: ${result.config.riskConfig.takeProfitPoints || 'Dynamic'} ${unit}`);
   logger.info(`   Playbook Filter: ${result.config.playbookFilter || 'All'}`);
   logger.info(`   Data Points: ${result.config.candles.length} candles\n`);
 
@@ -1,3 +1,5 @@
+import { KeyLevels, RangeStats } from './detector';
+
 export type HTFTrend = 'bullish' | 'bearish' | 'neutral';
 export type Session = 'asian' | 'london' | 'ny';
 export type Direction = 'bullish' | 'bearish';
@@ -8,8 +10,37 @@ export interface LiquidityZone {
   swept: boolean;
 }
 
+// Swing-point break (detectMarketStructureShift) + short-term shift (detectMSS)
+export interface MarketStructure {
+  bos: boolean; // swing point broken with the HTF trend
+  mss: boolean; // swing point broken against the HTF trend
+  direction: Direction | null;
+  level: number | null; // swing level that was broken
+  shift: {
+    detected: boolean; // close beyond the last 10 bars' swing high/low
+    direction: Direction | null;
+    level: number | null;
+  };
+}
+
+export interface OrderBlockZone {
+  type: Direction;
+  high: number;
+  low: number;
+  level: number; // midpoint
+}
+
+export interface FairValueGap {
+  exists: boolean;
+  type: Direction | null;
+  high: number | null;
+  low: number | null;
+  unfilled: boolean;
+}
+
 export interface MarketContext {
   session: Session;
+  sessionWindows: string[]; // active calendar windows, e.g. "nyAmKillZone" (config/sessions.json)
   htfTrend: HTFTrend;
   price: number;
   high: number;
@@ -26,8 +57,15 @@ export interface MarketContext {
   liquidityZones: LiquidityZone[];
 
   // Structure
-  structureBreak: boolean; // break of structure?
+  structureBreak: boolean; // BOS, MSS or breaker block on the execution series
   breakDirection: 'bullish' | 'bearish' | null;
+  structure: MarketStructure;
+  orderBlocks: {
+    bullish: OrderBlockZone | null; // most recent bullish OB
+    bearish: OrderBlockZone | null; // most recent bearish OB
+    atPrice: OrderBlockZone | null; // OB containing the current price
+  };
+  fvg: FairValueGap; // 3-candle gap on the latest bars
 
   // Volume
   volumeSpike: boolean;
@@ -44,10 +82,15 @@ export interface MarketContext {
     respected: boolean;
   };
 
-  // Balance Zones
+  // Balance Zones (auction market theory)
   balanceZones: {
     inBalance: boolean;
     lvnDetected: boolean;
+    range: { high: number; low: number } | null; // recent balance range
+    transition: boolean; // balance → imbalance on the latest bars
+    transitionDirection: Direction | null;
+    imbalanceSize: number; // gap size of the latest bar (price points, 0 if none)
+    lvnLevels: number[]; // low volume node prices, low → high
   };
 
   // Volatility
@@ -56,6 +99,32 @@ export interface MarketContext {
   // Previous Day Levels
   previousDayHigh: number;
   previousDayLow: number;
+
+  // Key levels from candle history (PDH/PDL, weekly, session ranges, opens)
+  levels?: KeyLevels;
+
+  // ADR, share of ADR used today, session ranges vs their averages
+  ranges?: RangeStats;
+
+  // Asian/London range sweep (from the levels engine)
+  sessionSweep?: {
+    detected: boolean;
+    sweptLevel: number | null;
+    direction: 'high' | 'low' | null;
+    session: 'asian' | 'london' | null;
+  };
+
+  // Analysis time (ISO) — the last candle's time unless a clock is injected
+  timestamp?: string;
+
+  // Timeframes the detectors ran on
+  timeframes?: {
+    execution: string | null;
+    htf: string; // htfTrend + PO3 dealing range
+    htfSource: 'supplied' | 'resampled' | 'execution';
+    trendline: string; // Tori trendline
+    trendlineSource: 'supplied' | 'resampled' | 'execution';
+  };
 }
 
 // New: Action / Signal / Playbook Profile
@@ -68,8 +137,66 @@ export interface PlaybookSignal {
   session: Session;
 }
 
+// ═══════════════════════════════════════════════════════════════
+// Playbook evaluation trace
+// ═══════════════════════════════════════════════════════════════
+
+export type TraceValue = string | number | boolean | null;
+
+// One validation step of a playbook (ids match requiredConditions in playbooks.json)
+export interface ConditionTrace {
+  id: string; // e.g. "po3Zone"
+  label: string; // e.g. "PO3 Zone"
+  passed: boolean;
+  message: string; // human-readable outcome
+  observed: Record<string, TraceValue>; // values read from MarketContext
+  threshold?: Record<string, TraceValue>; // what the condition required
+}
+
+// A confidence modifier considered while scoring a playbook
+export interface ModifierTrace {
+  id: string; // e.g. "optimalOTE"
+  label: string;
+  delta: number; // points added when applied
+  applied: boolean;
+}
+
+export interface PlaybookTrace {
+  playbook: string; // config key, e.g. "NBB"
+  enabled: boolean;
+  passed: boolean;
+  rejectedBy: string | null; // id of the first failed condition, "minConfidence" or "disabled"
+  conditions: ConditionTrace[];
+  modifiers: ModifierTrace[];
+  baseConfidence: number | null;
+  confidence: number | null;
+  minConfidence: number | null;
+}
+
+export interface PlaybookEvaluation {
+  signal: PlaybookSignal | null;
+  trace: PlaybookTrace;
+}
+
+export type ClassifierMode = 'priority' | 'scoring';
+
+// A playbook that fired during a scoring-mode classification
+export interface RankedPlaybook {
+  name: string; // config key, e.g. "NBB"
+  priority: number;
+  signal: PlaybookSignal;
+}
+
 export interface ClassifierOutput {
   signal: PlaybookSignal | null;
   priority: number; // 1 = NBB, 2 = JadeCap, 3 = Tori, 4 = Fabio
   timestamp: Date;
+  traces?: PlaybookTrace[]; // one per playbook evaluated, in evaluation order
+
+  // Scoring mode only
+  mode?: ClassifierMode;
+  ranked?: RankedPlaybook[]; // every playbook that fired, best first
+  scores?: Record<string, number>; // 0-1 per enabled playbook (0 = did not fire)
+  primary?: string;
+  backup?: string;
 }
@@ -17,6 +17,7 @@ export interface LiquidityDetectorOutput {
 export interface SessionInfo {
   current: 'asian' | 'london' | 'ny';
   isActive: boolean;
+  windows?: string[]; // named calendar windows active at this time (e.g. "nyAmKillZone")
 }
 
 export interface VolumeProfile {
@@ -24,3 +25,32 @@ export interface VolumeProfile {
   spike: boolean;
   displacement: boolean;
 }
+
+export interface KeyLevels {
+  tradingDay: string | null; // current trading day (YYYY-MM-DD), null without candle times
+  previousDayHigh: number | null;
+  previousDayLow: number | null;
+  previousWeekHigh: number | null;
+  previousWeekLow: number | null;
+  asianHigh: number | null;
+  asianLow: number | null;
+  londonHigh: number | null;
+  londonLow: number | null;
+  midnightOpen: number | null; // 00:00 open in the trading-day time zone
+  weeklyOpen: number | null;
+}
+
+export interface SessionRangeStats {
+  range: number | null; // current trading day's session range (null if not traded yet)
+  average: number | null; // average over the ADR days the session traded
+  ratio: number | null; // range / average
+}
+
+export interface RangeStats {
+  adr: number | null; // average daily range of the last adrPeriod completed trading days
+  adrDays: number; // completed days in the average
+  todayRange: number | null; // current trading day's high − low so far
+  adrUsedPct: number | null; // todayRange / adr (1.2 = 120%)
+  atr: number | null; // execution timeframe ATR(14)
+  sessions: Record<'asian' | 'london' | 'ny', SessionRangeStats>;
+}
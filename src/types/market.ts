@@ -1,3 +1,5 @@
+import { KeyLevels, RangeStats } from './detector';
+
 export interface RawCandle {
   open: number;
   high: number;
@@ -8,7 +10,18 @@ export interface RawCandle {
 }
 
 export interface RawMarketData {
-  candles: RawCandle[];
-  previousDayHigh: number;
-  previousDayLow: number;
+  candles: RawCandle[]; // execution timeframe
+
+  // Explicit PDH/PDL override the levels engine
+  previousDayHigh?: number;
+  previousDayLow?: number;
+
+  // Precomputed key levels (e.g. from a longer history in backtests)
+  levels?: KeyLevels;
+  ranges?: RangeStats; // ADR / session ranges, likewise
+
+  // Multi-timeframe (resampled from candles when missing)
+  timeframe?: string; // execution timeframe, e.g. "15m"
+  htfCandles?: RawCandle[]; // HTF bias + PO3 dealing range (e.g. 4H / Daily)
+  candles4H?: RawCandle[]; // Tori trendline
 }
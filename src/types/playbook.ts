@@ -12,3 +12,62 @@ export interface ClassifierResult {
   priority: number;
   timestamp: Date;
 }
+
+// ═══════════════════════════════════════════════════════════════
+// Declarative (rule-based) playbooks — config/playbooks.json "rules"
+// ═══════════════════════════════════════════════════════════════
+
+export type RuleOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in' // field value is one of value[]
+  | 'includes' // field (array) contains value
+  | 'exists'; // field is not null/undefined (value: true) or is (value: false)
+
+export type RuleScalar = string | number | boolean | null;
+
+// Plain value, list (for "in"), or a value per trade direction
+export type RuleValue =
+  | RuleScalar
+  | RuleScalar[]
+  | { bullish: RuleScalar | RuleScalar[]; bearish: RuleScalar | RuleScalar[] };
+
+// One comparison against a MarketContext field (dotted path, e.g. "fvg.type")
+export interface RulePredicate {
+  field: string;
+  op: RuleOperator;
+  value?: RuleValue;
+}
+
+// A predicate, or all/any of a group of predicates
+export type RuleExpression = RulePredicate | { all: RuleExpression[] } | { any: RuleExpression[] };
+
+export type RuleCondition = RuleExpression & {
+  id: string; // trace id (listed in requiredConditions)
+  label: string;
+};
+
+// Where the trade direction comes from; first source yielding bullish/bearish wins
+export interface RuleDirectionSource {
+  field: string;
+  map?: Record<string, 'bullish' | 'bearish' | null>; // e.g. { "low": "bullish" }
+}
+
+export interface RuleModifier {
+  id: string;
+  label: string;
+  delta: number;
+  when: RuleExpression;
+}
+
+export interface RulePlaybookDefinition {
+  signalName?: string; // PlaybookSignal.playbookName (defaults to the config key)
+  direction: RuleDirectionSource[];
+  conditions: RuleCondition[];
+  modifiers?: RuleModifier[];
+  tpLogic: string | { bullish: string; bearish: string };
+}
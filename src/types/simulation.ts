@@ -22,11 +22,11 @@ export interface SimulationConfig {
   /** Historical candle data to simulate on */
   candles: Candle[];
 
-  /** Previous day high for context */
-  previousDayHigh: number;
+  /** Fixed previous day high (omit to derive PDH per candle from history) */
+  previousDayHigh?: number;
 
-  /** Previous day low for context */
-  previousDayLow: number;
+  /** Fixed previous day low (omit to derive PDL per candle from history) */
+  previousDayLow?: number;
 
   /** Playbook filter - run specific playbook(s) or 'all' */
   playbookFilter?: 'NBB' | 'Tori' | 'Fabio' | 'JadeCap' | 'all';
@@ -37,6 +37,12 @@ export interface SimulationConfig {
   /** Starting capital */
   startingCapital: number;
 
+  /** Symbol traded: points become its pips, sizes its lot steps (omit for raw price units) */
+  symbol?: string;
+
+  /** Currency of startingCapital, P&L is converted into it (default USD) */
+  accountCurrency?: string;
+
   /** Enable verbose logging */
   verbose?: boolean;
 }
@@ -45,7 +51,7 @@ export interface RiskConfig {
   /** Risk per trade as percentage of capital (e.g., 2 = 2%) */
   riskPerTradePercent: number;
 
-  /** Stop loss distance in points */
+  /** Stop loss distance in points (pips when config.symbol is set) */
   stopLossPoints: number;
 
   /** Take profit distance in points (if using fixed TP) */
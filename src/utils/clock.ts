@@ -0,0 +1,78 @@
+/**
+ * ═══════════════════════════════════════════════════════════════
+ * CLOCK
+ * ═══════════════════════════════════════════════════════════════
+ * Injectable time source for the analysis pipeline.
+ *
+ * Session detection, late-session penalties and signal timestamps
+ * read the time from a Clock instead of the wall clock, so replays,
+ * CSV backtests and webhook payloads with old bars are analysed as
+ * of the bar itself.
+ *
+ * Default: the last candle's time, falling back to now when the
+ * candles carry no usable timestamp.
+ */
+
+export type Clock = () => Date;
+
+/**
+ * Wall clock (live trading)
+ */
+export const systemClock: Clock = () => new Date();
+
+/**
+ * Clock frozen at a given instant (replays, tests)
+ */
+export function fixedClock(at: Date | string | number): Clock {
+  const date = at instanceof Date ? new Date(at.getTime()) : parseCandleTime(at);
+  if (!date) {
+    throw new Error(`Invalid clock time: ${String(at)}`);
+  }
+  return () => new Date(date.getTime());
+}
+
+/**
+ * Clock driven by the last candle's timestamp
+ * Falls back to the system clock if the candle has no valid time.
+ */
+export function candleClock(candles: Array<{ time?: unknown }>): Clock {
+  const last = candles[candles.length - 1];
+  const date = last ? parseCandleTime(last.time) : null;
+  return date ? fixedClock(date) : systemClock;
+}
+
+/**
+ * Clock for downstream stages, read from MarketContext.timestamp
+ * Falls back to the system clock for contexts built without one.
+ */
+export function contextClock(context: { timestamp?: string }): Clock {
+  return context.timestamp ? fixedClock(context.timestamp) : systemClock;
+}
+
+/**
+ * Parse a candle time into a Date
+ * Accepts unix seconds, unix milliseconds, numeric strings and ISO strings.
+ * @returns Date or null if the value is missing or invalid
+ */
+export function parseCandleTime(time: unknown): Date | null {
+  if (time === undefined || time === null || time === '') return null;
+
+  let ms: number;
+  if (typeof time === 'number') {
+    ms = toMillis(time);
+  } else if (typeof time === 'string') {
+    const numeric = Number(time);
+    ms = Number.isFinite(numeric) ? toMillis(numeric) : Date.parse(time);
+  } else if (time instanceof Date) {
+    ms = time.getTime();
+  } else {
+    return null;
+  }
+
+  return Number.isFinite(ms) ? new Date(ms) : null;
+}
+
+// Unix seconds are < 1e12 until the year 33658; anything larger is milliseconds
+function toMillis(value: number): number {
+  return value < 1e12 ? value * 1000 : value;
+}